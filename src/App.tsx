@@ -4,10 +4,23 @@ import { Layout } from './components/layout/Layout';
 import { Dashboard } from './pages/Dashboard';
 import { DocumentList } from './pages/DocumentList';
 import { CreateDocument } from './pages/CreateDocument';
+import { EditDocument } from './pages/EditDocument';
 import { DocumentDetail } from './pages/DocumentDetail';
 import { InventoryDashboard } from './pages/InventoryDashboard';
 import { ProductCatalog } from './pages/ProductCatalog';
 import { StockMovement } from './pages/StockMovement';
+import { UnitsOfMeasure } from './pages/UnitsOfMeasure';
+import { ApprovalChains } from './pages/ApprovalChains';
+import { ApproverSettings } from './pages/ApproverSettings';
+import { AttachmentRules } from './pages/AttachmentRules';
+import { ExchangeRates } from './pages/ExchangeRates';
+import { MatchSettings } from './pages/MatchSettings';
+import { OpenPurchaseOrders } from './pages/OpenPurchaseOrders';
+import { Reports } from './pages/Reports';
+import { Shipments } from './pages/Shipments';
+import { ShipmentDetail } from './pages/ShipmentDetail';
+import { Suppliers } from './pages/Suppliers';
+import { SupplierScorecard } from './pages/SupplierScorecard';
 import { Login } from './pages/Login';
 import { Register } from './pages/Register';
 
@@ -16,6 +29,7 @@ function AppContent() {
   const [currentPage, setCurrentPage] = useState('dashboard');
   const [authMode, setAuthMode] = useState<'login' | 'register'>('login');
   const [selectedDocumentId, setSelectedDocumentId] = useState<string | null>(null);
+  const [selectedShipmentId, setSelectedShipmentId] = useState<string | null>(null);
 
   if (loading) {
     return (
@@ -32,7 +46,30 @@ function AppContent() {
     return <Login onRegisterClick={() => setAuthMode('register')} />;
   }
 
+  const viewDocument = (id: string) => {
+    setSelectedDocumentId(id);
+    setCurrentPage('document-detail');
+  };
+
+  const viewShipment = (id: string) => {
+    setSelectedShipmentId(id);
+    setCurrentPage('shipment-detail');
+  };
+
   const renderPage = () => {
+    if (currentPage === 'shipment-detail' && selectedShipmentId) {
+      return (
+        <ShipmentDetail
+          shipmentId={selectedShipmentId}
+          onBack={() => {
+            setCurrentPage('shipments');
+            setSelectedShipmentId(null);
+          }}
+          onViewDocument={viewDocument}
+        />
+      );
+    }
+
     if (currentPage === 'document-detail' && selectedDocumentId) {
       return (
         <DocumentDetail
@@ -41,6 +78,17 @@ function AppContent() {
             setCurrentPage('documents');
             setSelectedDocumentId(null);
           }}
+          onEdit={() => setCurrentPage('edit-document')}
+        />
+      );
+    }
+
+    if (currentPage === 'edit-document' && selectedDocumentId) {
+      return (
+        <EditDocument
+          documentId={selectedDocumentId}
+          onBack={() => setCurrentPage('document-detail')}
+          onSuccess={() => setCurrentPage('document-detail')}
         />
       );
     }
@@ -59,32 +107,44 @@ function AppContent() {
 
     switch (currentPage) {
       case 'dashboard':
-        return <Dashboard />;
+        return <Dashboard onViewDocument={viewDocument} />;
       case 'documents':
         return (
           <DocumentList
             onCreateNew={() => setCurrentPage('create-document')}
-            onViewDocument={(id) => {
-              setSelectedDocumentId(id);
-              setCurrentPage('document-detail');
-            }}
+            onViewDocument={viewDocument}
           />
         );
+      case 'shipments':
+        return <Shipments onViewShipment={viewShipment} />;
+      case 'open-purchase-orders':
+        return <OpenPurchaseOrders />;
+      case 'suppliers':
+        return <Suppliers />;
+      case 'supplier-scorecard':
+        return <SupplierScorecard />;
       case 'inventory':
         return <InventoryDashboard />;
       case 'products':
         return <ProductCatalog />;
       case 'stock-movements':
         return <StockMovement />;
+      case 'units-of-measure':
+        return <UnitsOfMeasure />;
+      case 'approval-chains':
+        return <ApprovalChains />;
+      case 'approvers':
+        return <ApproverSettings />;
+      case 'attachment-rules':
+        return <AttachmentRules />;
+      case 'exchange-rates':
+        return <ExchangeRates />;
+      case 'match-settings':
+        return <MatchSettings />;
       case 'reports':
-        return (
-          <div className="p-8 max-w-7xl mx-auto">
-            <h1 className="text-2xl font-semibold text-gray-900">Reports</h1>
-            <p className="text-sm text-gray-500 mt-1">Analytics and reporting features coming soon</p>
-          </div>
-        );
+        return <Reports />;
       default:
-        return <Dashboard />;
+        return <Dashboard onViewDocument={viewDocument} />;
     }
   };
 
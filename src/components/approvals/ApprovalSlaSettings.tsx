@@ -0,0 +1,99 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '../../lib/supabase';
+import { Button } from '../ui/Button';
+import { Input } from '../ui/Input';
+import { PRIORITIES, loadApprovalSlaHours } from '../../lib/approvalKpis';
+
+export function ApprovalSlaSettings() {
+  const [form, setForm] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  useEffect(() => {
+    loadSla();
+  }, []);
+
+  const loadSla = async () => {
+    try {
+      const sla = await loadApprovalSlaHours();
+      setForm(Object.fromEntries(PRIORITIES.map((priority) => [priority, String(sla[priority])])));
+    } catch (error) {
+      console.error('Error loading approval SLAs:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSave = async () => {
+    const hours = Object.fromEntries(PRIORITIES.map((priority) => [priority, parseFloat(form[priority])]));
+
+    if (PRIORITIES.some((priority) => !(hours[priority] > 0))) {
+      setFormError('Each SLA must be a positive number of hours');
+      return;
+    }
+
+    setSaving(true);
+    setFormError(null);
+    setSaved(false);
+
+    try {
+      const { error } = await supabase.rpc('set_approval_sla_hours', { p_hours: hours });
+
+      if (error) throw error;
+      setSaved(true);
+    } catch (error) {
+      console.error('Error saving approval SLAs:', error);
+      setFormError('Failed to save SLAs. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-100 p-6">
+      <h2 className="text-lg font-semibold text-gray-900 mb-1">Approval SLAs</h2>
+      <p className="text-sm text-gray-500 mb-4">
+        Hours a document may take from submission to decision before it counts as a breach on the dashboard
+      </p>
+
+      {loading ? (
+        <p className="text-sm text-gray-500">Loading SLAs...</p>
+      ) : (
+        <>
+          {formError && (
+            <div className="p-3 bg-red-50 border border-red-100 rounded-lg mb-4">
+              <p className="text-sm text-red-600">{formError}</p>
+            </div>
+          )}
+          {saved && (
+            <div className="p-3 bg-green-50 border border-green-100 rounded-lg mb-4">
+              <p className="text-sm text-green-700">SLAs saved</p>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {PRIORITIES.map((priority) => (
+              <Input
+                key={priority}
+                label={`${priority} (hours)`}
+                type="number"
+                step="1"
+                min="1"
+                value={form[priority] || ''}
+                onChange={(e) => setForm({ ...form, [priority]: e.target.value })}
+              />
+            ))}
+          </div>
+
+          <div className="flex items-center gap-3 mt-6">
+            <Button onClick={handleSave} disabled={saving}>
+              {saving ? 'Saving...' : 'Save SLAs'}
+            </Button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
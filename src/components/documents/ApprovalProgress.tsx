@@ -0,0 +1,80 @@
+import { CheckCircle, Circle, Clock, MinusCircle, XCircle } from 'lucide-react';
+import { Badge } from '../ui/Badge';
+import { ApprovalStep } from '../../lib/approvals';
+
+interface ApprovalProgressProps {
+  steps: ApprovalStep[];
+}
+
+export function ApprovalProgress({ steps }: ApprovalProgressProps) {
+  const orders = Array.from(new Set(steps.map((step) => step.step_order))).sort((a, b) => a - b);
+
+  const getStepIcon = (status: string) => {
+    switch (status) {
+      case 'Approved':
+        return <CheckCircle className="w-4 h-4 text-green-600" strokeWidth={1.5} />;
+      case 'Rejected':
+        return <XCircle className="w-4 h-4 text-red-600" strokeWidth={1.5} />;
+      case 'Pending':
+        return <Clock className="w-4 h-4 text-yellow-600" strokeWidth={1.5} />;
+      case 'Skipped':
+        return <MinusCircle className="w-4 h-4 text-gray-400" strokeWidth={1.5} />;
+      default:
+        return <Circle className="w-4 h-4 text-gray-300" strokeWidth={1.5} />;
+    }
+  };
+
+  const getStepBadge = (status: string) => {
+    const variants: Record<string, 'success' | 'warning' | 'danger' | 'info' | 'neutral'> = {
+      Waiting: 'neutral',
+      Pending: 'warning',
+      Approved: 'success',
+      Rejected: 'danger',
+      Skipped: 'neutral',
+    };
+    return <Badge variant={variants[status] || 'neutral'}>{status}</Badge>;
+  };
+
+  if (steps.length === 0) {
+    return <p className="text-sm text-gray-500 text-center py-4">Not submitted for approval yet</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {orders.map((order) => {
+        const group = steps.filter((step) => step.step_order === order);
+        return (
+          <div key={order} className="flex gap-4">
+            <div className="w-16 flex-shrink-0 pt-3">
+              <p className="text-xs font-medium text-gray-500">Step {order}</p>
+              {group.length > 1 && <p className="text-xs text-gray-400">Parallel</p>}
+            </div>
+            <div className="flex-1 space-y-2">
+              {group.map((step) => (
+                <div key={step.id} className="flex items-start justify-between p-3 rounded-lg border border-gray-100">
+                  <div className="flex items-start gap-3">
+                    <div className="mt-0.5">{getStepIcon(step.status)}</div>
+                    <div>
+                      <p className="text-sm font-medium text-gray-900">{step.name}</p>
+                      <p className="text-xs text-gray-500">
+                        {step.approver_id ? step.approver_name || 'Assigned approver' : step.approver_role}
+                        {step.approver_department && ` • ${step.approver_department}`}
+                      </p>
+                      {step.decided_at && (
+                        <p className="text-xs text-gray-500 mt-1">
+                          {step.decided_by_name || 'Unknown'} • {new Date(step.decided_at).toLocaleString()}
+                        </p>
+                      )}
+                      {step.remarks && <p className="text-sm text-gray-600 mt-1">{step.remarks}</p>}
+                    </div>
+                  </div>
+                  {getStepBadge(step.status)}
+                </div>
+              ))}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
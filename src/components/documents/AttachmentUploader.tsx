@@ -0,0 +1,136 @@
+import { useRef, useState } from 'react';
+import { Upload, X, FileText, CheckCircle, AlertCircle } from 'lucide-react';
+import { PendingAttachment, formatFileSize, validateAttachment } from '../../lib/attachments';
+import { Select } from '../ui/Select';
+
+interface AttachmentUploaderProps {
+  uploads: PendingAttachment[];
+  onFilesAdded: (files: File[], category: string | null) => void;
+  onRemove?: (key: string) => void;
+  disabled?: boolean;
+  categories?: string[];
+}
+
+export function AttachmentUploader({ uploads, onFilesAdded, onRemove, disabled, categories = [] }: AttachmentUploaderProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [dragging, setDragging] = useState(false);
+  const [category, setCategory] = useState('');
+  // The category list can change underneath (e.g. a different document type is picked)
+  const selectedCategory = categories.includes(category) ? category : '';
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const addFiles = (fileList: FileList | null) => {
+    if (!fileList || disabled) return;
+
+    const files = Array.from(fileList);
+    const rejected = files.map(validateAttachment).filter((error): error is string => error !== null);
+    setErrors(rejected);
+
+    const accepted = files.filter((file) => validateAttachment(file) === null);
+    if (accepted.length > 0) onFilesAdded(accepted, selectedCategory || null);
+
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setDragging(false);
+    addFiles(e.dataTransfer.files);
+  };
+
+  return (
+    <div>
+      {categories.length > 0 && (
+        <div className="mb-3 max-w-xs">
+          <Select
+            label="Category"
+            value={selectedCategory}
+            onChange={(e) => setCategory(e.target.value)}
+            options={[
+              { value: '', label: 'Uncategorised' },
+              ...categories.map((c) => ({ value: c, label: c })),
+            ]}
+            disabled={disabled}
+          />
+        </div>
+      )}
+
+      <div
+        onClick={() => fileInputRef.current?.click()}
+        onDragOver={(e) => {
+          e.preventDefault();
+          setDragging(true);
+        }}
+        onDragLeave={() => setDragging(false)}
+        onDrop={handleDrop}
+        className={`border-2 border-dashed rounded-lg p-8 text-center transition-colors ${
+          disabled ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer hover:border-gray-300'
+        } ${dragging ? 'border-gray-400 bg-gray-50' : 'border-gray-200'}`}
+      >
+        <Upload className="w-8 h-8 text-gray-400 mx-auto mb-3" strokeWidth={1.5} />
+        <p className="text-sm text-gray-600 mb-1">Drag and drop files here, or click to browse</p>
+        <p className="text-xs text-gray-400">PDF, PNG, JPG up to 10MB</p>
+        <input
+          ref={fileInputRef}
+          type="file"
+          multiple
+          accept=".pdf,.png,.jpg,.jpeg,application/pdf,image/png,image/jpeg"
+          onChange={(e) => addFiles(e.target.files)}
+          className="hidden"
+        />
+      </div>
+
+      {errors.length > 0 && (
+        <div className="p-3 bg-red-50 border border-red-100 rounded-lg mt-3">
+          {errors.map((error) => (
+            <p key={error} className="text-sm text-red-600">{error}</p>
+          ))}
+        </div>
+      )}
+
+      {uploads.length > 0 && (
+        <div className="mt-3 space-y-2">
+          {uploads.map((upload) => (
+            <div key={upload.key} className="flex items-center gap-3 p-3 rounded-lg border border-gray-100">
+              <FileText className="w-4 h-4 text-gray-400 flex-shrink-0" strokeWidth={1.5} />
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center justify-between gap-2">
+                  <p className="text-sm text-gray-900 truncate">
+                    {upload.file.name}
+                    {upload.category && <span className="text-gray-500"> • {upload.category}</span>}
+                  </p>
+                  <p className="text-xs text-gray-500 flex-shrink-0">{formatFileSize(upload.file.size)}</p>
+                </div>
+                {upload.status === 'uploading' && (
+                  <div className="w-full h-1.5 bg-gray-100 rounded-full mt-2 overflow-hidden">
+                    <div className="h-full bg-gray-900 transition-all" style={{ width: `${upload.progress}%` }} />
+                  </div>
+                )}
+                {upload.status === 'error' && (
+                  <p className="text-xs text-red-600 mt-1">{upload.error || 'Upload failed'}</p>
+                )}
+              </div>
+              {upload.status === 'completed' && (
+                <CheckCircle className="w-4 h-4 text-green-600" strokeWidth={1.5} />
+              )}
+              {upload.status === 'error' && (
+                <AlertCircle className="w-4 h-4 text-red-600" strokeWidth={1.5} />
+              )}
+              {upload.status === 'pending' && onRemove && (
+                <button
+                  type="button"
+                  onClick={() => onRemove(upload.key)}
+                  className="p-1 text-gray-400 hover:text-gray-700 transition-colors"
+                >
+                  <X className="w-4 h-4" strokeWidth={1.5} />
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,274 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { CheckCircle, Circle, Download, Eye, FileText, Image as ImageIcon, Trash2, X } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { useAuth } from '../../contexts/AuthContext';
+import { Button } from '../ui/Button';
+import { Select } from '../ui/Select';
+import { AttachmentUploader } from './AttachmentUploader';
+import {
+  AttachmentRequirement,
+  DocumentFile,
+  PendingAttachment,
+  createPendingAttachment,
+  deleteAttachment,
+  formatFileSize,
+  getAttachmentUrl,
+  getMissingCategories,
+  isPreviewable,
+  loadAttachmentRequirements,
+  setAttachmentCategory,
+  uploadPendingAttachments,
+} from '../../lib/attachments';
+
+interface AttachmentsPanelProps {
+  documentId: string;
+  documentType: string;
+  canUpload: boolean;
+  isDraft: boolean;
+  onChanged: () => void;
+  onMissingChange?: (missing: string[]) => void;
+}
+
+interface Preview {
+  file: DocumentFile;
+  url: string;
+}
+
+export function AttachmentsPanel({
+  documentId,
+  documentType,
+  canUpload,
+  isDraft,
+  onChanged,
+  onMissingChange,
+}: AttachmentsPanelProps) {
+  const { user } = useAuth();
+  const [files, setFiles] = useState<DocumentFile[]>([]);
+  const [requirements, setRequirements] = useState<AttachmentRequirement[]>([]);
+  const [uploads, setUploads] = useState<PendingAttachment[]>([]);
+  const [uploading, setUploading] = useState(false);
+  const [preview, setPreview] = useState<Preview | null>(null);
+
+  const loadFiles = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('document_files')
+        .select(`
+          *,
+          users_profile(full_name)
+        `)
+        .eq('document_id', documentId)
+        .order('uploaded_at', { ascending: false });
+
+      if (error) throw error;
+
+      const filesWithNames = data?.map((file) => ({
+        ...file,
+        uploader_name: file.users_profile?.full_name || 'Unknown',
+      })) || [];
+
+      setFiles(filesWithNames);
+    } catch (error) {
+      console.error('Error loading attachments:', error);
+    }
+  }, [documentId]);
+
+  useEffect(() => {
+    loadFiles();
+  }, [loadFiles]);
+
+  useEffect(() => {
+    loadAttachmentRequirements(documentType)
+      .then(setRequirements)
+      .catch((error) => console.error('Error loading attachment requirements:', error));
+  }, [documentType]);
+
+  const missing = useMemo(
+    () => getMissingCategories(requirements, documentType, files),
+    [requirements, documentType, files]
+  );
+
+  useEffect(() => {
+    onMissingChange?.(missing);
+  }, [missing, onMissingChange]);
+
+  const categories = Array.from(
+    new Set([...requirements.map((r) => r.category), ...files.map((f) => f.category).filter((c): c is string => !!c)])
+  );
+
+  const handleFilesAdded = async (added: File[], category: string | null) => {
+    const pending = added.map((file) => createPendingAttachment(file, category));
+    setUploads((prev) => [...prev, ...pending]);
+    setUploading(true);
+
+    await uploadPendingAttachments(documentId, pending, user?.id, (key, changes) => {
+      setUploads((prev) => prev.map((u) => (u.key === key ? { ...u, ...changes } : u)));
+    });
+
+    setUploading(false);
+    // Finished uploads now show in the list below; keep failures visible
+    setUploads((prev) => prev.filter((u) => u.status === 'error'));
+    await loadFiles();
+    onChanged();
+  };
+
+  const handlePreview = async (file: DocumentFile) => {
+    try {
+      setPreview({ file, url: await getAttachmentUrl(file) });
+    } catch (error) {
+      console.error('Error previewing attachment:', error);
+      alert('Failed to open preview. Please try again.');
+    }
+  };
+
+  const handleDownload = async (file: DocumentFile) => {
+    try {
+      // The signed URL is served as an attachment, so this downloads without leaving the page
+      window.location.assign(await getAttachmentUrl(file, true));
+
+      await supabase.from('document_history').insert({
+        document_id: documentId,
+        action_type: 'File Downloaded',
+        performed_by: user?.id,
+        remarks: file.file_name,
+      });
+      onChanged();
+    } catch (error) {
+      console.error('Error downloading attachment:', error);
+      alert('Failed to download file. Please try again.');
+    }
+  };
+
+  const handleCategoryChange = async (file: DocumentFile, category: string) => {
+    try {
+      await setAttachmentCategory(file, category || null);
+      await loadFiles();
+    } catch (error) {
+      console.error('Error updating attachment category:', error);
+      const { code, message } = error as { code?: string; message?: string };
+      alert(code === 'P0001' && message ? message : 'Failed to update file category. Please try again.');
+    }
+  };
+
+  const handleDelete = async (file: DocumentFile) => {
+    if (!confirm(`Delete ${file.file_name}?`)) return;
+
+    try {
+      await deleteAttachment(file);
+      await loadFiles();
+      onChanged();
+    } catch (error) {
+      console.error('Error deleting attachment:', error);
+      alert('Failed to delete file. Please try again.');
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {requirements.length > 0 && (
+        <div className="p-4 bg-gray-50 rounded-lg">
+          <p className="text-sm font-medium text-gray-900 mb-2">Required for {documentType}</p>
+          <div className="space-y-1.5">
+            {requirements.map((requirement) => {
+              const done = !missing.includes(requirement.category);
+              return (
+                <div key={requirement.id} className="flex items-start gap-2">
+                  {done ? (
+                    <CheckCircle className="w-4 h-4 text-green-600 mt-0.5 flex-shrink-0" strokeWidth={1.5} />
+                  ) : (
+                    <Circle className="w-4 h-4 text-gray-400 mt-0.5 flex-shrink-0" strokeWidth={1.5} />
+                  )}
+                  <div>
+                    <p className={`text-sm ${done ? 'text-gray-900' : 'text-gray-600'}`}>{requirement.category}</p>
+                    {requirement.description && (
+                      <p className="text-xs text-gray-500">{requirement.description}</p>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {files.length === 0 ? (
+        <p className="text-sm text-gray-500 text-center py-4">No attachments</p>
+      ) : (
+        <div className="space-y-2">
+          {files.map((file) => {
+            const Icon = file.file_type?.startsWith('image/') ? ImageIcon : FileText;
+            return (
+              <div key={file.id} className="flex items-center gap-3 p-3 rounded-lg border border-gray-100">
+                <Icon className="w-4 h-4 text-gray-400 flex-shrink-0" strokeWidth={1.5} />
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium text-gray-900 truncate">{file.file_name}</p>
+                  <p className="text-xs text-gray-500">
+                    {formatFileSize(file.file_size)} • {file.uploader_name} • {new Date(file.uploaded_at).toLocaleString()}
+                  </p>
+                </div>
+                {isDraft && (canUpload || file.uploaded_by === user?.id) ? (
+                  <div className="w-44 flex-shrink-0">
+                    <Select
+                      value={file.category || ''}
+                      onChange={(e) => handleCategoryChange(file, e.target.value)}
+                      options={[
+                        { value: '', label: 'Uncategorised' },
+                        ...categories.map((c) => ({ value: c, label: c })),
+                      ]}
+                    />
+                  </div>
+                ) : (
+                  file.category && <p className="text-xs text-gray-500 flex-shrink-0">{file.category}</p>
+                )}
+                <div className="flex items-center gap-1">
+                  {isPreviewable(file.file_type) && (
+                    <Button variant="ghost" size="sm" onClick={() => handlePreview(file)}>
+                      <Eye className="w-4 h-4" strokeWidth={1.5} />
+                    </Button>
+                  )}
+                  <Button variant="ghost" size="sm" onClick={() => handleDownload(file)}>
+                    <Download className="w-4 h-4" strokeWidth={1.5} />
+                  </Button>
+                  {isDraft && file.uploaded_by === user?.id && (
+                    <Button variant="ghost" size="sm" onClick={() => handleDelete(file)}>
+                      <Trash2 className="w-4 h-4" strokeWidth={1.5} />
+                    </Button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {canUpload && (
+        <AttachmentUploader
+          uploads={uploads}
+          onFilesAdded={handleFilesAdded}
+          disabled={uploading}
+          categories={categories}
+        />
+      )}
+
+      {preview && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-xl p-6 max-w-4xl w-full mx-4 max-h-[90vh] flex flex-col">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-semibold text-gray-900 truncate">{preview.file.file_name}</h3>
+              <button onClick={() => setPreview(null)} className="p-1 text-gray-400 hover:text-gray-700 transition-colors">
+                <X className="w-5 h-5" strokeWidth={1.5} />
+              </button>
+            </div>
+            <div className="flex-1 min-h-0 overflow-auto">
+              {preview.file.file_type === 'application/pdf' ? (
+                <iframe src={preview.url} title={preview.file.file_name} className="w-full h-[70vh] rounded-lg border border-gray-100" />
+              ) : (
+                <img src={preview.url} alt={preview.file.file_name} className="max-w-full mx-auto rounded-lg" />
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,359 @@
+import { ReactNode, useEffect, useState } from 'react';
+import { supabase } from '../../lib/supabase';
+import { useAuth } from '../../contexts/AuthContext';
+import { Button } from '../ui/Button';
+import { Input } from '../ui/Input';
+import { Select } from '../ui/Select';
+import { LineItemsEditor } from './LineItemsEditor';
+import { SupplierPicker } from '../suppliers/SupplierPicker';
+import { LineItemDraft, LineProduct, createEmptyLine, validateLines } from '../../lib/documentLines';
+import { APPROVED_STATUSES, CURRENCIES, DOCUMENT_TYPES, isStockDocument, referencesPurchaseOrder } from '../../lib/documents';
+import { Supplier, loadSuppliers } from '../../lib/suppliers';
+
+export interface DocumentFormValues {
+  documentType: string;
+  documentNumber: string;
+  supplierId: string;
+  supplierName: string;
+  documentDate: string;
+  currency: string;
+  priority: string;
+  approverId: string;
+  warehouseId: string;
+  purchaseOrderId: string;
+  remarks: string;
+}
+
+export interface WarehouseOption {
+  id: string;
+  code: string;
+  name: string;
+}
+
+export interface ApproverOption {
+  id: string;
+  full_name: string;
+  department: string;
+}
+
+export interface PurchaseOrderOption {
+  id: string;
+  document_number: string;
+  supplier_id: string | null;
+  status: string;
+}
+
+export interface DocumentFormOptions {
+  products: LineProduct[];
+  warehouses: WarehouseOption[];
+  approvers: ApproverOption[];
+  suppliers: Supplier[];
+  purchaseOrders: PurchaseOrderOption[];
+}
+
+interface ProductOption extends LineProduct {
+  is_active: boolean;
+}
+
+interface DocumentFormProps {
+  initialValues?: DocumentFormValues;
+  initialLines?: LineItemDraft[];
+  submitLabel: string;
+  submittingLabel: string;
+  onSubmit: (values: DocumentFormValues, lines: LineItemDraft[], options: DocumentFormOptions) => Promise<void>;
+  onCancel: () => void;
+  // A function child gets the current values, e.g. to follow the selected document type
+  children?: ReactNode | ((values: DocumentFormValues) => ReactNode);
+}
+
+export function DocumentForm({
+  initialValues,
+  initialLines,
+  submitLabel,
+  submittingLabel,
+  onSubmit,
+  onCancel,
+  children,
+}: DocumentFormProps) {
+  const { user } = useAuth();
+  const [loading, setLoading] = useState(false);
+  const [products, setProducts] = useState<ProductOption[]>([]);
+  const [warehouses, setWarehouses] = useState<WarehouseOption[]>([]);
+  const [approvers, setApprovers] = useState<ApproverOption[]>([]);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [purchaseOrders, setPurchaseOrders] = useState<PurchaseOrderOption[]>([]);
+  const [supplierError, setSupplierError] = useState<string | null>(null);
+  const [lines, setLines] = useState<LineItemDraft[]>(initialLines || [createEmptyLine()]);
+  const [linesError, setLinesError] = useState<string | null>(null);
+  const [formData, setFormData] = useState<DocumentFormValues>(
+    initialValues || {
+      documentType: 'Purchase Order',
+      documentNumber: '',
+      supplierId: '',
+      supplierName: '',
+      documentDate: new Date().toISOString().split('T')[0],
+      currency: 'USD',
+      priority: 'Medium',
+      approverId: '',
+      warehouseId: '',
+      purchaseOrderId: '',
+      remarks: '',
+    }
+  );
+
+  useEffect(() => {
+    loadProducts();
+    loadWarehouses();
+    loadApprovers();
+    loadPurchaseOrders();
+    loadSuppliers()
+      .then(setSuppliers)
+      .catch((error) => console.error('Error loading suppliers:', error));
+  }, []);
+
+  const loadProducts = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('products')
+        .select('id, sku, name, unit_of_measure, cost_price, is_active, product_unit_conversions(unit_of_measure, factor)')
+        .order('sku', { ascending: true });
+
+      if (error) throw error;
+      setProducts((data || []) as unknown as ProductOption[]);
+    } catch (error) {
+      console.error('Error loading products:', error);
+    }
+  };
+
+  const loadWarehouses = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('warehouses')
+        .select('id, code, name')
+        .eq('is_active', true)
+        .order('code', { ascending: true });
+
+      if (error) throw error;
+      setWarehouses(data || []);
+    } catch (error) {
+      console.error('Error loading warehouses:', error);
+    }
+  };
+
+  const loadApprovers = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('users_profile')
+        .select('id, full_name, department')
+        .eq('role', 'Approver')
+        .order('full_name', { ascending: true });
+
+      if (error) throw error;
+      setApprovers(data || []);
+    } catch (error) {
+      console.error('Error loading approvers:', error);
+    }
+  };
+
+  const loadPurchaseOrders = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('documents')
+        .select('id, document_number, supplier_id, status')
+        .eq('document_type', 'Purchase Order')
+        .in('status', APPROVED_STATUSES)
+        .order('document_number', { ascending: true });
+
+      if (error) throw error;
+      setPurchaseOrders(data || []);
+    } catch (error) {
+      console.error('Error loading purchase orders:', error);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const lineValidationError = validateLines(lines);
+    setLinesError(lineValidationError);
+    setSupplierError(formData.supplierId ? null : 'Select a supplier');
+    if (lineValidationError || !formData.supplierId) return;
+
+    setLoading(true);
+
+    try {
+      await onSubmit(formData, lines, { products, warehouses, approvers, suppliers, purchaseOrders });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleChange = (field: keyof DocumentFormValues, value: string) => {
+    setFormData((prev) => ({ ...prev, [field]: value }));
+  };
+
+  const handleSupplierChange = (supplier: Supplier | null) => {
+    setSupplierError(null);
+    setFormData((prev) => ({
+      ...prev,
+      supplierId: supplier?.id || '',
+      supplierName: supplier ? supplier.legal_name : prev.supplierName,
+      currency: supplier ? supplier.default_currency : prev.currency,
+      // A Purchase Order from another supplier no longer applies
+      purchaseOrderId: purchaseOrders.some((po) => po.id === prev.purchaseOrderId && po.supplier_id === supplier?.id)
+        ? prev.purchaseOrderId
+        : '',
+    }));
+  };
+
+  // Deactivated products are only offered on the lines that already use them
+  const selectableProducts = products.filter(
+    (product) => product.is_active || lines.some((line) => line.productId === product.id)
+  );
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white rounded-xl border border-gray-100 p-8">
+      <div className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <Select
+            label="Document Type"
+            value={formData.documentType}
+            onChange={(e) => handleChange('documentType', e.target.value)}
+            options={DOCUMENT_TYPES.map((type) => ({ value: type, label: type }))}
+            required
+          />
+
+          <Input
+            label="Document Number"
+            value={formData.documentNumber}
+            onChange={(e) => handleChange('documentNumber', e.target.value)}
+            placeholder="e.g., PO-2024-001"
+            required
+          />
+        </div>
+
+        {isStockDocument(formData.documentType) && (
+          <Select
+            label="Warehouse"
+            value={formData.warehouseId}
+            onChange={(e) => handleChange('warehouseId', e.target.value)}
+            options={[
+              { value: '', label: 'Select warehouse...' },
+              ...warehouses.map((w) => ({ value: w.id, label: `${w.code} — ${w.name}` })),
+            ]}
+            required
+          />
+        )}
+
+        <SupplierPicker
+          // Inactive suppliers can't be picked, but stay shown on documents that already use them
+          suppliers={suppliers.filter((s) => s.is_active || s.id === formData.supplierId)}
+          value={formData.supplierId}
+          unlinkedName={initialValues && !initialValues.supplierId ? initialValues.supplierName : undefined}
+          onChange={handleSupplierChange}
+          error={supplierError}
+        />
+
+        {referencesPurchaseOrder(formData.documentType) && (
+          <Select
+            label="Purchase Order"
+            value={formData.purchaseOrderId}
+            onChange={(e) => handleChange('purchaseOrderId', e.target.value)}
+            options={[
+              { value: '', label: formData.supplierId ? 'Select purchase order...' : 'Select a supplier first' },
+              ...purchaseOrders
+                // Closed POs are fully received and invoiced, so only stay selected where already linked
+                .filter(
+                  (po) =>
+                    (po.supplier_id === formData.supplierId && po.status !== 'Closed') ||
+                    po.id === formData.purchaseOrderId
+                )
+                .map((po) => ({ value: po.id, label: po.document_number })),
+            ]}
+          />
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <Input
+            label="Document Date"
+            type="date"
+            value={formData.documentDate}
+            onChange={(e) => handleChange('documentDate', e.target.value)}
+            required
+          />
+
+          <Select
+            label="Priority"
+            value={formData.priority}
+            onChange={(e) => handleChange('priority', e.target.value)}
+            options={[
+              { value: 'Low', label: 'Low' },
+              { value: 'Medium', label: 'Medium' },
+              { value: 'High', label: 'High' },
+              { value: 'Urgent', label: 'Urgent' },
+            ]}
+            required
+          />
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <Select
+            label="Currency"
+            value={formData.currency}
+            onChange={(e) => handleChange('currency', e.target.value)}
+            options={CURRENCIES.map((currency) => ({ value: currency, label: currency }))}
+            required
+          />
+
+          <Select
+            label="Approver"
+            value={formData.approverId}
+            onChange={(e) => handleChange('approverId', e.target.value)}
+            options={[
+              { value: '', label: 'Auto-assign by department' },
+              // Nobody approves their own document
+              ...approvers
+                .filter((a) => a.id !== user?.id)
+                .map((a) => ({ value: a.id, label: `${a.full_name} — ${a.department}` })),
+            ]}
+          />
+        </div>
+
+        <LineItemsEditor
+          lines={lines}
+          products={selectableProducts}
+          currency={formData.currency}
+          onChange={(updated) => {
+            setLines(updated);
+            setLinesError(null);
+          }}
+          error={linesError}
+        />
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1.5">
+            Remarks
+          </label>
+          <textarea
+            value={formData.remarks}
+            onChange={(e) => handleChange('remarks', e.target.value)}
+            placeholder="Add any additional notes or comments..."
+            rows={4}
+            className="w-full px-3 py-2 border border-gray-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-gray-900 focus:border-transparent transition-all"
+          />
+        </div>
+
+        {typeof children === 'function' ? children(formData) : children}
+      </div>
+
+      <div className="flex items-center gap-3 mt-8 pt-6 border-t border-gray-100">
+        <Button type="submit" disabled={loading}>
+          {loading ? submittingLabel : submitLabel}
+        </Button>
+        <Button type="button" variant="ghost" onClick={onCancel}>
+          Cancel
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,117 @@
+export interface DocumentLine {
+  id: string;
+  line_number: number;
+  product_id: string;
+  description: string | null;
+  quantity: number;
+  unit_of_measure: string;
+  conversion_factor?: number;
+  base_quantity?: number;
+  base_unit?: string;
+  unit_price: number;
+  line_total: number;
+  received_quantity?: number;
+  invoiced_quantity?: number;
+  product_name?: string;
+  product_sku?: string;
+}
+
+interface DocumentLinesTableProps {
+  lines: DocumentLine[];
+  currency: string;
+  // Purchase Orders show what has been received and invoiced against each line
+  showFulfilment?: boolean;
+}
+
+export function DocumentLinesTable({ lines, currency, showFulfilment = false }: DocumentLinesTableProps) {
+  const total = lines.reduce((sum, line) => sum + line.line_total, 0);
+  const columnCount = showFulfilment ? 7 : 5;
+
+  return (
+    <div className="border border-gray-100 rounded-lg overflow-hidden">
+      <table className="w-full">
+        <thead className="bg-gray-50 border-b border-gray-100">
+          <tr>
+            <th className="text-left px-4 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider">#</th>
+            <th className="text-left px-4 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider">Product</th>
+            <th className="text-right px-4 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider">Quantity</th>
+            {showFulfilment && (
+              <>
+                <th className="text-right px-4 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider">Received</th>
+                <th className="text-right px-4 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider">Invoiced</th>
+              </>
+            )}
+            <th className="text-right px-4 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider">Unit Price</th>
+            <th className="text-right px-4 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider">Line Total</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-100">
+          {lines.length === 0 ? (
+            <tr>
+              <td colSpan={columnCount} className="px-4 py-8 text-center text-sm text-gray-500">
+                No line items on this document.
+              </td>
+            </tr>
+          ) : (
+            lines.map((line) => (
+              <tr key={line.id}>
+                <td className="px-4 py-3 text-sm text-gray-500">{line.line_number}</td>
+                <td className="px-4 py-3">
+                  <p className="text-sm font-medium text-gray-900">{line.product_name}</p>
+                  <p className="text-xs text-gray-500">
+                    {line.product_sku}
+                    {line.description && ` • ${line.description}`}
+                  </p>
+                </td>
+                <td className="px-4 py-3 text-sm text-gray-900 text-right whitespace-nowrap">
+                  {line.quantity.toLocaleString()} {line.unit_of_measure}
+                  {line.base_unit && line.base_quantity !== undefined && line.conversion_factor !== 1 && (
+                    <p className="text-xs text-gray-500">
+                      = {line.base_quantity.toLocaleString()} {line.base_unit}
+                    </p>
+                  )}
+                </td>
+                {showFulfilment && (
+                  <>
+                    <td
+                      className={`px-4 py-3 text-sm text-right whitespace-nowrap ${
+                        (line.received_quantity || 0) >= line.quantity ? 'text-green-700' : 'text-gray-600'
+                      }`}
+                    >
+                      {(line.received_quantity || 0).toLocaleString()}
+                    </td>
+                    <td
+                      className={`px-4 py-3 text-sm text-right whitespace-nowrap ${
+                        (line.invoiced_quantity || 0) >= line.quantity ? 'text-green-700' : 'text-gray-600'
+                      }`}
+                    >
+                      {(line.invoiced_quantity || 0).toLocaleString()}
+                    </td>
+                  </>
+                )}
+                <td className="px-4 py-3 text-sm text-gray-600 text-right whitespace-nowrap">
+                  {line.unit_price.toLocaleString(undefined, { minimumFractionDigits: 2 })}
+                </td>
+                <td className="px-4 py-3 text-sm font-medium text-gray-900 text-right whitespace-nowrap">
+                  {line.line_total.toLocaleString(undefined, { minimumFractionDigits: 2 })}
+                </td>
+              </tr>
+            ))
+          )}
+        </tbody>
+        {lines.length > 0 && (
+          <tfoot className="bg-gray-50 border-t border-gray-100">
+            <tr>
+              <td colSpan={columnCount - 1} className="px-4 py-3 text-sm font-medium text-gray-700 text-right">
+                Total
+              </td>
+              <td className="px-4 py-3 text-sm font-semibold text-gray-900 text-right whitespace-nowrap">
+                {currency} {total.toLocaleString(undefined, { minimumFractionDigits: 2 })}
+              </td>
+            </tr>
+          </tfoot>
+        )}
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,197 @@
+import { Plus, Trash2 } from 'lucide-react';
+import { Button } from '../ui/Button';
+import {
+  LineItemDraft,
+  LineProduct,
+  calculateDocumentTotal,
+  calculateLineTotal,
+  createEmptyLine,
+} from '../../lib/documentLines';
+import { formatFactor, productUnits, unitFactor } from '../../lib/products';
+
+interface LineItemsEditorProps {
+  lines: LineItemDraft[];
+  products: LineProduct[];
+  currency: string;
+  onChange: (lines: LineItemDraft[]) => void;
+  error?: string | null;
+}
+
+const cellInputClass =
+  'w-full px-2 py-1.5 border border-gray-200 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-gray-900 focus:border-transparent transition-all';
+
+export function LineItemsEditor({ lines, products, currency, onChange, error }: LineItemsEditorProps) {
+  const updateLine = (key: string, changes: Partial<LineItemDraft>) => {
+    onChange(lines.map((line) => (line.key === key ? { ...line, ...changes } : line)));
+  };
+
+  const handleProductChange = (key: string, productId: string) => {
+    const product = products.find((p) => p.id === productId);
+    updateLine(key, {
+      productId,
+      unitOfMeasure: product?.unit_of_measure || 'PCS',
+      unitPrice: product ? String(product.cost_price) : '0',
+    });
+  };
+
+  // The price follows the unit, e.g. a BOX of 24 costs 24 times the PCS price
+  const handleUnitChange = (line: LineItemDraft, unitOfMeasure: string) => {
+    const product = products.find((p) => p.id === line.productId);
+    const units = product ? productUnits(product) : [];
+    const from = unitFactor(units, line.unitOfMeasure);
+    const to = unitFactor(units, unitOfMeasure);
+    const unitPrice = parseFloat(line.unitPrice);
+
+    updateLine(line.key, {
+      unitOfMeasure,
+      unitPrice:
+        from && to && !isNaN(unitPrice) ? String(Math.round((unitPrice / from) * to * 100) / 100) : line.unitPrice,
+    });
+  };
+
+  const removeLine = (key: string) => {
+    onChange(lines.filter((line) => line.key !== key));
+  };
+
+  const total = calculateDocumentTotal(lines);
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-3">
+        <label className="block text-sm font-medium text-gray-700">Line Items</label>
+        <Button type="button" variant="secondary" size="sm" onClick={() => onChange([...lines, createEmptyLine()])}>
+          <Plus className="w-4 h-4 mr-1" strokeWidth={1.5} />
+          Add Line
+        </Button>
+      </div>
+
+      <div className={`border rounded-lg overflow-hidden ${error ? 'border-red-300' : 'border-gray-200'}`}>
+        <table className="w-full">
+          <thead className="bg-gray-50 border-b border-gray-100">
+            <tr>
+              <th className="text-left px-3 py-2 text-xs font-medium text-gray-500 uppercase tracking-wider w-8">#</th>
+              <th className="text-left px-3 py-2 text-xs font-medium text-gray-500 uppercase tracking-wider">Product</th>
+              <th className="text-left px-3 py-2 text-xs font-medium text-gray-500 uppercase tracking-wider w-28">Quantity</th>
+              <th className="text-left px-3 py-2 text-xs font-medium text-gray-500 uppercase tracking-wider w-20">Unit</th>
+              <th className="text-left px-3 py-2 text-xs font-medium text-gray-500 uppercase tracking-wider w-32">Unit Price</th>
+              <th className="text-right px-3 py-2 text-xs font-medium text-gray-500 uppercase tracking-wider w-32">Line Total</th>
+              <th className="w-10" />
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {lines.length === 0 ? (
+              <tr>
+                <td colSpan={7} className="px-3 py-6 text-center text-sm text-gray-500">
+                  No line items yet. Add a line to get started.
+                </td>
+              </tr>
+            ) : (
+              lines.map((line, index) => {
+                const selectedProduct = products.find((p) => p.id === line.productId);
+                const units = selectedProduct ? productUnits(selectedProduct) : [];
+                const factor = unitFactor(units, line.unitOfMeasure);
+
+                return (
+                  <tr key={line.key}>
+                    <td className="px-3 py-2 text-sm text-gray-500">{index + 1}</td>
+                    <td className="px-3 py-2">
+                      <select
+                        value={line.productId}
+                        onChange={(e) => handleProductChange(line.key, e.target.value)}
+                        className={cellInputClass}
+                      >
+                        <option value="">Select product...</option>
+                        {products.map((product) => (
+                          <option key={product.id} value={product.id}>
+                            {product.sku} — {product.name}
+                          </option>
+                        ))}
+                      </select>
+                      <input
+                        value={line.description}
+                        onChange={(e) => updateLine(line.key, { description: e.target.value })}
+                        placeholder="Description (optional)"
+                        className={`${cellInputClass} mt-1.5 text-xs`}
+                      />
+                    </td>
+                    <td className="px-3 py-2 align-top">
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.001"
+                        value={line.quantity}
+                        onChange={(e) => updateLine(line.key, { quantity: e.target.value })}
+                        className={cellInputClass}
+                      />
+                    </td>
+                    <td className="px-3 py-2 align-top">
+                      {units.length > 1 ? (
+                        <select
+                          value={line.unitOfMeasure}
+                          onChange={(e) => handleUnitChange(line, e.target.value)}
+                          className={cellInputClass}
+                        >
+                          {/* A unit the product no longer converts stays shown on the line that uses it */}
+                          {!factor && <option value={line.unitOfMeasure}>{line.unitOfMeasure}</option>}
+                          {units.map((option) => (
+                            <option key={option.unit} value={option.unit}>
+                              {option.unit}
+                            </option>
+                          ))}
+                        </select>
+                      ) : (
+                        <p className="text-sm text-gray-600 py-1.5">{line.unitOfMeasure}</p>
+                      )}
+                      {selectedProduct && factor && factor !== 1 && (
+                        <p className="text-xs text-gray-500 mt-1 whitespace-nowrap">
+                          = {formatFactor((parseFloat(line.quantity) || 0) * factor)} {selectedProduct.unit_of_measure}
+                        </p>
+                      )}
+                    </td>
+                    <td className="px-3 py-2 align-top">
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={line.unitPrice}
+                        onChange={(e) => updateLine(line.key, { unitPrice: e.target.value })}
+                        className={cellInputClass}
+                      />
+                    </td>
+                    <td className="px-3 py-2 align-top text-right">
+                      <p className="text-sm font-medium text-gray-900 py-1.5">
+                        {calculateLineTotal(line).toLocaleString(undefined, { minimumFractionDigits: 2 })}
+                      </p>
+                    </td>
+                    <td className="px-3 py-2 align-top">
+                      <button
+                        type="button"
+                        onClick={() => removeLine(line.key)}
+                        className="p-1.5 text-gray-400 hover:text-red-600 transition-colors"
+                      >
+                        <Trash2 className="w-4 h-4" strokeWidth={1.5} />
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })
+            )}
+          </tbody>
+          <tfoot className="bg-gray-50 border-t border-gray-100">
+            <tr>
+              <td colSpan={5} className="px-3 py-2 text-sm font-medium text-gray-700 text-right">
+                Document Value
+              </td>
+              <td className="px-3 py-2 text-sm font-semibold text-gray-900 text-right whitespace-nowrap">
+                {currency} {total.toLocaleString(undefined, { minimumFractionDigits: 2 })}
+              </td>
+              <td />
+            </tr>
+          </tfoot>
+        </table>
+      </div>
+
+      {error && <p className="mt-1 text-xs text-red-600">{error}</p>}
+    </div>
+  );
+}
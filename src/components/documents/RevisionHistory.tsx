@@ -0,0 +1,90 @@
+import { useState } from 'react';
+import { Select } from '../ui/Select';
+import { Badge } from '../ui/Badge';
+import { RevisionSnapshot, diffSnapshots } from '../../lib/documentChanges';
+
+export interface DocumentRevision {
+  revision: number;
+  snapshot: RevisionSnapshot;
+  rejection_reason: string | null;
+  created_at: string | null;
+}
+
+interface RevisionHistoryProps {
+  // Earlier revisions first, the live document last
+  revisions: DocumentRevision[];
+}
+
+export function RevisionHistory({ revisions }: RevisionHistoryProps) {
+  const latest = revisions[revisions.length - 1]?.revision ?? 1;
+  const [fromRevision, setFromRevision] = useState(Math.max(1, latest - 1));
+  const [toRevision, setToRevision] = useState(latest);
+
+  const from = revisions.find((r) => r.revision === fromRevision);
+  const to = revisions.find((r) => r.revision === toRevision);
+  const changes = from && to ? diffSnapshots(from.snapshot, to.snapshot) : [];
+
+  const revisionOptions = revisions.map((r) => ({
+    value: String(r.revision),
+    label: r.revision === latest ? `Revision ${r.revision} (current)` : `Revision ${r.revision}`,
+  }));
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-3">
+        {revisions.map((r) => (
+          <div key={r.revision} className="flex items-start justify-between p-3 rounded-lg border border-gray-100">
+            <div>
+              <p className="text-sm font-medium text-gray-900">Revision {r.revision}</p>
+              {r.created_at && (
+                <p className="text-xs text-gray-500">
+                  Superseded {new Date(r.created_at).toLocaleString()}
+                </p>
+              )}
+              {r.rejection_reason && (
+                <p className="text-sm text-red-600 mt-1">Rejected: {r.rejection_reason}</p>
+              )}
+            </div>
+            {r.revision === latest ? <Badge variant="info">Current</Badge> : <Badge variant="neutral">Previous</Badge>}
+          </div>
+        ))}
+      </div>
+
+      <div>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+          <Select
+            label="Compare"
+            value={String(fromRevision)}
+            onChange={(e) => setFromRevision(parseInt(e.target.value))}
+            options={revisionOptions}
+          />
+          <Select
+            label="With"
+            value={String(toRevision)}
+            onChange={(e) => setToRevision(parseInt(e.target.value))}
+            options={revisionOptions}
+          />
+        </div>
+
+        {changes.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-4">No differences between these revisions</p>
+        ) : (
+          <div className="border border-gray-100 rounded-lg divide-y divide-gray-100">
+            <div className="grid grid-cols-12 gap-3 px-3 py-2 bg-gray-50 text-xs font-medium text-gray-500 uppercase tracking-wider">
+              <p className="col-span-2">Field</p>
+              <p className="col-span-5">Revision {fromRevision}</p>
+              <p className="col-span-5">Revision {toRevision}</p>
+            </div>
+            {changes.map((change) => (
+              <div key={change.field} className="grid grid-cols-12 gap-3 px-3 py-2 text-xs">
+                <p className="col-span-2 font-medium text-gray-700">{change.label}</p>
+                <p className="col-span-5 text-red-600 break-words">{change.before || '—'}</p>
+                <p className="col-span-5 text-green-700 break-words">{change.after || '—'}</p>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
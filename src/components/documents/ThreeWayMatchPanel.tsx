@@ -0,0 +1,245 @@
+import { useCallback, useEffect, useState } from 'react';
+import { AlertTriangle, CheckCircle, ShieldCheck } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { Button } from '../ui/Button';
+import { Badge } from '../ui/Badge';
+import { ThreeWayMatch, getMatchStatusVariant, loadThreeWayMatch } from '../../lib/threeWayMatch';
+
+export interface MatchOverride {
+  reason: string;
+  at: string;
+  byName: string | null;
+  revision: number;
+}
+
+interface ThreeWayMatchPanelProps {
+  documentId: string;
+  revision: number;
+  status: string;
+  currency: string;
+  override: MatchOverride | null;
+  canOverride: boolean;
+  onOverridden: () => void;
+  onBlockedChange?: (blocked: boolean) => void;
+}
+
+export function ThreeWayMatchPanel({
+  documentId,
+  revision,
+  status,
+  currency,
+  override,
+  canOverride,
+  onOverridden,
+  onBlockedChange,
+}: ThreeWayMatchPanelProps) {
+  const [match, setMatch] = useState<ThreeWayMatch | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [showOverrideModal, setShowOverrideModal] = useState(false);
+  const [overrideReason, setOverrideReason] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const loadMatch = useCallback(async () => {
+    try {
+      setMatch(await loadThreeWayMatch(documentId));
+    } catch (error) {
+      console.error('Error loading three-way match:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [documentId]);
+
+  // The match changes as the PO, receipts and this invoice move through approval
+  useEffect(() => {
+    loadMatch();
+  }, [loadMatch, status, revision]);
+
+  const activeOverride = override && override.revision === revision ? override : null;
+  const hasIssues = !!match && match.issues.length > 0;
+  const blocked = hasIssues && !activeOverride;
+
+  useEffect(() => {
+    onBlockedChange?.(blocked);
+  }, [blocked, onBlockedChange]);
+
+  const handleOverride = async () => {
+    if (!overrideReason.trim()) {
+      alert('Please provide a reason for the override');
+      return;
+    }
+    setSaving(true);
+
+    try {
+      const { error } = await supabase.rpc('override_three_way_match', {
+        p_document_id: documentId,
+        p_reason: overrideReason,
+      });
+
+      if (error) throw error;
+
+      setShowOverrideModal(false);
+      setOverrideReason('');
+      onOverridden();
+    } catch (error) {
+      console.error('Error overriding three-way match:', error);
+      alert('Failed to override the match. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return <p className="text-sm text-gray-500">Loading match...</p>;
+  }
+
+  if (!match) {
+    return <p className="text-sm text-gray-500">The match could not be loaded.</p>;
+  }
+
+  const formatQuantity = (quantity: number) => Number(quantity).toLocaleString();
+  const formatPrice = (price: number | null) =>
+    price === null ? '-' : `${currency} ${Number(price).toLocaleString(undefined, { minimumFractionDigits: 2 })}`;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-gray-600">
+          {match.purchase_order_number ? `Against Purchase Order ${match.purchase_order_number}` : 'No Purchase Order referenced'}
+          {' • '}Tolerance: price ±{Number(match.price_tolerance_percent)}%, quantity ±{Number(match.quantity_tolerance_percent)}%
+        </p>
+        {canOverride && blocked && status === 'Pending' && (
+          <Button variant="secondary" size="sm" onClick={() => setShowOverrideModal(true)}>
+            <ShieldCheck className="w-4 h-4 mr-2" strokeWidth={1.5} />
+            Override Match
+          </Button>
+        )}
+      </div>
+
+      {!hasIssues ? (
+        <div className="flex items-center gap-2 p-3 bg-green-50 border border-green-100 rounded-lg">
+          <CheckCircle className="w-4 h-4 text-green-600" strokeWidth={1.5} />
+          <p className="text-sm text-green-700">Invoice matches the Purchase Order and Goods Receipts</p>
+        </div>
+      ) : (
+        <div className={`p-4 border rounded-lg ${activeOverride ? 'bg-gray-50 border-gray-100' : 'bg-yellow-50 border-yellow-100'}`}>
+          <div className="flex items-center gap-2 mb-2">
+            <AlertTriangle className={`w-4 h-4 ${activeOverride ? 'text-gray-500' : 'text-yellow-700'}`} strokeWidth={1.5} />
+            <p className={`text-xs font-medium ${activeOverride ? 'text-gray-700' : 'text-yellow-800'}`}>
+              {activeOverride ? 'Exceptions overridden' : 'Match exceptions block approval'}
+            </p>
+          </div>
+          <ul className="space-y-1">
+            {match.issues.map((issue) => (
+              <li key={issue} className={`text-sm ${activeOverride ? 'text-gray-600' : 'text-yellow-700'}`}>
+                {issue}
+              </li>
+            ))}
+          </ul>
+          {activeOverride && (
+            <p className="text-xs text-gray-500 mt-3">
+              Overridden by {activeOverride.byName || 'Finance'} on {new Date(activeOverride.at).toLocaleDateString()}:{' '}
+              {activeOverride.reason}
+            </p>
+          )}
+        </div>
+      )}
+
+      {match.lines.length > 0 && (
+        <div className="border border-gray-100 rounded-lg overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b border-gray-100">
+              <tr>
+                <th className="text-left px-4 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Product
+                </th>
+                <th className="text-right px-4 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Ordered
+                </th>
+                <th className="text-right px-4 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Received
+                </th>
+                <th className="text-right px-4 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Invoiced
+                </th>
+                <th className="text-right px-4 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  PO Price
+                </th>
+                <th className="text-right px-4 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Invoice Price
+                </th>
+                <th className="text-left px-4 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Status
+                </th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {match.lines.map((line) => (
+                <tr key={line.product_id}>
+                  <td className="px-4 py-3 whitespace-nowrap">
+                    <p className="text-sm font-medium text-gray-900">{line.sku}</p>
+                    <p className="text-xs text-gray-500">{line.name} • per {line.unit_of_measure}</p>
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap text-right text-sm text-gray-900">
+                    {formatQuantity(line.ordered_quantity)}
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap text-right">
+                    <p className="text-sm text-gray-900">{formatQuantity(line.received_quantity)}</p>
+                    {line.previously_invoiced_quantity > 0 && (
+                      <p className="text-xs text-gray-500">
+                        {formatQuantity(line.previously_invoiced_quantity)} already invoiced
+                      </p>
+                    )}
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap text-right text-sm text-gray-900">
+                    {formatQuantity(line.invoiced_quantity)}
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap text-right text-sm text-gray-600">
+                    {formatPrice(line.ordered_unit_price)}
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap text-right text-sm text-gray-900">
+                    {formatPrice(line.invoiced_unit_price)}
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap">
+                    <Badge variant={getMatchStatusVariant(line.status)}>{line.status}</Badge>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {showOverrideModal && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-xl p-6 max-w-md w-full mx-4">
+            <h3 className="text-lg font-semibold text-gray-900 mb-2">Override Three-Way Match</h3>
+            <p className="text-sm text-gray-500 mb-4">
+              The invoice can then be approved despite its exceptions. The reason is recorded in the document history.
+            </p>
+            <textarea
+              value={overrideReason}
+              onChange={(e) => setOverrideReason(e.target.value)}
+              placeholder="Reason for accepting the variances..."
+              rows={4}
+              className="w-full px-3 py-2 border border-gray-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-gray-900 focus:border-transparent transition-all mb-4"
+            />
+            <div className="flex items-center gap-3">
+              <Button onClick={handleOverride} disabled={saving}>
+                {saving ? 'Overriding...' : 'Override Match'}
+              </Button>
+              <Button
+                variant="ghost"
+                onClick={() => {
+                  setShowOverrideModal(false);
+                  setOverrideReason('');
+                }}
+              >
+                Cancel
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -6,7 +6,17 @@ import {
   LogOut,
   ChevronRight,
   Box,
-  TrendingUp
+  TrendingUp,
+  GitBranch,
+  UserCheck,
+  Paperclip,
+  Ship,
+  Coins,
+  Building2,
+  Award,
+  Scale,
+  ClipboardList,
+  Ruler
 } from 'lucide-react';
 import { useAuth } from '../../contexts/AuthContext';
 import { useState } from 'react';
@@ -23,13 +33,33 @@ export function Sidebar({ currentPage, onNavigate }: SidebarProps) {
   const menuItems = [
     { id: 'dashboard', icon: LayoutDashboard, label: 'Dashboard' },
     { id: 'documents', icon: FileText, label: 'Documents' },
+    { id: 'shipments', icon: Ship, label: 'Shipments' },
+    { id: 'open-purchase-orders', icon: ClipboardList, label: 'Open POs' },
+    { id: 'suppliers', icon: Building2, label: 'Suppliers' },
     { id: 'reports', icon: BarChart3, label: 'Reports' },
+    ...(profile?.role === 'Admin'
+      ? [
+          { id: 'approval-chains', icon: GitBranch, label: 'Approval Chains' },
+          { id: 'attachment-rules', icon: Paperclip, label: 'Attachment Rules' },
+        ]
+      : []),
+    ...(profile?.role === 'Approver' || profile?.role === 'Admin'
+      ? [{ id: 'approvers', icon: UserCheck, label: 'Approvers' }]
+      : []),
+    ...(profile?.role === 'Finance' || profile?.role === 'Admin'
+      ? [
+          { id: 'supplier-scorecard', icon: Award, label: 'Supplier Scorecard' },
+          { id: 'exchange-rates', icon: Coins, label: 'Exchange Rates' },
+          { id: 'match-settings', icon: Scale, label: 'Three-Way Match' },
+        ]
+      : []),
   ];
 
   const inventoryItems = [
     { id: 'inventory', icon: Package, label: 'Overview' },
     { id: 'products', icon: Box, label: 'Products' },
     { id: 'stock-movements', icon: TrendingUp, label: 'Movements' },
+    { id: 'units-of-measure', icon: Ruler, label: 'Units' },
   ];
 
   return (
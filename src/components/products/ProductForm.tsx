@@ -0,0 +1,318 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Plus, Trash2, X } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { Button } from '../ui/Button';
+import { Input } from '../ui/Input';
+import { Select } from '../ui/Select';
+import {
+  Product,
+  ProductCategory,
+  UnitConversion,
+  UnitOfMeasure,
+  loadUnitsOfMeasure,
+  unitOptions,
+} from '../../lib/products';
+
+interface ConversionDraft {
+  key: string;
+  unit: string;
+  factor: string;
+}
+
+function createConversionDraft(conversion?: UnitConversion): ConversionDraft {
+  return {
+    key: Math.random().toString(36).slice(2, 11),
+    unit: conversion?.unit_of_measure || '',
+    factor: conversion ? String(conversion.factor) : '',
+  };
+}
+
+interface ProductFormProps {
+  product?: Product;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+export function ProductForm({ product, onClose, onSaved }: ProductFormProps) {
+  const [categories, setCategories] = useState<ProductCategory[]>([]);
+  const [units, setUnits] = useState<UnitOfMeasure[]>([]);
+  const [conversions, setConversions] = useState<ConversionDraft[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [form, setForm] = useState({
+    sku: product?.sku || '',
+    name: product?.name || '',
+    description: product?.description || '',
+    categoryId: product?.category_id || '',
+    unitOfMeasure: product?.unit_of_measure || 'PCS',
+    costPrice: product ? String(product.cost_price) : '',
+    reorderPoint: product ? String(product.reorder_point) : '',
+  });
+
+  const loadOptions = useCallback(async () => {
+    try {
+      const [categoriesResult, unitList, conversionsResult] = await Promise.all([
+        supabase
+          .from('product_categories')
+          .select('id, code, name')
+          .order('name', { ascending: true }),
+        loadUnitsOfMeasure(),
+        product
+          ? supabase
+              .from('product_unit_conversions')
+              .select('unit_of_measure, factor')
+              .eq('product_id', product.id)
+              .order('factor', { ascending: true })
+          : Promise.resolve({ data: [], error: null }),
+      ]);
+
+      if (categoriesResult.error) throw categoriesResult.error;
+      if (conversionsResult.error) throw conversionsResult.error;
+
+      setCategories(categoriesResult.data || []);
+      setUnits(unitList);
+      setConversions(((conversionsResult.data || []) as UnitConversion[]).map(createConversionDraft));
+    } catch (error) {
+      console.error('Error loading product options:', error);
+    }
+  }, [product]);
+
+  useEffect(() => {
+    loadOptions();
+  }, [loadOptions]);
+
+  const updateConversion = (key: string, changes: Partial<ConversionDraft>) => {
+    setConversions((prev) => prev.map((conversion) => (conversion.key === key ? { ...conversion, ...changes } : conversion)));
+  };
+
+  const handleSave = async () => {
+    const costPrice = form.costPrice === '' ? 0 : Number(form.costPrice);
+    const reorderPoint = form.reorderPoint === '' ? 0 : Number(form.reorderPoint);
+
+    if (!form.sku.trim() || !form.name.trim()) {
+      setFormError('Enter a SKU and product name');
+      return;
+    }
+    if (isNaN(costPrice) || costPrice < 0) {
+      setFormError('Cost price cannot be negative');
+      return;
+    }
+    if (!Number.isInteger(reorderPoint) || reorderPoint < 0) {
+      setFormError('Reorder point must be a whole number of zero or more');
+      return;
+    }
+    for (const conversion of conversions) {
+      if (!conversion.unit || !(parseFloat(conversion.factor) > 0)) {
+        setFormError('Each unit conversion needs a unit and a factor greater than zero');
+        return;
+      }
+      if (conversion.unit === form.unitOfMeasure) {
+        setFormError(`${conversion.unit} is the base unit and cannot also be a conversion`);
+        return;
+      }
+      if (conversions.filter((other) => other.unit === conversion.unit).length > 1) {
+        setFormError(`${conversion.unit} is converted more than once`);
+        return;
+      }
+    }
+
+    setSaving(true);
+    setFormError(null);
+
+    try {
+      const row = {
+        sku: form.sku.trim(),
+        name: form.name.trim(),
+        description: form.description.trim() || null,
+        category_id: form.categoryId || null,
+        unit_of_measure: form.unitOfMeasure,
+        cost_price: costPrice,
+        reorder_point: reorderPoint,
+        updated_at: new Date().toISOString(),
+      };
+
+      const { data: saved, error } = product
+        ? await supabase.from('products').update(row).eq('id', product.id).select('id').single()
+        : await supabase.from('products').insert(row).select('id').single();
+
+      if (error) throw error;
+
+      const { error: conversionsError } = await supabase.rpc('set_product_unit_conversions', {
+        p_product_id: saved.id,
+        p_conversions: conversions.map((conversion) => ({
+          unit_of_measure: conversion.unit,
+          factor: parseFloat(conversion.factor),
+        })),
+      });
+      if (conversionsError) throw conversionsError;
+
+      onSaved();
+    } catch (error) {
+      console.error('Error saving product:', error);
+      const { code, message } = error as { code?: string; message?: string };
+      // SKUs are unique; raised exceptions, e.g. a base unit change after stock moved, explain themselves
+      if (code === '23505') {
+        setFormError('Another product already uses this SKU');
+      } else if (code === 'P0001' && message) {
+        setFormError(message);
+      } else {
+        setFormError('Failed to save product. Please try again.');
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-xl p-6 max-w-2xl w-full mx-4 max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-6">
+          <h3 className="text-lg font-semibold text-gray-900">{product ? 'Edit Product' : 'New Product'}</h3>
+          <button onClick={onClose} className="p-1 text-gray-400 hover:text-gray-700 transition-colors">
+            <X className="w-5 h-5" strokeWidth={1.5} />
+          </button>
+        </div>
+
+        {formError && (
+          <div className="p-3 bg-red-50 border border-red-100 rounded-lg mb-4">
+            <p className="text-sm text-red-600">{formError}</p>
+          </div>
+        )}
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <Input
+              label="SKU"
+              value={form.sku}
+              onChange={(e) => setForm({ ...form, sku: e.target.value })}
+              placeholder="e.g., SKU-001"
+            />
+            <div className="md:col-span-2">
+              <Input
+                label="Product Name"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1.5">
+              Description
+            </label>
+            <textarea
+              value={form.description}
+              onChange={(e) => setForm({ ...form, description: e.target.value })}
+              rows={2}
+              className="w-full px-3 py-2 border border-gray-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-gray-900 focus:border-transparent transition-all"
+            />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <Select
+              label="Category"
+              value={form.categoryId}
+              onChange={(e) => setForm({ ...form, categoryId: e.target.value })}
+              options={[
+                { value: '', label: 'Uncategorized' },
+                ...categories.map((category) => ({ value: category.id, label: `${category.code} — ${category.name}` })),
+              ]}
+            />
+            <Select
+              label="Base Unit"
+              value={form.unitOfMeasure}
+              onChange={(e) => setForm({ ...form, unitOfMeasure: e.target.value })}
+              options={unitOptions(units, product?.unit_of_measure)}
+            />
+            <Input
+              label="Cost Price"
+              type="number"
+              step="0.01"
+              min="0"
+              value={form.costPrice}
+              onChange={(e) => setForm({ ...form, costPrice: e.target.value })}
+              placeholder="0.00"
+            />
+            <Input
+              label="Reorder Point"
+              type="number"
+              step="1"
+              min="0"
+              value={form.reorderPoint}
+              onChange={(e) => setForm({ ...form, reorderPoint: e.target.value })}
+              placeholder="0"
+            />
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-1.5">
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Unit Conversions</label>
+                <p className="text-xs text-gray-500">
+                  Other units this product is bought or moved in. Stock is always held in {form.unitOfMeasure}.
+                </p>
+              </div>
+              <Button
+                type="button"
+                variant="secondary"
+                size="sm"
+                onClick={() => setConversions([...conversions, createConversionDraft()])}
+              >
+                <Plus className="w-4 h-4 mr-1" strokeWidth={1.5} />
+                Add Unit
+              </Button>
+            </div>
+
+            {conversions.length > 0 && (
+              <div className="border border-gray-100 rounded-lg divide-y divide-gray-100">
+                {conversions.map((conversion) => (
+                  <div key={conversion.key} className="flex items-center gap-3 px-3 py-2">
+                    <span className="text-sm text-gray-600">1</span>
+                    <div className="w-48">
+                      <Select
+                        value={conversion.unit}
+                        onChange={(e) => updateConversion(conversion.key, { unit: e.target.value })}
+                        options={[
+                          { value: '', label: 'Select unit...' },
+                          ...unitOptions(units, conversion.unit).filter((option) => option.value !== form.unitOfMeasure),
+                        ]}
+                      />
+                    </div>
+                    <span className="text-sm text-gray-600">=</span>
+                    <div className="w-32">
+                      <Input
+                        type="number"
+                        step="0.000001"
+                        min="0"
+                        value={conversion.factor}
+                        onChange={(e) => updateConversion(conversion.key, { factor: e.target.value })}
+                        placeholder="e.g., 24"
+                      />
+                    </div>
+                    <span className="flex-1 text-sm text-gray-600">{form.unitOfMeasure}</span>
+                    <button
+                      type="button"
+                      onClick={() => setConversions(conversions.filter((other) => other.key !== conversion.key))}
+                      className="p-1.5 text-gray-400 hover:text-red-600 transition-colors"
+                    >
+                      <Trash2 className="w-4 h-4" strokeWidth={1.5} />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="flex items-center gap-3 mt-6 pt-6 border-t border-gray-100">
+          <Button onClick={handleSave} disabled={saving}>
+            {saving ? 'Saving...' : product ? 'Save Product' : 'Create Product'}
+          </Button>
+          <Button variant="ghost" onClick={onClose}>
+            Cancel
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
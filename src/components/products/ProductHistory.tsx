@@ -0,0 +1,109 @@
+import { useCallback, useEffect, useState } from 'react';
+import { X } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { FieldChange } from '../../lib/documentChanges';
+
+interface ProductHistoryEntry {
+  id: string;
+  action_type: string;
+  changes: FieldChange[] | null;
+  created_at: string;
+  user_name: string;
+}
+
+interface ProductHistoryRow extends Omit<ProductHistoryEntry, 'user_name'> {
+  users_profile: { full_name: string } | null;
+}
+
+interface ProductHistoryProps {
+  product: { id: string; sku: string; name: string };
+  onClose: () => void;
+}
+
+export function ProductHistory({ product, onClose }: ProductHistoryProps) {
+  const [history, setHistory] = useState<ProductHistoryEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const loadHistory = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('product_history')
+        .select(`
+          id,
+          action_type,
+          changes,
+          created_at,
+          users_profile!product_history_performed_by_fkey(full_name)
+        `)
+        .eq('product_id', product.id)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+
+      setHistory(
+        ((data || []) as unknown as ProductHistoryRow[]).map((item) => ({
+          ...item,
+          user_name: item.users_profile?.full_name || 'System',
+        }))
+      );
+    } catch (error) {
+      console.error('Error loading product history:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [product.id]);
+
+  useEffect(() => {
+    loadHistory();
+  }, [loadHistory]);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-xl p-6 max-w-2xl w-full mx-4 max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between mb-1">
+          <h3 className="text-lg font-semibold text-gray-900">Product History</h3>
+          <button onClick={onClose} className="p-1 text-gray-400 hover:text-gray-700 transition-colors">
+            <X className="w-5 h-5" strokeWidth={1.5} />
+          </button>
+        </div>
+        <p className="text-sm text-gray-500 mb-6">
+          {product.sku} — {product.name}: changes to cost price, reorder point and status
+        </p>
+
+        <div className="space-y-4 overflow-y-auto">
+          {loading ? (
+            <p className="text-sm text-gray-500">Loading history...</p>
+          ) : history.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-4">No history available</p>
+          ) : (
+            history.map((item, index) => (
+              <div key={item.id} className="flex gap-4">
+                <div className="flex flex-col items-center">
+                  <div className="w-2 h-2 bg-gray-900 rounded-full" />
+                  {index < history.length - 1 && <div className="w-0.5 h-full bg-gray-200 my-1" />}
+                </div>
+                <div className="flex-1 pb-6">
+                  <p className="text-sm font-medium text-gray-900 mb-1">{item.action_type}</p>
+                  <p className="text-xs text-gray-500 mb-1">
+                    {item.user_name} • {new Date(item.created_at).toLocaleString()}
+                  </p>
+                  {item.changes && item.changes.length > 0 && (
+                    <div className="mt-3 border border-gray-100 rounded-lg divide-y divide-gray-100">
+                      {item.changes.map((change) => (
+                        <div key={change.field} className="grid grid-cols-12 gap-3 px-3 py-2 text-xs">
+                          <p className="col-span-4 font-medium text-gray-700">{change.label}</p>
+                          <p className="col-span-4 text-red-600 line-through break-words">{change.before || '—'}</p>
+                          <p className="col-span-4 text-green-700 break-words">{change.after || '—'}</p>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
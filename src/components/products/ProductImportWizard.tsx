@@ -0,0 +1,287 @@
+import { useRef, useState } from 'react';
+import { AlertCircle, CheckCircle, Upload, X } from 'lucide-react';
+import { Button } from '../ui/Button';
+import { Select } from '../ui/Select';
+import { Badge } from '../ui/Badge';
+import { SPREADSHEET_ACCEPT, readSpreadsheetRows } from '../../lib/spreadsheets';
+import {
+  ColumnMapping,
+  PRODUCT_IMPORT_FIELDS,
+  ProductImportResult,
+  ProductImportRow,
+  commitProductImport,
+  guessColumnMapping,
+  previewProductImport,
+} from '../../lib/productImport';
+
+// Rendering thousands of rows in a modal is slow; the counts above the table cover them all
+const PREVIEW_LIMIT = 200;
+
+interface ProductImportWizardProps {
+  onClose: () => void;
+  onImported: () => void;
+}
+
+export function ProductImportWizard({ onClose, onImported }: ProductImportWizardProps) {
+  const [step, setStep] = useState<'upload' | 'map' | 'preview' | 'result'>('upload');
+  const [fileName, setFileName] = useState('');
+  const [rows, setRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping>(guessColumnMapping([]));
+  const [preview, setPreview] = useState<ProductImportRow[]>([]);
+  const [errorsOnly, setErrorsOnly] = useState(false);
+  const [result, setResult] = useState<ProductImportResult | null>(null);
+  const [working, setWorking] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [formError, setFormError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const headers = rows[0] || [];
+  const validRows = preview.filter((row) => row.errors.length === 0);
+  const invalidCount = preview.length - validRows.length;
+  const visibleRows = (errorsOnly ? preview.filter((row) => row.errors.length > 0) : preview).slice(0, PREVIEW_LIMIT);
+
+  const handleFileSelected = async (file: File | undefined) => {
+    if (!file) return;
+    setFormError(null);
+
+    try {
+      const sheetRows = await readSpreadsheetRows(file);
+      if (sheetRows.length < 2) {
+        setFormError('The file needs a header row and at least one product');
+        return;
+      }
+
+      setFileName(file.name);
+      setRows(sheetRows);
+      setMapping(guessColumnMapping(sheetRows[0]));
+      setStep('map');
+    } catch (error) {
+      console.error('Error reading import file:', error);
+      setFormError(`Could not read ${file.name}: ${(error as Error).message}`);
+    } finally {
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  const handlePreview = async () => {
+    if (mapping.sku === null) {
+      setFormError('Map a column to SKU');
+      return;
+    }
+
+    setWorking(true);
+    setFormError(null);
+
+    try {
+      setPreview(await previewProductImport(rows, mapping));
+      setErrorsOnly(false);
+      setStep('preview');
+    } catch (error) {
+      console.error('Error previewing product import:', error);
+      setFormError('Failed to check the file. Please try again.');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleImport = async () => {
+    setWorking(true);
+    setProgress(0);
+
+    try {
+      setResult(await commitProductImport(preview, setProgress));
+      setStep('result');
+      onImported();
+    } catch (error) {
+      console.error('Error importing products:', error);
+      alert('Failed to import products. Please try again.');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-xl p-6 max-w-5xl w-full mx-4 max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between mb-1">
+          <h3 className="text-lg font-semibold text-gray-900">Import Products</h3>
+          <button onClick={onClose} className="p-1 text-gray-400 hover:text-gray-700 transition-colors">
+            <X className="w-5 h-5" strokeWidth={1.5} />
+          </button>
+        </div>
+        <p className="text-sm text-gray-500 mb-4">
+          {step === 'upload' && 'Upload a CSV or Excel file with one product per row and a header row.'}
+          {step === 'map' && `${fileName}: choose which column holds each product field.`}
+          {step === 'preview' && `${fileName}: nothing has been saved yet. Existing SKUs are updated, new SKUs are created.`}
+          {step === 'result' && `${fileName}: import finished.`}
+        </p>
+
+        {formError && (
+          <div className="p-3 bg-red-50 border border-red-100 rounded-lg mb-4">
+            <p className="text-sm text-red-600">{formError}</p>
+          </div>
+        )}
+
+        <div className="overflow-y-auto flex-1">
+          {step === 'upload' && (
+            <div className="border-2 border-dashed border-gray-200 rounded-lg p-10 text-center">
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept={SPREADSHEET_ACCEPT}
+                className="hidden"
+                onChange={(e) => handleFileSelected(e.target.files?.[0])}
+              />
+              <Upload className="w-8 h-8 text-gray-400 mx-auto mb-3" strokeWidth={1.5} />
+              <p className="text-sm text-gray-600 mb-4">
+                Columns: SKU, product name, description, category code, unit, cost price, reorder point and active
+              </p>
+              <Button variant="secondary" onClick={() => fileInputRef.current?.click()}>
+                Choose File
+              </Button>
+            </div>
+          )}
+
+          {step === 'map' && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {PRODUCT_IMPORT_FIELDS.map(({ field, label }) => (
+                <Select
+                  key={field}
+                  label={field === 'sku' ? `${label} *` : label}
+                  value={mapping[field] === null ? '' : String(mapping[field])}
+                  onChange={(e) =>
+                    setMapping({ ...mapping, [field]: e.target.value === '' ? null : Number(e.target.value) })
+                  }
+                  options={[
+                    { value: '', label: 'Not in file' },
+                    ...headers.map((header, index) => ({ value: String(index), label: header || `Column ${index + 1}` })),
+                  ]}
+                />
+              ))}
+            </div>
+          )}
+
+          {step === 'preview' && (
+            <div className="space-y-4">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                  <Badge variant="success">{validRows.filter((row) => row.action === 'Create').length} to create</Badge>
+                  <Badge variant="info">{validRows.filter((row) => row.action === 'Update').length} to update</Badge>
+                  {invalidCount > 0 && <Badge variant="danger">{invalidCount} with errors, skipped</Badge>}
+                </div>
+                {invalidCount > 0 && (
+                  <label className="flex items-center gap-2 text-sm text-gray-600">
+                    <input
+                      type="checkbox"
+                      checked={errorsOnly}
+                      onChange={(e) => setErrorsOnly(e.target.checked)}
+                      className="rounded border-gray-300"
+                    />
+                    Only rows with errors
+                  </label>
+                )}
+              </div>
+
+              <div className="overflow-x-auto border border-gray-100 rounded-lg">
+                <table className="w-full">
+                  <thead className="bg-gray-50 border-b border-gray-100">
+                    <tr>
+                      <th className="text-left px-4 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider">Line</th>
+                      <th className="text-left px-4 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider">SKU</th>
+                      <th className="text-left px-4 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider">Name</th>
+                      <th className="text-left px-4 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider">Unit</th>
+                      <th className="text-right px-4 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider">Cost</th>
+                      <th className="text-left px-4 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider">Result</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {visibleRows.map((row) => (
+                      <tr key={row.line}>
+                        <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-500">{row.line}</td>
+                        <td className="px-4 py-3 whitespace-nowrap text-sm font-medium text-gray-900">{row.product.sku || '-'}</td>
+                        <td className="px-4 py-3 text-sm text-gray-900">
+                          {row.product.name || '-'}
+                          {row.category_name && <p className="text-xs text-gray-500">{row.category_name}</p>}
+                        </td>
+                        <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-600">{row.product.unit_of_measure}</td>
+                        <td className="px-4 py-3 whitespace-nowrap text-right text-sm text-gray-600">
+                          {row.product.cost_price.toFixed(2)}
+                        </td>
+                        <td className="px-4 py-3 text-sm">
+                          {row.errors.length > 0 ? (
+                            row.errors.map((error) => (
+                              <p key={error} className="text-xs text-red-600">{error}</p>
+                            ))
+                          ) : (
+                            <Badge variant={row.action === 'Create' ? 'success' : 'info'}>{row.action}</Badge>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              {visibleRows.length === PREVIEW_LIMIT && (
+                <p className="text-xs text-gray-500">Showing the first {PREVIEW_LIMIT} rows.</p>
+              )}
+            </div>
+          )}
+
+          {step === 'result' && result && (
+            <div className="space-y-4">
+              <div className="flex items-start gap-3 p-4 bg-green-50 border border-green-100 rounded-lg">
+                <CheckCircle className="w-5 h-5 text-green-600 flex-shrink-0" strokeWidth={1.5} />
+                <p className="text-sm text-green-700">
+                  {result.created} product(s) created, {result.updated} updated, {result.skipped} skipped with errors
+                </p>
+              </div>
+              {result.failed.length > 0 && (
+                <div className="p-4 bg-red-50 border border-red-100 rounded-lg">
+                  <div className="flex items-center gap-2 mb-2">
+                    <AlertCircle className="w-4 h-4 text-red-600" strokeWidth={1.5} />
+                    <p className="text-sm font-medium text-red-600">{result.failed.length} row(s) could not be saved</p>
+                  </div>
+                  {result.failed.slice(0, PREVIEW_LIMIT).map((failure) => (
+                    <p key={failure.line} className="text-xs text-red-600">
+                      Line {failure.line} ({failure.sku}): {failure.error}
+                    </p>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="flex items-center justify-end gap-3 pt-4">
+          {step === 'map' && (
+            <>
+              <Button variant="secondary" onClick={() => setStep('upload')}>
+                Back
+              </Button>
+              <Button onClick={handlePreview} disabled={working}>
+                {working ? 'Checking...' : 'Preview Import'}
+              </Button>
+            </>
+          )}
+          {step === 'preview' && (
+            <>
+              <Button variant="secondary" onClick={() => setStep('map')} disabled={working}>
+                Back
+              </Button>
+              <Button onClick={handleImport} disabled={working || validRows.length === 0}>
+                {working
+                  ? `Importing ${progress.toLocaleString()} of ${validRows.length.toLocaleString()}...`
+                  : `Import ${validRows.length.toLocaleString()} Product(s)`}
+              </Button>
+            </>
+          )}
+          {(step === 'upload' || step === 'result') && (
+            <Button variant="secondary" onClick={onClose}>
+              {step === 'result' ? 'Done' : 'Cancel'}
+            </Button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
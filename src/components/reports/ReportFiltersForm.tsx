@@ -0,0 +1,59 @@
+import { Input } from '../ui/Input';
+import { Select } from '../ui/Select';
+import { DOCUMENT_TYPES } from '../../lib/documents';
+import { ReportDefinition, ReportFilters } from '../../lib/reports';
+
+interface ReportFiltersFormProps {
+  definition: ReportDefinition;
+  filters: ReportFilters;
+  warehouses: { id: string; name: string }[];
+  onChange: (filters: ReportFilters) => void;
+}
+
+export function ReportFiltersForm({ definition, filters, warehouses, onChange }: ReportFiltersFormProps) {
+  const set = (field: keyof ReportFilters, value: string) => onChange({ ...filters, [field]: value });
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+      {definition.fields.includes('dateRange') && (
+        <>
+          <Input label="From" type="date" value={filters.dateFrom} onChange={(e) => set('dateFrom', e.target.value)} />
+          <Input label="To" type="date" value={filters.dateTo} onChange={(e) => set('dateTo', e.target.value)} />
+        </>
+      )}
+      {definition.fields.includes('asOf') && (
+        <Input label="As Of" type="date" value={filters.asOf} onChange={(e) => set('asOf', e.target.value)} />
+      )}
+      {definition.fields.includes('documentType') && (
+        <Select
+          label="Document Type"
+          value={filters.documentType}
+          onChange={(e) => set('documentType', e.target.value)}
+          options={[
+            { value: '', label: 'All Types' },
+            ...DOCUMENT_TYPES.map((type) => ({ value: type, label: type })),
+          ]}
+        />
+      )}
+      {definition.fields.includes('groupBy') && definition.groupByOptions && (
+        <Select
+          label="Group By"
+          value={filters.groupBy}
+          onChange={(e) => set('groupBy', e.target.value)}
+          options={definition.groupByOptions}
+        />
+      )}
+      {definition.fields.includes('warehouseId') && (
+        <Select
+          label="Warehouse"
+          value={filters.warehouseId}
+          onChange={(e) => set('warehouseId', e.target.value)}
+          options={[
+            { value: '', label: 'All Warehouses' },
+            ...warehouses.map((warehouse) => ({ value: warehouse.id, label: warehouse.name })),
+          ]}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,334 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Calculator } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { Button } from '../ui/Button';
+import { Select } from '../ui/Select';
+import { Badge } from '../ui/Badge';
+import { LANDED_COST_DOCUMENT_TYPES } from '../../lib/documents';
+import {
+  ALLOCATION_METHODS,
+  AllocationLine,
+  ReceiptLine,
+  buildSkuBreakdown,
+  getDefaultBasis,
+} from '../../lib/landedCosts';
+
+interface LandedCostPanelProps {
+  shipmentId: string;
+  canAllocate: boolean;
+  onAllocated: () => void;
+}
+
+interface CostDocument {
+  id: string;
+  document_number: string;
+  document_type: string;
+  document_value: number;
+  currency: string;
+  status: string;
+}
+
+interface Allocation {
+  id: string;
+  method: string;
+  currency: string;
+  total_cost: number;
+  allocated_at: string;
+  allocated_by_name: string;
+  lines: AllocationLine[];
+}
+
+const formatAmount = (value: number) =>
+  value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+export function LandedCostPanel({ shipmentId, canAllocate, onAllocated }: LandedCostPanelProps) {
+  const [receiptLines, setReceiptLines] = useState<ReceiptLine[]>([]);
+  const [costDocuments, setCostDocuments] = useState<CostDocument[]>([]);
+  const [allocation, setAllocation] = useState<Allocation | null>(null);
+  const [method, setMethod] = useState('Value');
+  const [basis, setBasis] = useState<Record<string, string>>({});
+  const [allocating, setAllocating] = useState(false);
+
+  const loadLandedCosts = useCallback(async () => {
+    try {
+      const [receiptsResult, costsResult, allocationResult] = await Promise.all([
+        supabase
+          .from('documents')
+          .select(`
+            document_number,
+            currency,
+            exchange_rate,
+            document_lines(id, product_id, quantity, unit_price, line_total, line_number, products(sku, name, unit_weight, unit_volume))
+          `)
+          .eq('shipment_id', shipmentId)
+          .eq('document_type', 'Goods Receipt')
+          .eq('status', 'Approved'),
+        supabase
+          .from('documents')
+          .select('id, document_number, document_type, document_value, currency, status')
+          .eq('shipment_id', shipmentId)
+          .in('document_type', LANDED_COST_DOCUMENT_TYPES),
+        supabase
+          .from('landed_cost_allocations')
+          .select(`
+            *,
+            users_profile!landed_cost_allocations_allocated_by_fkey(full_name),
+            landed_cost_allocation_lines(cost_document_id, document_line_id, amount, documents!landed_cost_allocation_lines_cost_document_id_fkey(document_type))
+          `)
+          .eq('shipment_id', shipmentId)
+          .is('superseded_at', null)
+          .maybeSingle(),
+      ]);
+
+      if (receiptsResult.error) throw receiptsResult.error;
+      if (costsResult.error) throw costsResult.error;
+      if (allocationResult.error) throw allocationResult.error;
+
+      const receipts = (receiptsResult.data || []) as unknown as RawReceipt[];
+      const lines: ReceiptLine[] = receipts.flatMap((receipt) =>
+        (receipt.document_lines || [])
+          .sort((a, b) => a.line_number - b.line_number)
+          .map((line) => ({
+            id: line.id,
+            document_number: receipt.document_number,
+            currency: receipt.currency,
+            exchange_rate: receipt.exchange_rate,
+            product_id: line.product_id,
+            product_sku: line.products?.sku || 'N/A',
+            product_name: line.products?.name || 'Unknown',
+            quantity: line.quantity,
+            unit_price: line.unit_price,
+            line_total: line.line_total,
+            unit_weight: line.products?.unit_weight || 0,
+            unit_volume: line.products?.unit_volume || 0,
+          }))
+      );
+
+      const current = allocationResult.data;
+
+      setReceiptLines(lines);
+      setCostDocuments(costsResult.data || []);
+      setAllocation(current ? {
+        id: current.id,
+        method: current.method,
+        currency: current.currency,
+        total_cost: current.total_cost,
+        allocated_at: current.allocated_at,
+        allocated_by_name: current.users_profile?.full_name || 'Unknown',
+        lines: (current.landed_cost_allocation_lines || []).map((line: RawAllocationLine) => ({
+          cost_document_id: line.cost_document_id,
+          cost_document_type: line.documents?.document_type || 'Other',
+          document_line_id: line.document_line_id,
+          amount: line.amount,
+        })),
+      } : null);
+    } catch (error) {
+      console.error('Error loading landed costs:', error);
+    }
+  }, [shipmentId]);
+
+  useEffect(() => {
+    loadLandedCosts();
+  }, [loadLandedCosts]);
+
+  const usesBasisInput = method === 'Weight' || method === 'Volume';
+
+  const handleMethodChange = (value: string) => {
+    setMethod(value);
+    // Start from the product master weight/volume; Finance corrects lines from the packing list
+    setBasis(Object.fromEntries(receiptLines.map((line) => [line.id, String(getDefaultBasis(line, value))])));
+  };
+
+  const handleAllocate = async () => {
+    setAllocating(true);
+
+    try {
+      const { error } = await supabase.rpc('allocate_landed_costs', {
+        p_shipment_id: shipmentId,
+        p_method: method,
+        p_basis: usesBasisInput
+          ? Object.fromEntries(receiptLines.map((line) => [line.id, parseFloat(basis[line.id]) || 0]))
+          : null,
+      });
+
+      if (error) throw error;
+
+      await loadLandedCosts();
+      onAllocated();
+    } catch (error) {
+      console.error('Error allocating landed costs:', error);
+      alert(`Failed to allocate landed costs: ${(error as { message?: string }).message || 'Please try again.'}`);
+    } finally {
+      setAllocating(false);
+    }
+  };
+
+  const approvedCosts = costDocuments.filter((doc) => doc.status === 'Approved');
+  const breakdown = buildSkuBreakdown(receiptLines, allocation?.lines || [], allocation?.currency);
+  const costTypes = LANDED_COST_DOCUMENT_TYPES.filter((type) =>
+    breakdown.some((row) => row.costs[type] !== undefined)
+  );
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <p className="text-sm font-medium text-gray-900 mb-2">Cost Documents</p>
+        {costDocuments.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            No freight, insurance, duty or brokerage documents linked to this shipment
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {costDocuments.map((doc) => (
+              <div key={doc.id} className="flex items-center justify-between p-3 rounded-lg border border-gray-100">
+                <div className="flex items-center gap-3">
+                  <p className="text-sm font-medium text-gray-900">{doc.document_number}</p>
+                  <p className="text-xs text-gray-500">{doc.document_type}</p>
+                  {doc.status !== 'Approved' && <Badge variant="warning">{doc.status}</Badge>}
+                </div>
+                <p className="text-sm text-gray-900">
+                  {doc.currency} {formatAmount(doc.document_value)}
+                </p>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {canAllocate && receiptLines.length > 0 && approvedCosts.length > 0 && (
+        <div className="p-4 bg-gray-50 rounded-lg space-y-4">
+          <div className="flex items-end gap-3">
+            <div className="w-48">
+              <Select
+                label="Allocate By"
+                value={method}
+                onChange={(e) => handleMethodChange(e.target.value)}
+                options={ALLOCATION_METHODS.map((m) => ({ value: m, label: m }))}
+              />
+            </div>
+            <Button onClick={handleAllocate} disabled={allocating}>
+              <Calculator className="w-4 h-4 mr-2" strokeWidth={1.5} />
+              {allocating ? 'Allocating...' : allocation ? 'Re-allocate' : 'Allocate'}
+            </Button>
+          </div>
+
+          {usesBasisInput && (
+            <div className="space-y-2">
+              <p className="text-xs text-gray-500">
+                {method === 'Weight' ? 'Total kg' : 'Total m³'} per received line
+              </p>
+              {receiptLines.map((line) => (
+                <div key={line.id} className="grid grid-cols-12 gap-3 items-center">
+                  <p className="col-span-8 text-sm text-gray-700 truncate">
+                    {line.document_number} • {line.product_sku} {line.product_name} × {line.quantity}
+                  </p>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.001"
+                    value={basis[line.id] ?? ''}
+                    onChange={(e) => setBasis({ ...basis, [line.id]: e.target.value })}
+                    className="col-span-4 px-3 py-1.5 border border-gray-200 rounded-lg text-sm text-right focus:outline-none focus:ring-2 focus:ring-gray-900 focus:border-transparent transition-all"
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {receiptLines.length === 0 ? (
+        <p className="text-sm text-gray-500 text-center py-4">No approved Goods Receipts on this shipment yet</p>
+      ) : (
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <p className="text-sm font-medium text-gray-900">Cost Breakdown per SKU</p>
+            {allocation ? (
+              <p className="text-xs text-gray-500">
+                {allocation.currency} {formatAmount(allocation.total_cost)} by {allocation.method.toLowerCase()} •{' '}
+                {allocation.allocated_by_name} • {new Date(allocation.allocated_at).toLocaleString()}
+              </p>
+            ) : (
+              <p className="text-xs text-gray-500">Not allocated yet</p>
+            )}
+          </div>
+          <div className="overflow-x-auto border border-gray-100 rounded-lg">
+            <table className="w-full">
+              <thead className="bg-gray-50 border-b border-gray-100">
+                <tr>
+                  <th className="text-left px-4 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    SKU
+                  </th>
+                  <th className="text-right px-4 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Quantity
+                  </th>
+                  <th className="text-right px-4 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Goods
+                  </th>
+                  {costTypes.map((type) => (
+                    <th key={type} className="text-right px-4 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      {type.replace(' Invoice', '')}
+                    </th>
+                  ))}
+                  <th className="text-right px-4 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Landed Total
+                  </th>
+                  <th className="text-right px-4 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Unit Cost
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {breakdown.map((row) => (
+                  <tr key={row.product_id}>
+                    <td className="px-4 py-3">
+                      <p className="text-sm font-medium text-gray-900">{row.sku}</p>
+                      <p className="text-xs text-gray-500">{row.name}</p>
+                    </td>
+                    <td className="px-4 py-3 text-right text-sm text-gray-900">{row.quantity.toLocaleString()}</td>
+                    <td className="px-4 py-3 text-right text-sm text-gray-900">{formatAmount(row.goods_value)}</td>
+                    {costTypes.map((type) => (
+                      <td key={type} className="px-4 py-3 text-right text-sm text-gray-600">
+                        {formatAmount(row.costs[type] || 0)}
+                      </td>
+                    ))}
+                    <td className="px-4 py-3 text-right text-sm font-medium text-gray-900">
+                      {formatAmount(row.landed_cost)}
+                    </td>
+                    <td className="px-4 py-3 text-right text-sm font-medium text-gray-900">
+                      {row.unit_cost.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 4 })}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface RawReceipt {
+  document_number: string;
+  currency: string;
+  exchange_rate: number | null;
+  document_lines: RawReceiptLine[] | null;
+}
+
+interface RawReceiptLine {
+  id: string;
+  product_id: string;
+  quantity: number;
+  unit_price: number;
+  line_total: number;
+  line_number: number;
+  products: { sku: string; name: string; unit_weight: number; unit_volume: number } | null;
+}
+
+interface RawAllocationLine {
+  cost_document_id: string | null;
+  document_line_id: string | null;
+  amount: number;
+  documents: { document_type: string } | null;
+}
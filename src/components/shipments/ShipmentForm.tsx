@@ -0,0 +1,253 @@
+import { useState } from 'react';
+import { X } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { useAuth } from '../../contexts/AuthContext';
+import { Button } from '../ui/Button';
+import { Input } from '../ui/Input';
+import { Select } from '../ui/Select';
+import { DOCUMENT_TYPES } from '../../lib/documents';
+import {
+  DEFAULT_REQUIRED_DOCUMENT_TYPES,
+  INCOTERMS,
+  SHIPMENT_STATUSES,
+  Shipment,
+  TRANSPORT_MODES,
+  parseContainerNumbers,
+} from '../../lib/shipments';
+
+interface ShipmentFormProps {
+  shipment?: Shipment;
+  onClose: () => void;
+  onSaved: (id: string) => void;
+}
+
+export function ShipmentForm({ shipment, onClose, onSaved }: ShipmentFormProps) {
+  const { user, profile } = useAuth();
+  const [saving, setSaving] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [form, setForm] = useState({
+    shipmentNumber: shipment?.shipment_number || '',
+    supplierName: shipment?.supplier_name || '',
+    transportMode: shipment?.transport_mode || 'Sea',
+    vesselOrFlight: shipment?.vessel_or_flight || '',
+    containerNumbers: shipment?.container_numbers.join(', ') || '',
+    portOfLoading: shipment?.port_of_loading || '',
+    portOfDischarge: shipment?.port_of_discharge || '',
+    incoterm: shipment?.incoterm || '',
+    etd: shipment?.etd || '',
+    eta: shipment?.eta || '',
+    status: shipment?.status || 'Open',
+    requiredDocumentTypes: shipment?.required_document_types || DEFAULT_REQUIRED_DOCUMENT_TYPES,
+    remarks: shipment?.remarks || '',
+  });
+
+  // Only Admins can drop a required type; others start from the defaults and can add to them
+  const lockedTypes =
+    profile?.role === 'Admin' ? [] : shipment?.required_document_types || DEFAULT_REQUIRED_DOCUMENT_TYPES;
+
+  const toggleRequiredType = (type: string) => {
+    setForm({
+      ...form,
+      requiredDocumentTypes: form.requiredDocumentTypes.includes(type)
+        ? form.requiredDocumentTypes.filter((t) => t !== type)
+        : [...form.requiredDocumentTypes, type],
+    });
+  };
+
+  const handleSave = async () => {
+    if (!form.shipmentNumber.trim()) {
+      setFormError('Enter a shipment number');
+      return;
+    }
+    if (form.etd && form.eta && form.eta < form.etd) {
+      setFormError('ETA cannot be before ETD');
+      return;
+    }
+
+    setSaving(true);
+    setFormError(null);
+
+    try {
+      const row = {
+        shipment_number: form.shipmentNumber.trim(),
+        supplier_name: form.supplierName || null,
+        transport_mode: form.transportMode,
+        vessel_or_flight: form.vesselOrFlight || null,
+        container_numbers: parseContainerNumbers(form.containerNumbers),
+        port_of_loading: form.portOfLoading || null,
+        port_of_discharge: form.portOfDischarge || null,
+        incoterm: form.incoterm || null,
+        etd: form.etd || null,
+        eta: form.eta || null,
+        status: form.status,
+        required_document_types: DOCUMENT_TYPES.filter((type) => form.requiredDocumentTypes.includes(type)),
+        remarks: form.remarks || null,
+        updated_at: new Date().toISOString(),
+      };
+
+      if (shipment) {
+        const { error } = await supabase.from('shipments').update(row).eq('id', shipment.id);
+        if (error) throw error;
+        onSaved(shipment.id);
+      } else {
+        const { data, error } = await supabase
+          .from('shipments')
+          .insert({ ...row, created_by: user?.id })
+          .select()
+          .single();
+        if (error) throw error;
+        onSaved(data.id);
+      }
+    } catch (error) {
+      console.error('Error saving shipment:', error);
+      const { code, message } = error as { code?: string; message?: string };
+      setFormError(code === 'P0001' && message ? message : 'Failed to save shipment. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-xl p-6 max-w-3xl w-full mx-4 max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-6">
+          <h3 className="text-lg font-semibold text-gray-900">
+            {shipment ? 'Edit Shipment' : 'New Shipment'}
+          </h3>
+          <button onClick={onClose} className="p-1 text-gray-400 hover:text-gray-700 transition-colors">
+            <X className="w-5 h-5" strokeWidth={1.5} />
+          </button>
+        </div>
+
+        {formError && (
+          <div className="p-3 bg-red-50 border border-red-100 rounded-lg mb-4">
+            <p className="text-sm text-red-600">{formError}</p>
+          </div>
+        )}
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <Input
+              label="Shipment Number"
+              value={form.shipmentNumber}
+              onChange={(e) => setForm({ ...form, shipmentNumber: e.target.value })}
+              placeholder="e.g., SHP-2025-001"
+            />
+            <Input
+              label="Supplier"
+              value={form.supplierName}
+              onChange={(e) => setForm({ ...form, supplierName: e.target.value })}
+            />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <Select
+              label="Transport Mode"
+              value={form.transportMode}
+              onChange={(e) => setForm({ ...form, transportMode: e.target.value })}
+              options={TRANSPORT_MODES.map((mode) => ({ value: mode, label: mode }))}
+            />
+            <Input
+              label={form.transportMode === 'Air' ? 'Flight' : 'Vessel / Voyage'}
+              value={form.vesselOrFlight}
+              onChange={(e) => setForm({ ...form, vesselOrFlight: e.target.value })}
+            />
+            <Select
+              label="Incoterm"
+              value={form.incoterm}
+              onChange={(e) => setForm({ ...form, incoterm: e.target.value })}
+              options={[
+                { value: '', label: 'Not set' },
+                ...INCOTERMS.map((incoterm) => ({ value: incoterm, label: incoterm })),
+              ]}
+            />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <Input
+              label="Port of Loading"
+              value={form.portOfLoading}
+              onChange={(e) => setForm({ ...form, portOfLoading: e.target.value })}
+            />
+            <Input
+              label="Port of Discharge"
+              value={form.portOfDischarge}
+              onChange={(e) => setForm({ ...form, portOfDischarge: e.target.value })}
+            />
+            <Input
+              label="ETD"
+              type="date"
+              value={form.etd}
+              onChange={(e) => setForm({ ...form, etd: e.target.value })}
+            />
+            <Input
+              label="ETA"
+              type="date"
+              value={form.eta}
+              onChange={(e) => setForm({ ...form, eta: e.target.value })}
+            />
+          </div>
+
+          <Input
+            label="Container Numbers"
+            value={form.containerNumbers}
+            onChange={(e) => setForm({ ...form, containerNumbers: e.target.value })}
+            placeholder="e.g., MSCU1234567, MSCU7654321"
+          />
+
+          {shipment && (
+            <Select
+              label="Status"
+              value={form.status}
+              onChange={(e) => setForm({ ...form, status: e.target.value })}
+              options={SHIPMENT_STATUSES.map((status) => ({ value: status, label: status }))}
+            />
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1.5">Required Documents</label>
+            <p className="text-xs text-gray-500 mb-2">
+              The shipment can close once a document of each type is linked and Approved. Only Admins can remove a
+              required type.
+            </p>
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+              {DOCUMENT_TYPES.map((type) => (
+                <label key={type} className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={form.requiredDocumentTypes.includes(type)}
+                    onChange={() => toggleRequiredType(type)}
+                    disabled={lockedTypes.includes(type)}
+                    className="rounded border-gray-300"
+                  />
+                  {type}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1.5">
+              Remarks
+            </label>
+            <textarea
+              value={form.remarks}
+              onChange={(e) => setForm({ ...form, remarks: e.target.value })}
+              rows={3}
+              className="w-full px-3 py-2 border border-gray-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-gray-900 focus:border-transparent transition-all"
+            />
+          </div>
+        </div>
+
+        <div className="flex items-center gap-3 mt-6 pt-6 border-t border-gray-100">
+          <Button onClick={handleSave} disabled={saving}>
+            {saving ? 'Saving...' : shipment ? 'Save Shipment' : 'Create Shipment'}
+          </Button>
+          <Button variant="ghost" onClick={onClose}>
+            Cancel
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
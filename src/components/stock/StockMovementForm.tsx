@@ -0,0 +1,380 @@
+import { useEffect, useState } from 'react';
+import { X } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { useAuth } from '../../contexts/AuthContext';
+import { Button } from '../ui/Button';
+import { Input } from '../ui/Input';
+import { Select } from '../ui/Select';
+import { UnitConversion, formatFactor, productUnits, unitFactor } from '../../lib/products';
+
+interface StockMovementFormProps {
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+interface ProductOption {
+  id: string;
+  sku: string;
+  name: string;
+  unit_of_measure: string;
+  cost_price: number;
+  product_unit_conversions: UnitConversion[];
+}
+
+interface WarehouseOption {
+  id: string;
+  code: string;
+  name: string;
+}
+
+interface DocumentOption {
+  id: string;
+  document_number: string;
+  document_type: string;
+}
+
+type FormErrors = Partial<
+  Record<'productId' | 'warehouseId' | 'toWarehouseId' | 'quantity' | 'unitCost' | 'form', string>
+>;
+
+export function StockMovementForm({ onClose, onSaved }: StockMovementFormProps) {
+  const { user } = useAuth();
+  const [products, setProducts] = useState<ProductOption[]>([]);
+  const [warehouses, setWarehouses] = useState<WarehouseOption[]>([]);
+  const [documents, setDocuments] = useState<DocumentOption[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [errors, setErrors] = useState<FormErrors>({});
+  const [formData, setFormData] = useState({
+    movementType: 'IN',
+    productId: '',
+    warehouseId: '',
+    toWarehouseId: '',
+    inTransit: false,
+    quantity: '',
+    unitOfMeasure: '',
+    unitCost: '',
+    referenceNumber: '',
+    sourceDocumentId: '',
+    remarks: '',
+  });
+
+  useEffect(() => {
+    loadOptions();
+  }, []);
+
+  const loadOptions = async () => {
+    try {
+      const [productsResult, warehousesResult, documentsResult] = await Promise.all([
+        supabase
+          .from('products')
+          .select('id, sku, name, unit_of_measure, cost_price, product_unit_conversions(unit_of_measure, factor)')
+          .eq('is_active', true)
+          .order('sku', { ascending: true }),
+        supabase
+          .from('warehouses')
+          .select('id, code, name')
+          .eq('is_active', true)
+          .order('code', { ascending: true }),
+        supabase
+          .from('documents')
+          .select('id, document_number, document_type')
+          .order('created_at', { ascending: false })
+          .limit(200),
+      ]);
+
+      if (productsResult.error) throw productsResult.error;
+      if (warehousesResult.error) throw warehousesResult.error;
+      if (documentsResult.error) throw documentsResult.error;
+
+      setProducts((productsResult.data || []) as unknown as ProductOption[]);
+      setWarehouses(warehousesResult.data || []);
+      setDocuments(documentsResult.data || []);
+    } catch (error) {
+      console.error('Error loading movement options:', error);
+      setErrors({ form: 'Could not load products and warehouses.' });
+    }
+  };
+
+  const handleChange = (field: string, value: string | boolean) => {
+    setFormData((prev) => ({ ...prev, [field]: value }));
+    setErrors((prev) => ({ ...prev, [field]: undefined, form: undefined }));
+  };
+
+  const handleProductChange = (productId: string) => {
+    const product = products.find((p) => p.id === productId);
+    handleChange('productId', productId);
+    setFormData((prev) => ({
+      ...prev,
+      unitOfMeasure: product?.unit_of_measure || '',
+      unitCost: product && !prev.unitCost ? String(product.cost_price) : prev.unitCost,
+    }));
+  };
+
+  const validate = () => {
+    const nextErrors: FormErrors = {};
+    const quantity = parseFloat(formData.quantity);
+
+    if (!formData.productId) nextErrors.productId = 'Select a product';
+    if (!formData.warehouseId) nextErrors.warehouseId = 'Select a warehouse';
+
+    if (formData.movementType === 'TRANSFER') {
+      if (!formData.toWarehouseId) {
+        nextErrors.toWarehouseId = 'Select a destination warehouse';
+      } else if (formData.toWarehouseId === formData.warehouseId) {
+        nextErrors.toWarehouseId = 'Destination must differ from the source warehouse';
+      }
+    }
+
+    if (Number.isNaN(quantity)) {
+      nextErrors.quantity = 'Enter a quantity';
+    } else if (formData.movementType === 'ADJUST' && quantity === 0) {
+      nextErrors.quantity = 'Adjustment cannot be zero';
+    } else if (formData.movementType !== 'ADJUST' && quantity <= 0) {
+      nextErrors.quantity = 'Quantity must be greater than zero';
+    }
+
+    if (formData.unitCost && parseFloat(formData.unitCost) < 0) {
+      nextErrors.unitCost = 'Unit cost cannot be negative';
+    }
+
+    setErrors(nextErrors);
+    return Object.keys(nextErrors).length === 0;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!validate()) return;
+
+    setSaving(true);
+
+    try {
+      const { error } = formData.movementType === 'TRANSFER'
+        ? await supabase.rpc('create_stock_transfer', {
+            p_product_id: formData.productId,
+            p_from_warehouse_id: formData.warehouseId,
+            p_to_warehouse_id: formData.toWarehouseId,
+            p_quantity: parseFloat(formData.quantity),
+            p_unit_of_measure: formData.unitOfMeasure || null,
+            p_unit_cost: formData.unitCost ? parseFloat(formData.unitCost) : null,
+            p_reference_number: formData.referenceNumber || null,
+            p_remarks: formData.remarks || null,
+            p_in_transit: formData.inTransit,
+          })
+        : await supabase.from('stock_movements').insert({
+            product_id: formData.productId,
+            warehouse_id: formData.warehouseId,
+            movement_type: formData.movementType,
+            // Converted to the base unit on insert
+            entered_quantity: parseFloat(formData.quantity),
+            entered_unit: formData.unitOfMeasure || null,
+            unit_cost: formData.unitCost ? parseFloat(formData.unitCost) : null,
+            source_document_id: formData.sourceDocumentId || null,
+            reference_number: formData.referenceNumber || null,
+            remarks: formData.remarks || null,
+            performed_by: user?.id,
+          });
+
+      if (error) throw error;
+      onSaved();
+    } catch (error) {
+      console.error('Error recording stock movement:', error);
+      const message = (error as { message?: string }).message;
+      setErrors({ form: message || 'Failed to record movement. Please try again.' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const selectedProduct = products.find((p) => p.id === formData.productId);
+  const units = selectedProduct ? productUnits(selectedProduct) : [];
+  const factor = unitFactor(units, formData.unitOfMeasure);
+  const quantity = parseFloat(formData.quantity);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <form onSubmit={handleSubmit} className="bg-white rounded-xl p-6 max-w-2xl w-full mx-4 max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-6">
+          <h3 className="text-lg font-semibold text-gray-900">Record Stock Movement</h3>
+          <button type="button" onClick={onClose} className="p-1 text-gray-400 hover:text-gray-700 transition-colors">
+            <X className="w-5 h-5" strokeWidth={1.5} />
+          </button>
+        </div>
+
+        {errors.form && (
+          <div className="p-3 bg-red-50 border border-red-100 rounded-lg mb-4">
+            <p className="text-sm text-red-600">{errors.form}</p>
+          </div>
+        )}
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+            {[
+              { value: 'IN', label: 'Receipt (IN)' },
+              { value: 'OUT', label: 'Issue (OUT)' },
+              { value: 'ADJUST', label: 'Stocktake (ADJUST)' },
+              { value: 'TRANSFER', label: 'Transfer' },
+            ].map((option) => (
+              <button
+                key={option.value}
+                type="button"
+                onClick={() => handleChange('movementType', option.value)}
+                className={`px-3 py-2 rounded-lg text-sm font-medium border transition-all ${
+                  formData.movementType === option.value
+                    ? 'bg-gray-900 text-white border-gray-900'
+                    : 'bg-white text-gray-700 border-gray-200 hover:bg-gray-50'
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <Select
+              label="Product"
+              value={formData.productId}
+              onChange={(e) => handleProductChange(e.target.value)}
+              error={errors.productId}
+              options={[
+                { value: '', label: 'Select product...' },
+                ...products.map((p) => ({ value: p.id, label: `${p.sku} — ${p.name}` })),
+              ]}
+            />
+
+            <Select
+              label={formData.movementType === 'TRANSFER' ? 'From Warehouse' : 'Warehouse'}
+              value={formData.warehouseId}
+              onChange={(e) => handleChange('warehouseId', e.target.value)}
+              error={errors.warehouseId}
+              options={[
+                { value: '', label: 'Select warehouse...' },
+                ...warehouses.map((w) => ({ value: w.id, label: `${w.code} — ${w.name}` })),
+              ]}
+            />
+          </div>
+
+          {formData.movementType === 'TRANSFER' && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <Select
+                label="To Warehouse"
+                value={formData.toWarehouseId}
+                onChange={(e) => handleChange('toWarehouseId', e.target.value)}
+                error={errors.toWarehouseId}
+                options={[
+                  { value: '', label: 'Select warehouse...' },
+                  ...warehouses.map((w) => ({ value: w.id, label: `${w.code} — ${w.name}` })),
+                ]}
+              />
+
+              <label className="flex items-start gap-2 md:pt-7 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={formData.inTransit}
+                  onChange={(e) => handleChange('inTransit', e.target.checked)}
+                  className="mt-0.5 rounded border-gray-300"
+                />
+                <span>
+                  Ship via in-transit
+                  <span className="block text-xs text-gray-500">
+                    Stock arrives at the destination only when the transfer is received
+                  </span>
+                </span>
+              </label>
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <Input
+              label="Quantity"
+              type="number"
+              step="0.001"
+              value={formData.quantity}
+              onChange={(e) => handleChange('quantity', e.target.value)}
+              placeholder={formData.movementType === 'ADJUST' ? 'e.g., -3 or 5' : '0'}
+              error={errors.quantity}
+            />
+
+            <Select
+              label="Unit"
+              value={formData.unitOfMeasure}
+              onChange={(e) => handleChange('unitOfMeasure', e.target.value)}
+              disabled={units.length < 2}
+              options={
+                units.length > 0
+                  ? units.map((option) => ({
+                      value: option.unit,
+                      label: option.factor === 1 ? option.unit : `${option.unit} (${formatFactor(option.factor)} ${units[0].unit})`,
+                    }))
+                  : [{ value: '', label: '—' }]
+              }
+            />
+
+            <Input
+              label={`Unit Cost${selectedProduct ? ` (per ${selectedProduct.unit_of_measure})` : ''}`}
+              type="number"
+              step="0.01"
+              value={formData.unitCost}
+              onChange={(e) => handleChange('unitCost', e.target.value)}
+              placeholder="0.00"
+              error={errors.unitCost}
+            />
+          </div>
+
+          {selectedProduct && factor && factor !== 1 && !isNaN(quantity) && (
+            <p className="text-xs text-gray-500 -mt-2">
+              Stock changes by {formatFactor(quantity * factor)} {selectedProduct.unit_of_measure}
+            </p>
+          )}
+
+          {formData.movementType === 'ADJUST' && (
+            <p className="text-xs text-gray-500 -mt-2">
+              Enter the difference found at stocktake: positive to add stock, negative to remove it.
+            </p>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <Input
+              label="Reference Number"
+              value={formData.referenceNumber}
+              onChange={(e) => handleChange('referenceNumber', e.target.value)}
+              placeholder="e.g., STK-2025-011"
+            />
+
+            <Select
+              label="Linked Document (optional)"
+              disabled={formData.movementType === 'TRANSFER'}
+              value={formData.sourceDocumentId}
+              onChange={(e) => handleChange('sourceDocumentId', e.target.value)}
+              options={[
+                { value: '', label: 'None' },
+                ...documents.map((d) => ({ value: d.id, label: `${d.document_number} — ${d.document_type}` })),
+              ]}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1.5">
+              Remarks
+            </label>
+            <textarea
+              value={formData.remarks}
+              onChange={(e) => handleChange('remarks', e.target.value)}
+              placeholder="Reason for the movement..."
+              rows={3}
+              className="w-full px-3 py-2 border border-gray-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-gray-900 focus:border-transparent transition-all"
+            />
+          </div>
+        </div>
+
+        <div className="flex items-center gap-3 mt-6 pt-6 border-t border-gray-100">
+          <Button type="submit" disabled={saving}>
+            {saving ? 'Saving...' : 'Record Movement'}
+          </Button>
+          <Button type="button" variant="ghost" onClick={onClose}>
+            Cancel
+          </Button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,321 @@
+import { useState } from 'react';
+import { Plus, Trash2, X } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { useAuth } from '../../contexts/AuthContext';
+import { Button } from '../ui/Button';
+import { Input } from '../ui/Input';
+import { Select } from '../ui/Select';
+import { CURRENCIES } from '../../lib/documents';
+import { PAYMENT_TERMS, Supplier, SupplierBankDetails, SupplierContact } from '../../lib/suppliers';
+
+interface ContactDraft {
+  name: string;
+  title: string;
+  email: string;
+  phone: string;
+  isPrimary: boolean;
+}
+
+interface SupplierFormProps {
+  supplier?: Supplier;
+  contacts?: SupplierContact[];
+  bankDetails?: SupplierBankDetails | null;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+const emptyContact = (isPrimary: boolean): ContactDraft => ({
+  name: '',
+  title: '',
+  email: '',
+  phone: '',
+  isPrimary,
+});
+
+export function SupplierForm({ supplier, contacts = [], bankDetails, onClose, onSaved }: SupplierFormProps) {
+  const { user } = useAuth();
+  const [saving, setSaving] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [form, setForm] = useState({
+    code: supplier?.code || '',
+    legalName: supplier?.legal_name || '',
+    taxId: supplier?.tax_id || '',
+    country: supplier?.country || '',
+    defaultCurrency: supplier?.default_currency || 'USD',
+    paymentTerms: supplier?.payment_terms || '',
+    bankName: bankDetails?.bank_name || '',
+    bankAccountName: bankDetails?.bank_account_name || '',
+    bankAccountNumber: bankDetails?.bank_account_number || '',
+    bankSwiftCode: bankDetails?.bank_swift_code || '',
+  });
+  const [contactDrafts, setContactDrafts] = useState<ContactDraft[]>(
+    contacts.map((contact) => ({
+      name: contact.name,
+      title: contact.title || '',
+      email: contact.email || '',
+      phone: contact.phone || '',
+      isPrimary: contact.is_primary,
+    }))
+  );
+
+  const updateContact = (index: number, changes: Partial<ContactDraft>) => {
+    setContactDrafts(contactDrafts.map((contact, i) => (i === index ? { ...contact, ...changes } : contact)));
+  };
+
+  const setPrimaryContact = (index: number) => {
+    setContactDrafts(contactDrafts.map((contact, i) => ({ ...contact, isPrimary: i === index })));
+  };
+
+  const removeContact = (index: number) => {
+    const remaining = contactDrafts.filter((_, i) => i !== index);
+    // Keep a primary contact when the primary one is removed
+    if (remaining.length > 0 && !remaining.some((contact) => contact.isPrimary)) {
+      remaining[0] = { ...remaining[0], isPrimary: true };
+    }
+    setContactDrafts(remaining);
+  };
+
+  const handleSave = async () => {
+    if (!form.code.trim() || !form.legalName.trim()) {
+      setFormError('Enter a supplier code and legal name');
+      return;
+    }
+    if (contactDrafts.some((contact) => !contact.name.trim())) {
+      setFormError('Every contact needs a name');
+      return;
+    }
+
+    setSaving(true);
+    setFormError(null);
+
+    try {
+      const row = {
+        code: form.code.trim().toUpperCase(),
+        legal_name: form.legalName.trim(),
+        tax_id: form.taxId.trim() || null,
+        country: form.country.trim() || null,
+        default_currency: form.defaultCurrency,
+        payment_terms: form.paymentTerms || null,
+        updated_at: new Date().toISOString(),
+      };
+
+      let supplierId = supplier?.id;
+
+      if (supplierId) {
+        const { error } = await supabase.from('suppliers').update(row).eq('id', supplierId);
+        if (error) throw error;
+      } else {
+        const { data, error } = await supabase
+          .from('suppliers')
+          .insert({ ...row, created_by: user?.id })
+          .select()
+          .single();
+        if (error) throw error;
+        supplierId = data.id;
+      }
+
+      // Bank details are kept apart from the supplier so only Finance and Admins can read them
+      const { error: bankError } = await supabase.from('supplier_bank_details').upsert({
+        supplier_id: supplierId,
+        bank_name: form.bankName.trim() || null,
+        bank_account_name: form.bankAccountName.trim() || null,
+        bank_account_number: form.bankAccountNumber.trim() || null,
+        bank_swift_code: form.bankSwiftCode.trim().toUpperCase() || null,
+        updated_at: new Date().toISOString(),
+      });
+      if (bankError) throw bankError;
+
+      // Contacts are saved as a whole list rather than tracked row by row
+      const { error: deleteError } = await supabase.from('supplier_contacts').delete().eq('supplier_id', supplierId);
+      if (deleteError) throw deleteError;
+
+      if (contactDrafts.length > 0) {
+        const { error: contactsError } = await supabase.from('supplier_contacts').insert(
+          contactDrafts.map((contact) => ({
+            supplier_id: supplierId,
+            name: contact.name.trim(),
+            title: contact.title.trim() || null,
+            email: contact.email.trim() || null,
+            phone: contact.phone.trim() || null,
+            is_primary: contact.isPrimary,
+          }))
+        );
+        if (contactsError) throw contactsError;
+      }
+
+      onSaved();
+    } catch (error) {
+      console.error('Error saving supplier:', error);
+      setFormError('Failed to save supplier. Check the code is not already in use and try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-xl p-6 max-w-3xl w-full mx-4 max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-6">
+          <h3 className="text-lg font-semibold text-gray-900">
+            {supplier ? 'Edit Supplier' : 'New Supplier'}
+          </h3>
+          <button onClick={onClose} className="p-1 text-gray-400 hover:text-gray-700 transition-colors">
+            <X className="w-5 h-5" strokeWidth={1.5} />
+          </button>
+        </div>
+
+        {formError && (
+          <div className="p-3 bg-red-50 border border-red-100 rounded-lg mb-4">
+            <p className="text-sm text-red-600">{formError}</p>
+          </div>
+        )}
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <Input
+              label="Code"
+              value={form.code}
+              onChange={(e) => setForm({ ...form, code: e.target.value })}
+              placeholder="e.g., SUP-001"
+            />
+            <div className="md:col-span-2">
+              <Input
+                label="Legal Name"
+                value={form.legalName}
+                onChange={(e) => setForm({ ...form, legalName: e.target.value })}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <Input
+              label="Tax ID"
+              value={form.taxId}
+              onChange={(e) => setForm({ ...form, taxId: e.target.value })}
+            />
+            <Input
+              label="Country"
+              value={form.country}
+              onChange={(e) => setForm({ ...form, country: e.target.value })}
+            />
+            <Select
+              label="Default Currency"
+              value={form.defaultCurrency}
+              onChange={(e) => setForm({ ...form, defaultCurrency: e.target.value })}
+              options={CURRENCIES.map((currency) => ({ value: currency, label: currency }))}
+            />
+            <Select
+              label="Payment Terms"
+              value={form.paymentTerms}
+              onChange={(e) => setForm({ ...form, paymentTerms: e.target.value })}
+              options={[
+                { value: '', label: 'Not set' },
+                ...PAYMENT_TERMS.map((terms) => ({ value: terms, label: terms })),
+              ]}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1.5">Bank Details</label>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <Input
+                placeholder="Bank name"
+                value={form.bankName}
+                onChange={(e) => setForm({ ...form, bankName: e.target.value })}
+              />
+              <Input
+                placeholder="SWIFT / BIC"
+                value={form.bankSwiftCode}
+                onChange={(e) => setForm({ ...form, bankSwiftCode: e.target.value })}
+              />
+              <Input
+                placeholder="Account name"
+                value={form.bankAccountName}
+                onChange={(e) => setForm({ ...form, bankAccountName: e.target.value })}
+              />
+              <Input
+                placeholder="Account number / IBAN"
+                value={form.bankAccountNumber}
+                onChange={(e) => setForm({ ...form, bankAccountNumber: e.target.value })}
+              />
+            </div>
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-1.5">
+              <label className="block text-sm font-medium text-gray-700">Contacts</label>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setContactDrafts([...contactDrafts, emptyContact(contactDrafts.length === 0)])}
+              >
+                <Plus className="w-4 h-4 mr-1" strokeWidth={1.5} />
+                Add Contact
+              </Button>
+            </div>
+
+            {contactDrafts.length === 0 ? (
+              <p className="text-sm text-gray-500">No contacts yet</p>
+            ) : (
+              <div className="space-y-3">
+                {contactDrafts.map((contact, index) => (
+                  <div key={index} className="p-3 border border-gray-100 rounded-lg">
+                    <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+                      <Input
+                        placeholder="Name"
+                        value={contact.name}
+                        onChange={(e) => updateContact(index, { name: e.target.value })}
+                      />
+                      <Input
+                        placeholder="Title"
+                        value={contact.title}
+                        onChange={(e) => updateContact(index, { title: e.target.value })}
+                      />
+                      <Input
+                        placeholder="Email"
+                        type="email"
+                        value={contact.email}
+                        onChange={(e) => updateContact(index, { email: e.target.value })}
+                      />
+                      <Input
+                        placeholder="Phone"
+                        value={contact.phone}
+                        onChange={(e) => updateContact(index, { phone: e.target.value })}
+                      />
+                    </div>
+                    <div className="flex items-center justify-between mt-2">
+                      <label className="flex items-center gap-2 text-sm text-gray-700">
+                        <input
+                          type="radio"
+                          checked={contact.isPrimary}
+                          onChange={() => setPrimaryContact(index)}
+                          className="border-gray-300"
+                        />
+                        Primary contact
+                      </label>
+                      <button
+                        onClick={() => removeContact(index)}
+                        className="p-1 text-gray-400 hover:text-red-600 transition-colors"
+                      >
+                        <Trash2 className="w-4 h-4" strokeWidth={1.5} />
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="flex items-center gap-3 mt-6 pt-6 border-t border-gray-100">
+          <Button onClick={handleSave} disabled={saving}>
+            {saving ? 'Saving...' : supplier ? 'Save Supplier' : 'Create Supplier'}
+          </Button>
+          <Button variant="ghost" onClick={onClose}>
+            Cancel
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
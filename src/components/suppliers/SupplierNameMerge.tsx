@@ -0,0 +1,180 @@
+import { useEffect, useState } from 'react';
+import { X } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { Button } from '../ui/Button';
+import { Select } from '../ui/Select';
+import { Supplier, normalizeSupplierName } from '../../lib/suppliers';
+
+interface UnmappedName {
+  name: string;
+  documentCount: number;
+  normalized: string;
+}
+
+interface SupplierNameMergeProps {
+  suppliers: Supplier[];
+  onClose: () => void;
+}
+
+export function SupplierNameMerge({ suppliers, onClose }: SupplierNameMergeProps) {
+  const [names, setNames] = useState<UnmappedName[]>([]);
+  const [mapping, setMapping] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [mappedCount, setMappedCount] = useState<number | null>(null);
+
+  useEffect(() => {
+    const loadUnmappedNames = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('documents')
+          .select('supplier_name')
+          .is('supplier_id', null);
+
+        if (error) throw error;
+
+        const counts = new Map<string, number>();
+        (data || []).forEach((doc: { supplier_name: string }) => {
+          counts.set(doc.supplier_name, (counts.get(doc.supplier_name) || 0) + 1);
+        });
+
+        // Sorting by normalized name puts spellings of the same supplier next to each other
+        const unmapped = Array.from(counts, ([name, documentCount]) => ({
+          name,
+          documentCount,
+          normalized: normalizeSupplierName(name),
+        })).sort((a, b) => a.normalized.localeCompare(b.normalized) || a.name.localeCompare(b.name));
+
+        const suggestions: Record<string, string> = {};
+        unmapped.forEach((entry) => {
+          const match = suppliers.find(
+            (supplier) => supplier.is_active && normalizeSupplierName(supplier.legal_name) === entry.normalized
+          );
+          if (match) suggestions[entry.name] = match.id;
+        });
+
+        setNames(unmapped);
+        setMapping(suggestions);
+      } catch (error) {
+        console.error('Error loading supplier names:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadUnmappedNames();
+  }, [suppliers]);
+
+  const handleMap = async () => {
+    const namesBySupplier = new Map<string, string[]>();
+    Object.entries(mapping).forEach(([name, supplierId]) => {
+      if (!supplierId) return;
+      namesBySupplier.set(supplierId, [...(namesBySupplier.get(supplierId) || []), name]);
+    });
+
+    if (namesBySupplier.size === 0) return;
+
+    setSaving(true);
+
+    try {
+      let total = 0;
+      for (const [supplierId, supplierNames] of namesBySupplier) {
+        const { data, error } = await supabase.rpc('map_supplier_names', {
+          p_supplier_id: supplierId,
+          p_names: supplierNames,
+        });
+        if (error) throw error;
+        total += data || 0;
+      }
+
+      setNames(names.filter((entry) => !mapping[entry.name]));
+      setMapping({});
+      setMappedCount(total);
+    } catch (error) {
+      console.error('Error mapping supplier names:', error);
+      alert('Failed to map supplier names. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const selectedCount = names.filter((entry) => mapping[entry.name]).length;
+  const activeSuppliers = suppliers.filter((supplier) => supplier.is_active);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-xl p-6 max-w-3xl w-full mx-4 max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="text-lg font-semibold text-gray-900">Map Supplier Names</h3>
+          <button onClick={onClose} className="p-1 text-gray-400 hover:text-gray-700 transition-colors">
+            <X className="w-5 h-5" strokeWidth={1.5} />
+          </button>
+        </div>
+        <p className="text-sm text-gray-500 mb-6">
+          Link documents raised under a free-text supplier name to a supplier record. Mapped documents are
+          renamed to the supplier's legal name and the old name is kept in their history.
+        </p>
+
+        {mappedCount !== null && (
+          <div className="p-3 bg-green-50 border border-green-100 rounded-lg mb-4">
+            <p className="text-sm text-green-700">{mappedCount} document(s) linked to suppliers</p>
+          </div>
+        )}
+
+        {loading ? (
+          <p className="text-sm text-gray-500">Loading supplier names...</p>
+        ) : names.length === 0 ? (
+          <p className="text-sm text-gray-500">Every document is linked to a supplier record.</p>
+        ) : (
+          <div className="border border-gray-100 rounded-lg overflow-hidden">
+            <table className="w-full">
+              <thead className="bg-gray-50 border-b border-gray-100">
+                <tr>
+                  <th className="text-left px-4 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Name on Documents
+                  </th>
+                  <th className="text-right px-4 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Documents
+                  </th>
+                  <th className="text-left px-4 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Supplier
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {names.map((entry) => (
+                  <tr key={entry.name}>
+                    <td className="px-4 py-3 text-sm text-gray-900">{entry.name}</td>
+                    <td className="px-4 py-3 text-sm text-gray-600 text-right">{entry.documentCount}</td>
+                    <td className="px-4 py-3">
+                      <Select
+                        value={mapping[entry.name] || ''}
+                        onChange={(e) => setMapping({ ...mapping, [entry.name]: e.target.value })}
+                        options={[
+                          { value: '', label: 'Leave unmapped' },
+                          ...activeSuppliers.map((supplier) => ({
+                            value: supplier.id,
+                            label: `${supplier.code} — ${supplier.legal_name}`,
+                          })),
+                        ]}
+                      />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <div className="flex items-center gap-3 mt-6 pt-6 border-t border-gray-100">
+          <Button onClick={handleMap} disabled={saving || selectedCount === 0}>
+            {saving ? 'Mapping...' : `Map ${selectedCount} Name(s)`}
+          </Button>
+          <Button variant="ghost" onClick={onClose}>
+            Close
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
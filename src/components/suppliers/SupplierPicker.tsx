@@ -0,0 +1,100 @@
+import { useState } from 'react';
+import { Search, X } from 'lucide-react';
+import { Supplier, matchesSupplierSearch } from '../../lib/suppliers';
+
+interface SupplierPickerProps {
+  label?: string;
+  suppliers: Supplier[];
+  value: string;
+  // Free-text name of a document not yet linked to a supplier record
+  unlinkedName?: string;
+  onChange: (supplier: Supplier | null) => void;
+  error?: string | null;
+}
+
+export function SupplierPicker({ label = 'Supplier', suppliers, value, unlinkedName, onChange, error }: SupplierPickerProps) {
+  const [search, setSearch] = useState('');
+  const [open, setOpen] = useState(false);
+
+  const selected = suppliers.find((supplier) => supplier.id === value);
+  const matches = suppliers.filter((supplier) => matchesSupplierSearch(supplier, search)).slice(0, 20);
+
+  const handleSelect = (supplier: Supplier) => {
+    onChange(supplier);
+    setSearch('');
+    setOpen(false);
+  };
+
+  return (
+    <div className="w-full">
+      <label className="block text-sm font-medium text-gray-700 mb-1.5">{label}</label>
+
+      {selected ? (
+        <div className="flex items-center justify-between px-3 py-2 border border-gray-200 rounded-lg">
+          <div>
+            <p className="text-sm text-gray-900">{selected.legal_name}</p>
+            <p className="text-xs text-gray-500">
+              {selected.code}
+              {selected.country && ` • ${selected.country}`}
+              {selected.payment_terms && ` • ${selected.payment_terms}`}
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={() => onChange(null)}
+            className="p-1 text-gray-400 hover:text-gray-700 transition-colors"
+          >
+            <X className="w-4 h-4" strokeWidth={1.5} />
+          </button>
+        </div>
+      ) : (
+        <div className="relative">
+          <Search className="absolute left-3 top-2.5 w-4 h-4 text-gray-400" strokeWidth={1.5} />
+          <input
+            value={search}
+            onChange={(e) => {
+              setSearch(e.target.value);
+              setOpen(true);
+            }}
+            onFocus={() => setOpen(true)}
+            onBlur={() => setOpen(false)}
+            placeholder="Search by code, name or tax ID..."
+            className={`w-full pl-10 pr-3 py-2 border border-gray-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-gray-900 focus:border-transparent transition-all ${error ? 'border-red-300' : ''}`}
+          />
+
+          {open && (
+            <div className="absolute z-10 mt-1 w-full bg-white border border-gray-100 rounded-lg shadow-sm max-h-64 overflow-y-auto">
+              {matches.length === 0 ? (
+                <p className="px-3 py-2 text-sm text-gray-500">No suppliers match "{search}"</p>
+              ) : (
+                matches.map((supplier) => (
+                  <button
+                    key={supplier.id}
+                    type="button"
+                    // Select before the input's blur closes the list
+                    onMouseDown={(e) => {
+                      e.preventDefault();
+                      handleSelect(supplier);
+                    }}
+                    className="w-full text-left px-3 py-2 hover:bg-gray-50 transition-colors"
+                  >
+                    <p className="text-sm text-gray-900">{supplier.legal_name}</p>
+                    <p className="text-xs text-gray-500">
+                      {supplier.code}
+                      {supplier.tax_id && ` • Tax ID ${supplier.tax_id}`}
+                    </p>
+                  </button>
+                ))
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      {!selected && unlinkedName && (
+        <p className="mt-1 text-xs text-gray-500">Currently "{unlinkedName}", not linked to a supplier record</p>
+      )}
+      {error && <p className="mt-1 text-xs text-red-600">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,38 @@
+interface BarChartProps {
+  data: { label: string; value: number; display?: string }[];
+  // Bars beyond this many are left out of the chart
+  limit?: number;
+}
+
+export function BarChart({ data, limit = 12 }: BarChartProps) {
+  const shown = data.slice(0, limit);
+  const max = Math.max(...shown.map((item) => Math.abs(item.value)), 0);
+
+  if (shown.length === 0 || max === 0) {
+    return <p className="text-sm text-gray-500">No data to chart.</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      {shown.map((item) => (
+        <div key={item.label} className="flex items-center gap-3">
+          <p className="w-40 flex-shrink-0 text-sm text-gray-600 truncate" title={item.label}>
+            {item.label}
+          </p>
+          <div className="flex-1 h-5 bg-gray-50 rounded">
+            <div
+              className={`h-5 rounded ${item.value < 0 ? 'bg-red-400' : 'bg-gray-900'}`}
+              style={{ width: `${(Math.abs(item.value) / max) * 100}%` }}
+            />
+          </div>
+          <p className="w-36 flex-shrink-0 text-sm text-gray-900 text-right whitespace-nowrap">
+            {item.display ?? item.value.toLocaleString()}
+          </p>
+        </div>
+      ))}
+      {data.length > shown.length && (
+        <p className="text-xs text-gray-500">Showing the first {shown.length} of {data.length}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+import { useState } from 'react';
+import { ChevronDown, Download, FileSpreadsheet, FileText } from 'lucide-react';
+import { Button } from './Button';
+import { ExportFormat } from '../../lib/exports';
+
+interface ExportMenuProps {
+  // Plural noun for messages, e.g. "documents"
+  label: string;
+  onExport: (format: ExportFormat, onProgress: (rowsExported: number) => void) => Promise<unknown>;
+}
+
+export function ExportMenu({ label, onExport }: ExportMenuProps) {
+  const [open, setOpen] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const [progress, setProgress] = useState(0);
+
+  const handleExport = async (format: ExportFormat) => {
+    setOpen(false);
+    setExporting(true);
+    setProgress(0);
+
+    try {
+      await onExport(format, setProgress);
+    } catch (error) {
+      console.error(`Error exporting ${label}:`, error);
+      alert(`Failed to export ${label}. Please try again.`);
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <Button variant="secondary" onClick={() => setOpen(!open)} disabled={exporting}>
+        <Download className="w-4 h-4 mr-2" strokeWidth={1.5} />
+        {exporting ? `Exporting ${progress.toLocaleString()} ${label}...` : 'Export'}
+        {!exporting && <ChevronDown className="w-4 h-4 ml-2" strokeWidth={1.5} />}
+      </Button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-48 bg-white rounded-lg border border-gray-100 shadow-lg z-10 py-1">
+          <button
+            onClick={() => handleExport('csv')}
+            className="w-full flex items-center gap-2 px-4 py-2 text-sm text-gray-700 text-left hover:bg-gray-50"
+          >
+            <FileText className="w-4 h-4" strokeWidth={1.5} />
+            CSV (.csv)
+          </button>
+          <button
+            onClick={() => handleExport('xlsx')}
+            className="w-full flex items-center gap-2 px-4 py-2 text-sm text-gray-700 text-left hover:bg-gray-50"
+          >
+            <FileSpreadsheet className="w-4 h-4" strokeWidth={1.5} />
+            Excel (.xlsx)
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+interface SparklineProps {
+  // Gaps (null) break the line rather than dropping to zero
+  values: (number | null)[];
+  width?: number;
+  height?: number;
+  className?: string;
+}
+
+export function Sparkline({ values, width = 160, height = 40, className = 'text-gray-900' }: SparklineProps) {
+  const present = values.filter((value): value is number => value !== null);
+
+  if (present.length === 0) {
+    return (
+      <div style={{ width, height }} className="flex items-center">
+        <p className="text-xs text-gray-400">No data</p>
+      </div>
+    );
+  }
+
+  const min = Math.min(...present);
+  const max = Math.max(...present);
+  const range = max - min || 1;
+  const step = values.length > 1 ? (width - 4) / (values.length - 1) : 0;
+  const point = (value: number, index: number) =>
+    [2 + index * step, height - 2 - ((value - min) / range) * (height - 4)] as const;
+
+  // One polyline per run of consecutive values
+  const segments: string[] = [];
+  let current: string[] = [];
+  values.forEach((value, index) => {
+    if (value === null) {
+      if (current.length > 0) segments.push(current.join(' '));
+      current = [];
+      return;
+    }
+    current.push(point(value, index).join(','));
+  });
+  if (current.length > 0) segments.push(current.join(' '));
+
+  return (
+    <svg width={width} height={height} className={className}>
+      {segments.map((segment, i) => (
+        <polyline key={i} points={segment} fill="none" stroke="currentColor" strokeWidth={1.5} />
+      ))}
+      {values.map((value, index) => {
+        if (value === null) return null;
+        const [x, y] = point(value, index);
+        return <circle key={index} cx={x} cy={y} r={2} fill="currentColor" />;
+      })}
+    </svg>
+  );
+}
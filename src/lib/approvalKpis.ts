@@ -0,0 +1,88 @@
+import { supabase } from './supabase';
+import { percentile } from './reports';
+
+export const PRIORITIES = ['Urgent', 'High', 'Medium', 'Low'];
+
+export type ApprovalSlaHours = Record<string, number>;
+
+export const DEFAULT_APPROVAL_SLA_HOURS: ApprovalSlaHours = { Urgent: 24, High: 48, Medium: 72, Low: 120 };
+
+export interface ApprovalCycle {
+  document_id: string;
+  decided_at: string;
+  outcome: string;
+  cycle_hours: number;
+  priority: string;
+}
+
+export interface StepTurnaround {
+  step_id: string;
+  decided_at: string;
+  hours: number;
+}
+
+export interface QueuedDocument {
+  document_id: string;
+  document_number: string;
+  document_type: string;
+  supplier_name: string;
+  priority: string;
+  document_value: number;
+  currency: string;
+  step_name: string;
+  waiting_since: string;
+}
+
+export interface PendingDocumentAge {
+  document_id: string;
+  priority: string;
+  hours_waiting: number;
+}
+
+export interface CycleSummary {
+  decisions: number;
+  avgHours: number | null;
+  p90Hours: number | null;
+  // Decisions that took longer than their priority's SLA
+  breaches: Record<string, number>;
+}
+
+export async function loadApprovalSlaHours() {
+  const { data, error } = await supabase
+    .from('system_settings')
+    .select('approval_sla_hours')
+    .maybeSingle();
+
+  if (error) throw error;
+  return { ...DEFAULT_APPROVAL_SLA_HOURS, ...(data?.approval_sla_hours as ApprovalSlaHours | undefined) };
+}
+
+// Documents without a known priority are held to the Medium SLA, the column default
+export function slaHoursFor(sla: ApprovalSlaHours, priority: string | null) {
+  return sla[priority || 'Medium'] ?? sla.Medium;
+}
+
+export function summarizeCycles(cycles: ApprovalCycle[], sla: ApprovalSlaHours): CycleSummary {
+  const hours = cycles.map((cycle) => Number(cycle.cycle_hours));
+  const breaches = Object.fromEntries(PRIORITIES.map((priority) => [priority, 0]));
+
+  cycles.forEach((cycle) => {
+    if (Number(cycle.cycle_hours) > slaHoursFor(sla, cycle.priority)) {
+      const priority = PRIORITIES.includes(cycle.priority) ? cycle.priority : 'Medium';
+      breaches[priority] += 1;
+    }
+  });
+
+  return {
+    decisions: cycles.length,
+    avgHours: hours.length > 0 ? hours.reduce((sum, h) => sum + h, 0) / hours.length : null,
+    p90Hours: percentile(hours, 0.9),
+    breaches,
+  };
+}
+
+// Relative change from the previous period, or null when there is nothing to compare
+export function percentChange(current: number | null, previous: number | null) {
+  if (current === null || previous === null || previous === 0) return null;
+  return ((current - previous) / previous) * 100;
+}
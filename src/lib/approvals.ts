@@ -0,0 +1,34 @@
+export const USER_ROLES = ['Requester', 'Approver', 'Finance', 'Admin'];
+export const DEPARTMENTS = ['Procurement', 'Finance', 'Warehouse', 'Management'];
+
+export interface ApprovalStep {
+  id: string;
+  step_order: number;
+  name: string;
+  approver_role: string;
+  approver_department: string | null;
+  approver_id: string | null;
+  status: string;
+  decided_by: string | null;
+  decided_at: string | null;
+  remarks: string | null;
+  decided_by_name?: string | null;
+  approver_name?: string | null;
+}
+
+interface ApproverProfile {
+  id: string;
+  role: string;
+  department: string;
+}
+
+// Same rule as is_step_approver() in the database.
+export function canDecideStep(step: ApprovalStep, profile: ApproverProfile | null) {
+  if (!profile) return false;
+  if (profile.role === 'Admin') return true;
+  if (step.approver_id) return profile.id === step.approver_id && profile.role === step.approver_role;
+  return (
+    profile.role === step.approver_role &&
+    (!step.approver_department || profile.department === step.approver_department)
+  );
+}
@@ -0,0 +1,204 @@
+import { supabase } from './supabase';
+
+// Keep in line with the `document-files` bucket limits in the storage migration.
+export const ATTACHMENT_BUCKET = 'document-files';
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024;
+export const ALLOWED_ATTACHMENT_TYPES = ['application/pdf', 'image/png', 'image/jpeg'];
+
+export interface DocumentFile {
+  id: string;
+  document_id: string;
+  file_name: string;
+  file_url: string;
+  file_size: number;
+  file_type: string | null;
+  category: string | null;
+  uploaded_by: string | null;
+  uploaded_at: string;
+  uploader_name?: string;
+}
+
+export interface PendingAttachment {
+  key: string;
+  file: File;
+  category: string | null;
+  progress: number;
+  status: 'pending' | 'uploading' | 'completed' | 'error';
+  error?: string;
+}
+
+export interface AttachmentRequirement {
+  id: string;
+  document_type: string;
+  category: string;
+  description: string | null;
+  is_active: boolean;
+}
+
+export function createPendingAttachment(file: File, category: string | null = null): PendingAttachment {
+  return {
+    key: Math.random().toString(36).slice(2, 11),
+    file,
+    category,
+    progress: 0,
+    status: 'pending',
+  };
+}
+
+export function validateAttachment(file: File) {
+  if (!ALLOWED_ATTACHMENT_TYPES.includes(file.type)) {
+    return `${file.name}: only PDF, PNG and JPG files are allowed`;
+  }
+  if (file.size > MAX_ATTACHMENT_SIZE) {
+    return `${file.name}: larger than 10MB`;
+  }
+  return null;
+}
+
+export function formatFileSize(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export function isPreviewable(fileType: string | null) {
+  return fileType === 'application/pdf' || !!fileType?.startsWith('image/');
+}
+
+// supabase-js uploads have no progress events, so send the file to a signed upload URL directly.
+function putWithProgress(url: string, file: File, onProgress: (percent: number) => void) {
+  return new Promise<void>((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open('PUT', url);
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable) onProgress(Math.round((event.loaded / event.total) * 100));
+    };
+    xhr.onload = () => {
+      if (xhr.status >= 200 && xhr.status < 300) resolve();
+      else reject(new Error(`Upload failed with status ${xhr.status}`));
+    };
+    xhr.onerror = () => reject(new Error('Upload failed'));
+
+    const body = new FormData();
+    body.append('cacheControl', '3600');
+    body.append('', file);
+    xhr.send(body);
+  });
+}
+
+export async function uploadAttachment(
+  documentId: string,
+  file: File,
+  category: string | null,
+  uploadedBy: string | undefined,
+  onProgress: (percent: number) => void
+) {
+  const safeName = file.name.replace(/[^a-zA-Z0-9._-]/g, '_');
+  const path = `${documentId}/${Math.random().toString(36).slice(2, 11)}-${safeName}`;
+
+  const { data: signed, error: signError } = await supabase.storage
+    .from(ATTACHMENT_BUCKET)
+    .createSignedUploadUrl(path);
+
+  if (signError) throw signError;
+
+  await putWithProgress(signed.signedUrl, file, onProgress);
+
+  // The history entry is written by trigger
+  const { error } = await supabase.from('document_files').insert({
+    document_id: documentId,
+    file_name: file.name,
+    file_url: path,
+    file_size: file.size,
+    file_type: file.type,
+    category,
+    uploaded_by: uploadedBy,
+  });
+
+  if (error) {
+    // Nothing refers to the object without its row, so remove it
+    await supabase.storage.from(ATTACHMENT_BUCKET).remove([path]);
+    throw error;
+  }
+}
+
+// Uploads one after another and reports progress per file; returns how many failed.
+export async function uploadPendingAttachments(
+  documentId: string,
+  uploads: PendingAttachment[],
+  uploadedBy: string | undefined,
+  onUpdate: (key: string, changes: Partial<PendingAttachment>) => void
+) {
+  let failed = 0;
+
+  for (const upload of uploads.filter((u) => u.status === 'pending')) {
+    onUpdate(upload.key, { status: 'uploading', progress: 0 });
+
+    try {
+      await uploadAttachment(documentId, upload.file, upload.category, uploadedBy, (progress) => onUpdate(upload.key, { progress }));
+      onUpdate(upload.key, { status: 'completed', progress: 100 });
+    } catch (error) {
+      console.error('Error uploading attachment:', error);
+      failed++;
+      onUpdate(upload.key, { status: 'error', error: (error as { message?: string }).message });
+    }
+  }
+
+  return failed;
+}
+
+export async function getAttachmentUrl(file: DocumentFile, download = false) {
+  const { data, error } = await supabase.storage
+    .from(ATTACHMENT_BUCKET)
+    .createSignedUrl(file.file_url, 60, download ? { download: file.file_name } : undefined);
+
+  if (error) throw error;
+  return data.signedUrl;
+}
+
+export async function deleteAttachment(file: DocumentFile) {
+  // Remove the object first: its storage policy checks the document_files row
+  const { error: storageError } = await supabase.storage.from(ATTACHMENT_BUCKET).remove([file.file_url]);
+  if (storageError) throw storageError;
+
+  const { error } = await supabase.from('document_files').delete().eq('id', file.id);
+  if (error) throw error;
+}
+
+export async function setAttachmentCategory(file: DocumentFile, category: string | null) {
+  // Goes through a function: uploaders have no UPDATE on document_files
+  const { error } = await supabase.rpc('set_document_file_category', {
+    p_file_id: file.id,
+    p_category: category,
+  });
+  if (error) throw error;
+}
+
+export async function loadAttachmentRequirements(documentType?: string): Promise<AttachmentRequirement[]> {
+  let query = supabase
+    .from('attachment_requirements')
+    .select('*')
+    .eq('is_active', true)
+    .order('category', { ascending: true });
+
+  if (documentType) {
+    query = query.eq('document_type', documentType);
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return data || [];
+}
+
+// Required categories for the document type that none of the files are tagged with.
+// Mirrors missing_attachment_categories() in the database, which has the final say on submit.
+export function getMissingCategories(
+  requirements: AttachmentRequirement[],
+  documentType: string,
+  files: { category: string | null }[]
+) {
+  const present = new Set(files.map((file) => file.category));
+  return requirements
+    .filter((requirement) => requirement.document_type === documentType && !present.has(requirement.category))
+    .map((requirement) => requirement.category);
+}
@@ -0,0 +1,146 @@
+import { supabase } from './supabase';
+
+export const DEFAULT_BASE_CURRENCY = 'THB';
+
+export interface ExchangeRate {
+  id: string;
+  base_currency: string;
+  currency: string;
+  rate_date: string;
+  rate: number;
+  source: string;
+  created_at: string;
+}
+
+export interface ParsedExchangeRate {
+  currency: string;
+  rate_date: string;
+  rate: number;
+}
+
+// Amounts that can be converted: documents carry base_value once approved
+export interface ConvertibleAmount {
+  currency: string;
+  amount: number;
+  date: string;
+  base_value?: number | null;
+}
+
+export async function loadBaseCurrency() {
+  const { data, error } = await supabase
+    .from('system_settings')
+    .select('base_currency')
+    .maybeSingle();
+
+  if (error) throw error;
+  return (data?.base_currency as string | undefined) || DEFAULT_BASE_CURRENCY;
+}
+
+export async function loadExchangeRates(baseCurrency: string) {
+  const { data, error } = await supabase
+    .from('exchange_rates')
+    .select('*')
+    .eq('base_currency', baseCurrency)
+    .order('rate_date', { ascending: false });
+
+  if (error) throw error;
+  return (data || []) as ExchangeRate[];
+}
+
+// Whether a document in `currency` approved today would find the rate that
+// capture_document_exchange_rate() requires. Today is the UTC date, as on the database.
+export async function hasApprovalExchangeRate(currency: string) {
+  const baseCurrency = await loadBaseCurrency();
+  if (currency === baseCurrency) return true;
+
+  const { data, error } = await supabase
+    .from('exchange_rates')
+    .select('id')
+    .eq('base_currency', baseCurrency)
+    .eq('currency', currency)
+    .lte('rate_date', new Date().toISOString().slice(0, 10))
+    .limit(1);
+
+  if (error) throw error;
+  return (data || []).length > 0;
+}
+
+// Same lookup as exchange_rate_for(): the latest rate on or before the date.
+// `rates` must be sorted newest first, as loadExchangeRates returns them.
+export function findExchangeRate(rates: ExchangeRate[], baseCurrency: string, currency: string, date: string) {
+  if (currency === baseCurrency) return 1;
+  const day = date.slice(0, 10);
+  return rates.find((rate) => rate.currency === currency && rate.rate_date <= day)?.rate ?? null;
+}
+
+// Converts an amount using its captured base value when there is one, otherwise the
+// latest rate for its date. Returns null when no rate is recorded.
+export function toBaseCurrency(rates: ExchangeRate[], baseCurrency: string, value: ConvertibleAmount) {
+  if (value.base_value !== undefined && value.base_value !== null) return Number(value.base_value);
+
+  const rate = findExchangeRate(rates, baseCurrency, value.currency, value.date);
+  return rate === null ? null : Number(value.amount) * rate;
+}
+
+// Totals a set of amounts in base currency, counting the ones that could not be converted.
+export function sumInBaseCurrency(rates: ExchangeRate[], baseCurrency: string, values: ConvertibleAmount[]) {
+  return values.reduce(
+    (totals, value) => {
+      const converted = toBaseCurrency(rates, baseCurrency, value);
+      return converted === null
+        ? { ...totals, unconverted: totals.unconverted + 1 }
+        : { ...totals, total: totals.total + converted };
+    },
+    { total: 0, unconverted: 0 }
+  );
+}
+
+export function formatMoney(amount: number, currency: string) {
+  return `${currency} ${amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+// Parses "currency,rate_date,rate" rows (header required, columns in any order).
+// A currency and date listed twice keeps the last row.
+export function parseExchangeRateCsv(text: string, baseCurrency: string) {
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/).filter((line) => line.trim() !== '');
+  const rows = new Map<string, ParsedExchangeRate>();
+  const errors: string[] = [];
+
+  if (lines.length === 0) {
+    return { rows: [], errors: ['The file is empty'] };
+  }
+
+  const header = lines[0].split(',').map((column) => column.trim().toLowerCase());
+  const columns = {
+    currency: header.indexOf('currency'),
+    rate_date: header.indexOf('rate_date'),
+    rate: header.indexOf('rate'),
+  };
+
+  const missing = Object.entries(columns).filter(([, index]) => index === -1).map(([name]) => name);
+  if (missing.length > 0) {
+    return { rows: [], errors: [`Missing column(s): ${missing.join(', ')}`] };
+  }
+
+  lines.slice(1).forEach((line, index) => {
+    const cells = line.split(',').map((cell) => cell.trim());
+    const lineNumber = index + 2;
+    const currency = cells[columns.currency]?.toUpperCase() || '';
+    const rateDate = cells[columns.rate_date] || '';
+    const rate = parseFloat(cells[columns.rate]);
+
+    if (!/^[A-Z]{3}$/.test(currency)) {
+      errors.push(`Line ${lineNumber}: "${currency}" is not a currency code`);
+    } else if (currency === baseCurrency) {
+      errors.push(`Line ${lineNumber}: ${currency} is the base currency`);
+    } else if (!/^\d{4}-\d{2}-\d{2}$/.test(rateDate) || isNaN(Date.parse(rateDate))) {
+      errors.push(`Line ${lineNumber}: "${rateDate}" is not a YYYY-MM-DD date`);
+    } else if (!(rate > 0)) {
+      errors.push(`Line ${lineNumber}: rate must be a positive number`);
+    } else {
+      rows.set(`${currency}:${rateDate}`, { currency, rate_date: rateDate, rate });
+    }
+  });
+
+  return { rows: Array.from(rows.values()), errors };
+}
@@ -0,0 +1,102 @@
+import { LineItemDraft, LineProduct, calculateLineTotal } from './documentLines';
+
+// One entry of the `changes` array stored on an "Updated" document_history row, as built
+// by document_changes() in the database.
+export interface FieldChange {
+  field: string;
+  label: string;
+  before: string | null;
+  after: string | null;
+}
+
+export type DocumentSnapshot = Record<string, string | null>;
+
+// Keep in line with the field list in document_changes()
+export const DOCUMENT_FIELD_LABELS: Record<string, string> = {
+  document_type: 'Document Type',
+  document_number: 'Document Number',
+  supplier_name: 'Supplier',
+  document_date: 'Document Date',
+  currency: 'Currency',
+  priority: 'Priority',
+  approver: 'Approver',
+  warehouse: 'Warehouse',
+  document_value: 'Value',
+  remarks: 'Remarks',
+};
+
+export function diffFields(before: DocumentSnapshot, after: DocumentSnapshot): FieldChange[] {
+  return Object.keys(DOCUMENT_FIELD_LABELS)
+    .filter((field) => (before[field] || null) !== (after[field] || null))
+    .map((field) => ({
+      field,
+      label: DOCUMENT_FIELD_LABELS[field],
+      before: before[field] || null,
+      after: after[field] || null,
+    }));
+}
+
+// Header fields plus lines, as built by document_revision_snapshot() in the database.
+export interface RevisionSnapshot {
+  fields: DocumentSnapshot;
+  lines: SnapshotLine[];
+}
+
+export interface SnapshotLine {
+  product: string | null;
+  description: string | null;
+  quantity: number;
+  unit_of_measure: string;
+  unit_price: number;
+  line_total: number;
+}
+
+function formatLine(name: string, quantity: string, unitOfMeasure: string, unitPrice: string, total: number) {
+  return `${name} — ${quantity} ${unitOfMeasure} @ ${unitPrice} = ${total.toFixed(2)}`;
+}
+
+export function describeLine(line: LineItemDraft, products: LineProduct[]) {
+  const product = products.find((p) => p.id === line.productId);
+  const name = product ? `${product.sku} ${product.name}` : line.description || 'Unknown product';
+  return formatLine(name, line.quantity, line.unitOfMeasure, line.unitPrice, calculateLineTotal(line));
+}
+
+export function describeSnapshotLine(line: SnapshotLine) {
+  return formatLine(
+    line.product || line.description || 'Unknown product',
+    String(line.quantity),
+    line.unit_of_measure,
+    String(line.unit_price),
+    Number(line.line_total)
+  );
+}
+
+function diffDescribedLines(before: string[], after: string[]): FieldChange[] {
+  const changes: FieldChange[] = [];
+
+  for (let index = 0; index < Math.max(before.length, after.length); index++) {
+    const previous = before[index] ?? null;
+    const next = after[index] ?? null;
+
+    if (previous !== next) {
+      changes.push({ field: `line_${index + 1}`, label: `Line ${index + 1}`, before: previous, after: next });
+    }
+  }
+
+  return changes;
+}
+
+// Lines are compared by position, which is how line_number is assigned on save.
+export function diffLines(before: LineItemDraft[], after: LineItemDraft[], products: LineProduct[]): FieldChange[] {
+  return diffDescribedLines(
+    before.map((line) => describeLine(line, products)),
+    after.map((line) => describeLine(line, products))
+  );
+}
+
+export function diffSnapshots(before: RevisionSnapshot, after: RevisionSnapshot): FieldChange[] {
+  return [
+    ...diffFields(before.fields, after.fields),
+    ...diffDescribedLines(before.lines.map(describeSnapshotLine), after.lines.map(describeSnapshotLine)),
+  ];
+}
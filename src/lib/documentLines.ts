@@ -0,0 +1,72 @@
+import { UnitConversion } from './products';
+
+export interface LineProduct {
+  id: string;
+  sku: string;
+  name: string;
+  unit_of_measure: string;
+  cost_price: number;
+  product_unit_conversions?: UnitConversion[];
+}
+
+export interface LineItemDraft {
+  key: string;
+  productId: string;
+  description: string;
+  quantity: string;
+  unitOfMeasure: string;
+  unitPrice: string;
+}
+
+export function createEmptyLine(): LineItemDraft {
+  return {
+    key: Math.random().toString(36).slice(2, 11),
+    productId: '',
+    description: '',
+    quantity: '1',
+    unitOfMeasure: 'PCS',
+    unitPrice: '0',
+  };
+}
+
+export function calculateLineTotal(line: Pick<LineItemDraft, 'quantity' | 'unitPrice'>) {
+  const quantity = parseFloat(line.quantity) || 0;
+  const unitPrice = parseFloat(line.unitPrice) || 0;
+  return Math.round(quantity * unitPrice * 100) / 100;
+}
+
+export function calculateDocumentTotal(lines: LineItemDraft[]) {
+  return lines.reduce((sum, line) => sum + calculateLineTotal(line), 0);
+}
+
+export function validateLines(lines: LineItemDraft[]) {
+  if (lines.length === 0) {
+    return 'Add at least one line item';
+  }
+
+  for (const [index, line] of lines.entries()) {
+    if (!line.productId) {
+      return `Line ${index + 1}: select a product`;
+    }
+    if (!(parseFloat(line.quantity) > 0)) {
+      return `Line ${index + 1}: quantity must be greater than zero`;
+    }
+    if (parseFloat(line.unitPrice) < 0 || line.unitPrice === '') {
+      return `Line ${index + 1}: unit price cannot be negative`;
+    }
+  }
+
+  return null;
+}
+
+export function toLineRows(documentId: string, lines: LineItemDraft[]) {
+  return lines.map((line, index) => ({
+    document_id: documentId,
+    line_number: index + 1,
+    product_id: line.productId,
+    description: line.description || null,
+    quantity: parseFloat(line.quantity),
+    unit_of_measure: line.unitOfMeasure,
+    unit_price: parseFloat(line.unitPrice),
+  }));
+}
@@ -0,0 +1,40 @@
+// Document types whose approval posts stock movements (see approve_document()).
+export const STOCK_DOCUMENT_TYPES: Record<string, 'IN' | 'OUT'> = {
+  'Goods Receipt': 'IN',
+  'Delivery Note': 'OUT',
+};
+
+export function isStockDocument(documentType: string) {
+  return documentType in STOCK_DOCUMENT_TYPES;
+}
+
+// Document types that reference the Purchase Order they belong to (documents.purchase_order_id).
+export const PURCHASE_ORDER_REFERENCE_TYPES = ['Goods Receipt', 'Invoice'];
+
+export function referencesPurchaseOrder(documentType: string) {
+  return PURCHASE_ORDER_REFERENCE_TYPES.includes(documentType);
+}
+
+// A Purchase Order moves on from Approved as its Goods Receipts and Invoices are approved
+// (see refresh_purchase_order_fulfilment()); all three count as approved.
+export const APPROVED_STATUSES = ['Approved', 'Partially Received', 'Closed'];
+
+export function isApprovedStatus(status: string) {
+  return APPROVED_STATUSES.includes(status);
+}
+
+// Cost documents that allocate_landed_costs() spreads over a shipment's Goods Receipts.
+export const LANDED_COST_DOCUMENT_TYPES = ['Freight Invoice', 'Insurance Invoice', 'Customs Duty', 'Brokerage Invoice'];
+
+export const DOCUMENT_TYPES = [
+  'Purchase Order',
+  'Invoice',
+  'Goods Receipt',
+  'Delivery Note',
+  'Packing List',
+  'Bill of Lading',
+  'Customs Declaration',
+  ...LANDED_COST_DOCUMENT_TYPES,
+];
+
+export const CURRENCIES = ['THB', 'USD', 'EUR', 'GBP', 'JPY', 'CNY'];
@@ -0,0 +1,136 @@
+import { XlsxCell, createXlsxWriter } from './xlsx';
+
+// PostgREST caps a single response at 1000 rows by default
+export const EXPORT_PAGE_SIZE = 1000;
+
+export type ExportFormat = 'csv' | 'xlsx';
+
+export interface ExportColumn<T> {
+  header: string;
+  type: 'string' | 'number' | 'date' | 'datetime';
+  value: (row: T) => string | number | null | undefined;
+}
+
+export interface ExportOptions<T> {
+  fileName: string;
+  sheetName: string;
+  format: ExportFormat;
+  columns: ExportColumn<T>[];
+  // Returns rows from..to (inclusive) of the filtered, ordered result
+  fetchPage: (from: number, to: number) => Promise<T[]>;
+  onProgress?: (rowsExported: number) => void;
+}
+
+// Supabase dates come as `YYYY-MM-DD`, which `new Date` would read as UTC midnight
+function parseDate(value: string | number, type: 'date' | 'datetime') {
+  if (type === 'date' && typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    const [year, month, day] = value.split('-').map(Number);
+    return new Date(year, month - 1, day);
+  }
+  return new Date(value);
+}
+
+function pad(value: number) {
+  return String(value).padStart(2, '0');
+}
+
+function formatCsvDate(date: Date, type: 'date' | 'datetime') {
+  const day = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+  return type === 'date' ? day : `${day} ${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+}
+
+function toXlsxCell<T>(column: ExportColumn<T>, row: T): XlsxCell {
+  const value = column.value(row);
+  if (value === null || value === undefined || value === '') return null;
+
+  switch (column.type) {
+    case 'number':
+      return { type: 'number', value: Number(value) };
+    case 'date':
+    case 'datetime':
+      return { type: column.type, value: parseDate(value, column.type) };
+    default:
+      return { type: 'string', value: String(value) };
+  }
+}
+
+function toCsvField<T>(column: ExportColumn<T>, row: T) {
+  const value = column.value(row);
+  if (value === null || value === undefined || value === '') return '';
+
+  let text: string;
+  if (column.type === 'number') {
+    const number = Number(value);
+    text = Number.isFinite(number) ? String(number) : '';
+  } else if (column.type === 'date' || column.type === 'datetime') {
+    const date = parseDate(value, column.type);
+    text = isNaN(date.getTime()) ? '' : formatCsvDate(date, column.type);
+  } else {
+    text = String(value);
+    // Stop Excel from evaluating free text such as supplier names as formulas
+    if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  }
+
+  return quoteCsv(text);
+}
+
+function quoteCsv(text: string) {
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
+
+// Pages through the query and serializes each page as it arrives, so only the encoded
+// file is held in memory rather than every fetched row.
+export async function exportRows<T>({
+  fileName,
+  sheetName,
+  format,
+  columns,
+  fetchPage,
+  onProgress,
+}: ExportOptions<T>) {
+  const headers = columns.map((column) => column.header);
+  const xlsx = format === 'xlsx' ? createXlsxWriter(sheetName, headers) : null;
+  // The BOM lets Excel detect UTF-8, otherwise Thai text opens garbled
+  const csvParts: string[] = ['\uFEFF' + headers.map(quoteCsv).join(',') + '\r\n'];
+  let exported = 0;
+
+  for (let from = 0; ; from += EXPORT_PAGE_SIZE) {
+    const rows = await fetchPage(from, from + EXPORT_PAGE_SIZE - 1);
+
+    if (xlsx) {
+      xlsx.addRows(rows.map((row) => columns.map((column) => toXlsxCell(column, row))));
+    } else if (rows.length > 0) {
+      csvParts.push(rows.map((row) => columns.map((column) => toCsvField(column, row)).join(',')).join('\r\n') + '\r\n');
+    }
+
+    exported += rows.length;
+    onProgress?.(exported);
+    if (rows.length < EXPORT_PAGE_SIZE) break;
+  }
+
+  const blob = xlsx ? xlsx.finish() : new Blob(csvParts, { type: 'text/csv;charset=utf-8' });
+  downloadBlob(blob, `${fileName}.${format}`);
+  return exported;
+}
+
+// Escapes a search term for use inside a PostgREST `or` filter with ilike, matching
+// the way the list pages filter with `includes`.
+export function ilikeContains(term: string) {
+  const pattern = `%${term.replace(/[\\%_]/g, (char) => `\\${char}`)}%`;
+  return `"${pattern.replace(/[\\"]/g, (char) => `\\${char}`)}"`;
+}
+
+export function exportFileName(prefix: string) {
+  return `${prefix}-${formatCsvDate(new Date(), 'date')}`;
+}
@@ -0,0 +1,94 @@
+// Keep in line with the landed_cost_allocations.method check constraint.
+export const ALLOCATION_METHODS = ['Value', 'Weight', 'Volume', 'Quantity'];
+
+export interface ReceiptLine {
+  id: string;
+  document_number: string;
+  currency: string;
+  exchange_rate: number | null;
+  product_id: string;
+  product_sku: string;
+  product_name: string;
+  quantity: number;
+  unit_price: number;
+  line_total: number;
+  unit_weight: number;
+  unit_volume: number;
+}
+
+export interface AllocationLine {
+  cost_document_id: string | null;
+  cost_document_type: string;
+  document_line_id: string | null;
+  amount: number;
+}
+
+export interface SkuCostBreakdown {
+  product_id: string;
+  sku: string;
+  name: string;
+  quantity: number;
+  goods_value: number;
+  costs: Record<string, number>;
+  landed_cost: number;
+  unit_cost: number;
+}
+
+// Same defaults as allocate_landed_costs() when no basis override is given.
+export function getDefaultBasis(line: ReceiptLine, method: string) {
+  switch (method) {
+    case 'Value':
+      return line.line_total;
+    case 'Weight':
+      return line.quantity * line.unit_weight;
+    case 'Volume':
+      return line.quantity * line.unit_volume;
+    default:
+      return line.quantity;
+  }
+}
+
+// Rolls receipt lines and their allocated costs up to one row per SKU, with costs split by cost document type.
+// Goods in another currency than the allocation's are converted at the receipt's captured rate, as
+// allocate_landed_costs() does when the documents are in more than one currency.
+export function buildSkuBreakdown(receiptLines: ReceiptLine[], allocationLines: AllocationLine[], currency?: string) {
+  const lineProducts = new Map(receiptLines.map((line) => [line.id, line.product_id]));
+  const rows = new Map<string, SkuCostBreakdown>();
+
+  for (const line of receiptLines) {
+    const row = rows.get(line.product_id) || {
+      product_id: line.product_id,
+      sku: line.product_sku,
+      name: line.product_name,
+      quantity: 0,
+      goods_value: 0,
+      costs: {},
+      landed_cost: 0,
+      unit_cost: 0,
+    };
+    row.quantity += Number(line.quantity);
+    const rate = currency && line.currency !== currency ? Number(line.exchange_rate ?? 1) : 1;
+    row.goods_value += Number(line.line_total) * rate;
+    rows.set(line.product_id, row);
+  }
+
+  for (const allocation of allocationLines) {
+    const productId = allocation.document_line_id ? lineProducts.get(allocation.document_line_id) : undefined;
+    const row = productId ? rows.get(productId) : undefined;
+    if (!row) continue;
+
+    row.costs[allocation.cost_document_type] =
+      (row.costs[allocation.cost_document_type] || 0) + Number(allocation.amount);
+  }
+
+  return Array.from(rows.values())
+    .map((row) => {
+      const landed = row.goods_value + Object.values(row.costs).reduce((sum, amount) => sum + amount, 0);
+      return {
+        ...row,
+        landed_cost: landed,
+        unit_cost: row.quantity > 0 ? landed / row.quantity : 0,
+      };
+    })
+    .sort((a, b) => a.sku.localeCompare(b.sku));
+}
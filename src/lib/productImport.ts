@@ -0,0 +1,257 @@
+import { supabase } from './supabase';
+import { ProductCategory, loadUnitsOfMeasure } from './products';
+
+export type ProductImportField =
+  | 'sku'
+  | 'name'
+  | 'description'
+  | 'category'
+  | 'unit_of_measure'
+  | 'cost_price'
+  | 'reorder_point'
+  | 'is_active';
+
+// Aliases are compared lower-case with spaces, dashes and underscores collapsed; they
+// include the product export headers so an exported file imports back unchanged.
+export const PRODUCT_IMPORT_FIELDS: { field: ProductImportField; label: string; aliases: string[] }[] = [
+  { field: 'sku', label: 'SKU', aliases: ['sku', 'item code', 'product code'] },
+  { field: 'name', label: 'Product Name', aliases: ['name', 'product name', 'product'] },
+  { field: 'description', label: 'Description', aliases: ['description'] },
+  { field: 'category', label: 'Category Code', aliases: ['category', 'category code'] },
+  { field: 'unit_of_measure', label: 'Unit', aliases: ['unit', 'uom', 'unit of measure'] },
+  { field: 'cost_price', label: 'Cost Price', aliases: ['cost', 'cost price', 'unit cost'] },
+  { field: 'reorder_point', label: 'Reorder Point', aliases: ['reorder point', 'reorder level', 'min stock'] },
+  { field: 'is_active', label: 'Active', aliases: ['active', 'is active', 'status'] },
+];
+
+const UPSERT_BATCH_SIZE = 500;
+const LOOKUP_BATCH_SIZE = 100;
+
+export type ColumnMapping = Record<ProductImportField, number | null>;
+
+export interface ProductUpsert {
+  sku: string;
+  name: string;
+  description: string | null;
+  category_id: string | null;
+  unit_of_measure: string;
+  cost_price: number;
+  reorder_point: number;
+  is_active: boolean;
+}
+
+interface ExistingProduct extends ProductUpsert {
+  id: string;
+}
+
+export interface ProductImportRow {
+  line: number;
+  action: 'Create' | 'Update';
+  product: ProductUpsert;
+  category_name: string | null;
+  errors: string[];
+}
+
+export interface ProductImportResult {
+  created: number;
+  updated: number;
+  skipped: number;
+  failed: { line: number; sku: string; error: string }[];
+}
+
+function normalizeHeader(header: string) {
+  return header.trim().toLowerCase().replace(/[\s_-]+/g, ' ');
+}
+
+export function guessColumnMapping(headers: string[]): ColumnMapping {
+  const normalized = headers.map(normalizeHeader);
+
+  return Object.fromEntries(
+    PRODUCT_IMPORT_FIELDS.map(({ field, aliases }) => {
+      const index = normalized.findIndex((header) => aliases.includes(header));
+      return [field, index === -1 ? null : index];
+    })
+  ) as ColumnMapping;
+}
+
+// Blank is null; thousands separators are allowed
+function parseNumber(text: string) {
+  return text === '' ? null : Number(text.replace(/,/g, ''));
+}
+
+function parseActive(text: string) {
+  const value = text.toLowerCase();
+  if (['true', 'yes', 'y', '1', 'active'].includes(value)) return true;
+  if (['false', 'no', 'n', '0', 'inactive'].includes(value)) return false;
+  return null;
+}
+
+async function loadExistingProducts(skus: string[]) {
+  const existing = new Map<string, ExistingProduct>();
+
+  for (let i = 0; i < skus.length; i += LOOKUP_BATCH_SIZE) {
+    const { data, error } = await supabase
+      .from('products')
+      .select('id, sku, name, description, category_id, unit_of_measure, cost_price, reorder_point, is_active')
+      .in('sku', skus.slice(i, i + LOOKUP_BATCH_SIZE));
+
+    if (error) throw error;
+    (data || []).forEach((product: ExistingProduct) => existing.set(product.sku, product));
+  }
+
+  return existing;
+}
+
+// Existing products whose base unit the import would change but that are already on
+// documents or have stock movements, where the database rejects the change
+async function loadFixedBaseUnitProducts(productIds: string[]) {
+  if (productIds.length === 0) return new Set<string>();
+
+  const { data, error } = await supabase.rpc('products_with_fixed_base_unit', { p_product_ids: productIds });
+  if (error) throw error;
+  return new Set((data || []) as string[]);
+}
+
+// Dry run: validates every data row of the sheet against the mapping, the categories and
+// the products that already exist, without saving anything. The first row is the header.
+// Blank cells on an existing SKU keep the current value; on a new SKU they take the default.
+export async function previewProductImport(rows: string[][], mapping: ColumnMapping) {
+  const lines = rows
+    .map((cells, index) => ({ cells, line: index + 1 }))
+    .slice(1)
+    .filter(({ cells }) => cells.some((cell) => cell.trim() !== ''));
+
+  const read = (cells: string[], field: ProductImportField) => {
+    const index = mapping[field];
+    return index === null ? '' : (cells[index] || '').trim();
+  };
+
+  const { data: categoryData, error } = await supabase.from('product_categories').select('id, code, name');
+  if (error) throw error;
+  const categories = (categoryData || []) as ProductCategory[];
+  const units = await loadUnitsOfMeasure();
+
+  const skuLines = new Map<string, number[]>();
+  lines.forEach(({ cells, line }) => {
+    const sku = read(cells, 'sku');
+    if (sku) skuLines.set(sku, [...(skuLines.get(sku) || []), line]);
+  });
+  const existing = await loadExistingProducts(Array.from(skuLines.keys()));
+
+  const unitChanges = lines.flatMap(({ cells }) => {
+    const current = existing.get(read(cells, 'sku'));
+    const unit = read(cells, 'unit_of_measure').toUpperCase();
+    return current && unit && unit !== current.unit_of_measure ? [current.id] : [];
+  });
+  const fixedBaseUnits = await loadFixedBaseUnitProducts(unitChanges);
+
+  return lines.map(({ cells, line }): ProductImportRow => {
+    const errors: string[] = [];
+    const sku = read(cells, 'sku');
+    const current = existing.get(sku);
+
+    const duplicateLines = (skuLines.get(sku) || []).filter((other) => other !== line);
+
+    if (!sku) {
+      errors.push('SKU is required');
+    } else if (duplicateLines.length > 0) {
+      errors.push(`Duplicate SKU, also on line ${duplicateLines.join(', ')}`);
+    }
+
+    const name = read(cells, 'name') || current?.name || '';
+    if (!name) errors.push('Product name is required for a new SKU');
+
+    // Codes first, then names, so files exported from the catalog resolve too
+    const categoryText = read(cells, 'category');
+    let category: ProductCategory | null = null;
+    if (categoryText) {
+      const key = categoryText.toLowerCase();
+      category =
+        categories.find((candidate) => candidate.code.toLowerCase() === key) ||
+        categories.find((candidate) => candidate.name.toLowerCase() === key) ||
+        null;
+      if (!category && key !== 'uncategorized') errors.push(`Unknown category "${categoryText}"`);
+    }
+
+    const unitText = read(cells, 'unit_of_measure').toUpperCase();
+    const unit = units.find((candidate) => candidate.code === unitText);
+    if (unitText && !unit) {
+      errors.push(`Unknown unit of measure "${unitText}"`);
+    } else if (unit && !unit.is_active && unit.code !== current?.unit_of_measure) {
+      errors.push(`Unit of measure "${unitText}" is inactive`);
+    }
+    if (unit && current && unit.code !== current.unit_of_measure && fixedBaseUnits.has(current.id)) {
+      errors.push(`Base unit cannot change from ${current.unit_of_measure} to ${unit.code} once the product is on documents or stock has moved`);
+    }
+
+    const costPrice = parseNumber(read(cells, 'cost_price'));
+    if (costPrice !== null && isNaN(costPrice)) {
+      errors.push(`Cost price "${read(cells, 'cost_price')}" is not a number`);
+    } else if (costPrice !== null && costPrice < 0) {
+      errors.push('Cost price cannot be negative');
+    }
+
+    const reorderPoint = parseNumber(read(cells, 'reorder_point'));
+    if (reorderPoint !== null && !(Number.isInteger(reorderPoint) && reorderPoint >= 0)) {
+      errors.push(`Reorder point "${read(cells, 'reorder_point')}" must be a whole number of zero or more`);
+    }
+
+    const activeText = read(cells, 'is_active');
+    const isActive = activeText ? parseActive(activeText) : null;
+    if (activeText && isActive === null) {
+      errors.push(`Active "${activeText}" must be yes or no`);
+    }
+
+    const description = read(cells, 'description');
+
+    return {
+      line,
+      action: current ? 'Update' : 'Create',
+      product: {
+        sku,
+        name,
+        description: description || current?.description || null,
+        category_id: categoryText ? category?.id || null : current?.category_id || null,
+        unit_of_measure: unitText || current?.unit_of_measure || 'PCS',
+        cost_price: costPrice ?? current?.cost_price ?? 0,
+        reorder_point: reorderPoint ?? current?.reorder_point ?? 0,
+        is_active: isActive ?? current?.is_active ?? true,
+      },
+      category_name: categoryText ? category?.name || null : null,
+      errors,
+    };
+  });
+}
+
+// Upserts the rows that passed the dry run by SKU, in batches. A batch that fails is
+// reported per row and the remaining batches still run.
+export async function commitProductImport(rows: ProductImportRow[], onProgress?: (processed: number) => void) {
+  const valid = rows.filter((row) => row.errors.length === 0);
+  const result: ProductImportResult = { created: 0, updated: 0, skipped: rows.length - valid.length, failed: [] };
+
+  for (let i = 0; i < valid.length; i += UPSERT_BATCH_SIZE) {
+    const batch = valid.slice(i, i + UPSERT_BATCH_SIZE);
+    const updatedAt = new Date().toISOString();
+
+    const { error } = await supabase
+      .from('products')
+      .upsert(
+        batch.map((row) => ({ ...row.product, updated_at: updatedAt })),
+        { onConflict: 'sku' }
+      );
+
+    if (error) {
+      console.error('Error importing products:', error);
+      batch.forEach((row) => result.failed.push({ line: row.line, sku: row.product.sku, error: error.message }));
+    } else {
+      batch.forEach((row) => {
+        if (row.action === 'Create') result.created += 1;
+        else result.updated += 1;
+      });
+    }
+
+    onProgress?.(Math.min(i + UPSERT_BATCH_SIZE, valid.length));
+  }
+
+  return result;
+}
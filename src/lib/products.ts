@@ -0,0 +1,77 @@
+import { supabase } from './supabase';
+
+// Mirrors the "Authorized users can manage products" RLS policy.
+export const PRODUCT_MANAGER_ROLES = ['Admin', 'Finance'];
+
+export interface Product {
+  id: string;
+  sku: string;
+  name: string;
+  description: string | null;
+  category_id: string | null;
+  unit_of_measure: string;
+  cost_price: number;
+  reorder_point: number;
+  is_active: boolean;
+}
+
+export interface ProductCategory {
+  id: string;
+  code: string;
+  name: string;
+}
+
+export interface UnitOfMeasure {
+  code: string;
+  name: string;
+  is_active: boolean;
+}
+
+// Base units in one `unit_of_measure`, e.g. 24 for 1 BOX = 24 PCS
+export interface UnitConversion {
+  unit_of_measure: string;
+  factor: number;
+}
+
+export interface ProductUnit {
+  unit: string;
+  factor: number;
+}
+
+export function canManageProducts(role: string | undefined) {
+  return !!role && PRODUCT_MANAGER_ROLES.includes(role);
+}
+
+export async function loadUnitsOfMeasure() {
+  const { data, error } = await supabase
+    .from('units_of_measure')
+    .select('code, name, is_active')
+    .order('code', { ascending: true });
+
+  if (error) throw error;
+  return (data || []) as UnitOfMeasure[];
+}
+
+// Keeps an inactive unit selectable on the products that still use it
+export function unitOptions(units: UnitOfMeasure[], current?: string) {
+  return units
+    .filter((unit) => unit.is_active || unit.code === current)
+    .map((unit) => ({ value: unit.code, label: `${unit.code} — ${unit.name}` }));
+}
+
+// The base unit first, then the product's conversions from smallest to largest
+export function productUnits(product: { unit_of_measure: string; product_unit_conversions?: UnitConversion[] | null }) {
+  const conversions = [...(product.product_unit_conversions || [])].sort((a, b) => a.factor - b.factor);
+  return [
+    { unit: product.unit_of_measure, factor: 1 },
+    ...conversions.map((conversion) => ({ unit: conversion.unit_of_measure, factor: Number(conversion.factor) })),
+  ];
+}
+
+export function unitFactor(units: ProductUnit[], unit: string) {
+  return units.find((option) => option.unit === unit)?.factor;
+}
+
+export function formatFactor(factor: number) {
+  return factor.toLocaleString(undefined, { maximumFractionDigits: 6 });
+}
@@ -0,0 +1,516 @@
+import { fetchAllRows, supabase } from './supabase';
+import { APPROVED_STATUSES } from './documents';
+import { ExchangeRate, formatMoney, loadBaseCurrency, loadExchangeRates, toBaseCurrency } from './currency';
+import { formatCycleTime } from './supplierScorecard';
+
+export type ReportType = 'document-aging' | 'approval-cycle-time' | 'spend' | 'stock-movements' | 'stock-valuation';
+
+// One flat set of filter values, saved as-is with a report; each report reads the
+// fields listed in its definition.
+export interface ReportFilters {
+  dateFrom: string;
+  dateTo: string;
+  asOf: string;
+  documentType: string;
+  groupBy: string;
+  warehouseId: string;
+}
+
+export type ReportFilterField = 'dateRange' | 'asOf' | 'documentType' | 'groupBy' | 'warehouseId';
+
+export interface ReportDefinition {
+  type: ReportType;
+  name: string;
+  description: string;
+  fields: ReportFilterField[];
+  groupByOptions?: { value: string; label: string }[];
+  defaults?: Partial<ReportFilters>;
+}
+
+export const REPORTS: ReportDefinition[] = [
+  {
+    type: 'document-aging',
+    name: 'Document Aging',
+    description: 'Open documents by status and days since they were created',
+    fields: ['documentType'],
+  },
+  {
+    type: 'approval-cycle-time',
+    name: 'Approval Cycle Time',
+    description: 'Time from submission to approval or rejection',
+    fields: ['dateRange', 'documentType', 'groupBy'],
+    groupByOptions: [
+      { value: 'document_type', label: 'Document Type' },
+      { value: 'month', label: 'Month' },
+      { value: 'approver', label: 'Approver' },
+    ],
+    defaults: { groupBy: 'document_type' },
+  },
+  {
+    type: 'spend',
+    name: 'Spend',
+    description: 'Approved document value in base currency',
+    fields: ['dateRange', 'documentType', 'groupBy'],
+    groupByOptions: [
+      { value: 'supplier', label: 'Supplier' },
+      { value: 'currency', label: 'Currency' },
+      { value: 'month', label: 'Month' },
+    ],
+    defaults: { documentType: 'Invoice', groupBy: 'supplier' },
+  },
+  {
+    type: 'stock-movements',
+    name: 'Stock Movement Summary',
+    description: 'Quantities and value moved per product between two dates',
+    fields: ['dateRange', 'warehouseId'],
+  },
+  {
+    type: 'stock-valuation',
+    name: 'Stock Valuation',
+    description: 'Quantity and value on hand per product as of a date',
+    fields: ['asOf'],
+  },
+];
+
+export function getReportDefinition(type: ReportType) {
+  return REPORTS.find((report) => report.type === type) || REPORTS[0];
+}
+
+function toDateString(date: Date) {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+// Filters a report opens with: the current and previous two months, as of today
+export function defaultReportFilters(type: ReportType, today = new Date()): ReportFilters {
+  return {
+    dateFrom: toDateString(new Date(today.getFullYear(), today.getMonth() - 2, 1)),
+    dateTo: toDateString(today),
+    asOf: toDateString(today),
+    documentType: '',
+    groupBy: '',
+    warehouseId: '',
+    ...getReportDefinition(type).defaults,
+  };
+}
+
+export interface ReportColumn {
+  key: string;
+  label: string;
+  align?: 'right';
+}
+
+export interface ReportResult {
+  columns: ReportColumn[];
+  // Cell values are formatted for display
+  rows: Record<string, string>[];
+  chartTitle: string;
+  chart: { label: string; value: number; display: string }[];
+  notes: string[];
+}
+
+export interface SavedReport {
+  id: string;
+  user_id: string;
+  name: string;
+  report_type: ReportType;
+  filters: Partial<ReportFilters>;
+  created_at: string;
+  updated_at: string;
+}
+
+export async function loadSavedReports() {
+  const { data, error } = await supabase
+    .from('saved_reports')
+    .select('*')
+    .order('name', { ascending: true });
+
+  if (error) throw error;
+  return (data || []) as SavedReport[];
+}
+
+// Linear-interpolated percentile of unsorted values (p between 0 and 1)
+export function percentile(values: number[], p: number) {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const position = (sorted.length - 1) * p;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+function formatQuantity(quantity: number) {
+  return quantity.toLocaleString(undefined, { maximumFractionDigits: 3 });
+}
+
+function formatMonth(month: string) {
+  return new Date(`${month}-01T00:00:00`).toLocaleDateString(undefined, { month: 'short', year: 'numeric' });
+}
+
+function groupItems<T>(items: T[], key: (item: T) => string) {
+  const groups = new Map<string, T[]>();
+  items.forEach((item) => {
+    const k = key(item);
+    groups.set(k, [...(groups.get(k) || []), item]);
+  });
+  return groups;
+}
+
+// =============================================
+// Document aging
+// =============================================
+
+// Statuses a document can still be waiting in
+const AGING_STATUSES = ['Draft', 'Pending', 'Rejected', 'Partially Received'];
+
+const AGING_BUCKETS = [
+  { key: 'days_0_7', label: '0-7 Days', max: 7 },
+  { key: 'days_8_14', label: '8-14 Days', max: 14 },
+  { key: 'days_15_30', label: '15-30 Days', max: 30 },
+  { key: 'days_31_60', label: '31-60 Days', max: 60 },
+  { key: 'days_over_60', label: '60+ Days', max: Infinity },
+];
+
+async function runDocumentAging(filters: ReportFilters): Promise<ReportResult> {
+  const data = await fetchAllRows<{ status: string; created_at: string }>((from, to) => {
+    let query = supabase
+      .from('documents')
+      .select('id, status, created_at')
+      .in('status', AGING_STATUSES);
+    if (filters.documentType) query = query.eq('document_type', filters.documentType);
+    return query.order('id', { ascending: true }).range(from, to);
+  });
+
+  const now = Date.now();
+  const documents = data.map((d) => ({
+    status: d.status,
+    age: Math.floor((now - new Date(d.created_at).getTime()) / 86400000),
+  }));
+
+  const rows = AGING_STATUSES.map((status) => {
+    const ofStatus = documents.filter((d) => d.status === status);
+    const row: Record<string, string> = { status, total: String(ofStatus.length) };
+    AGING_BUCKETS.forEach((bucket, i) => {
+      const min = i === 0 ? 0 : AGING_BUCKETS[i - 1].max + 1;
+      row[bucket.key] = String(ofStatus.filter((d) => d.age >= min && d.age <= bucket.max).length);
+    });
+    row.oldest = ofStatus.length > 0 ? `${Math.max(...ofStatus.map((d) => d.age))} days` : '-';
+    return row;
+  });
+
+  return {
+    columns: [
+      { key: 'status', label: 'Status' },
+      ...AGING_BUCKETS.map((bucket) => ({ key: bucket.key, label: bucket.label, align: 'right' as const })),
+      { key: 'total', label: 'Total', align: 'right' },
+      { key: 'oldest', label: 'Oldest', align: 'right' },
+    ],
+    rows,
+    chartTitle: 'Open documents by age',
+    chart: AGING_BUCKETS.map((bucket) => {
+      const count = rows.reduce((sum, row) => sum + Number(row[bucket.key]), 0);
+      return { label: bucket.label, value: count, display: String(count) };
+    }),
+    notes: [],
+  };
+}
+
+// =============================================
+// Approval cycle time
+// =============================================
+
+interface ApprovalCycleRow {
+  document_type: string;
+  decided_by: string | null;
+  decided_at: string;
+  outcome: string;
+  cycle_hours: number;
+}
+
+async function runApprovalCycleTime(filters: ReportFilters): Promise<ReportResult> {
+  const [cycles, users] = await Promise.all([
+    fetchAllRows<ApprovalCycleRow>((from, to) => {
+      let query = supabase
+        .from('document_approval_cycles')
+        .select('document_type, decided_by, decided_at, outcome, cycle_hours')
+        .gte('decided_at', filters.dateFrom)
+        .lt('decided_at', nextDay(filters.dateTo));
+      if (filters.documentType) query = query.eq('document_type', filters.documentType);
+      // A document is decided at most once at any instant
+      return query
+        .order('decided_at', { ascending: true })
+        .order('document_id', { ascending: true })
+        .range(from, to);
+    }),
+    fetchAllRows<{ id: string; full_name: string }>((from, to) =>
+      supabase.from('users_profile').select('id, full_name').order('id', { ascending: true }).range(from, to)
+    ),
+  ]);
+
+  const names = new Map(users.map((u) => [u.id, u.full_name]));
+
+  const keyOf = (cycle: ApprovalCycleRow) => {
+    if (filters.groupBy === 'month') return cycle.decided_at.slice(0, 7);
+    if (filters.groupBy === 'approver') return (cycle.decided_by && names.get(cycle.decided_by)) || 'Unknown';
+    return cycle.document_type;
+  };
+
+  const groups = Array.from(groupItems(cycles, keyOf).entries()).sort(([a], [b]) => a.localeCompare(b));
+  const summarized = groups.map(([key, ofGroup]) => {
+    const hours = ofGroup.map((cycle) => Number(cycle.cycle_hours));
+    const average = hours.reduce((sum, h) => sum + h, 0) / hours.length;
+    return {
+      label: filters.groupBy === 'month' ? formatMonth(key) : key,
+      decisions: ofGroup.length,
+      rejected: ofGroup.filter((cycle) => cycle.outcome === 'Rejected').length,
+      average,
+      median: percentile(hours, 0.5),
+      p90: percentile(hours, 0.9),
+    };
+  });
+
+  const groupLabel = getReportDefinition('approval-cycle-time').groupByOptions?.find((o) => o.value === filters.groupBy);
+
+  return {
+    columns: [
+      { key: 'group', label: groupLabel?.label || 'Group' },
+      { key: 'decisions', label: 'Decisions', align: 'right' },
+      { key: 'rejected', label: 'Rejected', align: 'right' },
+      { key: 'average', label: 'Average', align: 'right' },
+      { key: 'median', label: 'Median', align: 'right' },
+      { key: 'p90', label: '90th Percentile', align: 'right' },
+    ],
+    rows: summarized.map((group) => ({
+      group: group.label,
+      decisions: String(group.decisions),
+      rejected: String(group.rejected),
+      average: formatCycleTime(group.average),
+      median: formatCycleTime(group.median),
+      p90: formatCycleTime(group.p90),
+    })),
+    chartTitle: 'Average hours from submission to decision',
+    chart: summarized.map((group) => ({
+      label: group.label,
+      value: group.average,
+      display: formatCycleTime(group.average),
+    })),
+    notes: [],
+  };
+}
+
+// =============================================
+// Spend
+// =============================================
+
+interface SpendDocument {
+  document_date: string;
+  currency: string;
+  document_value: number;
+  base_value: number | null;
+  supplier_name: string;
+  suppliers: { code: string; legal_name: string } | null;
+}
+
+async function runSpend(filters: ReportFilters): Promise<ReportResult> {
+  const [documents, base] = await Promise.all([
+    fetchAllRows<SpendDocument>((from, to) => {
+      let query = supabase
+        .from('documents')
+        .select('id, document_date, currency, document_value, base_value, supplier_name, suppliers(code, legal_name)')
+        .in('status', APPROVED_STATUSES)
+        .gte('document_date', filters.dateFrom)
+        .lte('document_date', filters.dateTo);
+      if (filters.documentType) query = query.eq('document_type', filters.documentType);
+      return query.order('id', { ascending: true }).range(from, to);
+    }),
+    loadBaseCurrency(),
+  ]);
+  const rates: ExchangeRate[] = await loadExchangeRates(base);
+  const keyOf = (d: SpendDocument) => {
+    if (filters.groupBy === 'currency') return d.currency;
+    if (filters.groupBy === 'month') return d.document_date.slice(0, 7);
+    return d.suppliers?.legal_name || d.supplier_name;
+  };
+
+  let unconverted = 0;
+  const groups = Array.from(groupItems(documents, keyOf).entries()).map(([key, ofGroup]) => {
+    const baseTotal = ofGroup.reduce((sum, d) => {
+      const converted = toBaseCurrency(rates, base, {
+        currency: d.currency,
+        amount: d.document_value,
+        date: d.document_date,
+        base_value: d.base_value,
+      });
+      if (converted === null) unconverted += 1;
+      return sum + (converted ?? 0);
+    }, 0);
+    return {
+      key,
+      label: filters.groupBy === 'month' ? formatMonth(key) : key,
+      documents: ofGroup.length,
+      amount: ofGroup.reduce((sum, d) => sum + Number(d.document_value), 0),
+      baseTotal,
+    };
+  });
+
+  // Months read in order, suppliers and currencies largest first
+  groups.sort((a, b) => (filters.groupBy === 'month' ? a.key.localeCompare(b.key) : b.baseTotal - a.baseTotal));
+
+  const byCurrency = filters.groupBy === 'currency';
+
+  return {
+    columns: [
+      { key: 'group', label: byCurrency ? 'Currency' : filters.groupBy === 'month' ? 'Month' : 'Supplier' },
+      { key: 'documents', label: 'Documents', align: 'right' },
+      ...(byCurrency ? [{ key: 'amount', label: 'Amount', align: 'right' as const }] : []),
+      { key: 'base_total', label: `Total (${base})`, align: 'right' },
+    ],
+    rows: groups.map((group) => ({
+      group: group.label,
+      documents: String(group.documents),
+      amount: formatMoney(group.amount, group.key),
+      base_total: formatMoney(group.baseTotal, base),
+    })),
+    chartTitle: `Spend in ${base}`,
+    chart: groups.map((group) => ({
+      label: group.label,
+      value: group.baseTotal,
+      display: formatMoney(group.baseTotal, base),
+    })),
+    notes:
+      unconverted > 0
+        ? [`${unconverted} document${unconverted === 1 ? '' : 's'} left out of the ${base} totals for lack of an exchange rate`]
+        : [],
+  };
+}
+
+// =============================================
+// Stock movement summary
+// =============================================
+
+interface MovementSummaryRow {
+  product_id: string;
+  sku: string;
+  product_name: string;
+  movement_type: string;
+  movement_count: number;
+  quantity: number;
+  value: number;
+}
+
+const MOVEMENT_TYPES = ['IN', 'OUT', 'ADJUST', 'TRANSFER IN', 'TRANSFER OUT'];
+
+async function runStockMovements(filters: ReportFilters): Promise<ReportResult> {
+  const [movementsResult, base] = await Promise.all([
+    supabase.rpc('report_stock_movements', {
+      p_from: filters.dateFrom,
+      p_to: filters.dateTo,
+      p_warehouse_id: filters.warehouseId || null,
+    }),
+    loadBaseCurrency(),
+  ]);
+  if (movementsResult.error) throw movementsResult.error;
+
+  const summary = (movementsResult.data || []) as MovementSummaryRow[];
+  // OUT quantities are stored positive; adjustments carry their sign
+  const signed = (row: MovementSummaryRow) => (row.movement_type.endsWith('OUT') ? -1 : 1) * Number(row.quantity);
+
+  const products = Array.from(groupItems(summary, (row) => row.product_id).values()).map((ofProduct) => {
+    const row: Record<string, string> = {
+      product: `${ofProduct[0].sku} • ${ofProduct[0].product_name}`,
+    };
+    MOVEMENT_TYPES.forEach((type) => {
+      const quantity = ofProduct.filter((r) => r.movement_type === type).reduce((sum, r) => sum + signed(r), 0);
+      row[type] = quantity === 0 ? '-' : formatQuantity(quantity);
+    });
+    row.net = formatQuantity(ofProduct.reduce((sum, r) => sum + signed(r), 0));
+    row.value = formatMoney(ofProduct.reduce((sum, r) => sum + Number(r.value), 0), base);
+    return row;
+  });
+
+  return {
+    columns: [
+      { key: 'product', label: 'Product' },
+      ...MOVEMENT_TYPES.map((type) => ({
+        key: type,
+        label: type.charAt(0) + type.slice(1).toLowerCase(),
+        align: 'right' as const,
+      })),
+      { key: 'net', label: 'Net Quantity', align: 'right' },
+      { key: 'value', label: `Value Change (${base})`, align: 'right' },
+    ],
+    rows: products,
+    chartTitle: 'Movements by type',
+    chart: MOVEMENT_TYPES.map((type) => {
+      const count = summary.filter((r) => r.movement_type === type).reduce((sum, r) => sum + Number(r.movement_count), 0);
+      return { label: type.charAt(0) + type.slice(1).toLowerCase(), value: count, display: `${count} movements` };
+    }),
+    notes: filters.warehouseId ? [] : ['Transfers between warehouses net to zero across all warehouses'],
+  };
+}
+
+// =============================================
+// Stock valuation
+// =============================================
+
+interface ValuationRow {
+  product_id: string;
+  sku: string;
+  product_name: string;
+  category_name: string | null;
+  valuation_method: string;
+  quantity: number;
+  stock_value: number;
+}
+
+async function runStockValuation(filters: ReportFilters): Promise<ReportResult> {
+  const [valuationResult, base] = await Promise.all([
+    supabase.rpc('report_stock_valuation', { p_as_of: filters.asOf }),
+    loadBaseCurrency(),
+  ]);
+  if (valuationResult.error) throw valuationResult.error;
+
+  const valuation = (valuationResult.data || []) as ValuationRow[];
+  const categories = Array.from(groupItems(valuation, (row) => row.category_name || 'Uncategorized').entries())
+    .map(([label, rows]) => ({ label, value: rows.reduce((sum, row) => sum + Number(row.stock_value), 0) }))
+    .sort((a, b) => b.value - a.value);
+
+  return {
+    columns: [
+      { key: 'product', label: 'Product' },
+      { key: 'category', label: 'Category' },
+      { key: 'method', label: 'Method' },
+      { key: 'quantity', label: 'Quantity', align: 'right' },
+      { key: 'unit_cost', label: `Average Cost (${base})`, align: 'right' },
+      { key: 'value', label: `Value (${base})`, align: 'right' },
+    ],
+    rows: valuation.map((row) => ({
+      product: `${row.sku} • ${row.product_name}`,
+      category: row.category_name || 'Uncategorized',
+      method: row.valuation_method,
+      quantity: formatQuantity(Number(row.quantity)),
+      unit_cost: Number(row.quantity) > 0 ? formatMoney(Number(row.stock_value) / Number(row.quantity), base) : '-',
+      value: formatMoney(Number(row.stock_value), base),
+    })),
+    chartTitle: `Stock value by category (${base})`,
+    chart: categories.map((category) => ({ ...category, display: formatMoney(category.value, base) })),
+    notes: [],
+  };
+}
+
+function nextDay(date: string) {
+  const next = new Date(`${date}T00:00:00`);
+  next.setDate(next.getDate() + 1);
+  return toDateString(next);
+}
+
+const RUNNERS: Record<ReportType, (filters: ReportFilters) => Promise<ReportResult>> = {
+  'document-aging': runDocumentAging,
+  'approval-cycle-time': runApprovalCycleTime,
+  spend: runSpend,
+  'stock-movements': runStockMovements,
+  'stock-valuation': runStockValuation,
+};
+
+export function runReport(type: ReportType, filters: ReportFilters) {
+  return RUNNERS[type](filters);
+}
@@ -0,0 +1,54 @@
+export const TRANSPORT_MODES = ['Sea', 'Air', 'Road'];
+
+// Open shipment statuses; Closed is only reached through close_shipment().
+export const SHIPMENT_STATUSES = ['Open', 'In Transit', 'Arrived'];
+
+export const INCOTERMS = ['EXW', 'FCA', 'FAS', 'FOB', 'CFR', 'CIF', 'CPT', 'CIP', 'DAP', 'DPU', 'DDP'];
+
+// Keep in line with the shipments.required_document_types column default.
+export const DEFAULT_REQUIRED_DOCUMENT_TYPES = [
+  'Purchase Order',
+  'Invoice',
+  'Packing List',
+  'Bill of Lading',
+  'Customs Declaration',
+  'Goods Receipt',
+];
+
+export interface Shipment {
+  id: string;
+  shipment_number: string;
+  supplier_name: string | null;
+  transport_mode: string;
+  vessel_or_flight: string | null;
+  container_numbers: string[];
+  port_of_loading: string | null;
+  port_of_discharge: string | null;
+  incoterm: string | null;
+  etd: string | null;
+  eta: string | null;
+  status: string;
+  required_document_types: string[];
+  remarks: string | null;
+  created_by: string | null;
+  created_at: string;
+  closed_at: string | null;
+}
+
+export function getShipmentStatusVariant(status: string) {
+  const variants: Record<string, 'success' | 'warning' | 'danger' | 'info' | 'neutral'> = {
+    Open: 'neutral',
+    'In Transit': 'info',
+    Arrived: 'warning',
+    Closed: 'success',
+  };
+  return variants[status] || 'neutral';
+}
+
+// Container numbers are typed as one comma or newline separated list.
+export function parseContainerNumbers(value: string) {
+  return value
+    .split(/[\n,]/)
+    .map((container) => container.trim().toUpperCase())
+    .filter((container) => container.length > 0);
+}
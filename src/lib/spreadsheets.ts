@@ -0,0 +1,61 @@
+import { readXlsxRows } from './xlsx';
+
+export const SPREADSHEET_ACCEPT =
+  '.csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+// Splits CSV text into rows of cells, honouring quoted fields with embedded separators,
+// quotes and line breaks. Semicolon and tab separated files are detected from the header.
+export function parseCsvRows(text: string) {
+  const content = text.replace(/^\uFEFF/, '');
+  const firstLine = content.slice(0, content.search(/\r?\n|$/));
+  const separator = [',', ';', '\t'].reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  );
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      quoted = true;
+    } else if (char === separator) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+// Reads the first sheet of an .xlsx or a .csv file as text cells, one array per line
+export async function readSpreadsheetRows(file: File) {
+  if (/\.xlsx$/i.test(file.name)) return readXlsxRows(file);
+  if (/\.csv$/i.test(file.name) || file.type === 'text/csv') return parseCsvRows(await file.text());
+  throw new Error('Choose a .csv or .xlsx file');
+}
@@ -0,0 +1,6 @@
+// Mirrors the "Authorized users can create stock movements" RLS policy.
+export const STOCK_MOVEMENT_ROLES = ['Admin', 'Finance', 'Approver'];
+
+export function canRecordStockMovements(role: string | undefined) {
+  return !!role && STOCK_MOVEMENT_ROLES.includes(role);
+}
@@ -9,6 +9,26 @@ if (!supabaseUrl || !supabaseAnonKey) {
 
 export const supabase = createClient(supabaseUrl, supabaseAnonKey);
 
+// PostgREST caps a single response at 1000 rows by default
+const PAGE_SIZE = 1000;
+
+// Reads every row of a query page by page. `fetchPage` returns rows from..to (inclusive)
+// and must order by a unique key, e.g. end with `.order('id')`, so pages don't overlap.
+export async function fetchAllRows<T>(
+  fetchPage: (from: number, to: number) => PromiseLike<{ data: unknown[] | null; error: unknown }>
+) {
+  const rows: T[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await fetchPage(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...((data || []) as T[]));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  return rows;
+}
+
 export type Database = {
   public: {
     Tables: {
@@ -28,6 +48,7 @@ export type Database = {
           id: string;
           document_type: string;
           document_number: string;
+          supplier_id: string | null;
           supplier_name: string;
           document_date: string;
           document_value: number;
@@ -35,6 +56,19 @@ export type Database = {
           status: string;
           priority: string;
           approver_id: string | null;
+          warehouse_id: string | null;
+          purchase_order_id: string | null;
+          approval_chain_id: string | null;
+          current_step_order: number | null;
+          revision: number;
+          shipment_id: string | null;
+          exchange_rate: number | null;
+          base_currency: string | null;
+          base_value: number | null;
+          match_override_reason: string | null;
+          match_override_by: string | null;
+          match_override_at: string | null;
+          match_override_revision: number | null;
           created_by: string | null;
           remarks: string | null;
           rejection_reason: string | null;
@@ -42,6 +76,25 @@ export type Database = {
           updated_at: string;
         };
       };
+      document_lines: {
+        Row: {
+          id: string;
+          document_id: string;
+          line_number: number;
+          product_id: string;
+          description: string | null;
+          quantity: number;
+          unit_of_measure: string;
+          conversion_factor: number;
+          base_quantity: number;
+          unit_price: number;
+          line_total: number;
+          received_quantity: number;
+          invoiced_quantity: number;
+          created_at: string;
+          updated_at: string;
+        };
+      };
       products: {
         Row: {
           id: string;
@@ -51,6 +104,8 @@ export type Database = {
           category_id: string | null;
           unit_of_measure: string;
           cost_price: number;
+          unit_weight: number;
+          unit_volume: number;
           reorder_point: number;
           is_active: boolean;
           created_at: string;
@@ -75,8 +130,14 @@ export type Database = {
           warehouse_id: string;
           movement_type: string;
           quantity: number;
+          entered_quantity: number | null;
+          entered_unit: string | null;
           unit_cost: number | null;
           source_document_id: string | null;
+          document_line_id: string | null;
+          transfer_id: string | null;
+          exchange_rate: number;
+          is_reversal: boolean;
           reference_number: string | null;
           remarks: string | null;
           performed_by: string | null;
@@ -84,6 +145,397 @@ export type Database = {
           created_at: string;
         };
       };
+      stock_transfers: {
+        Row: {
+          id: string;
+          transfer_number: string;
+          product_id: string;
+          from_warehouse_id: string;
+          to_warehouse_id: string;
+          quantity: number;
+          entered_quantity: number | null;
+          entered_unit: string | null;
+          unit_cost: number | null;
+          status: string;
+          reference_number: string | null;
+          remarks: string | null;
+          dispatched_by: string | null;
+          dispatched_at: string;
+          received_by: string | null;
+          received_at: string | null;
+          created_at: string;
+        };
+      };
+      approval_chains: {
+        Row: {
+          id: string;
+          name: string;
+          document_type: string;
+          currency: string | null;
+          min_value: number;
+          is_active: boolean;
+          created_by: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+      };
+      approval_chain_steps: {
+        Row: {
+          id: string;
+          chain_id: string;
+          step_order: number;
+          name: string;
+          approver_role: string;
+          approver_department: string | null;
+          created_at: string;
+        };
+      };
+      document_approval_steps: {
+        Row: {
+          id: string;
+          document_id: string;
+          chain_step_id: string | null;
+          step_order: number;
+          name: string;
+          approver_role: string;
+          approver_department: string | null;
+          approver_id: string | null;
+          status: string;
+          decided_by: string | null;
+          decided_at: string | null;
+          remarks: string | null;
+          superseded_at: string | null;
+          created_at: string;
+        };
+      };
+      approver_assignment_rules: {
+        Row: {
+          id: string;
+          department: string;
+          document_type: string | null;
+          approver_id: string;
+          is_active: boolean;
+          created_at: string;
+        };
+      };
+      document_revisions: {
+        Row: {
+          id: string;
+          document_id: string;
+          revision: number;
+          snapshot: Record<string, unknown>;
+          rejection_reason: string | null;
+          created_by: string | null;
+          created_at: string;
+        };
+      };
+      approver_delegations: {
+        Row: {
+          id: string;
+          approver_id: string;
+          delegate_id: string;
+          starts_on: string;
+          ends_on: string;
+          reason: string | null;
+          created_by: string | null;
+          created_at: string;
+          revoked_at: string | null;
+        };
+      };
+      attachment_requirements: {
+        Row: {
+          id: string;
+          document_type: string;
+          category: string;
+          description: string | null;
+          is_active: boolean;
+          created_by: string | null;
+          created_at: string;
+        };
+      };
+      shipments: {
+        Row: {
+          id: string;
+          shipment_number: string;
+          supplier_name: string | null;
+          transport_mode: string;
+          vessel_or_flight: string | null;
+          container_numbers: string[];
+          port_of_loading: string | null;
+          port_of_discharge: string | null;
+          incoterm: string | null;
+          etd: string | null;
+          eta: string | null;
+          status: string;
+          required_document_types: string[];
+          remarks: string | null;
+          created_by: string | null;
+          created_at: string;
+          updated_at: string;
+          closed_by: string | null;
+          closed_at: string | null;
+        };
+      };
+      shipment_history: {
+        Row: {
+          id: string;
+          shipment_id: string;
+          action_type: string;
+          old_status: string | null;
+          new_status: string | null;
+          document_id: string | null;
+          performed_by: string | null;
+          remarks: string | null;
+          created_at: string;
+        };
+      };
+      landed_cost_allocations: {
+        Row: {
+          id: string;
+          shipment_id: string;
+          method: string;
+          currency: string;
+          total_cost: number;
+          allocated_by: string | null;
+          allocated_at: string;
+          superseded_at: string | null;
+        };
+      };
+      landed_cost_allocation_lines: {
+        Row: {
+          id: string;
+          allocation_id: string;
+          cost_document_id: string | null;
+          receipt_document_id: string | null;
+          document_line_id: string | null;
+          product_id: string | null;
+          quantity: number;
+          basis_value: number;
+          amount: number;
+        };
+      };
+      product_categories: {
+        Row: {
+          id: string;
+          code: string;
+          name: string;
+          description: string | null;
+          valuation_method: string;
+          created_at: string;
+        };
+      };
+      stock_movement_costs: {
+        Row: {
+          movement_id: string;
+          product_id: string;
+          sequence: number;
+          valuation_method: string;
+          quantity: number;
+          unit_cost: number;
+          total_cost: number;
+          balance_quantity: number;
+          balance_value: number;
+        };
+      };
+      system_settings: {
+        Row: {
+          id: boolean;
+          base_currency: string;
+          match_price_tolerance_percent: number;
+          match_quantity_tolerance_percent: number;
+          approval_sla_hours: Record<string, number>;
+          updated_by: string | null;
+          updated_at: string;
+        };
+      };
+      exchange_rates: {
+        Row: {
+          id: string;
+          base_currency: string;
+          currency: string;
+          rate_date: string;
+          rate: number;
+          source: string;
+          created_by: string | null;
+          created_at: string;
+        };
+      };
+      suppliers: {
+        Row: {
+          id: string;
+          code: string;
+          legal_name: string;
+          tax_id: string | null;
+          country: string | null;
+          default_currency: string;
+          payment_terms: string | null;
+          is_active: boolean;
+          created_by: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+      };
+      supplier_bank_details: {
+        Row: {
+          supplier_id: string;
+          bank_name: string | null;
+          bank_account_name: string | null;
+          bank_account_number: string | null;
+          bank_swift_code: string | null;
+          updated_at: string;
+        };
+      };
+      supplier_contacts: {
+        Row: {
+          id: string;
+          supplier_id: string;
+          name: string;
+          title: string | null;
+          email: string | null;
+          phone: string | null;
+          is_primary: boolean;
+          created_at: string;
+        };
+      };
+      product_history: {
+        Row: {
+          id: string;
+          product_id: string;
+          action_type: string;
+          changes: { field: string; label: string; before: string | null; after: string | null }[] | null;
+          performed_by: string | null;
+          created_at: string;
+        };
+      };
+      units_of_measure: {
+        Row: {
+          code: string;
+          name: string;
+          is_active: boolean;
+          created_at: string;
+        };
+      };
+      product_unit_conversions: {
+        Row: {
+          id: string;
+          product_id: string;
+          unit_of_measure: string;
+          factor: number;
+          created_at: string;
+          updated_at: string;
+        };
+      };
+      saved_reports: {
+        Row: {
+          id: string;
+          user_id: string;
+          name: string;
+          report_type: string;
+          filters: Record<string, string>;
+          created_at: string;
+          updated_at: string;
+        };
+      };
+    };
+    Views: {
+      product_stock_values: {
+        Row: {
+          product_id: string;
+          valuation_method: string;
+          quantity: number;
+          stock_value: number;
+          average_unit_cost: number;
+        };
+      };
+      supplier_approval_cycles: {
+        Row: {
+          supplier_id: string;
+          document_id: string;
+          document_type: string;
+          submitted_at: string;
+          decided_at: string;
+          outcome: string;
+          cycle_hours: number;
+        };
+      };
+      supplier_deliveries: {
+        Row: {
+          supplier_id: string;
+          shipment_id: string;
+          shipment_number: string;
+          eta: string | null;
+          received_at: string;
+          on_time: boolean | null;
+          ordered_quantity: number;
+          received_quantity: number;
+          quantity_variance: number;
+        };
+      };
+      document_approval_cycles: {
+        Row: {
+          document_id: string;
+          document_number: string;
+          document_type: string;
+          supplier_id: string | null;
+          decided_by: string | null;
+          submitted_at: string;
+          decided_at: string;
+          outcome: string;
+          cycle_hours: number;
+          priority: string;
+        };
+      };
+      approval_step_turnaround: {
+        Row: {
+          step_id: string;
+          document_id: string;
+          decided_by: string | null;
+          outcome: string;
+          started_at: string;
+          decided_at: string;
+          hours: number;
+        };
+      };
+      pending_document_ages: {
+        Row: {
+          document_id: string;
+          priority: string;
+          submitted_at: string;
+          hours_waiting: number;
+        };
+      };
+      my_approval_queue: {
+        Row: {
+          document_id: string;
+          document_number: string;
+          document_type: string;
+          supplier_name: string;
+          priority: string;
+          document_value: number;
+          currency: string;
+          step_name: string;
+          waiting_since: string;
+        };
+      };
+      open_purchase_order_lines: {
+        Row: {
+          supplier_id: string | null;
+          supplier_code: string | null;
+          supplier_name: string | null;
+          product_id: string;
+          sku: string;
+          product_name: string;
+          unit_of_measure: string;
+          ordered_quantity: number;
+          received_quantity: number;
+          invoiced_quantity: number;
+          open_to_receive: number;
+          open_to_invoice: number;
+          purchase_order_count: number;
+          purchase_order_numbers: string;
+          oldest_order_date: string;
+        };
+      };
     };
   };
 };
@@ -0,0 +1,154 @@
+import { fetchAllRows, supabase } from './supabase';
+
+export interface SupplierApprovalCycle {
+  supplier_id: string;
+  document_id: string;
+  document_type: string;
+  submitted_at: string;
+  decided_at: string;
+  outcome: string;
+  cycle_hours: number;
+}
+
+export interface SupplierDelivery {
+  supplier_id: string;
+  shipment_id: string;
+  shipment_number: string;
+  eta: string | null;
+  received_at: string;
+  on_time: boolean | null;
+  ordered_quantity: number;
+  received_quantity: number;
+  quantity_variance: number;
+}
+
+export interface ScorecardMetrics {
+  deliveries: number;
+  onTimeRate: number | null;
+  quantityVarianceRate: number | null;
+  decisions: number;
+  rejectionRate: number | null;
+  avgCycleHours: number | null;
+}
+
+export interface SupplierScore {
+  supplierId: string;
+  metrics: ScorecardMetrics;
+  score: number | null;
+}
+
+// How much each metric counts towards the ranking score. Metrics a supplier has no
+// data for are left out and the remaining weights scaled up.
+const SCORE_WEIGHTS = {
+  onTime: 0.4,
+  quantity: 0.2,
+  acceptance: 0.2,
+  speed: 0.2,
+};
+
+export async function loadScorecardData(since: string) {
+  const [cycles, deliveries] = await Promise.all([
+    fetchAllRows<SupplierApprovalCycle>((from, to) =>
+      supabase
+        .from('supplier_approval_cycles')
+        .select('*')
+        .gte('decided_at', since)
+        .order('decided_at', { ascending: true })
+        .order('document_id', { ascending: true })
+        .range(from, to)
+    ),
+    fetchAllRows<SupplierDelivery>((from, to) =>
+      supabase
+        .from('supplier_deliveries')
+        .select('*')
+        .gte('received_at', since)
+        .order('supplier_id', { ascending: true })
+        .order('shipment_id', { ascending: true })
+        .range(from, to)
+    ),
+  ]);
+
+  return { cycles, deliveries };
+}
+
+export function computeMetrics(cycles: SupplierApprovalCycle[], deliveries: SupplierDelivery[]): ScorecardMetrics {
+  const timed = deliveries.filter((delivery) => delivery.on_time !== null);
+  const ordered = deliveries.reduce((sum, delivery) => sum + Number(delivery.ordered_quantity), 0);
+  const variance = deliveries.reduce((sum, delivery) => sum + Number(delivery.quantity_variance), 0);
+  const rejected = cycles.filter((cycle) => cycle.outcome === 'Rejected').length;
+  const totalHours = cycles.reduce((sum, cycle) => sum + Number(cycle.cycle_hours), 0);
+
+  return {
+    deliveries: timed.length,
+    onTimeRate: timed.length > 0 ? timed.filter((delivery) => delivery.on_time).length / timed.length : null,
+    quantityVarianceRate: ordered > 0 ? variance / ordered : null,
+    decisions: cycles.length,
+    rejectionRate: cycles.length > 0 ? rejected / cycles.length : null,
+    avgCycleHours: cycles.length > 0 ? totalHours / cycles.length : null,
+  };
+}
+
+// The last `count` calendar months as YYYY-MM, oldest first.
+export function recentMonths(count: number, today = new Date()) {
+  return Array.from({ length: count }, (_, i) => {
+    const date = new Date(today.getFullYear(), today.getMonth() - (count - 1 - i), 1);
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+  });
+}
+
+export function monthlyMetrics(cycles: SupplierApprovalCycle[], deliveries: SupplierDelivery[], months: string[]) {
+  return months.map((month) => ({
+    month,
+    metrics: computeMetrics(
+      cycles.filter((cycle) => cycle.decided_at.startsWith(month)),
+      deliveries.filter((delivery) => delivery.received_at.startsWith(month))
+    ),
+  }));
+}
+
+// Scores each supplier 0-100 and sorts best first. Approval speed is scored against the
+// fastest supplier in the set, the other metrics on their own rates.
+export function rankSuppliers(
+  supplierIds: string[],
+  cycles: SupplierApprovalCycle[],
+  deliveries: SupplierDelivery[]
+): SupplierScore[] {
+  const scores = supplierIds.map((supplierId) => ({
+    supplierId,
+    metrics: computeMetrics(
+      cycles.filter((cycle) => cycle.supplier_id === supplierId),
+      deliveries.filter((delivery) => delivery.supplier_id === supplierId)
+    ),
+    score: null as number | null,
+  }));
+
+  const cycleTimes = scores
+    .map((s) => s.metrics.avgCycleHours)
+    .filter((hours): hours is number => hours !== null);
+  const fastest = cycleTimes.length > 0 ? Math.min(...cycleTimes) : null;
+
+  scores.forEach((s) => {
+    const { onTimeRate, quantityVarianceRate, rejectionRate, avgCycleHours } = s.metrics;
+    const components: [number, number | null][] = [
+      [SCORE_WEIGHTS.onTime, onTimeRate],
+      [SCORE_WEIGHTS.quantity, quantityVarianceRate === null ? null : Math.max(0, 1 - quantityVarianceRate)],
+      [SCORE_WEIGHTS.acceptance, rejectionRate === null ? null : 1 - rejectionRate],
+      [SCORE_WEIGHTS.speed, avgCycleHours === null || fastest === null ? null : avgCycleHours > 0 ? fastest / avgCycleHours : 1],
+    ];
+
+    const scored = components.filter((component): component is [number, number] => component[1] !== null);
+    const weight = scored.reduce((sum, [w]) => sum + w, 0);
+    s.score = weight > 0 ? (scored.reduce((sum, [w, value]) => sum + w * value, 0) / weight) * 100 : null;
+  });
+
+  return scores.sort((a, b) => (b.score ?? -1) - (a.score ?? -1));
+}
+
+export function formatRate(rate: number | null) {
+  return rate === null ? '-' : `${(rate * 100).toFixed(1)}%`;
+}
+
+export function formatCycleTime(hours: number | null) {
+  if (hours === null) return '-';
+  return hours < 48 ? `${hours.toFixed(1)}h` : `${(hours / 24).toFixed(1)}d`;
+}
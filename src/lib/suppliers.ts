@@ -0,0 +1,65 @@
+import { supabase } from './supabase';
+
+export const PAYMENT_TERMS = ['Prepaid', 'Cash on Delivery', 'Net 15', 'Net 30', 'Net 45', 'Net 60', 'Net 90', 'Letter of Credit'];
+
+export interface Supplier {
+  id: string;
+  code: string;
+  legal_name: string;
+  tax_id: string | null;
+  country: string | null;
+  default_currency: string;
+  payment_terms: string | null;
+  is_active: boolean;
+  created_at: string;
+}
+
+// Only Finance and Admins can read these; other users get no row.
+export interface SupplierBankDetails {
+  supplier_id: string;
+  bank_name: string | null;
+  bank_account_name: string | null;
+  bank_account_number: string | null;
+  bank_swift_code: string | null;
+}
+
+export interface SupplierContact {
+  id: string;
+  supplier_id: string;
+  name: string;
+  title: string | null;
+  email: string | null;
+  phone: string | null;
+  is_primary: boolean;
+}
+
+export async function loadSuppliers(activeOnly = false) {
+  let query = supabase.from('suppliers').select('*').order('legal_name', { ascending: true });
+  if (activeOnly) query = query.eq('is_active', true);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return (data || []) as Supplier[];
+}
+
+const COMPANY_SUFFIXES = /\b(co|company|corp|corporation|inc|incorporated|ltd|limited|llc|plc|gmbh|pte|pty|sa|bv|public|the)\b/g;
+
+// Reduces a supplier name to a comparable key, so "ACME Co." and "Acme Co Ltd" both become "acme".
+export function normalizeSupplierName(name: string) {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .replace(COMPANY_SUFFIXES, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+export function matchesSupplierSearch(supplier: Supplier, search: string) {
+  const term = search.trim().toLowerCase();
+  return (
+    !term ||
+    supplier.code.toLowerCase().includes(term) ||
+    supplier.legal_name.toLowerCase().includes(term) ||
+    !!supplier.tax_id?.toLowerCase().includes(term)
+  );
+}
@@ -0,0 +1,58 @@
+import { supabase } from './supabase';
+
+export interface MatchLine {
+  product_id: string;
+  sku: string;
+  name: string;
+  // Base unit the quantities and unit prices are in
+  unit_of_measure: string;
+  ordered_quantity: number;
+  ordered_unit_price: number | null;
+  received_quantity: number;
+  previously_invoiced_quantity: number;
+  invoiceable_quantity: number;
+  invoiced_quantity: number;
+  invoiced_unit_price: number | null;
+  status: string;
+}
+
+// Shape of the JSON returned by three_way_match()
+export interface ThreeWayMatch {
+  purchase_order_id: string | null;
+  purchase_order_number: string | null;
+  price_tolerance_percent: number;
+  quantity_tolerance_percent: number;
+  issues: string[];
+  lines: MatchLine[];
+}
+
+export interface MatchTolerances {
+  match_price_tolerance_percent: number;
+  match_quantity_tolerance_percent: number;
+}
+
+export async function loadThreeWayMatch(documentId: string) {
+  const { data, error } = await supabase.rpc('three_way_match', { p_document_id: documentId });
+  if (error) throw error;
+  return data as ThreeWayMatch;
+}
+
+export async function loadMatchTolerances() {
+  const { data, error } = await supabase
+    .from('system_settings')
+    .select('match_price_tolerance_percent, match_quantity_tolerance_percent')
+    .maybeSingle();
+
+  if (error) throw error;
+  return (data as MatchTolerances | null) || { match_price_tolerance_percent: 2, match_quantity_tolerance_percent: 0 };
+}
+
+export function getMatchStatusVariant(status: string) {
+  const variants: Record<string, 'success' | 'warning' | 'danger' | 'info' | 'neutral'> = {
+    Matched: 'success',
+    'Not Invoiced': 'neutral',
+    'Price Variance': 'warning',
+    'Quantity Variance': 'warning',
+  };
+  return variants[status] || 'danger';
+}
@@ -0,0 +1,25 @@
+import { supabase } from './supabase';
+
+// Keep in line with the product_categories.valuation_method check constraint.
+export const VALUATION_METHODS = ['Moving Average', 'FIFO'];
+
+export interface ProductStockValue {
+  product_id: string;
+  valuation_method: string;
+  quantity: number;
+  stock_value: number;
+  average_unit_cost: number;
+}
+
+// Current value per product from the stock_movement_costs projection.
+export async function loadProductStockValues() {
+  const { data, error } = await supabase
+    .from('product_stock_values')
+    .select('product_id, valuation_method, quantity, stock_value, average_unit_cost');
+
+  if (error) throw error;
+
+  return new Map<string, ProductStockValue>(
+    (data || []).map((row: ProductStockValue) => [row.product_id, row])
+  );
+}
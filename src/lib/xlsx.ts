@@ -0,0 +1,373 @@
+// A minimal single-sheet .xlsx writer: inline strings, numbers and dates, packed into an
+// uncompressed zip. Rows are encoded as they are added so callers can feed it page by page.
+// Reading takes the first sheet of any workbook as text cells.
+
+export type XlsxCell =
+  | { type: 'string'; value: string }
+  | { type: 'number'; value: number }
+  | { type: 'date' | 'datetime'; value: Date }
+  | null;
+
+// Style indexes in styles.xml below
+const DATE_STYLE = 1;
+const DATETIME_STYLE = 2;
+const HEADER_STYLE = 3;
+
+const encoder = new TextEncoder();
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function updateCrc(crc: number, bytes: Uint8Array) {
+  let c = crc ^ 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) {
+    c = CRC_TABLE[(c ^ bytes[i]) & 0xff] ^ (c >>> 8);
+  }
+  return (c ^ 0xffffffff) >>> 0;
+}
+
+// Control characters other than tab and line breaks are not allowed in XML 1.0
+function isXmlChar(char: string) {
+  const code = char.charCodeAt(0);
+  return code >= 0x20 || code === 0x09 || code === 0x0a || code === 0x0d;
+}
+
+function escapeXml(value: string) {
+  return Array.from(value)
+    .filter(isXmlChar)
+    .join('')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function columnName(index: number) {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+// Excel stores dates as days since 1899-12-30 in the sheet's (local) time
+function toSerialDate(date: Date) {
+  const local = Date.UTC(
+    date.getFullYear(),
+    date.getMonth(),
+    date.getDate(),
+    date.getHours(),
+    date.getMinutes(),
+    date.getSeconds()
+  );
+  return (local - Date.UTC(1899, 11, 30)) / 86400000;
+}
+
+function cellXml(cell: XlsxCell, ref: string, style = 0) {
+  if (cell === null) return '';
+  const s = style ? ` s="${style}"` : '';
+
+  switch (cell.type) {
+    case 'number':
+      return Number.isFinite(cell.value) ? `<c r="${ref}"${s}><v>${cell.value}</v></c>` : '';
+    case 'date':
+    case 'datetime':
+      if (isNaN(cell.value.getTime())) return '';
+      return `<c r="${ref}" s="${cell.type === 'date' ? DATE_STYLE : DATETIME_STYLE}"><v>${toSerialDate(cell.value)}</v></c>`;
+    default:
+      return `<c r="${ref}" t="inlineStr"${s}><is><t xml:space="preserve">${escapeXml(cell.value)}</t></is></c>`;
+  }
+}
+
+const CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>
+<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>
+<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>
+</Types>`;
+
+const ROOT_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>
+</Relationships>`;
+
+const WORKBOOK_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>
+<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+</Relationships>`;
+
+const STYLES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<numFmts count="2"><numFmt numFmtId="164" formatCode="yyyy-mm-dd"/><numFmt numFmtId="165" formatCode="yyyy-mm-dd hh:mm"/></numFmts>
+<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>
+<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>
+<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>
+<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>
+<cellXfs count="4">
+<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>
+<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+<xf numFmtId="165" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>
+</cellXfs>
+</styleSheet>`;
+
+function workbookXml(sheetName: string) {
+  // Sheet names are limited to 31 characters and may not contain []:*?/\
+  const name = escapeXml(sheetName.replace(/[[\]:*?/\\]/g, ' ').slice(0, 31));
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+<sheets><sheet name="${name}" sheetId="1" r:id="rId1"/></sheets>
+</workbook>`;
+}
+
+interface ZipEntry {
+  name: Uint8Array;
+  parts: Uint8Array[];
+  size: number;
+  crc: number;
+}
+
+function createEntry(name: string, content = ''): ZipEntry {
+  const bytes = encoder.encode(content);
+  return { name: encoder.encode(name), parts: [bytes], size: bytes.length, crc: updateCrc(0, bytes) };
+}
+
+function appendToEntry(entry: ZipEntry, content: string) {
+  const bytes = encoder.encode(content);
+  entry.parts.push(bytes);
+  entry.size += bytes.length;
+  entry.crc = updateCrc(entry.crc, bytes);
+}
+
+// Stored (uncompressed) zip with UTF-8 names
+function buildZip(entries: ZipEntry[]) {
+  const now = new Date();
+  const time = (now.getHours() << 11) | (now.getMinutes() << 5) | Math.floor(now.getSeconds() / 2);
+  const date = ((now.getFullYear() - 1980) << 9) | ((now.getMonth() + 1) << 5) | now.getDate();
+
+  const blobParts: BlobPart[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  entries.forEach((entry) => {
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, 20, true);
+    local.setUint16(6, 0x0800, true);
+    local.setUint16(8, 0, true);
+    local.setUint16(10, time, true);
+    local.setUint16(12, date, true);
+    local.setUint32(14, entry.crc, true);
+    local.setUint32(18, entry.size, true);
+    local.setUint32(22, entry.size, true);
+    local.setUint16(26, entry.name.length, true);
+    local.setUint16(28, 0, true);
+    blobParts.push(local.buffer, entry.name, ...entry.parts);
+
+    const header = new DataView(new ArrayBuffer(46));
+    header.setUint32(0, 0x02014b50, true);
+    header.setUint16(4, 20, true);
+    header.setUint16(6, 20, true);
+    header.setUint16(8, 0x0800, true);
+    header.setUint16(10, 0, true);
+    header.setUint16(12, time, true);
+    header.setUint16(14, date, true);
+    header.setUint32(16, entry.crc, true);
+    header.setUint32(20, entry.size, true);
+    header.setUint32(24, entry.size, true);
+    header.setUint16(28, entry.name.length, true);
+    header.setUint32(42, offset, true);
+    central.push(new Uint8Array(header.buffer), entry.name);
+
+    offset += 30 + entry.name.length + entry.size;
+  });
+
+  const centralSize = central.reduce((sum, part) => sum + part.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, entries.length, true);
+  end.setUint16(10, entries.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  return new Blob([...blobParts, ...central, end.buffer], {
+    type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  });
+}
+
+export function createXlsxWriter(sheetName: string, headers: string[]) {
+  const sheet = createEntry(
+    'xl/worksheets/sheet1.xml',
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+      '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+      // Keep the header row in view while scrolling
+      '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>' +
+      '<sheetData>'
+  );
+  let rowCount = 0;
+
+  const addRow = (cells: XlsxCell[], style = 0) => {
+    rowCount += 1;
+    const xml = cells.map((cell, index) => cellXml(cell, `${columnName(index)}${rowCount}`, style)).join('');
+    return `<row r="${rowCount}">${xml}</row>`;
+  };
+
+  appendToEntry(sheet, addRow(headers.map((value) => ({ type: 'string', value })), HEADER_STYLE));
+
+  return {
+    addRows(rows: XlsxCell[][]) {
+      if (rows.length > 0) appendToEntry(sheet, rows.map((cells) => addRow(cells)).join(''));
+    },
+    finish() {
+      appendToEntry(sheet, '</sheetData></worksheet>');
+      return buildZip([
+        createEntry('[Content_Types].xml', CONTENT_TYPES),
+        createEntry('_rels/.rels', ROOT_RELS),
+        createEntry('xl/workbook.xml', workbookXml(sheetName)),
+        createEntry('xl/_rels/workbook.xml.rels', WORKBOOK_RELS),
+        createEntry('xl/styles.xml', STYLES),
+        sheet,
+      ]);
+    },
+  };
+}
+
+const decoder = new TextDecoder();
+
+// Reads the entries of a zip, inflating deflated ones with the browser's DecompressionStream
+async function readZip(bytes: Uint8Array) {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let end = -1;
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      end = i;
+      break;
+    }
+  }
+  if (end === -1) throw new Error('Not a valid .xlsx file');
+
+  const files = new Map<string, () => Promise<string>>();
+  let position = view.getUint32(end + 16, true);
+
+  for (let i = 0; i < view.getUint16(end + 10, true); i++) {
+    if (view.getUint32(position, true) !== 0x02014b50) throw new Error('Not a valid .xlsx file');
+
+    const method = view.getUint16(position + 10, true);
+    const compressedSize = view.getUint32(position + 20, true);
+    const nameLength = view.getUint16(position + 28, true);
+    const extraLength = view.getUint16(position + 30, true);
+    const commentLength = view.getUint16(position + 32, true);
+    const localOffset = view.getUint32(position + 42, true);
+    const name = decoder.decode(bytes.subarray(position + 46, position + 46 + nameLength));
+
+    files.set(name, async () => {
+      const start =
+        localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+      const data = bytes.subarray(start, start + compressedSize);
+      if (method === 0) return decoder.decode(data);
+      if (method !== 8) throw new Error(`Unsupported compression in ${name}`);
+
+      const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+      return new Response(stream).text();
+    });
+
+    position += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return files;
+}
+
+function parseXml(text: string) {
+  return new DOMParser().parseFromString(text, 'application/xml');
+}
+
+function elements(parent: Document | Element, localName: string) {
+  return Array.from(parent.getElementsByTagNameNS('*', localName));
+}
+
+// Text of a shared or inline string, skipping phonetic runs
+function stringText(element: Element) {
+  return elements(element, 't')
+    .filter((t) => t.parentElement?.localName !== 'rPh')
+    .map((t) => t.textContent || '')
+    .join('');
+}
+
+function columnIndex(ref: string) {
+  const letters = ref.replace(/[0-9]/g, '');
+  return letters.split('').reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+}
+
+export async function readXlsxRows(file: Blob) {
+  const files = await readZip(new Uint8Array(await file.arrayBuffer()));
+  const read = async (path: string) => {
+    const entry = files.get(path);
+    return entry ? parseXml(await entry()) : null;
+  };
+
+  const workbook = await read('xl/workbook.xml');
+  const relationships = await read('xl/_rels/workbook.xml.rels');
+  const firstSheet = workbook ? elements(workbook, 'sheet')[0] : undefined;
+  const relationshipId = firstSheet?.getAttributeNS(
+    'http://schemas.openxmlformats.org/officeDocument/2006/relationships',
+    'id'
+  );
+  const target = relationships
+    ? elements(relationships, 'Relationship').find((relationship) => relationship.getAttribute('Id') === relationshipId)
+        ?.getAttribute('Target')
+    : null;
+  if (!target) throw new Error('The workbook has no sheets');
+
+  const sheet = await read(target.startsWith('/') ? target.slice(1) : `xl/${target}`);
+  if (!sheet) throw new Error('The workbook has no sheets');
+
+  const sharedStringsXml = await read('xl/sharedStrings.xml');
+  const sharedStrings = sharedStringsXml ? elements(sharedStringsXml, 'si').map(stringText) : [];
+
+  // Rows are placed by their own number so blank rows keep line numbers in step with Excel
+  const rows: string[][] = [];
+
+  elements(sheet, 'row').forEach((row, position) => {
+    const cells: string[] = [];
+
+    elements(row, 'c').forEach((cell, position) => {
+      const ref = cell.getAttribute('r');
+      const index = ref ? columnIndex(ref) : position;
+      const value = elements(cell, 'v')[0]?.textContent || '';
+
+      switch (cell.getAttribute('t')) {
+        case 's':
+          cells[index] = sharedStrings[Number(value)] || '';
+          break;
+        case 'inlineStr':
+          cells[index] = stringText(cell);
+          break;
+        case 'b':
+          cells[index] = value === '1' ? 'TRUE' : 'FALSE';
+          break;
+        case 'e':
+          cells[index] = '';
+          break;
+        default:
+          cells[index] = value;
+      }
+    });
+
+    const rowNumber = Number(row.getAttribute('r')) || position + 1;
+    rows[rowNumber - 1] = Array.from(cells, (cell) => cell ?? '');
+  });
+
+  return Array.from(rows, (row) => row ?? []);
+}
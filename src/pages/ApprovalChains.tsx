@@ -0,0 +1,474 @@
+import { useEffect, useState } from 'react';
+import { Plus, Trash2, GitBranch, Pencil, X } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { Button } from '../components/ui/Button';
+import { Input } from '../components/ui/Input';
+import { Select } from '../components/ui/Select';
+import { Badge } from '../components/ui/Badge';
+import { CURRENCIES, DOCUMENT_TYPES } from '../lib/documents';
+import { DEPARTMENTS, USER_ROLES } from '../lib/approvals';
+import { ApprovalSlaSettings } from '../components/approvals/ApprovalSlaSettings';
+
+interface ChainStep {
+  id?: string;
+  step_order: number;
+  name: string;
+  approver_role: string;
+  approver_department: string | null;
+}
+
+interface ApprovalChain {
+  id: string;
+  name: string;
+  document_type: string;
+  currency: string | null;
+  min_value: number;
+  is_active: boolean;
+  steps: ChainStep[];
+}
+
+interface ChainFormState {
+  id: string | null;
+  name: string;
+  documentType: string;
+  currency: string;
+  minValue: string;
+  isActive: boolean;
+  steps: ChainStep[];
+}
+
+const emptyForm: ChainFormState = {
+  id: null,
+  name: '',
+  documentType: 'Purchase Order',
+  currency: '',
+  minValue: '0',
+  isActive: true,
+  steps: [{ step_order: 1, name: 'Approval', approver_role: 'Approver', approver_department: null }],
+};
+
+export function ApprovalChains() {
+  const { user } = useAuth();
+  const [chains, setChains] = useState<ApprovalChain[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [form, setForm] = useState<ChainFormState | null>(null);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadChains();
+  }, []);
+
+  const loadChains = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('approval_chains')
+        .select(`
+          *,
+          approval_chain_steps(id, step_order, name, approver_role, approver_department)
+        `)
+        .order('document_type', { ascending: true })
+        .order('min_value', { ascending: true });
+
+      if (error) throw error;
+
+      const chainsWithSteps = data?.map((chain) => ({
+        ...chain,
+        steps: [...(chain.approval_chain_steps || [])].sort(
+          (a: ChainStep, b: ChainStep) => a.step_order - b.step_order
+        ),
+      })) || [];
+
+      setChains(chainsWithSteps);
+    } catch (error) {
+      console.error('Error loading approval chains:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openEditor = (chain?: ApprovalChain) => {
+    setFormError(null);
+    setForm(
+      chain
+        ? {
+            id: chain.id,
+            name: chain.name,
+            documentType: chain.document_type,
+            currency: chain.currency || '',
+            minValue: String(chain.min_value),
+            isActive: chain.is_active,
+            steps: chain.steps.map((step) => ({ ...step })),
+          }
+        : { ...emptyForm, steps: emptyForm.steps.map((step) => ({ ...step })) }
+    );
+  };
+
+  const updateStep = (index: number, changes: Partial<ChainStep>) => {
+    if (!form) return;
+    setForm({
+      ...form,
+      steps: form.steps.map((step, i) => (i === index ? { ...step, ...changes } : step)),
+    });
+  };
+
+  const handleSave = async () => {
+    if (!form) return;
+
+    if (!form.name.trim()) {
+      setFormError('Give the chain a name');
+      return;
+    }
+    if (form.steps.length === 0) {
+      setFormError('A chain needs at least one step');
+      return;
+    }
+    if (form.steps.some((step) => !step.name.trim() || step.step_order < 1)) {
+      setFormError('Every step needs a name and an order of 1 or more');
+      return;
+    }
+
+    setSaving(true);
+    setFormError(null);
+
+    try {
+      const chainRow = {
+        name: form.name,
+        document_type: form.documentType,
+        currency: form.currency || null,
+        min_value: parseFloat(form.minValue) || 0,
+        is_active: form.isActive,
+        updated_at: new Date().toISOString(),
+      };
+
+      let chainId = form.id;
+
+      if (chainId) {
+        const { error } = await supabase.from('approval_chains').update(chainRow).eq('id', chainId);
+        if (error) throw error;
+
+        const { error: deleteError } = await supabase
+          .from('approval_chain_steps')
+          .delete()
+          .eq('chain_id', chainId);
+        if (deleteError) throw deleteError;
+      } else {
+        const { data, error } = await supabase
+          .from('approval_chains')
+          .insert({ ...chainRow, created_by: user?.id })
+          .select()
+          .single();
+        if (error) throw error;
+        chainId = data.id;
+      }
+
+      const { error: stepsError } = await supabase.from('approval_chain_steps').insert(
+        form.steps.map((step) => ({
+          chain_id: chainId,
+          step_order: step.step_order,
+          name: step.name,
+          approver_role: step.approver_role,
+          approver_department: step.approver_department || null,
+        }))
+      );
+      if (stepsError) throw stepsError;
+
+      setForm(null);
+      await loadChains();
+    } catch (error) {
+      console.error('Error saving approval chain:', error);
+      setFormError('Failed to save approval chain. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (chain: ApprovalChain) => {
+    if (!confirm(`Delete approval chain "${chain.name}"?`)) return;
+
+    try {
+      const { error } = await supabase.from('approval_chains').delete().eq('id', chain.id);
+      if (error) throw error;
+      await loadChains();
+    } catch (error) {
+      console.error('Error deleting approval chain:', error);
+      alert('Failed to delete approval chain. Please try again.');
+    }
+  };
+
+  const describeStepFlow = (steps: ChainStep[]) => {
+    const orders = Array.from(new Set(steps.map((step) => step.step_order))).sort((a, b) => a - b);
+    return orders
+      .map((order) =>
+        steps
+          .filter((step) => step.step_order === order)
+          .map((step) => step.name)
+          .join(' + ')
+      )
+      .join(' → ');
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <p className="text-gray-500">Loading approval chains...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-8 max-w-7xl mx-auto">
+      <div className="flex items-center justify-between mb-8">
+        <div>
+          <h1 className="text-2xl font-semibold text-gray-900">Approval Chains</h1>
+          <p className="text-sm text-gray-500 mt-1">
+            Configure who approves which documents, by type, currency and value
+          </p>
+        </div>
+        <Button onClick={() => openEditor()}>
+          <Plus className="w-4 h-4 mr-2" strokeWidth={1.5} />
+          New Chain
+        </Button>
+      </div>
+
+      <div className="bg-white rounded-xl border border-gray-100 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b border-gray-100">
+              <tr>
+                <th className="text-left px-6 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Chain
+                </th>
+                <th className="text-left px-6 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Document Type
+                </th>
+                <th className="text-left px-6 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Applies From
+                </th>
+                <th className="text-left px-6 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Steps
+                </th>
+                <th className="text-left px-6 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Status
+                </th>
+                <th className="px-6 py-3" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {chains.length === 0 ? (
+                <tr>
+                  <td colSpan={6} className="px-6 py-12 text-center text-sm text-gray-500">
+                    No approval chains yet. Documents use a single Approver step until one is configured.
+                  </td>
+                </tr>
+              ) : (
+                chains.map((chain) => (
+                  <tr key={chain.id} className="hover:bg-gray-50 transition-colors">
+                    <td className="px-6 py-4">
+                      <div className="flex items-center gap-3">
+                        <div className="p-2 bg-gray-50 rounded-lg">
+                          <GitBranch className="w-4 h-4 text-gray-600" strokeWidth={1.5} />
+                        </div>
+                        <p className="text-sm font-medium text-gray-900">{chain.name}</p>
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <p className="text-sm text-gray-600">{chain.document_type}</p>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <p className="text-sm text-gray-900">
+                        {chain.currency || 'Any currency'} {chain.min_value.toLocaleString()}
+                      </p>
+                    </td>
+                    <td className="px-6 py-4">
+                      <p className="text-sm text-gray-600">{describeStepFlow(chain.steps)}</p>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <Badge variant={chain.is_active ? 'success' : 'neutral'}>
+                        {chain.is_active ? 'Active' : 'Inactive'}
+                      </Badge>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right">
+                      <div className="flex items-center justify-end gap-1">
+                        <Button variant="ghost" size="sm" onClick={() => openEditor(chain)}>
+                          <Pencil className="w-4 h-4" strokeWidth={1.5} />
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => handleDelete(chain)}>
+                          <Trash2 className="w-4 h-4" strokeWidth={1.5} />
+                        </Button>
+                      </div>
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div className="mt-6">
+        <ApprovalSlaSettings />
+      </div>
+
+      {form && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-xl p-6 max-w-3xl w-full mx-4 max-h-[90vh] overflow-y-auto">
+            <div className="flex items-center justify-between mb-6">
+              <h3 className="text-lg font-semibold text-gray-900">
+                {form.id ? 'Edit Approval Chain' : 'New Approval Chain'}
+              </h3>
+              <button onClick={() => setForm(null)} className="p-1 text-gray-400 hover:text-gray-700 transition-colors">
+                <X className="w-5 h-5" strokeWidth={1.5} />
+              </button>
+            </div>
+
+            {formError && (
+              <div className="p-3 bg-red-50 border border-red-100 rounded-lg mb-4">
+                <p className="text-sm text-red-600">{formError}</p>
+              </div>
+            )}
+
+            <div className="space-y-4">
+              <Input
+                label="Name"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="e.g., High-value Purchase Orders"
+              />
+
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <Select
+                  label="Document Type"
+                  value={form.documentType}
+                  onChange={(e) => setForm({ ...form, documentType: e.target.value })}
+                  options={DOCUMENT_TYPES.map((type) => ({ value: type, label: type }))}
+                />
+                <Select
+                  label="Currency"
+                  value={form.currency}
+                  onChange={(e) => setForm({ ...form, currency: e.target.value })}
+                  options={[
+                    { value: '', label: 'Any currency' },
+                    ...CURRENCIES.map((currency) => ({ value: currency, label: currency })),
+                  ]}
+                />
+                <Input
+                  label="Minimum Value"
+                  type="number"
+                  step="0.01"
+                  value={form.minValue}
+                  onChange={(e) => setForm({ ...form, minValue: e.target.value })}
+                />
+              </div>
+
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={form.isActive}
+                  onChange={(e) => setForm({ ...form, isActive: e.target.checked })}
+                  className="rounded border-gray-300"
+                />
+                Active
+              </label>
+
+              <div>
+                <div className="flex items-center justify-between mb-2">
+                  <label className="block text-sm font-medium text-gray-700">Steps</label>
+                  <Button
+                    type="button"
+                    variant="secondary"
+                    size="sm"
+                    onClick={() =>
+                      setForm({
+                        ...form,
+                        steps: [
+                          ...form.steps,
+                          {
+                            step_order: Math.max(0, ...form.steps.map((step) => step.step_order)) + 1,
+                            name: '',
+                            approver_role: 'Approver',
+                            approver_department: null,
+                          },
+                        ],
+                      })
+                    }
+                  >
+                    <Plus className="w-4 h-4 mr-1" strokeWidth={1.5} />
+                    Add Step
+                  </Button>
+                </div>
+                <p className="text-xs text-gray-500 mb-3">
+                  Steps run in order. Give several steps the same order to have them approved in parallel.
+                </p>
+                <div className="space-y-2">
+                  {form.steps.map((step, index) => (
+                    <div key={index} className="grid grid-cols-12 gap-2 items-end">
+                      <div className="col-span-2">
+                        <Input
+                          label={index === 0 ? 'Order' : undefined}
+                          type="number"
+                          min="1"
+                          value={step.step_order}
+                          onChange={(e) => updateStep(index, { step_order: parseInt(e.target.value) || 0 })}
+                        />
+                      </div>
+                      <div className="col-span-4">
+                        <Input
+                          label={index === 0 ? 'Step Name' : undefined}
+                          value={step.name}
+                          onChange={(e) => updateStep(index, { name: e.target.value })}
+                          placeholder="e.g., Procurement Manager"
+                        />
+                      </div>
+                      <div className="col-span-2">
+                        <Select
+                          label={index === 0 ? 'Role' : undefined}
+                          value={step.approver_role}
+                          onChange={(e) => updateStep(index, { approver_role: e.target.value })}
+                          options={USER_ROLES.filter((role) => role !== 'Requester').map((role) => ({
+                            value: role,
+                            label: role,
+                          }))}
+                        />
+                      </div>
+                      <div className="col-span-3">
+                        <Select
+                          label={index === 0 ? 'Department' : undefined}
+                          value={step.approver_department || ''}
+                          onChange={(e) => updateStep(index, { approver_department: e.target.value || null })}
+                          options={[
+                            { value: '', label: 'Any department' },
+                            ...DEPARTMENTS.map((department) => ({ value: department, label: department })),
+                          ]}
+                        />
+                      </div>
+                      <div className="col-span-1 pb-1">
+                        <button
+                          type="button"
+                          onClick={() => setForm({ ...form, steps: form.steps.filter((_, i) => i !== index) })}
+                          className="p-1.5 text-gray-400 hover:text-red-600 transition-colors"
+                        >
+                          <Trash2 className="w-4 h-4" strokeWidth={1.5} />
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </div>
+
+            <div className="flex items-center gap-3 mt-6 pt-6 border-t border-gray-100">
+              <Button onClick={handleSave} disabled={saving}>
+                {saving ? 'Saving...' : 'Save Chain'}
+              </Button>
+              <Button variant="ghost" onClick={() => setForm(null)}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
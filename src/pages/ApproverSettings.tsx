@@ -0,0 +1,487 @@
+import { useEffect, useState } from 'react';
+import { Plus, Trash2, CalendarOff } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { Button } from '../components/ui/Button';
+import { Input } from '../components/ui/Input';
+import { Select } from '../components/ui/Select';
+import { Badge } from '../components/ui/Badge';
+import { DOCUMENT_TYPES } from '../lib/documents';
+import { DEPARTMENTS } from '../lib/approvals';
+
+interface ApproverOption {
+  id: string;
+  full_name: string;
+  department: string;
+}
+
+interface Delegation {
+  id: string;
+  approver_id: string;
+  delegate_id: string;
+  starts_on: string;
+  ends_on: string;
+  reason: string | null;
+  revoked_at: string | null;
+  approver_name?: string;
+  delegate_name?: string;
+}
+
+interface AssignmentRule {
+  id: string;
+  department: string;
+  document_type: string | null;
+  approver_id: string;
+  is_active: boolean;
+  approver_name?: string;
+}
+
+const today = () => new Date().toISOString().split('T')[0];
+
+export function ApproverSettings() {
+  const { user, profile } = useAuth();
+  const isAdmin = profile?.role === 'Admin';
+  const [approvers, setApprovers] = useState<ApproverOption[]>([]);
+  const [delegations, setDelegations] = useState<Delegation[]>([]);
+  const [rules, setRules] = useState<AssignmentRule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [delegationError, setDelegationError] = useState<string | null>(null);
+  const [ruleError, setRuleError] = useState<string | null>(null);
+  const [delegationForm, setDelegationForm] = useState({
+    approverId: '',
+    delegateId: '',
+    startsOn: today(),
+    endsOn: today(),
+    reason: '',
+  });
+  const [ruleForm, setRuleForm] = useState({
+    department: DEPARTMENTS[0],
+    documentType: '',
+    approverId: '',
+  });
+
+  useEffect(() => {
+    loadApprovers();
+    loadDelegations();
+    loadRules();
+  }, []);
+
+  const loadApprovers = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('users_profile')
+        .select('id, full_name, department')
+        .eq('role', 'Approver')
+        .order('full_name', { ascending: true });
+
+      if (error) throw error;
+      setApprovers(data || []);
+    } catch (error) {
+      console.error('Error loading approvers:', error);
+    }
+  };
+
+  const loadDelegations = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('approver_delegations')
+        .select(`
+          *,
+          approver:users_profile!approver_delegations_approver_id_fkey(full_name),
+          delegate:users_profile!approver_delegations_delegate_id_fkey(full_name)
+        `)
+        .order('starts_on', { ascending: false });
+
+      if (error) throw error;
+
+      const delegationsWithNames = data?.map((delegation) => ({
+        ...delegation,
+        approver_name: delegation.approver?.full_name || 'Unknown',
+        delegate_name: delegation.delegate?.full_name || 'Unknown',
+      })) || [];
+
+      setDelegations(delegationsWithNames);
+    } catch (error) {
+      console.error('Error loading delegations:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadRules = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('approver_assignment_rules')
+        .select(`
+          *,
+          users_profile(full_name)
+        `)
+        .order('department', { ascending: true });
+
+      if (error) throw error;
+
+      const rulesWithNames = data?.map((rule) => ({
+        ...rule,
+        approver_name: rule.users_profile?.full_name || 'Unknown',
+      })) || [];
+
+      setRules(rulesWithNames);
+    } catch (error) {
+      console.error('Error loading assignment rules:', error);
+    }
+  };
+
+  const handleCreateDelegation = async () => {
+    if (!delegationForm.delegateId) {
+      setDelegationError('Select who should approve while you are away');
+      return;
+    }
+    if (delegationForm.endsOn < delegationForm.startsOn) {
+      setDelegationError('The end date must be on or after the start date');
+      return;
+    }
+
+    setSaving(true);
+    setDelegationError(null);
+
+    try {
+      // Pending documents are handed over straight away when the window has started
+      const { error } = await supabase.rpc('create_approver_delegation', {
+        p_delegate_id: delegationForm.delegateId,
+        p_starts_on: delegationForm.startsOn,
+        p_ends_on: delegationForm.endsOn,
+        p_reason: delegationForm.reason || null,
+        p_approver_id: delegationForm.approverId || null,
+      });
+
+      if (error) throw error;
+
+      setDelegationForm({ approverId: '', delegateId: '', startsOn: today(), endsOn: today(), reason: '' });
+      await loadDelegations();
+    } catch (error) {
+      console.error('Error creating delegation:', error);
+      const message = (error as { message?: string }).message;
+      setDelegationError(message || 'Failed to set up delegation. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRevokeDelegation = async (delegation: Delegation) => {
+    if (!confirm(`Cancel the delegation to ${delegation.delegate_name}?`)) return;
+
+    try {
+      const { error } = await supabase.rpc('revoke_approver_delegation', {
+        p_delegation_id: delegation.id,
+      });
+
+      if (error) throw error;
+      await loadDelegations();
+    } catch (error) {
+      console.error('Error revoking delegation:', error);
+      alert('Failed to cancel delegation. Please try again.');
+    }
+  };
+
+  const handleCreateRule = async () => {
+    if (!ruleForm.approverId) {
+      setRuleError('Select an approver');
+      return;
+    }
+
+    setSaving(true);
+    setRuleError(null);
+
+    try {
+      const { error } = await supabase.from('approver_assignment_rules').insert({
+        department: ruleForm.department,
+        document_type: ruleForm.documentType || null,
+        approver_id: ruleForm.approverId,
+      });
+
+      if (error) throw error;
+
+      setRuleForm({ department: DEPARTMENTS[0], documentType: '', approverId: '' });
+      await loadRules();
+    } catch (error) {
+      console.error('Error creating assignment rule:', error);
+      setRuleError('Failed to save assignment rule. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleRule = async (rule: AssignmentRule) => {
+    try {
+      const { error } = await supabase
+        .from('approver_assignment_rules')
+        .update({ is_active: !rule.is_active })
+        .eq('id', rule.id);
+
+      if (error) throw error;
+      await loadRules();
+    } catch (error) {
+      console.error('Error updating assignment rule:', error);
+      alert('Failed to update assignment rule. Please try again.');
+    }
+  };
+
+  const handleDeleteRule = async (rule: AssignmentRule) => {
+    if (!confirm(`Delete the ${rule.department} assignment rule?`)) return;
+
+    try {
+      const { error } = await supabase.from('approver_assignment_rules').delete().eq('id', rule.id);
+      if (error) throw error;
+      await loadRules();
+    } catch (error) {
+      console.error('Error deleting assignment rule:', error);
+      alert('Failed to delete assignment rule. Please try again.');
+    }
+  };
+
+  const getDelegationBadge = (delegation: Delegation) => {
+    if (delegation.revoked_at) return <Badge variant="neutral">Cancelled</Badge>;
+    if (delegation.ends_on < today()) return <Badge variant="neutral">Ended</Badge>;
+    if (delegation.starts_on > today()) return <Badge variant="info">Scheduled</Badge>;
+    return <Badge variant="warning">Active</Badge>;
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <p className="text-gray-500">Loading approver settings...</p>
+      </div>
+    );
+  }
+
+  const delegateOptions = approvers.filter(
+    (approver) => approver.id !== (delegationForm.approverId || user?.id)
+  );
+
+  return (
+    <div className="p-8 max-w-7xl mx-auto space-y-8">
+      <div>
+        <h1 className="text-2xl font-semibold text-gray-900">Approvers</h1>
+        <p className="text-sm text-gray-500 mt-1">
+          Out-of-office delegation and automatic approver assignment
+        </p>
+      </div>
+
+      <div className="bg-white rounded-xl border border-gray-100 p-6">
+        <h2 className="text-base font-semibold text-gray-900 mb-1">Out of Office</h2>
+        <p className="text-sm text-gray-500 mb-6">
+          When a delegation starts, Pending documents assigned to the approver, including the approval chain steps
+          named for them, move to the delegate. Scheduled delegations are applied overnight on their start date, and
+          when a delegation ends or is cancelled the documents still Pending go back to the approver.
+        </p>
+
+        {delegationError && (
+          <div className="p-3 bg-red-50 border border-red-100 rounded-lg mb-4">
+            <p className="text-sm text-red-600">{delegationError}</p>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end mb-6">
+          {isAdmin && (
+            <Select
+              label="Approver"
+              value={delegationForm.approverId}
+              onChange={(e) => setDelegationForm({ ...delegationForm, approverId: e.target.value })}
+              options={[
+                { value: '', label: 'Myself' },
+                ...approvers.map((a) => ({ value: a.id, label: a.full_name })),
+              ]}
+            />
+          )}
+          <Select
+            label="Delegate"
+            value={delegationForm.delegateId}
+            onChange={(e) => setDelegationForm({ ...delegationForm, delegateId: e.target.value })}
+            options={[
+              { value: '', label: 'Select approver...' },
+              ...delegateOptions.map((a) => ({ value: a.id, label: `${a.full_name} — ${a.department}` })),
+            ]}
+          />
+          <Input
+            label="From"
+            type="date"
+            value={delegationForm.startsOn}
+            onChange={(e) => setDelegationForm({ ...delegationForm, startsOn: e.target.value })}
+          />
+          <Input
+            label="Until"
+            type="date"
+            value={delegationForm.endsOn}
+            onChange={(e) => setDelegationForm({ ...delegationForm, endsOn: e.target.value })}
+          />
+          <Input
+            label="Reason"
+            value={delegationForm.reason}
+            onChange={(e) => setDelegationForm({ ...delegationForm, reason: e.target.value })}
+            placeholder="e.g., Annual leave"
+          />
+        </div>
+
+        <Button onClick={handleCreateDelegation} disabled={saving}>
+          <CalendarOff className="w-4 h-4 mr-2" strokeWidth={1.5} />
+          Set Delegation
+        </Button>
+
+        <div className="overflow-x-auto mt-6 border border-gray-100 rounded-lg">
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b border-gray-100">
+              <tr>
+                <th className="text-left px-6 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Approver
+                </th>
+                <th className="text-left px-6 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Delegate
+                </th>
+                <th className="text-left px-6 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Period
+                </th>
+                <th className="text-left px-6 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Reason
+                </th>
+                <th className="text-left px-6 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Status
+                </th>
+                <th className="px-6 py-3" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {delegations.length === 0 ? (
+                <tr>
+                  <td colSpan={6} className="px-6 py-12 text-center text-sm text-gray-500">
+                    No delegations yet
+                  </td>
+                </tr>
+              ) : (
+                delegations.map((delegation) => (
+                  <tr key={delegation.id} className="hover:bg-gray-50 transition-colors">
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{delegation.approver_name}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{delegation.delegate_name}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
+                      {new Date(delegation.starts_on).toLocaleDateString()} – {new Date(delegation.ends_on).toLocaleDateString()}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-600">{delegation.reason || '—'}</td>
+                    <td className="px-6 py-4 whitespace-nowrap">{getDelegationBadge(delegation)}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right">
+                      {!delegation.revoked_at && delegation.ends_on >= today()
+                        && (isAdmin || delegation.approver_id === user?.id) && (
+                        <Button variant="ghost" size="sm" onClick={() => handleRevokeDelegation(delegation)}>
+                          Cancel
+                        </Button>
+                      )}
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {isAdmin && (
+        <div className="bg-white rounded-xl border border-gray-100 p-6">
+          <h2 className="text-base font-semibold text-gray-900 mb-1">Assignment Rules</h2>
+          <p className="text-sm text-gray-500 mb-6">
+            New documents without a chosen approver are assigned by the creator's department.
+            A rule for a specific document type wins over a rule for all types.
+          </p>
+
+          {ruleError && (
+            <div className="p-3 bg-red-50 border border-red-100 rounded-lg mb-4">
+              <p className="text-sm text-red-600">{ruleError}</p>
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end mb-6">
+            <Select
+              label="Department"
+              value={ruleForm.department}
+              onChange={(e) => setRuleForm({ ...ruleForm, department: e.target.value })}
+              options={DEPARTMENTS.map((department) => ({ value: department, label: department }))}
+            />
+            <Select
+              label="Document Type"
+              value={ruleForm.documentType}
+              onChange={(e) => setRuleForm({ ...ruleForm, documentType: e.target.value })}
+              options={[
+                { value: '', label: 'All types' },
+                ...DOCUMENT_TYPES.map((type) => ({ value: type, label: type })),
+              ]}
+            />
+            <Select
+              label="Approver"
+              value={ruleForm.approverId}
+              onChange={(e) => setRuleForm({ ...ruleForm, approverId: e.target.value })}
+              options={[
+                { value: '', label: 'Select approver...' },
+                ...approvers.map((a) => ({ value: a.id, label: `${a.full_name} — ${a.department}` })),
+              ]}
+            />
+            <Button onClick={handleCreateRule} disabled={saving}>
+              <Plus className="w-4 h-4 mr-2" strokeWidth={1.5} />
+              Add Rule
+            </Button>
+          </div>
+
+          <div className="overflow-x-auto border border-gray-100 rounded-lg">
+            <table className="w-full">
+              <thead className="bg-gray-50 border-b border-gray-100">
+                <tr>
+                  <th className="text-left px-6 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Department
+                  </th>
+                  <th className="text-left px-6 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Document Type
+                  </th>
+                  <th className="text-left px-6 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Approver
+                  </th>
+                  <th className="text-left px-6 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Status
+                  </th>
+                  <th className="px-6 py-3" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {rules.length === 0 ? (
+                  <tr>
+                    <td colSpan={5} className="px-6 py-12 text-center text-sm text-gray-500">
+                      No assignment rules yet. Documents stay unassigned unless an approver is picked.
+                    </td>
+                  </tr>
+                ) : (
+                  rules.map((rule) => (
+                    <tr key={rule.id} className="hover:bg-gray-50 transition-colors">
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{rule.department}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
+                        {rule.document_type || 'All types'}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{rule.approver_name}</td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <button onClick={() => handleToggleRule(rule)}>
+                          <Badge variant={rule.is_active ? 'success' : 'neutral'}>
+                            {rule.is_active ? 'Active' : 'Inactive'}
+                          </Badge>
+                        </button>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-right">
+                        <Button variant="ghost" size="sm" onClick={() => handleDeleteRule(rule)}>
+                          <Trash2 className="w-4 h-4" strokeWidth={1.5} />
+                        </Button>
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
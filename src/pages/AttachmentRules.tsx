@@ -0,0 +1,209 @@
+import { useEffect, useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { Button } from '../components/ui/Button';
+import { Input } from '../components/ui/Input';
+import { Select } from '../components/ui/Select';
+import { Badge } from '../components/ui/Badge';
+import { DOCUMENT_TYPES } from '../lib/documents';
+import { AttachmentRequirement } from '../lib/attachments';
+
+export function AttachmentRules() {
+  const { user } = useAuth();
+  const [requirements, setRequirements] = useState<AttachmentRequirement[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [form, setForm] = useState({
+    documentType: DOCUMENT_TYPES[0],
+    category: '',
+    description: '',
+  });
+
+  useEffect(() => {
+    loadRequirements();
+  }, []);
+
+  const loadRequirements = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('attachment_requirements')
+        .select('*')
+        .order('document_type', { ascending: true })
+        .order('category', { ascending: true });
+
+      if (error) throw error;
+      setRequirements(data || []);
+    } catch (error) {
+      console.error('Error loading attachment requirements:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCreate = async () => {
+    const category = form.category.trim();
+    if (!category) {
+      setFormError('Enter an attachment category');
+      return;
+    }
+    if (requirements.some((r) => r.document_type === form.documentType && r.category === category)) {
+      setFormError(`${form.documentType} already requires ${category}`);
+      return;
+    }
+
+    setSaving(true);
+    setFormError(null);
+
+    try {
+      const { error } = await supabase.from('attachment_requirements').insert({
+        document_type: form.documentType,
+        category,
+        description: form.description.trim() || null,
+        created_by: user?.id,
+      });
+
+      if (error) throw error;
+
+      setForm({ ...form, category: '', description: '' });
+      await loadRequirements();
+    } catch (error) {
+      console.error('Error creating attachment requirement:', error);
+      setFormError('Failed to save attachment rule. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggle = async (requirement: AttachmentRequirement) => {
+    try {
+      const { error } = await supabase
+        .from('attachment_requirements')
+        .update({ is_active: !requirement.is_active })
+        .eq('id', requirement.id);
+
+      if (error) throw error;
+      await loadRequirements();
+    } catch (error) {
+      console.error('Error updating attachment requirement:', error);
+      alert('Failed to update attachment rule. Please try again.');
+    }
+  };
+
+  const handleDelete = async (requirement: AttachmentRequirement) => {
+    if (!confirm(`Stop requiring ${requirement.category} on ${requirement.document_type}?`)) return;
+
+    try {
+      const { error } = await supabase.from('attachment_requirements').delete().eq('id', requirement.id);
+      if (error) throw error;
+      await loadRequirements();
+    } catch (error) {
+      console.error('Error deleting attachment requirement:', error);
+      alert('Failed to delete attachment rule. Please try again.');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <p className="text-gray-500">Loading attachment rules...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-8 max-w-7xl mx-auto space-y-8">
+      <div>
+        <h1 className="text-2xl font-semibold text-gray-900">Attachment Rules</h1>
+        <p className="text-sm text-gray-500 mt-1">
+          Attachment categories each document type needs before it can be submitted for approval
+        </p>
+      </div>
+
+      <div className="bg-white rounded-xl border border-gray-100 p-6">
+        {formError && (
+          <div className="p-3 bg-red-50 border border-red-100 rounded-lg mb-4">
+            <p className="text-sm text-red-600">{formError}</p>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end mb-6">
+          <Select
+            label="Document Type"
+            value={form.documentType}
+            onChange={(e) => setForm({ ...form, documentType: e.target.value })}
+            options={DOCUMENT_TYPES.map((type) => ({ value: type, label: type }))}
+          />
+          <Input
+            label="Category"
+            value={form.category}
+            onChange={(e) => setForm({ ...form, category: e.target.value })}
+            placeholder="e.g., Commercial Invoice"
+          />
+          <Input
+            label="Description"
+            value={form.description}
+            onChange={(e) => setForm({ ...form, description: e.target.value })}
+            placeholder="e.g., Signed PDF from the supplier"
+          />
+          <Button onClick={handleCreate} disabled={saving}>
+            <Plus className="w-4 h-4 mr-2" strokeWidth={1.5} />
+            Add Rule
+          </Button>
+        </div>
+
+        <div className="overflow-x-auto border border-gray-100 rounded-lg">
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b border-gray-100">
+              <tr>
+                <th className="text-left px-6 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Document Type
+                </th>
+                <th className="text-left px-6 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Category
+                </th>
+                <th className="text-left px-6 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Description
+                </th>
+                <th className="text-left px-6 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Status
+                </th>
+                <th className="px-6 py-3" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {requirements.length === 0 ? (
+                <tr>
+                  <td colSpan={5} className="px-6 py-12 text-center text-sm text-gray-500">
+                    No attachment rules yet. Documents can be submitted without attachments.
+                  </td>
+                </tr>
+              ) : (
+                requirements.map((requirement) => (
+                  <tr key={requirement.id} className="hover:bg-gray-50 transition-colors">
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">{requirement.document_type}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{requirement.category}</td>
+                    <td className="px-6 py-4 text-sm text-gray-600">{requirement.description || '-'}</td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <button onClick={() => handleToggle(requirement)}>
+                        <Badge variant={requirement.is_active ? 'success' : 'neutral'}>
+                          {requirement.is_active ? 'Active' : 'Inactive'}
+                        </Badge>
+                      </button>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right">
+                      <Button variant="ghost" size="sm" onClick={() => handleDelete(requirement)}>
+                        <Trash2 className="w-4 h-4" strokeWidth={1.5} />
+                      </Button>
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,10 +1,19 @@
-import { useState } from 'react';
-import { ArrowLeft, Upload } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { ArrowLeft } from 'lucide-react';
 import { supabase } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
-import { Button } from '../components/ui/Button';
-import { Input } from '../components/ui/Input';
-import { Select } from '../components/ui/Select';
+import { DocumentForm, DocumentFormValues } from '../components/documents/DocumentForm';
+import { AttachmentUploader } from '../components/documents/AttachmentUploader';
+import {
+  AttachmentRequirement,
+  PendingAttachment,
+  createPendingAttachment,
+  getMissingCategories,
+  loadAttachmentRequirements,
+  uploadPendingAttachments,
+} from '../lib/attachments';
+import { LineItemDraft, calculateDocumentTotal, toLineRows } from '../lib/documentLines';
+import { isStockDocument, referencesPurchaseOrder } from '../lib/documents';
 
 interface CreateDocumentProps {
   onBack: () => void;
@@ -13,33 +22,35 @@ interface CreateDocumentProps {
 
 export function CreateDocument({ onBack, onSuccess }: CreateDocumentProps) {
   const { user } = useAuth();
-  const [loading, setLoading] = useState(false);
-  const [formData, setFormData] = useState({
-    documentType: 'Purchase Order',
-    documentNumber: '',
-    supplierName: '',
-    documentDate: new Date().toISOString().split('T')[0],
-    documentValue: '',
-    currency: 'USD',
-    priority: 'Medium',
-    approverId: '',
-    remarks: '',
-  });
+  const [attachments, setAttachments] = useState<PendingAttachment[]>([]);
+  const [requirements, setRequirements] = useState<AttachmentRequirement[]>([]);
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    setLoading(true);
+  useEffect(() => {
+    loadAttachmentRequirements()
+      .then(setRequirements)
+      .catch((error) => console.error('Error loading attachment requirements:', error));
+  }, []);
 
+  const updateAttachment = (key: string, changes: Partial<PendingAttachment>) => {
+    setAttachments((prev) => prev.map((a) => (a.key === key ? { ...a, ...changes } : a)));
+  };
+
+  const handleSubmit = async (formData: DocumentFormValues, lines: LineItemDraft[]) => {
     try {
       const { data, error } = await supabase.from('documents').insert({
         document_type: formData.documentType,
         document_number: formData.documentNumber,
+        supplier_id: formData.supplierId,
         supplier_name: formData.supplierName,
         document_date: formData.documentDate,
-        document_value: parseFloat(formData.documentValue),
+        document_value: calculateDocumentTotal(lines),
         currency: formData.currency,
         status: 'Draft',
         priority: formData.priority,
+        warehouse_id: isStockDocument(formData.documentType) ? formData.warehouseId || null : null,
+        purchase_order_id: referencesPurchaseOrder(formData.documentType) ? formData.purchaseOrderId || null : null,
+        // Left empty, the department assignment rules pick the approver
+        approver_id: formData.approverId || null,
         created_by: user?.id,
         remarks: formData.remarks,
       }).select().single();
@@ -47,6 +58,12 @@ export function CreateDocument({ onBack, onSuccess }: CreateDocumentProps) {
       if (error) throw error;
 
       if (data) {
+        const { error: linesInsertError } = await supabase
+          .from('document_lines')
+          .insert(toLineRows(data.id, lines));
+
+        if (linesInsertError) throw linesInsertError;
+
         await supabase.from('document_history').insert({
           document_id: data.id,
           action_type: 'Created',
@@ -54,21 +71,20 @@ export function CreateDocument({ onBack, onSuccess }: CreateDocumentProps) {
           performed_by: user?.id,
           remarks: 'Document created',
         });
+
+        const failed = await uploadPendingAttachments(data.id, attachments, user?.id, updateAttachment);
+        if (failed > 0) {
+          alert(`Document created, but ${failed} attachment(s) failed to upload. You can add them from the document page.`);
+        }
       }
 
       onSuccess();
     } catch (error) {
       console.error('Error creating document:', error);
       alert('Failed to create document. Please try again.');
-    } finally {
-      setLoading(false);
     }
   };
 
-  const handleChange = (field: string, value: string) => {
-    setFormData((prev) => ({ ...prev, [field]: value }));
-  };
-
   return (
     <div className="p-8 max-w-4xl mx-auto">
       <button
@@ -84,118 +100,36 @@ export function CreateDocument({ onBack, onSuccess }: CreateDocumentProps) {
         <p className="text-sm text-gray-500 mt-1">Fill in the document details below</p>
       </div>
 
-      <form onSubmit={handleSubmit} className="bg-white rounded-xl border border-gray-100 p-8">
-        <div className="space-y-6">
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-            <Select
-              label="Document Type"
-              value={formData.documentType}
-              onChange={(e) => handleChange('documentType', e.target.value)}
-              options={[
-                { value: 'Purchase Order', label: 'Purchase Order' },
-                { value: 'Invoice', label: 'Invoice' },
-                { value: 'Goods Receipt', label: 'Goods Receipt' },
-                { value: 'Delivery Note', label: 'Delivery Note' },
-                { value: 'Packing List', label: 'Packing List' },
-              ]}
-              required
-            />
-
-            <Input
-              label="Document Number"
-              value={formData.documentNumber}
-              onChange={(e) => handleChange('documentNumber', e.target.value)}
-              placeholder="e.g., PO-2024-001"
-              required
-            />
-          </div>
-
-          <Input
-            label="Supplier Name"
-            value={formData.supplierName}
-            onChange={(e) => handleChange('supplierName', e.target.value)}
-            placeholder="Enter supplier or vendor name"
-            required
-          />
-
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-            <Input
-              label="Document Date"
-              type="date"
-              value={formData.documentDate}
-              onChange={(e) => handleChange('documentDate', e.target.value)}
-              required
-            />
-
-            <Select
-              label="Priority"
-              value={formData.priority}
-              onChange={(e) => handleChange('priority', e.target.value)}
-              options={[
-                { value: 'Low', label: 'Low' },
-                { value: 'Medium', label: 'Medium' },
-                { value: 'High', label: 'High' },
-                { value: 'Urgent', label: 'Urgent' },
-              ]}
-              required
-            />
-          </div>
-
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-            <Input
-              label="Document Value"
-              type="number"
-              step="0.01"
-              value={formData.documentValue}
-              onChange={(e) => handleChange('documentValue', e.target.value)}
-              placeholder="0.00"
-              required
-            />
-
-            <Select
-              label="Currency"
-              value={formData.currency}
-              onChange={(e) => handleChange('currency', e.target.value)}
-              options={[
-                { value: 'USD', label: 'USD' },
-                { value: 'EUR', label: 'EUR' },
-                { value: 'GBP', label: 'GBP' },
-                { value: 'JPY', label: 'JPY' },
-                { value: 'CNY', label: 'CNY' },
-              ]}
-              required
-            />
-          </div>
-
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-1.5">
-              Remarks
-            </label>
-            <textarea
-              value={formData.remarks}
-              onChange={(e) => handleChange('remarks', e.target.value)}
-              placeholder="Add any additional notes or comments..."
-              rows={4}
-              className="w-full px-3 py-2 border border-gray-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-gray-900 focus:border-transparent transition-all"
-            />
-          </div>
-
-          <div className="border-2 border-dashed border-gray-200 rounded-lg p-8 text-center">
-            <Upload className="w-8 h-8 text-gray-400 mx-auto mb-3" strokeWidth={1.5} />
-            <p className="text-sm text-gray-600 mb-1">Drag and drop files here, or click to browse</p>
-            <p className="text-xs text-gray-400">PDF, PNG, JPG up to 10MB</p>
-          </div>
-        </div>
-
-        <div className="flex items-center gap-3 mt-8 pt-6 border-t border-gray-100">
-          <Button type="submit" disabled={loading}>
-            {loading ? 'Creating...' : 'Create Document'}
-          </Button>
-          <Button type="button" variant="ghost" onClick={onBack}>
-            Cancel
-          </Button>
-        </div>
-      </form>
+      <DocumentForm
+        submitLabel="Create Document"
+        submittingLabel="Creating..."
+        onSubmit={handleSubmit}
+        onCancel={onBack}
+      >
+        {(values) => {
+          const missing = getMissingCategories(requirements, values.documentType, attachments);
+          return (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1.5">Attachments</label>
+              {missing.length > 0 && (
+                <p className="text-xs text-gray-500 mb-3">
+                  Needed before this {values.documentType} can be submitted: {missing.join(', ')}
+                </p>
+              )}
+              <AttachmentUploader
+                uploads={attachments}
+                onFilesAdded={(files, category) =>
+                  setAttachments((prev) => [...prev, ...files.map((file) => createPendingAttachment(file, category))])
+                }
+                onRemove={(key) => setAttachments((prev) => prev.filter((a) => a.key !== key))}
+                categories={requirements
+                  .filter((r) => r.document_type === values.documentType)
+                  .map((r) => r.category)}
+              />
+            </div>
+          );
+        }}
+      </DocumentForm>
     </div>
   );
 }
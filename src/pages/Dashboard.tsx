@@ -1,15 +1,40 @@
 import { useEffect, useState } from 'react';
-import { FileText, Clock, CheckCircle, XCircle, TrendingUp, AlertCircle } from 'lucide-react';
-import { supabase } from '../lib/supabase';
+import { FileText, Clock, CheckCircle, XCircle, TrendingUp, AlertCircle, X, Coins, Timer, AlarmClock, Inbox } from 'lucide-react';
+import { fetchAllRows, supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
 import { Badge } from '../components/ui/Badge';
+import { Select } from '../components/ui/Select';
+import { isApprovedStatus } from '../lib/documents';
+import { DEFAULT_BASE_CURRENCY, formatMoney, loadBaseCurrency, loadExchangeRates, sumInBaseCurrency } from '../lib/currency';
+import { formatCycleTime } from '../lib/supplierScorecard';
+import {
+  ApprovalCycle,
+  ApprovalSlaHours,
+  CycleSummary,
+  DEFAULT_APPROVAL_SLA_HOURS,
+  PRIORITIES,
+  PendingDocumentAge,
+  QueuedDocument,
+  StepTurnaround,
+  loadApprovalSlaHours,
+  percentChange,
+  slaHoursFor,
+  summarizeCycles,
+} from '../lib/approvalKpis';
+
+interface DashboardProps {
+  onViewDocument: (id: string) => void;
+}
 
 interface DashboardStats {
   totalDocuments: number;
   pendingApprovals: number;
   approved: number;
   rejected: number;
-  avgApprovalTime: number;
   incompleteAttachments: number;
+  pendingValue: number;
+  approvedValue: number;
+  unconvertedDocuments: number;
 }
 
 interface RecentDocument {
@@ -19,49 +44,191 @@ interface RecentDocument {
   supplier_name: string;
   status: string;
   document_value: number;
+  currency: string;
   created_at: string;
 }
 
-export function Dashboard() {
+interface DashboardDocument extends RecentDocument {
+  document_date: string;
+  base_value: number | null;
+}
+
+interface IncompleteDocument {
+  id: string;
+  document_number: string;
+  document_type: string;
+  supplier_name: string;
+  status: string;
+  missing: string[];
+}
+
+type IncompleteDocumentRow = Omit<IncompleteDocument, 'id'> & { document_id: string };
+
+interface ApprovalKpis {
+  sla: ApprovalSlaHours;
+  current: CycleSummary;
+  previous: CycleSummary;
+  // Pending documents already past their SLA, by priority
+  overdue: Record<string, number>;
+  myTurnaround: { decisions: number; avgHours: number | null; previousAvgHours: number | null };
+}
+
+const PERIOD_OPTIONS = [
+  { value: '7', label: 'Last 7 days' },
+  { value: '30', label: 'Last 30 days' },
+  { value: '90', label: 'Last 90 days' },
+];
+
+const EMPTY_SUMMARY: CycleSummary = { decisions: 0, avgHours: null, p90Hours: null, breaches: {} };
+
+const averageHours = (rows: StepTurnaround[]) =>
+  rows.length > 0 ? rows.reduce((sum, row) => sum + Number(row.hours), 0) / rows.length : null;
+
+export function Dashboard({ onViewDocument }: DashboardProps) {
+  const { user, profile } = useAuth();
   const [stats, setStats] = useState<DashboardStats>({
     totalDocuments: 0,
     pendingApprovals: 0,
     approved: 0,
     rejected: 0,
-    avgApprovalTime: 0,
     incompleteAttachments: 0,
+    pendingValue: 0,
+    approvedValue: 0,
+    unconvertedDocuments: 0,
   });
+  const [baseCurrency, setBaseCurrency] = useState(DEFAULT_BASE_CURRENCY);
   const [recentDocs, setRecentDocs] = useState<RecentDocument[]>([]);
+  const [incompleteDocs, setIncompleteDocs] = useState<IncompleteDocument[]>([]);
+  const [showIncomplete, setShowIncomplete] = useState(false);
   const [loading, setLoading] = useState(true);
+  const [period, setPeriod] = useState('30');
+  const [approvalKpis, setApprovalKpis] = useState<ApprovalKpis>({
+    sla: DEFAULT_APPROVAL_SLA_HOURS,
+    current: EMPTY_SUMMARY,
+    previous: EMPTY_SUMMARY,
+    overdue: {},
+    myTurnaround: { decisions: 0, avgHours: null, previousAvgHours: null },
+  });
+  const [queue, setQueue] = useState<QueuedDocument[]>([]);
+
+  const userId = user?.id;
 
   useEffect(() => {
     loadDashboardData();
   }, []);
 
-  const loadDashboardData = async () => {
-    try {
-      const { data: documents } = await supabase
-        .from('documents')
-        .select('*')
-        .order('created_at', { ascending: false });
-
-      if (documents) {
-        const totalDocuments = documents.length;
-        const pendingApprovals = documents.filter(d => d.status === 'Pending').length;
-        const approved = documents.filter(d => d.status === 'Approved').length;
-        const rejected = documents.filter(d => d.status === 'Rejected').length;
-
-        setStats({
-          totalDocuments,
-          pendingApprovals,
-          approved,
-          rejected,
-          avgApprovalTime: 2.5,
-          incompleteAttachments: 3,
+  // The current period is compared with the one of the same length just before it
+  useEffect(() => {
+    const loadApprovalKpis = async () => {
+      try {
+        const days = Number(period);
+        const currentStart = new Date(Date.now() - days * 86400000).toISOString();
+        const previousStart = new Date(Date.now() - 2 * days * 86400000).toISOString();
+
+        const [sla, cyclesResult, pendingResult, turnaroundResult, queueResult] = await Promise.all([
+          loadApprovalSlaHours(),
+          supabase
+            .from('document_approval_cycles')
+            .select('document_id, decided_at, outcome, cycle_hours, priority')
+            .gte('decided_at', previousStart),
+          supabase.from('pending_document_ages').select('document_id, priority, hours_waiting'),
+          supabase
+            .from('approval_step_turnaround')
+            .select('step_id, decided_at, hours')
+            .eq('decided_by', userId)
+            .gte('decided_at', previousStart),
+          supabase.from('my_approval_queue').select('*').order('waiting_since', { ascending: true }),
+        ]);
+
+        if (cyclesResult.error) throw cyclesResult.error;
+        if (pendingResult.error) throw pendingResult.error;
+        if (turnaroundResult.error) throw turnaroundResult.error;
+        if (queueResult.error) throw queueResult.error;
+
+        const cycles = (cyclesResult.data || []) as ApprovalCycle[];
+        const turnaround = (turnaroundResult.data || []) as StepTurnaround[];
+        const overdue = Object.fromEntries(PRIORITIES.map((priority) => [priority, 0]));
+        ((pendingResult.data || []) as PendingDocumentAge[]).forEach((pending) => {
+          if (Number(pending.hours_waiting) > slaHoursFor(sla, pending.priority)) {
+            overdue[PRIORITIES.includes(pending.priority) ? pending.priority : 'Medium'] += 1;
+          }
         });
+        const myCurrent = turnaround.filter((row) => row.decided_at >= currentStart);
 
-        setRecentDocs(documents.slice(0, 5));
+        setApprovalKpis({
+          sla,
+          current: summarizeCycles(cycles.filter((cycle) => cycle.decided_at >= currentStart), sla),
+          previous: summarizeCycles(cycles.filter((cycle) => cycle.decided_at < currentStart), sla),
+          overdue,
+          myTurnaround: {
+            decisions: myCurrent.length,
+            avgHours: averageHours(myCurrent),
+            previousAvgHours: averageHours(turnaround.filter((row) => row.decided_at < currentStart)),
+          },
+        });
+        setQueue((queueResult.data || []) as QueuedDocument[]);
+      } catch (error) {
+        console.error('Error loading approval KPIs:', error);
       }
+    };
+
+    if (userId) loadApprovalKpis();
+  }, [period, userId]);
+
+  const loadDashboardData = async () => {
+    try {
+      const base = await loadBaseCurrency();
+      const [documents, incompleteRows, rates] = await Promise.all([
+        fetchAllRows<DashboardDocument>((from, to) =>
+          supabase
+            .from('documents')
+            .select('id, document_number, document_type, supplier_name, status, document_value, currency, document_date, base_value, created_at')
+            .order('created_at', { ascending: false })
+            .order('id', { ascending: true })
+            .range(from, to)
+        ),
+        fetchAllRows<IncompleteDocumentRow>((from, to) =>
+          supabase
+            .from('documents_missing_attachments')
+            .select('document_id, document_number, document_type, supplier_name, status, missing')
+            .order('created_at', { ascending: false })
+            .order('document_id', { ascending: true })
+            .range(from, to)
+        ),
+        loadExchangeRates(base),
+      ]);
+
+      const incomplete: IncompleteDocument[] = incompleteRows.map(({ document_id, ...rest }) => ({ id: document_id, ...rest }));
+
+      const totalDocuments = documents.length;
+      const pendingApprovals = documents.filter(d => d.status === 'Pending').length;
+      const approved = documents.filter(d => isApprovedStatus(d.status)).length;
+      const rejected = documents.filter(d => d.status === 'Rejected').length;
+
+      // Approved documents use the rate captured at approval, others the latest rate for their date
+      const toAmounts = (matches: (status: string) => boolean) =>
+        documents
+          .filter((d) => matches(d.status))
+          .map((d) => ({ currency: d.currency, amount: d.document_value, date: d.document_date, base_value: d.base_value }));
+      const pendingTotals = sumInBaseCurrency(rates, base, toAmounts((status) => status === 'Pending'));
+      const approvedTotals = sumInBaseCurrency(rates, base, toAmounts(isApprovedStatus));
+
+      setStats({
+        totalDocuments,
+        pendingApprovals,
+        approved,
+        rejected,
+        incompleteAttachments: incomplete.length,
+        pendingValue: pendingTotals.total,
+        approvedValue: approvedTotals.total,
+        unconvertedDocuments: pendingTotals.unconverted + approvedTotals.unconverted,
+      });
+
+      setBaseCurrency(base);
+
+      setIncompleteDocs(incomplete);
+
+      setRecentDocs(documents.slice(0, 5));
     } catch (error) {
       console.error('Error loading dashboard data:', error);
     } finally {
@@ -100,20 +267,65 @@ export function Dashboard() {
     },
   ];
 
+  const { current, previous, overdue, myTurnaround } = approvalKpis;
+  const countBreaches = (breaches: Record<string, number>) => Object.values(breaches).reduce((sum, n) => sum + n, 0);
+  const breaches = countBreaches(current.breaches);
+  const previousBreaches = countBreaches(previous.breaches);
+  const overdueNow = countBreaches(overdue);
+  const describeChange = (change: number | null) =>
+    change === null
+      ? `No decisions in the previous ${period} days to compare`
+      : `${Math.abs(change).toFixed(0)}% ${change <= 0 ? 'faster' : 'slower'} than the previous ${period} days`;
+  const avgChange = percentChange(current.avgHours, previous.avgHours);
+  const p90Change = percentChange(current.p90Hours, previous.p90Hours);
+  const myChange = percentChange(myTurnaround.avgHours, myTurnaround.previousAvgHours);
+  const showQueue = queue.length > 0 || myTurnaround.decisions > 0 || profile?.role === 'Approver';
+
   const kpiCards = [
     {
       label: 'Avg. Approval Time',
-      value: `${stats.avgApprovalTime} days`,
+      value: formatCycleTime(current.avgHours),
       icon: TrendingUp,
-      trend: 'Improved by 15%',
-      trendUp: true,
+      trend: `${current.decisions} decision(s) • ${describeChange(avgChange)}`,
+      trendUp: avgChange !== null && avgChange <= 0,
+    },
+    {
+      label: '90th Percentile Approval Time',
+      value: formatCycleTime(current.p90Hours),
+      icon: Timer,
+      trend: describeChange(p90Change),
+      trendUp: p90Change !== null && p90Change <= 0,
+    },
+    {
+      label: 'SLA Breaches',
+      value: breaches,
+      icon: AlarmClock,
+      trend: `${previousBreaches} in the previous ${period} days • ${overdueNow} pending document(s) past SLA`,
+      trendUp: breaches <= previousBreaches && overdueNow === 0,
     },
     {
       label: 'Incomplete Attachments',
       value: stats.incompleteAttachments,
       icon: AlertCircle,
-      trend: 'Needs attention',
-      trendUp: false,
+      trend: stats.incompleteAttachments > 0 ? 'Needs attention • View documents' : 'All required attachments present',
+      trendUp: stats.incompleteAttachments === 0,
+      onClick: stats.incompleteAttachments > 0 ? () => setShowIncomplete(true) : undefined,
+    },
+    {
+      label: 'Pending Approval Value',
+      value: formatMoney(stats.pendingValue, baseCurrency),
+      icon: Clock,
+      trend: stats.unconvertedDocuments > 0
+        ? `${stats.unconvertedDocuments} document(s) without an exchange rate excluded`
+        : `All currencies converted to ${baseCurrency}`,
+      trendUp: stats.unconvertedDocuments === 0,
+    },
+    {
+      label: 'Approved Value',
+      value: formatMoney(stats.approvedValue, baseCurrency),
+      icon: Coins,
+      trend: 'At the rate captured on approval',
+      trendUp: true,
     },
   ];
 
@@ -122,6 +334,7 @@ export function Dashboard() {
       Draft: 'neutral',
       Pending: 'warning',
       Approved: 'success',
+      'Partially Received': 'info',
       Rejected: 'danger',
       Closed: 'info',
     };
@@ -138,9 +351,14 @@ export function Dashboard() {
 
   return (
     <div className="p-8 max-w-7xl mx-auto">
-      <div className="mb-8">
-        <h1 className="text-2xl font-semibold text-gray-900">Dashboard</h1>
-        <p className="text-sm text-gray-500 mt-1">Overview of document management and key metrics</p>
+      <div className="flex items-center justify-between mb-8">
+        <div>
+          <h1 className="text-2xl font-semibold text-gray-900">Dashboard</h1>
+          <p className="text-sm text-gray-500 mt-1">Overview of document management and key metrics</p>
+        </div>
+        <div className="w-48">
+          <Select value={period} onChange={(e) => setPeriod(e.target.value)} options={PERIOD_OPTIONS} />
+        </div>
       </div>
 
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
@@ -160,11 +378,17 @@ export function Dashboard() {
         })}
       </div>
 
-      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-8">
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 mb-8">
         {kpiCards.map((card) => {
           const Icon = card.icon;
           return (
-            <div key={card.label} className="bg-white rounded-xl border border-gray-100 p-6">
+            <div
+              key={card.label}
+              onClick={card.onClick}
+              className={`bg-white rounded-xl border border-gray-100 p-6 ${
+                card.onClick ? 'cursor-pointer hover:shadow-sm transition-shadow' : ''
+              }`}
+            >
               <div className="flex items-center gap-3 mb-3">
                 <Icon className="w-5 h-5 text-gray-600" strokeWidth={1.5} />
                 <p className="text-sm font-medium text-gray-900">{card.label}</p>
@@ -178,6 +402,91 @@ export function Dashboard() {
         })}
       </div>
 
+      <div className={`grid grid-cols-1 ${showQueue ? 'lg:grid-cols-2' : ''} gap-6 mb-8`}>
+        <div className="bg-white rounded-xl border border-gray-100 p-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-1">Approval SLAs</h2>
+          <p className="text-sm text-gray-500 mb-4">Hours allowed from submission to decision, by priority</p>
+          <table className="w-full">
+            <thead className="border-b border-gray-100">
+              <tr>
+                <th className="text-left py-2 text-xs font-medium text-gray-500 uppercase tracking-wider">Priority</th>
+                <th className="text-right py-2 text-xs font-medium text-gray-500 uppercase tracking-wider">SLA</th>
+                <th className="text-right py-2 text-xs font-medium text-gray-500 uppercase tracking-wider">Decided Late</th>
+                <th className="text-right py-2 text-xs font-medium text-gray-500 uppercase tracking-wider">Previous</th>
+                <th className="text-right py-2 text-xs font-medium text-gray-500 uppercase tracking-wider">Overdue Now</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {PRIORITIES.map((priority) => (
+                <tr key={priority}>
+                  <td className="py-3 text-sm font-medium text-gray-900">{priority}</td>
+                  <td className="py-3 text-sm text-gray-600 text-right">{formatCycleTime(approvalKpis.sla[priority])}</td>
+                  <td className="py-3 text-sm text-gray-900 text-right">{current.breaches[priority] || 0}</td>
+                  <td className="py-3 text-sm text-gray-500 text-right">{previous.breaches[priority] || 0}</td>
+                  <td className={`py-3 text-sm text-right ${overdue[priority] ? 'text-red-600 font-medium' : 'text-gray-900'}`}>
+                    {overdue[priority] || 0}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {showQueue && (
+          <div className="bg-white rounded-xl border border-gray-100 p-6">
+            <div className="flex items-start justify-between mb-4">
+              <div>
+                <h2 className="text-lg font-semibold text-gray-900 mb-1">My Approval Queue</h2>
+                <p className="text-sm text-gray-500">Documents waiting for your decision</p>
+              </div>
+              <div className="text-right">
+                <p className="text-xs text-gray-500">My avg. turnaround</p>
+                <p className="text-lg font-semibold text-gray-900">{formatCycleTime(myTurnaround.avgHours)}</p>
+                <p className={`text-xs ${myChange !== null && myChange <= 0 ? 'text-green-600' : 'text-gray-500'}`}>
+                  {myTurnaround.decisions} step(s) •{' '}
+                  {myChange === null
+                    ? 'no earlier decisions'
+                    : `${Math.abs(myChange).toFixed(0)}% ${myChange <= 0 ? 'faster' : 'slower'}`}
+                </p>
+              </div>
+            </div>
+            <div className="space-y-3 max-h-80 overflow-y-auto">
+              {queue.length === 0 ? (
+                <div className="flex flex-col items-center py-8">
+                  <Inbox className="w-8 h-8 text-gray-300 mb-2" strokeWidth={1.5} />
+                  <p className="text-sm text-gray-500">Nothing waiting for you</p>
+                </div>
+              ) : (
+                queue.map((doc) => {
+                  const waitingHours = (Date.now() - new Date(doc.waiting_since).getTime()) / 3600000;
+                  const pastSla = waitingHours > slaHoursFor(approvalKpis.sla, doc.priority);
+                  return (
+                    <button
+                      key={doc.document_id}
+                      onClick={() => onViewDocument(doc.document_id)}
+                      className="w-full text-left p-4 rounded-lg border border-gray-100 hover:bg-gray-50 transition-colors"
+                    >
+                      <div className="flex items-center justify-between">
+                        <div className="flex items-center gap-3">
+                          <p className="text-sm font-medium text-gray-900">{doc.document_number}</p>
+                          <Badge variant={pastSla ? 'danger' : 'neutral'}>{doc.priority}</Badge>
+                        </div>
+                        <p className={`text-xs ${pastSla ? 'text-red-600' : 'text-gray-500'}`}>
+                          Waiting {formatCycleTime(waitingHours)}
+                        </p>
+                      </div>
+                      <p className="text-xs text-gray-500 mt-1">
+                        {doc.supplier_name} • {doc.document_type} • {doc.step_name}
+                      </p>
+                    </button>
+                  );
+                })
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+
       <div className="bg-white rounded-xl border border-gray-100 p-6">
         <h2 className="text-lg font-semibold text-gray-900 mb-4">Recent Documents</h2>
         <div className="space-y-3">
@@ -194,7 +503,7 @@ export function Dashboard() {
                   <p className="text-xs text-gray-500 mt-1">{doc.supplier_name} • {doc.document_type}</p>
                 </div>
                 <div className="text-right">
-                  <p className="text-sm font-medium text-gray-900">${doc.document_value.toLocaleString()}</p>
+                  <p className="text-sm font-medium text-gray-900">{doc.currency} {doc.document_value.toLocaleString()}</p>
                   <p className="text-xs text-gray-500">{new Date(doc.created_at).toLocaleDateString()}</p>
                 </div>
               </div>
@@ -202,6 +511,36 @@ export function Dashboard() {
           )}
         </div>
       </div>
+
+      {showIncomplete && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-xl p-6 max-w-2xl w-full mx-4 max-h-[90vh] flex flex-col">
+            <div className="flex items-center justify-between mb-1">
+              <h3 className="text-lg font-semibold text-gray-900">Incomplete Attachments</h3>
+              <button onClick={() => setShowIncomplete(false)} className="p-1 text-gray-400 hover:text-gray-700 transition-colors">
+                <X className="w-5 h-5" strokeWidth={1.5} />
+              </button>
+            </div>
+            <p className="text-sm text-gray-500 mb-4">Open documents missing attachments their document type requires</p>
+            <div className="space-y-3 overflow-y-auto">
+              {incompleteDocs.map((doc) => (
+                <button
+                  key={doc.id}
+                  onClick={() => onViewDocument(doc.id)}
+                  className="w-full text-left p-4 rounded-lg border border-gray-100 hover:bg-gray-50 transition-colors"
+                >
+                  <div className="flex items-center gap-3">
+                    <p className="text-sm font-medium text-gray-900">{doc.document_number}</p>
+                    {getStatusBadge(doc.status)}
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">{doc.supplier_name} • {doc.document_type}</p>
+                  <p className="text-xs text-red-600 mt-2">Missing: {doc.missing.join(', ')}</p>
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
@@ -1,13 +1,23 @@
 import { useEffect, useState } from 'react';
-import { ArrowLeft, FileText, Clock, User, Calendar, DollarSign, CheckCircle, XCircle } from 'lucide-react';
+import { ArrowLeft, FileText, Clock, User, UserCheck, Calendar, DollarSign, CheckCircle, XCircle, Warehouse, Undo2, RotateCcw, Ship, ClipboardList } from 'lucide-react';
 import { supabase } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
 import { Button } from '../components/ui/Button';
 import { Badge } from '../components/ui/Badge';
+import { DocumentLine, DocumentLinesTable } from '../components/documents/DocumentLinesTable';
+import { ApprovalProgress } from '../components/documents/ApprovalProgress';
+import { AttachmentsPanel } from '../components/documents/AttachmentsPanel';
+import { DocumentRevision, RevisionHistory } from '../components/documents/RevisionHistory';
+import { ThreeWayMatchPanel } from '../components/documents/ThreeWayMatchPanel';
+import { isApprovedStatus, isStockDocument, referencesPurchaseOrder } from '../lib/documents';
+import { ApprovalStep, canDecideStep } from '../lib/approvals';
+import { hasApprovalExchangeRate } from '../lib/currency';
+import { FieldChange, RevisionSnapshot } from '../lib/documentChanges';
 
 interface DocumentDetailProps {
   documentId: string;
   onBack: () => void;
+  onEdit: () => void;
 }
 
 interface Document {
@@ -25,6 +35,22 @@ interface Document {
   created_at: string;
   created_by: string | null;
   approver_id: string | null;
+  approver_name?: string | null;
+  warehouse_id: string | null;
+  warehouse_name?: string | null;
+  shipment_id: string | null;
+  shipment_number?: string | null;
+  purchase_order_id: string | null;
+  purchase_order_number?: string | null;
+  match_override_reason: string | null;
+  match_override_at: string | null;
+  match_override_revision: number | null;
+  match_override_name?: string | null;
+  current_step_order: number | null;
+  revision: number;
+  exchange_rate: number | null;
+  base_currency: string | null;
+  base_value: number | null;
 }
 
 interface HistoryItem {
@@ -35,33 +61,98 @@ interface HistoryItem {
   remarks: string | null;
   created_at: string;
   performed_by: string | null;
+  changes: FieldChange[] | null;
+  revision: number | null;
   user_name?: string;
 }
 
-export function DocumentDetail({ documentId, onBack }: DocumentDetailProps) {
+// Same shape as document_revision_snapshot() so the live revision can be compared with stored ones
+function toRevisionSnapshot(document: Document, lines: DocumentLine[]): RevisionSnapshot {
+  return {
+    fields: {
+      document_type: document.document_type,
+      document_number: document.document_number,
+      supplier_name: document.supplier_name,
+      document_date: document.document_date,
+      currency: document.currency,
+      priority: document.priority,
+      approver: document.approver_name || null,
+      warehouse: document.warehouse_name || null,
+      document_value: Number(document.document_value).toFixed(2),
+      remarks: document.remarks,
+    },
+    lines: lines.map((line) => ({
+      product: line.product_sku && line.product_name ? `${line.product_sku} ${line.product_name}` : null,
+      description: line.description,
+      quantity: line.quantity,
+      unit_of_measure: line.unit_of_measure,
+      unit_price: line.unit_price,
+      line_total: line.line_total,
+    })),
+  };
+}
+
+export function DocumentDetail({ documentId, onBack, onEdit }: DocumentDetailProps) {
   const { user, profile } = useAuth();
   const [document, setDocument] = useState<Document | null>(null);
   const [history, setHistory] = useState<HistoryItem[]>([]);
+  const [lines, setLines] = useState<DocumentLine[]>([]);
+  const [approvalSteps, setApprovalSteps] = useState<ApprovalStep[]>([]);
+  const [revisions, setRevisions] = useState<DocumentRevision[]>([]);
+  const [missingAttachments, setMissingAttachments] = useState<string[]>([]);
+  const [matchBlocked, setMatchBlocked] = useState(false);
+  const [missingRate, setMissingRate] = useState(false);
   const [loading, setLoading] = useState(true);
   const [actionLoading, setActionLoading] = useState(false);
   const [rejectionReason, setRejectionReason] = useState('');
   const [showRejectModal, setShowRejectModal] = useState(false);
+  const [reversalReason, setReversalReason] = useState('');
+  const [showReverseModal, setShowReverseModal] = useState(false);
 
   useEffect(() => {
     loadDocument();
+    loadLines();
+    loadApprovalSteps();
+    loadRevisions();
     loadHistory();
   }, [documentId]);
 
+  // Final approval captures today's exchange rate and fails when there is none
+  useEffect(() => {
+    if (document?.status !== 'Pending') {
+      setMissingRate(false);
+      return;
+    }
+
+    hasApprovalExchangeRate(document.currency)
+      .then((found) => setMissingRate(!found))
+      .catch((error) => console.error('Error checking exchange rate:', error));
+  }, [document?.status, document?.currency]);
+
   const loadDocument = async () => {
     try {
       const { data, error } = await supabase
         .from('documents')
-        .select('*')
+        .select(`
+          *,
+          warehouses(name),
+          shipments(shipment_number),
+          purchase_order:documents!documents_purchase_order_id_fkey(document_number),
+          approver:users_profile!documents_approver_id_fkey(full_name),
+          match_override_user:users_profile!documents_match_override_by_fkey(full_name)
+        `)
         .eq('id', documentId)
         .maybeSingle();
 
       if (error) throw error;
-      setDocument(data);
+      setDocument(data ? {
+        ...data,
+        warehouse_name: data.warehouses?.name || null,
+        shipment_number: data.shipments?.shipment_number || null,
+        purchase_order_number: data.purchase_order?.document_number || null,
+        approver_name: data.approver?.full_name || null,
+        match_override_name: data.match_override_user?.full_name || null,
+      } : null);
     } catch (error) {
       console.error('Error loading document:', error);
     } finally {
@@ -69,6 +160,74 @@ export function DocumentDetail({ documentId, onBack }: DocumentDetailProps) {
     }
   };
 
+  const loadLines = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('document_lines')
+        .select(`
+          *,
+          products(name, sku, unit_of_measure)
+        `)
+        .eq('document_id', documentId)
+        .order('line_number', { ascending: true });
+
+      if (error) throw error;
+
+      const linesWithProducts = data?.map((line) => ({
+        ...line,
+        product_name: line.products?.name || 'Unknown',
+        product_sku: line.products?.sku || 'N/A',
+        base_unit: line.products?.unit_of_measure,
+      })) || [];
+
+      setLines(linesWithProducts);
+    } catch (error) {
+      console.error('Error loading document lines:', error);
+    }
+  };
+
+  const loadApprovalSteps = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('document_approval_steps')
+        .select(`
+          *,
+          users_profile!document_approval_steps_decided_by_fkey(full_name),
+          approver:users_profile!document_approval_steps_approver_id_fkey(full_name)
+        `)
+        .eq('document_id', documentId)
+        .is('superseded_at', null)
+        .order('step_order', { ascending: true });
+
+      if (error) throw error;
+
+      const stepsWithNames = data?.map((step) => ({
+        ...step,
+        decided_by_name: step.users_profile?.full_name || null,
+        approver_name: step.approver?.full_name || null,
+      })) || [];
+
+      setApprovalSteps(stepsWithNames);
+    } catch (error) {
+      console.error('Error loading approval steps:', error);
+    }
+  };
+
+  const loadRevisions = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('document_revisions')
+        .select('revision, snapshot, rejection_reason, created_at')
+        .eq('document_id', documentId)
+        .order('revision', { ascending: true });
+
+      if (error) throw error;
+      setRevisions(data || []);
+    } catch (error) {
+      console.error('Error loading revisions:', error);
+    }
+  };
+
   const loadHistory = async () => {
     try {
       const { data, error } = await supabase
@@ -98,27 +257,50 @@ export function DocumentDetail({ documentId, onBack }: DocumentDetailProps) {
     setActionLoading(true);
 
     try {
-      const { error: updateError } = await supabase
-        .from('documents')
-        .update({ status: 'Approved' })
-        .eq('id', documentId);
-
-      if (updateError) throw updateError;
-
-      await supabase.from('document_history').insert({
-        document_id: documentId,
-        action_type: 'Approved',
-        old_status: document.status,
-        new_status: 'Approved',
-        performed_by: user?.id,
-        remarks: 'Document approved',
+      // Approval and any stock posting happen in one transaction on the server
+      const { error } = await supabase.rpc('approve_document', {
+        p_document_id: documentId,
+        p_remarks: 'Document approved',
       });
 
+      if (error) throw error;
+
       await loadDocument();
+      await loadApprovalSteps();
       await loadHistory();
     } catch (error) {
       console.error('Error approving document:', error);
-      alert('Failed to approve document. Please try again.');
+      const { code, message } = error as { code?: string; message?: string };
+      // Raised exceptions, e.g. a missing exchange rate, explain themselves
+      alert(code === 'P0001' && message ? message : 'Failed to approve document. Please try again.');
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  const handleReverseApproval = async () => {
+    if (!document || !reversalReason.trim()) {
+      alert('Please provide a reason for the reversal');
+      return;
+    }
+    setActionLoading(true);
+
+    try {
+      const { error } = await supabase.rpc('reverse_document_approval', {
+        p_document_id: documentId,
+        p_reason: reversalReason,
+      });
+
+      if (error) throw error;
+
+      setShowReverseModal(false);
+      setReversalReason('');
+      await loadDocument();
+      await loadApprovalSteps();
+      await loadHistory();
+    } catch (error) {
+      console.error('Error reversing approval:', error);
+      alert('Failed to reverse approval. Please try again.');
     } finally {
       setActionLoading(false);
     }
@@ -132,28 +314,17 @@ export function DocumentDetail({ documentId, onBack }: DocumentDetailProps) {
     setActionLoading(true);
 
     try {
-      const { error: updateError } = await supabase
-        .from('documents')
-        .update({
-          status: 'Rejected',
-          rejection_reason: rejectionReason,
-        })
-        .eq('id', documentId);
-
-      if (updateError) throw updateError;
-
-      await supabase.from('document_history').insert({
-        document_id: documentId,
-        action_type: 'Rejected',
-        old_status: document.status,
-        new_status: 'Rejected',
-        performed_by: user?.id,
-        remarks: rejectionReason,
+      const { error } = await supabase.rpc('reject_document', {
+        p_document_id: documentId,
+        p_reason: rejectionReason,
       });
 
+      if (error) throw error;
+
       setShowRejectModal(false);
       setRejectionReason('');
       await loadDocument();
+      await loadApprovalSteps();
       await loadHistory();
     } catch (error) {
       console.error('Error rejecting document:', error);
@@ -163,28 +334,42 @@ export function DocumentDetail({ documentId, onBack }: DocumentDetailProps) {
     }
   };
 
+  const handleRevise = async () => {
+    if (!document) return;
+    if (!confirm(`Start revision ${document.revision + 1} of ${document.document_number}?`)) return;
+    setActionLoading(true);
+
+    try {
+      // Snapshots the rejected revision and moves the document back to Draft
+      const { error } = await supabase.rpc('revise_document', {
+        p_document_id: documentId,
+      });
+
+      if (error) throw error;
+
+      onEdit();
+    } catch (error) {
+      console.error('Error revising document:', error);
+      alert('Failed to revise document. Please try again.');
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
   const handleSubmitForApproval = async () => {
     if (!document) return;
     setActionLoading(true);
 
     try {
-      const { error: updateError } = await supabase
-        .from('documents')
-        .update({ status: 'Pending' })
-        .eq('id', documentId);
-
-      if (updateError) throw updateError;
-
-      await supabase.from('document_history').insert({
-        document_id: documentId,
-        action_type: 'Submitted',
-        old_status: document.status,
-        new_status: 'Pending',
-        performed_by: user?.id,
-        remarks: 'Submitted for approval',
+      // Picks the matching approval chain and opens its first step
+      const { error } = await supabase.rpc('submit_document', {
+        p_document_id: documentId,
       });
 
+      if (error) throw error;
+
       await loadDocument();
+      await loadApprovalSteps();
       await loadHistory();
     } catch (error) {
       console.error('Error submitting document:', error);
@@ -199,15 +384,26 @@ export function DocumentDetail({ documentId, onBack }: DocumentDetailProps) {
       Draft: 'neutral',
       Pending: 'warning',
       Approved: 'success',
+      'Partially Received': 'info',
       Rejected: 'danger',
       Closed: 'info',
     };
     return <Badge variant={variants[status] || 'neutral'}>{status}</Badge>;
   };
 
-  const canApprove = profile?.role === 'Approver' || profile?.role === 'Admin';
+  const canApprove = document?.status === 'Pending' && approvalSteps.some(
+    (step) =>
+      step.status === 'Pending' &&
+      step.step_order === document.current_step_order &&
+      canDecideStep(step, profile)
+  );
+  const isFinalStep = !approvalSteps.some((step) => step.step_order > (document?.current_step_order ?? 0));
+  const rateBlocked = missingRate && isFinalStep;
+  const canReverse = profile?.role === 'Approver' || profile?.role === 'Admin';
+  // Rejected documents are read-only until revised, so the rejected revision is what gets snapshotted
   const canEdit = document?.created_by === user?.id && document?.status === 'Draft';
   const canSubmit = document?.created_by === user?.id && document?.status === 'Draft';
+  const canRevise = document?.created_by === user?.id && document?.status === 'Rejected';
 
   if (loading || !document) {
     return (
@@ -235,7 +431,9 @@ export function DocumentDetail({ documentId, onBack }: DocumentDetailProps) {
             </div>
             <div>
               <h1 className="text-2xl font-semibold text-gray-900">{document.document_number}</h1>
-              <p className="text-sm text-gray-500 mt-1">{document.document_type}</p>
+              <p className="text-sm text-gray-500 mt-1">
+                {document.document_type} • Revision {document.revision}
+              </p>
             </div>
           </div>
           {getStatusBadge(document.status)}
@@ -268,6 +466,12 @@ export function DocumentDetail({ documentId, onBack }: DocumentDetailProps) {
                 <p className="text-sm font-medium text-gray-900">
                   {document.currency} {document.document_value.toLocaleString()}
                 </p>
+                {document.base_value !== null && document.base_currency !== document.currency && (
+                  <p className="text-xs text-gray-500 mt-0.5">
+                    {document.base_currency} {Number(document.base_value).toLocaleString()} at{' '}
+                    {Number(document.exchange_rate).toLocaleString(undefined, { maximumFractionDigits: 6 })}
+                  </p>
+                )}
               </div>
             </div>
           </div>
@@ -283,6 +487,48 @@ export function DocumentDetail({ documentId, onBack }: DocumentDetailProps) {
               </div>
             </div>
 
+            <div className="flex items-start gap-3">
+              <UserCheck className="w-4 h-4 text-gray-400 mt-0.5" strokeWidth={1.5} />
+              <div>
+                <p className="text-xs text-gray-500">Approver</p>
+                <p className="text-sm font-medium text-gray-900">
+                  {document.approver_name || 'Not assigned'}
+                </p>
+              </div>
+            </div>
+
+            {isStockDocument(document.document_type) && (
+              <div className="flex items-start gap-3">
+                <Warehouse className="w-4 h-4 text-gray-400 mt-0.5" strokeWidth={1.5} />
+                <div>
+                  <p className="text-xs text-gray-500">Warehouse</p>
+                  <p className="text-sm font-medium text-gray-900">
+                    {document.warehouse_name || 'Not assigned'}
+                  </p>
+                </div>
+              </div>
+            )}
+
+            {referencesPurchaseOrder(document.document_type) && (
+              <div className="flex items-start gap-3">
+                <ClipboardList className="w-4 h-4 text-gray-400 mt-0.5" strokeWidth={1.5} />
+                <div>
+                  <p className="text-xs text-gray-500">Purchase Order</p>
+                  <p className="text-sm font-medium text-gray-900">{document.purchase_order_number || 'Not linked'}</p>
+                </div>
+              </div>
+            )}
+
+            {document.shipment_id && (
+              <div className="flex items-start gap-3">
+                <Ship className="w-4 h-4 text-gray-400 mt-0.5" strokeWidth={1.5} />
+                <div>
+                  <p className="text-xs text-gray-500">Shipment</p>
+                  <p className="text-sm font-medium text-gray-900">{document.shipment_number}</p>
+                </div>
+              </div>
+            )}
+
             <div className="flex items-start gap-3">
               <Badge variant="info">{document.priority}</Badge>
             </div>
@@ -303,10 +549,38 @@ export function DocumentDetail({ documentId, onBack }: DocumentDetailProps) {
           </div>
         )}
 
+        {canSubmit && missingAttachments.length > 0 && (
+          <div className="p-4 bg-yellow-50 border border-yellow-100 rounded-lg mb-6">
+            <p className="text-xs text-yellow-800 font-medium mb-1">Missing Required Attachments</p>
+            <p className="text-sm text-yellow-700">
+              Attach {missingAttachments.join(', ')} before submitting for approval.
+            </p>
+          </div>
+        )}
+
+        {canApprove && matchBlocked && (
+          <div className="p-4 bg-yellow-50 border border-yellow-100 rounded-lg mb-6">
+            <p className="text-xs text-yellow-800 font-medium mb-1">Three-Way Match Exceptions</p>
+            <p className="text-sm text-yellow-700">
+              This invoice cannot be approved until its match exceptions are resolved or overridden by Finance.
+            </p>
+          </div>
+        )}
+
+        {canApprove && rateBlocked && (
+          <div className="p-4 bg-yellow-50 border border-yellow-100 rounded-lg mb-6">
+            <p className="text-xs text-yellow-800 font-medium mb-1">Missing Exchange Rate</p>
+            <p className="text-sm text-yellow-700">
+              No {document.currency} exchange rate is recorded for today or earlier. Finance needs to add one under
+              Exchange Rates before this document can be approved.
+            </p>
+          </div>
+        )}
+
         <div className="flex items-center gap-3 pt-6 border-t border-gray-100">
-          {canApprove && document.status === 'Pending' && (
+          {canApprove && (
             <>
-              <Button onClick={handleApprove} disabled={actionLoading}>
+              <Button onClick={handleApprove} disabled={actionLoading || matchBlocked || rateBlocked}>
                 <CheckCircle className="w-4 h-4 mr-2" strokeWidth={1.5} />
                 Approve
               </Button>
@@ -321,18 +595,107 @@ export function DocumentDetail({ documentId, onBack }: DocumentDetailProps) {
             </>
           )}
 
+          {canReverse && document.status === 'Approved' && (
+            <Button
+              variant="secondary"
+              onClick={() => setShowReverseModal(true)}
+              disabled={actionLoading}
+            >
+              <Undo2 className="w-4 h-4 mr-2" strokeWidth={1.5} />
+              Reverse Approval
+            </Button>
+          )}
+
+          {canRevise && (
+            <Button onClick={handleRevise} disabled={actionLoading}>
+              <RotateCcw className="w-4 h-4 mr-2" strokeWidth={1.5} />
+              Revise and Resubmit
+            </Button>
+          )}
+
           {canSubmit && (
-            <Button onClick={handleSubmitForApproval} disabled={actionLoading}>
+            <Button onClick={handleSubmitForApproval} disabled={actionLoading || missingAttachments.length > 0}>
               Submit for Approval
             </Button>
           )}
 
           {canEdit && (
-            <Button variant="secondary">Edit Document</Button>
+            <Button variant="secondary" onClick={onEdit}>Edit Document</Button>
           )}
         </div>
       </div>
 
+      <div className="bg-white rounded-xl border border-gray-100 p-8 mb-6">
+        <h2 className="text-lg font-semibold text-gray-900 mb-6">Line Items</h2>
+        <DocumentLinesTable
+          lines={lines}
+          currency={document.currency}
+          showFulfilment={document.document_type === 'Purchase Order' && isApprovedStatus(document.status)}
+        />
+      </div>
+
+      {document.document_type === 'Invoice' && (
+        <div className="bg-white rounded-xl border border-gray-100 p-8 mb-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-6">Three-Way Match</h2>
+          <ThreeWayMatchPanel
+            documentId={documentId}
+            revision={document.revision}
+            status={document.status}
+            currency={document.currency}
+            override={
+              document.match_override_at && document.match_override_reason && document.match_override_revision !== null
+                ? {
+                    reason: document.match_override_reason,
+                    at: document.match_override_at,
+                    byName: document.match_override_name || null,
+                    revision: document.match_override_revision,
+                  }
+                : null
+            }
+            canOverride={profile?.role === 'Finance' || profile?.role === 'Admin'}
+            onOverridden={() => {
+              loadDocument();
+              loadHistory();
+            }}
+            onBlockedChange={setMatchBlocked}
+          />
+        </div>
+      )}
+
+      <div className="bg-white rounded-xl border border-gray-100 p-8 mb-6">
+        <h2 className="text-lg font-semibold text-gray-900 mb-6">Attachments</h2>
+        <AttachmentsPanel
+          documentId={documentId}
+          documentType={document.document_type}
+          canUpload={document.created_by === user?.id}
+          isDraft={document.status === 'Draft'}
+          onChanged={loadHistory}
+          onMissingChange={setMissingAttachments}
+        />
+      </div>
+
+      <div className="bg-white rounded-xl border border-gray-100 p-8 mb-6">
+        <h2 className="text-lg font-semibold text-gray-900 mb-6">Approval Progress</h2>
+        <ApprovalProgress steps={approvalSteps} />
+      </div>
+
+      {revisions.length > 0 && (
+        <div className="bg-white rounded-xl border border-gray-100 p-8 mb-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-6">Revisions</h2>
+          <RevisionHistory
+            revisions={[
+              ...revisions,
+              {
+                revision: document.revision,
+                snapshot: toRevisionSnapshot(document, lines),
+                rejection_reason: document.rejection_reason,
+                created_at: null,
+              },
+            ]}
+          />
+        </div>
+      )}
+
       <div className="bg-white rounded-xl border border-gray-100 p-8">
         <h2 className="text-lg font-semibold text-gray-900 mb-6">Document History</h2>
         <div className="space-y-4">
@@ -353,6 +716,9 @@ export function DocumentDetail({ documentId, onBack }: DocumentDetailProps) {
                         → {item.new_status}
                       </span>
                     )}
+                    {item.revision && document.revision > 1 && (
+                      <span className="text-xs text-gray-400">Rev {item.revision}</span>
+                    )}
                   </div>
                   <p className="text-xs text-gray-500 mb-1">
                     {item.user_name} • {new Date(item.created_at).toLocaleString()}
@@ -360,6 +726,17 @@ export function DocumentDetail({ documentId, onBack }: DocumentDetailProps) {
                   {item.remarks && (
                     <p className="text-sm text-gray-600 mt-2">{item.remarks}</p>
                   )}
+                  {item.changes && item.changes.length > 0 && (
+                    <div className="mt-3 border border-gray-100 rounded-lg divide-y divide-gray-100">
+                      {item.changes.map((change) => (
+                        <div key={change.field} className="grid grid-cols-12 gap-3 px-3 py-2 text-xs">
+                          <p className="col-span-2 font-medium text-gray-700">{change.label}</p>
+                          <p className="col-span-5 text-red-600 line-through break-words">{change.before || '—'}</p>
+                          <p className="col-span-5 text-green-700 break-words">{change.after || '—'}</p>
+                        </div>
+                      ))}
+                    </div>
+                  )}
                 </div>
               </div>
             ))
@@ -389,6 +766,34 @@ export function DocumentDetail({ documentId, onBack }: DocumentDetailProps) {
           </div>
         </div>
       )}
+
+      {showReverseModal && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-xl p-6 max-w-md w-full mx-4">
+            <h3 className="text-lg font-semibold text-gray-900 mb-2">Reverse Approval</h3>
+            <p className="text-sm text-gray-500 mb-4">
+              The document returns to Pending.
+              {isStockDocument(document.document_type) &&
+                ' Compensating stock movements will be posted for everything this document moved.'}
+            </p>
+            <textarea
+              value={reversalReason}
+              onChange={(e) => setReversalReason(e.target.value)}
+              placeholder="Please provide a reason for the reversal..."
+              rows={4}
+              className="w-full px-3 py-2 border border-gray-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-gray-900 focus:border-transparent transition-all mb-4"
+            />
+            <div className="flex items-center gap-3">
+              <Button onClick={handleReverseApproval} variant="danger" disabled={actionLoading}>
+                Confirm Reversal
+              </Button>
+              <Button variant="ghost" onClick={() => setShowReverseModal(false)}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
@@ -5,6 +5,9 @@ import { Button } from '../components/ui/Button';
 import { Input } from '../components/ui/Input';
 import { Select } from '../components/ui/Select';
 import { Badge } from '../components/ui/Badge';
+import { ExportMenu } from '../components/ui/ExportMenu';
+import { DOCUMENT_TYPES } from '../lib/documents';
+import { ExportColumn, ExportFormat, exportFileName, exportRows, ilikeContains } from '../lib/exports';
 
 interface Document {
   id: string;
@@ -19,6 +22,18 @@ interface Document {
   created_at: string;
 }
 
+const EXPORT_COLUMNS: ExportColumn<Document>[] = [
+  { header: 'Document Number', type: 'string', value: (doc) => doc.document_number },
+  { header: 'Type', type: 'string', value: (doc) => doc.document_type },
+  { header: 'Supplier', type: 'string', value: (doc) => doc.supplier_name },
+  { header: 'Date', type: 'date', value: (doc) => doc.document_date },
+  { header: 'Value', type: 'number', value: (doc) => doc.document_value },
+  { header: 'Currency', type: 'string', value: (doc) => doc.currency },
+  { header: 'Priority', type: 'string', value: (doc) => doc.priority },
+  { header: 'Status', type: 'string', value: (doc) => doc.status },
+  { header: 'Created At', type: 'datetime', value: (doc) => doc.created_at },
+];
+
 interface DocumentListProps {
   onCreateNew: () => void;
   onViewDocument: (id: string) => void;
@@ -78,11 +93,43 @@ export function DocumentList({ onCreateNew, onViewDocument }: DocumentListProps)
     setFilteredDocs(filtered);
   };
 
+  // Applies the same filters as filterDocuments on the server, so the export is paged
+  // rather than limited to what the list has loaded
+  const handleExport = (format: ExportFormat, onProgress: (rowsExported: number) => void) =>
+    exportRows({
+      fileName: exportFileName('documents'),
+      sheetName: 'Documents',
+      format,
+      columns: EXPORT_COLUMNS,
+      onProgress,
+      fetchPage: async (from, to) => {
+        let query = supabase
+          .from('documents')
+          .select('id, document_number, document_type, supplier_name, document_date, document_value, currency, status, priority, created_at');
+
+        if (searchTerm) {
+          const pattern = ilikeContains(searchTerm);
+          query = query.or(`document_number.ilike.${pattern},supplier_name.ilike.${pattern}`);
+        }
+        if (statusFilter !== 'all') query = query.eq('status', statusFilter);
+        if (typeFilter !== 'all') query = query.eq('document_type', typeFilter);
+
+        const { data, error } = await query
+          .order('created_at', { ascending: false })
+          .order('id', { ascending: true })
+          .range(from, to);
+
+        if (error) throw error;
+        return (data || []) as Document[];
+      },
+    });
+
   const getStatusBadge = (status: string) => {
     const variants: Record<string, 'success' | 'warning' | 'danger' | 'info' | 'neutral'> = {
       Draft: 'neutral',
       Pending: 'warning',
       Approved: 'success',
+      'Partially Received': 'info',
       Rejected: 'danger',
       Closed: 'info',
     };
@@ -114,10 +161,13 @@ export function DocumentList({ onCreateNew, onViewDocument }: DocumentListProps)
           <h1 className="text-2xl font-semibold text-gray-900">Documents</h1>
           <p className="text-sm text-gray-500 mt-1">Manage import documents and track approvals</p>
         </div>
-        <Button onClick={onCreateNew}>
-          <Plus className="w-4 h-4 mr-2" strokeWidth={1.5} />
-          New Document
-        </Button>
+        <div className="flex items-center gap-3">
+          <ExportMenu label="documents" onExport={handleExport} />
+          <Button onClick={onCreateNew}>
+            <Plus className="w-4 h-4 mr-2" strokeWidth={1.5} />
+            New Document
+          </Button>
+        </div>
       </div>
 
       <div className="bg-white rounded-xl border border-gray-100 p-6 mb-6">
@@ -144,6 +194,7 @@ export function DocumentList({ onCreateNew, onViewDocument }: DocumentListProps)
               { value: 'Draft', label: 'Draft' },
               { value: 'Pending', label: 'Pending' },
               { value: 'Approved', label: 'Approved' },
+              { value: 'Partially Received', label: 'Partially Received' },
               { value: 'Rejected', label: 'Rejected' },
               { value: 'Closed', label: 'Closed' },
             ]}
@@ -154,11 +205,7 @@ export function DocumentList({ onCreateNew, onViewDocument }: DocumentListProps)
             onChange={(e) => setTypeFilter(e.target.value)}
             options={[
               { value: 'all', label: 'All Types' },
-              { value: 'Purchase Order', label: 'Purchase Order' },
-              { value: 'Invoice', label: 'Invoice' },
-              { value: 'Goods Receipt', label: 'Goods Receipt' },
-              { value: 'Delivery Note', label: 'Delivery Note' },
-              { value: 'Packing List', label: 'Packing List' },
+              ...DOCUMENT_TYPES.map((type) => ({ value: type, label: type })),
             ]}
           />
           <div className="flex items-end">
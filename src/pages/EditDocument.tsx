@@ -0,0 +1,164 @@
+import { useEffect, useState } from 'react';
+import { ArrowLeft } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { DocumentForm, DocumentFormOptions, DocumentFormValues } from '../components/documents/DocumentForm';
+import { LineItemDraft, createEmptyLine, toLineRows } from '../lib/documentLines';
+import { diffLines } from '../lib/documentChanges';
+import { isStockDocument, referencesPurchaseOrder } from '../lib/documents';
+
+interface EditDocumentProps {
+  documentId: string;
+  onBack: () => void;
+  onSuccess: () => void;
+}
+
+interface LoadedDocument {
+  values: DocumentFormValues;
+  lines: LineItemDraft[];
+  status: string;
+}
+
+export function EditDocument({ documentId, onBack, onSuccess }: EditDocumentProps) {
+  const [loaded, setLoaded] = useState<LoadedDocument | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const loadDocument = async () => {
+      try {
+        const [documentResult, linesResult] = await Promise.all([
+          supabase
+            .from('documents')
+            .select('*')
+            .eq('id', documentId)
+            .maybeSingle(),
+          supabase
+            .from('document_lines')
+            .select('*')
+            .eq('document_id', documentId)
+            .order('line_number', { ascending: true }),
+        ]);
+
+        if (documentResult.error) throw documentResult.error;
+        if (linesResult.error) throw linesResult.error;
+
+        const doc = documentResult.data;
+        if (!doc) return;
+
+        setLoaded({
+          values: {
+            documentType: doc.document_type,
+            documentNumber: doc.document_number,
+            supplierId: doc.supplier_id || '',
+            supplierName: doc.supplier_name,
+            documentDate: doc.document_date,
+            currency: doc.currency,
+            priority: doc.priority,
+            approverId: doc.approver_id || '',
+            warehouseId: doc.warehouse_id || '',
+            purchaseOrderId: doc.purchase_order_id || '',
+            remarks: doc.remarks || '',
+          },
+          lines: (linesResult.data || []).map((line) => ({
+            ...createEmptyLine(),
+            productId: line.product_id,
+            description: line.description || '',
+            quantity: String(line.quantity),
+            unitOfMeasure: line.unit_of_measure,
+            unitPrice: String(line.unit_price),
+          })),
+          status: doc.status,
+        });
+      } catch (error) {
+        console.error('Error loading document:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadDocument();
+  }, [documentId]);
+
+  const handleSubmit = async (
+    formData: DocumentFormValues,
+    lines: LineItemDraft[],
+    options: DocumentFormOptions
+  ) => {
+    if (!loaded) return;
+
+    const warehouseId = isStockDocument(formData.documentType) ? formData.warehouseId || null : null;
+    const purchaseOrderId = referencesPurchaseOrder(formData.documentType) ? formData.purchaseOrderId || null : null;
+    const linesChanged = diffLines(loaded.lines, lines, options.products).length > 0;
+
+    try {
+      // Header, lines and history are written in one transaction; the database works out
+      // what changed and derives the value from the lines
+      const { error } = await supabase.rpc('update_document', {
+        p_document_id: documentId,
+        p_document: {
+          document_type: formData.documentType,
+          document_number: formData.documentNumber,
+          supplier_id: formData.supplierId || null,
+          supplier_name: formData.supplierName,
+          document_date: formData.documentDate,
+          currency: formData.currency,
+          priority: formData.priority,
+          warehouse_id: warehouseId,
+          purchase_order_id: purchaseOrderId,
+          approver_id: formData.approverId || null,
+          remarks: formData.remarks,
+        },
+        p_lines: linesChanged ? toLineRows(documentId, lines) : null,
+      });
+
+      if (error) throw error;
+
+      onSuccess();
+    } catch (error) {
+      console.error('Error updating document:', error);
+      const { code, message } = error as { code?: string; message?: string };
+      alert(code === 'P0001' && message ? message : 'Failed to update document. Please try again.');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <p className="text-gray-500">Loading document...</p>
+      </div>
+    );
+  }
+
+  if (!loaded || loaded.status !== 'Draft') {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <p className="text-gray-500">Only Draft documents can be edited; revise a Rejected document to edit it</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-8 max-w-4xl mx-auto">
+      <button
+        onClick={onBack}
+        className="flex items-center gap-2 text-sm text-gray-600 hover:text-gray-900 mb-6 transition-colors"
+      >
+        <ArrowLeft className="w-4 h-4" strokeWidth={1.5} />
+        Back to Document
+      </button>
+
+      <div className="mb-8">
+        <h1 className="text-2xl font-semibold text-gray-900">Edit {loaded.values.documentNumber}</h1>
+        <p className="text-sm text-gray-500 mt-1">Changes are recorded in the document history</p>
+      </div>
+
+      <DocumentForm
+        initialValues={loaded.values}
+        initialLines={loaded.lines}
+        submitLabel="Save Changes"
+        submittingLabel="Saving..."
+        onSubmit={handleSubmit}
+        onCancel={onBack}
+      />
+    </div>
+  );
+}
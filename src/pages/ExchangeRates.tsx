@@ -0,0 +1,378 @@
+import { useEffect, useRef, useState } from 'react';
+import { Plus, Trash2, Upload, X } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { Button } from '../components/ui/Button';
+import { Input } from '../components/ui/Input';
+import { Select } from '../components/ui/Select';
+import { Badge } from '../components/ui/Badge';
+import { CURRENCIES } from '../lib/documents';
+import {
+  DEFAULT_BASE_CURRENCY,
+  ExchangeRate,
+  ParsedExchangeRate,
+  loadBaseCurrency,
+  loadExchangeRates,
+  parseExchangeRateCsv,
+} from '../lib/currency';
+
+interface CsvPreview {
+  fileName: string;
+  rows: ParsedExchangeRate[];
+  errors: string[];
+}
+
+export function ExchangeRates() {
+  const { user, profile } = useAuth();
+  const [baseCurrency, setBaseCurrency] = useState(DEFAULT_BASE_CURRENCY);
+  const [newBaseCurrency, setNewBaseCurrency] = useState(DEFAULT_BASE_CURRENCY);
+  const [rates, setRates] = useState<ExchangeRate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [currencyFilter, setCurrencyFilter] = useState('all');
+  const [csvPreview, setCsvPreview] = useState<CsvPreview | null>(null);
+  const [importing, setImporting] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [form, setForm] = useState({
+    currency: 'USD',
+    rateDate: new Date().toISOString().split('T')[0],
+    rate: '',
+  });
+
+  const canManage = profile?.role === 'Finance' || profile?.role === 'Admin';
+  const foreignCurrencies = CURRENCIES.filter((currency) => currency !== baseCurrency);
+
+  useEffect(() => {
+    loadRates();
+  }, []);
+
+  const loadRates = async () => {
+    try {
+      const base = await loadBaseCurrency();
+      setBaseCurrency(base);
+      setNewBaseCurrency(base);
+      setForm((prev) =>
+        prev.currency === base ? { ...prev, currency: CURRENCIES.find((c) => c !== base) || prev.currency } : prev
+      );
+      setRates(await loadExchangeRates(base));
+    } catch (error) {
+      console.error('Error loading exchange rates:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const saveRates = async (rows: ParsedExchangeRate[], source: string) => {
+    const { error } = await supabase.from('exchange_rates').upsert(
+      rows.map((row) => ({
+        base_currency: baseCurrency,
+        currency: row.currency,
+        rate_date: row.rate_date,
+        rate: row.rate,
+        source,
+        created_by: user?.id,
+      })),
+      { onConflict: 'base_currency,currency,rate_date' }
+    );
+
+    if (error) throw error;
+  };
+
+  const handleCreate = async () => {
+    const rate = parseFloat(form.rate);
+    if (!form.rateDate) {
+      setFormError('Enter the date the rate applies from');
+      return;
+    }
+    if (!(rate > 0)) {
+      setFormError('Enter a rate greater than zero');
+      return;
+    }
+
+    setSaving(true);
+    setFormError(null);
+
+    try {
+      await saveRates([{ currency: form.currency, rate_date: form.rateDate, rate }], 'Manual');
+      setForm({ ...form, rate: '' });
+      await loadRates();
+    } catch (error) {
+      console.error('Error saving exchange rate:', error);
+      setFormError('Failed to save exchange rate. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleFileSelected = async (file: File | undefined) => {
+    if (!file) return;
+
+    const { rows, errors } = parseExchangeRateCsv(await file.text(), baseCurrency);
+    setCsvPreview({ fileName: file.name, rows, errors });
+
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const handleImport = async () => {
+    if (!csvPreview || csvPreview.rows.length === 0) return;
+    setImporting(true);
+
+    try {
+      await saveRates(csvPreview.rows, 'CSV Import');
+      setCsvPreview(null);
+      await loadRates();
+    } catch (error) {
+      console.error('Error importing exchange rates:', error);
+      alert('Failed to import exchange rates. Please try again.');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const handleDelete = async (rate: ExchangeRate) => {
+    if (!confirm(`Delete the ${rate.currency} rate for ${new Date(rate.rate_date).toLocaleDateString()}?`)) return;
+
+    try {
+      const { error } = await supabase.from('exchange_rates').delete().eq('id', rate.id);
+      if (error) throw error;
+      await loadRates();
+    } catch (error) {
+      console.error('Error deleting exchange rate:', error);
+      alert('Failed to delete exchange rate. Please try again.');
+    }
+  };
+
+  const handleChangeBaseCurrency = async () => {
+    if (!confirm(`Report all figures in ${newBaseCurrency}? Rates are kept per base currency.`)) return;
+
+    try {
+      const { error } = await supabase.rpc('set_base_currency', { p_currency: newBaseCurrency });
+      if (error) throw error;
+      await loadRates();
+    } catch (error) {
+      console.error('Error changing base currency:', error);
+      alert(`Failed to change base currency: ${(error as { message?: string }).message || 'Please try again.'}`);
+      setNewBaseCurrency(baseCurrency);
+    }
+  };
+
+  const filteredRates = rates.filter((rate) => currencyFilter === 'all' || rate.currency === currencyFilter);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <p className="text-gray-500">Loading exchange rates...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-8 max-w-7xl mx-auto space-y-8">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-semibold text-gray-900">Exchange Rates</h1>
+          <p className="text-sm text-gray-500 mt-1">
+            Rates into {baseCurrency}, captured on each document when it is approved
+          </p>
+        </div>
+        {canManage && (
+          <>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,text/csv"
+              className="hidden"
+              onChange={(e) => handleFileSelected(e.target.files?.[0])}
+            />
+            <Button variant="secondary" onClick={() => fileInputRef.current?.click()}>
+              <Upload className="w-4 h-4 mr-2" strokeWidth={1.5} />
+              Import CSV
+            </Button>
+          </>
+        )}
+      </div>
+
+      <div className="bg-white rounded-xl border border-gray-100 p-6">
+        <div className="flex items-end justify-between gap-4">
+          <div>
+            <p className="text-sm text-gray-500 mb-1">Base Currency</p>
+            <p className="text-2xl font-semibold text-gray-900">{baseCurrency}</p>
+            <p className="text-xs text-gray-500 mt-1">All dashboard and inventory totals are reported in this currency</p>
+          </div>
+          {profile?.role === 'Admin' && (
+            <div className="flex items-end gap-3">
+              <div className="w-32">
+                <Select
+                  label="Change To"
+                  value={newBaseCurrency}
+                  onChange={(e) => setNewBaseCurrency(e.target.value)}
+                  options={CURRENCIES.map((currency) => ({ value: currency, label: currency }))}
+                />
+              </div>
+              <Button
+                variant="secondary"
+                onClick={handleChangeBaseCurrency}
+                disabled={newBaseCurrency === baseCurrency}
+              >
+                Save
+              </Button>
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl border border-gray-100 p-6">
+        {formError && (
+          <div className="p-3 bg-red-50 border border-red-100 rounded-lg mb-4">
+            <p className="text-sm text-red-600">{formError}</p>
+          </div>
+        )}
+
+        {canManage && (
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end mb-6">
+            <Select
+              label="Currency"
+              value={form.currency}
+              onChange={(e) => setForm({ ...form, currency: e.target.value })}
+              options={foreignCurrencies.map((currency) => ({ value: currency, label: currency }))}
+            />
+            <Input
+              label="Effective Date"
+              type="date"
+              value={form.rateDate}
+              onChange={(e) => setForm({ ...form, rateDate: e.target.value })}
+            />
+            <Input
+              label={`${baseCurrency} per 1 ${form.currency}`}
+              type="number"
+              step="0.000001"
+              min="0"
+              value={form.rate}
+              onChange={(e) => setForm({ ...form, rate: e.target.value })}
+              placeholder="e.g., 35.42"
+            />
+            <Button onClick={handleCreate} disabled={saving}>
+              <Plus className="w-4 h-4 mr-2" strokeWidth={1.5} />
+              {saving ? 'Saving...' : 'Add Rate'}
+            </Button>
+          </div>
+        )}
+
+        <div className="w-48 mb-4">
+          <Select
+            value={currencyFilter}
+            onChange={(e) => setCurrencyFilter(e.target.value)}
+            options={[
+              { value: 'all', label: 'All Currencies' },
+              ...foreignCurrencies.map((currency) => ({ value: currency, label: currency })),
+            ]}
+          />
+        </div>
+
+        <div className="overflow-x-auto border border-gray-100 rounded-lg">
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b border-gray-100">
+              <tr>
+                <th className="text-left px-6 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Currency
+                </th>
+                <th className="text-left px-6 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Effective Date
+                </th>
+                <th className="text-right px-6 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Rate
+                </th>
+                <th className="text-left px-6 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Source
+                </th>
+                {canManage && <th className="px-6 py-3" />}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {filteredRates.length === 0 ? (
+                <tr>
+                  <td colSpan={canManage ? 5 : 4} className="px-6 py-12 text-center text-sm text-gray-500">
+                    No exchange rates recorded yet. Documents in other currencies cannot be approved without one.
+                  </td>
+                </tr>
+              ) : (
+                filteredRates.map((rate) => (
+                  <tr key={rate.id} className="hover:bg-gray-50 transition-colors">
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{rate.currency}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
+                      {new Date(rate.rate_date).toLocaleDateString()}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm text-gray-900">
+                      1 {rate.currency} = {Number(rate.rate).toLocaleString(undefined, { maximumFractionDigits: 6 })} {baseCurrency}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <Badge variant={rate.source === 'CSV Import' ? 'info' : 'neutral'}>{rate.source}</Badge>
+                    </td>
+                    {canManage && (
+                      <td className="px-6 py-4 whitespace-nowrap text-right">
+                        <Button variant="ghost" size="sm" onClick={() => handleDelete(rate)}>
+                          <Trash2 className="w-4 h-4" strokeWidth={1.5} />
+                        </Button>
+                      </td>
+                    )}
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {csvPreview && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-xl p-6 max-w-2xl w-full mx-4 max-h-[90vh] flex flex-col">
+            <div className="flex items-center justify-between mb-1">
+              <h3 className="text-lg font-semibold text-gray-900">Import Exchange Rates</h3>
+              <button onClick={() => setCsvPreview(null)} className="p-1 text-gray-400 hover:text-gray-700 transition-colors">
+                <X className="w-5 h-5" strokeWidth={1.5} />
+              </button>
+            </div>
+            <p className="text-sm text-gray-500 mb-4">
+              {csvPreview.fileName}: {csvPreview.rows.length} rate(s) ready. Existing rates for the same currency and date are replaced.
+            </p>
+
+            <div className="space-y-4 overflow-y-auto">
+              {csvPreview.errors.length > 0 && (
+                <div className="p-3 bg-red-50 border border-red-100 rounded-lg">
+                  <p className="text-sm font-medium text-red-600 mb-1">
+                    {csvPreview.errors.length} row(s) will be skipped
+                  </p>
+                  {csvPreview.errors.map((error) => (
+                    <p key={error} className="text-xs text-red-600">{error}</p>
+                  ))}
+                </div>
+              )}
+
+              {csvPreview.rows.length > 0 && (
+                <div className="border border-gray-100 rounded-lg divide-y divide-gray-100">
+                  {csvPreview.rows.map((row) => (
+                    <div key={`${row.currency}:${row.rate_date}`} className="flex items-center justify-between px-4 py-2">
+                      <p className="text-sm text-gray-900">{row.currency}</p>
+                      <p className="text-sm text-gray-600">{new Date(row.rate_date).toLocaleDateString()}</p>
+                      <p className="text-sm text-gray-900">{row.rate}</p>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div className="flex items-center justify-end gap-3 pt-4">
+              <Button variant="secondary" onClick={() => setCsvPreview(null)}>
+                Cancel
+              </Button>
+              <Button onClick={handleImport} disabled={importing || csvPreview.rows.length === 0}>
+                {importing ? 'Importing...' : `Import ${csvPreview.rows.length} Rate(s)`}
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
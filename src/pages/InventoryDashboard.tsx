@@ -1,6 +1,11 @@
 import { useEffect, useState } from 'react';
-import { Package, TrendingUp, TrendingDown, AlertTriangle, DollarSign, BarChart3 } from 'lucide-react';
+import { Package, TrendingUp, TrendingDown, AlertTriangle, DollarSign, BarChart3, RefreshCw } from 'lucide-react';
 import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { Button } from '../components/ui/Button';
+import { Select } from '../components/ui/Select';
+import { VALUATION_METHODS, loadProductStockValues } from '../lib/valuation';
+import { DEFAULT_BASE_CURRENCY, loadBaseCurrency } from '../lib/currency';
 
 interface InventoryStats {
   totalSKUs: number;
@@ -11,6 +16,8 @@ interface InventoryStats {
 
 interface CategoryBreakdown {
   category: string;
+  category_id: string | null;
+  valuation_method: string;
   quantity: number;
   value: number;
 }
@@ -23,6 +30,7 @@ interface StockAlert {
 }
 
 export function InventoryDashboard() {
+  const { profile } = useAuth();
   const [stats, setStats] = useState<InventoryStats>({
     totalSKUs: 0,
     totalQuantity: 0,
@@ -32,6 +40,9 @@ export function InventoryDashboard() {
   const [categoryBreakdown, setCategoryBreakdown] = useState<CategoryBreakdown[]>([]);
   const [lowStockAlerts, setLowStockAlerts] = useState<StockAlert[]>([]);
   const [loading, setLoading] = useState(true);
+  const [rebuilding, setRebuilding] = useState(false);
+  const [updatingCategoryId, setUpdatingCategoryId] = useState<string | null>(null);
+  const [baseCurrency, setBaseCurrency] = useState(DEFAULT_BASE_CURRENCY);
 
   useEffect(() => {
     loadInventoryData();
@@ -39,27 +50,35 @@ export function InventoryDashboard() {
 
   const loadInventoryData = async () => {
     try {
-      const { data: products } = await supabase
-        .from('products')
-        .select(`
-          *,
-          stock_balances(quantity_on_hand),
-          product_categories(name)
-        `)
-        .eq('is_active', true);
+      const [{ data: products }, stockValues, base] = await Promise.all([
+        supabase
+          .from('products')
+          .select(`
+            *,
+            stock_balances(quantity_on_hand),
+            product_categories(id, name, valuation_method)
+          `)
+          .eq('is_active', true),
+        loadProductStockValues(),
+        loadBaseCurrency(),
+      ]);
+
+      setBaseCurrency(base);
 
       if (products) {
         const totalSKUs = products.length;
         let totalQuantity = 0;
         let totalValue = 0;
         let lowStockItems = 0;
-        const categoryMap = new Map<string, { quantity: number; value: number }>();
+        const categoryMap = new Map<string, CategoryBreakdown>();
         const alerts: StockAlert[] = [];
 
         products.forEach((product: any) => {
-          const stockBalance = product.stock_balances?.[0];
-          const quantity = stockBalance?.quantity_on_hand || 0;
-          const value = quantity * product.cost_price;
+          const quantity = product.stock_balances?.reduce(
+            (sum: number, balance: { quantity_on_hand: number | null }) => sum + (balance.quantity_on_hand || 0),
+            0
+          ) || 0;
+          const value = stockValues.get(product.id)?.stock_value || 0;
 
           totalQuantity += quantity;
           totalValue += value;
@@ -75,21 +94,22 @@ export function InventoryDashboard() {
           }
 
           const categoryName = product.product_categories?.name || 'Uncategorized';
-          const existing = categoryMap.get(categoryName) || { quantity: 0, value: 0 };
+          const existing = categoryMap.get(categoryName) || {
+            category: categoryName,
+            category_id: product.product_categories?.id || null,
+            valuation_method: product.product_categories?.valuation_method || 'Moving Average',
+            quantity: 0,
+            value: 0,
+          };
           categoryMap.set(categoryName, {
+            ...existing,
             quantity: existing.quantity + quantity,
             value: existing.value + value,
           });
         });
 
         setStats({ totalSKUs, totalQuantity, totalValue, lowStockItems });
-
-        const breakdown = Array.from(categoryMap.entries()).map(([category, data]) => ({
-          category,
-          quantity: data.quantity,
-          value: data.value,
-        }));
-        setCategoryBreakdown(breakdown);
+        setCategoryBreakdown(Array.from(categoryMap.values()));
         setLowStockAlerts(alerts);
       }
     } catch (error) {
@@ -99,6 +119,44 @@ export function InventoryDashboard() {
     }
   };
 
+  const handleRebuildBalances = async () => {
+    if (!confirm('Recompute all stock balances and values from the full movement history?')) return;
+    setRebuilding(true);
+
+    try {
+      const { error } = await supabase.rpc('rebuild_stock_balances');
+      if (error) throw error;
+      const { error: valuationError } = await supabase.rpc('rebuild_stock_valuation');
+      if (valuationError) throw valuationError;
+      await loadInventoryData();
+    } catch (error) {
+      console.error('Error rebuilding stock balances:', error);
+      alert('Failed to rebuild stock balances. Please try again.');
+    } finally {
+      setRebuilding(false);
+    }
+  };
+
+  const handleValuationMethodChange = async (categoryId: string, method: string) => {
+    if (!confirm(`Revalue all stock in this category using ${method}?`)) return;
+    setUpdatingCategoryId(categoryId);
+
+    try {
+      const { error } = await supabase
+        .from('product_categories')
+        .update({ valuation_method: method })
+        .eq('id', categoryId);
+
+      if (error) throw error;
+      await loadInventoryData();
+    } catch (error) {
+      console.error('Error updating valuation method:', error);
+      alert('Failed to update valuation method. Please try again.');
+    } finally {
+      setUpdatingCategoryId(null);
+    }
+  };
+
   const statCards = [
     {
       label: 'Total SKUs',
@@ -116,7 +174,7 @@ export function InventoryDashboard() {
     },
     {
       label: 'Stock Value',
-      value: `$${stats.totalValue.toLocaleString()}`,
+      value: `${baseCurrency} ${stats.totalValue.toLocaleString()}`,
       icon: DollarSign,
       color: 'text-purple-600',
       bgColor: 'bg-purple-50',
@@ -140,9 +198,17 @@ export function InventoryDashboard() {
 
   return (
     <div className="p-8 max-w-7xl mx-auto">
-      <div className="mb-8">
-        <h1 className="text-2xl font-semibold text-gray-900">Inventory Dashboard</h1>
-        <p className="text-sm text-gray-500 mt-1">Overview of stock levels and inventory metrics</p>
+      <div className="flex items-center justify-between mb-8">
+        <div>
+          <h1 className="text-2xl font-semibold text-gray-900">Inventory Dashboard</h1>
+          <p className="text-sm text-gray-500 mt-1">Overview of stock levels and inventory metrics</p>
+        </div>
+        {profile?.role === 'Admin' && (
+          <Button variant="secondary" onClick={handleRebuildBalances} disabled={rebuilding}>
+            <RefreshCw className={`w-4 h-4 mr-2 ${rebuilding ? 'animate-spin' : ''}`} strokeWidth={1.5} />
+            {rebuilding ? 'Rebuilding...' : 'Rebuild Balances'}
+          </Button>
+        )}
       </div>
 
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
@@ -173,11 +239,25 @@ export function InventoryDashboard() {
                 <div key={item.category} className="flex items-center justify-between p-4 rounded-lg border border-gray-100">
                   <div>
                     <p className="text-sm font-medium text-gray-900">{item.category}</p>
-                    <p className="text-xs text-gray-500">{item.quantity.toLocaleString()} units</p>
+                    <p className="text-xs text-gray-500">
+                      {item.quantity.toLocaleString()} units • {item.valuation_method}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-3">
+                    {profile?.role === 'Admin' && item.category_id && (
+                      <div className="w-40">
+                        <Select
+                          value={item.valuation_method}
+                          onChange={(e) => handleValuationMethodChange(item.category_id as string, e.target.value)}
+                          disabled={updatingCategoryId === item.category_id}
+                          options={VALUATION_METHODS.map((method) => ({ value: method, label: method }))}
+                        />
+                      </div>
+                    )}
+                    <p className="text-sm font-semibold text-gray-900">
+                      {baseCurrency} {item.value.toLocaleString()}
+                    </p>
                   </div>
-                  <p className="text-sm font-semibold text-gray-900">
-                    ${item.value.toLocaleString()}
-                  </p>
                 </div>
               ))
             )}
@@ -0,0 +1,125 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '../lib/supabase';
+import { Button } from '../components/ui/Button';
+import { Input } from '../components/ui/Input';
+import { loadMatchTolerances } from '../lib/threeWayMatch';
+
+export function MatchSettings() {
+  const [form, setForm] = useState({ pricePercent: '', quantityPercent: '' });
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  useEffect(() => {
+    loadTolerances();
+  }, []);
+
+  const loadTolerances = async () => {
+    try {
+      const tolerances = await loadMatchTolerances();
+      setForm({
+        pricePercent: String(tolerances.match_price_tolerance_percent),
+        quantityPercent: String(tolerances.match_quantity_tolerance_percent),
+      });
+    } catch (error) {
+      console.error('Error loading match tolerances:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSave = async () => {
+    const pricePercent = parseFloat(form.pricePercent);
+    const quantityPercent = parseFloat(form.quantityPercent);
+
+    if (!(pricePercent >= 0) || !(quantityPercent >= 0)) {
+      setFormError('Tolerances must be zero or more');
+      return;
+    }
+
+    setSaving(true);
+    setFormError(null);
+    setSaved(false);
+
+    try {
+      const { error } = await supabase.rpc('set_match_tolerances', {
+        p_price_percent: pricePercent,
+        p_quantity_percent: quantityPercent,
+      });
+
+      if (error) throw error;
+      setSaved(true);
+    } catch (error) {
+      console.error('Error saving match tolerances:', error);
+      setFormError('Failed to save tolerances. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <p className="text-gray-500">Loading match settings...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-8 max-w-3xl mx-auto">
+      <div className="mb-8">
+        <h1 className="text-2xl font-semibold text-gray-900">Three-Way Match</h1>
+        <p className="text-sm text-gray-500 mt-1">
+          Invoices are matched against their Purchase Order and Approved Goods Receipts before they can be approved
+        </p>
+      </div>
+
+      <div className="bg-white rounded-xl border border-gray-100 p-6">
+        {formError && (
+          <div className="p-3 bg-red-50 border border-red-100 rounded-lg mb-4">
+            <p className="text-sm text-red-600">{formError}</p>
+          </div>
+        )}
+        {saved && (
+          <div className="p-3 bg-green-50 border border-green-100 rounded-lg mb-4">
+            <p className="text-sm text-green-700">Tolerances saved</p>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <Input
+              label="Price Tolerance (%)"
+              type="number"
+              step="0.01"
+              min="0"
+              value={form.pricePercent}
+              onChange={(e) => setForm({ ...form, pricePercent: e.target.value })}
+            />
+            <p className="text-xs text-gray-500 mt-1">How far an invoiced unit price may be above or below the PO price</p>
+          </div>
+          <div>
+            <Input
+              label="Quantity Tolerance (%)"
+              type="number"
+              step="0.01"
+              min="0"
+              value={form.quantityPercent}
+              onChange={(e) => setForm({ ...form, quantityPercent: e.target.value })}
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              How far an invoiced quantity may be above or below what was received and not yet invoiced
+            </p>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-3 mt-6 pt-6 border-t border-gray-100">
+          <Button onClick={handleSave} disabled={saving}>
+            {saving ? 'Saving...' : 'Save Tolerances'}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
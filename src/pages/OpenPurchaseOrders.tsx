@@ -0,0 +1,203 @@
+import { useEffect, useState } from 'react';
+import { Search } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { Input } from '../components/ui/Input';
+import { Select } from '../components/ui/Select';
+
+interface OpenPurchaseOrderLine {
+  supplier_id: string | null;
+  supplier_code: string | null;
+  supplier_name: string | null;
+  product_id: string;
+  sku: string;
+  product_name: string;
+  unit_of_measure: string;
+  ordered_quantity: number;
+  received_quantity: number;
+  invoiced_quantity: number;
+  open_to_receive: number;
+  open_to_invoice: number;
+  purchase_order_count: number;
+  purchase_order_numbers: string;
+  oldest_order_date: string;
+}
+
+export function OpenPurchaseOrders() {
+  const [rows, setRows] = useState<OpenPurchaseOrderLine[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [supplierFilter, setSupplierFilter] = useState('all');
+  const [openFilter, setOpenFilter] = useState('receive');
+
+  useEffect(() => {
+    loadOpenLines();
+  }, []);
+
+  const loadOpenLines = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('open_purchase_order_lines')
+        .select('*')
+        .order('supplier_name', { ascending: true })
+        .order('sku', { ascending: true });
+
+      if (error) throw error;
+      setRows(data || []);
+    } catch (error) {
+      console.error('Error loading open purchase orders:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const suppliers = Array.from(
+    new Map(rows.map((row) => [row.supplier_id || '', row.supplier_name || 'No supplier record'])).entries()
+  );
+
+  const term = searchTerm.trim().toLowerCase();
+  const filteredRows = rows.filter(
+    (row) =>
+      (supplierFilter === 'all' || (row.supplier_id || '') === supplierFilter) &&
+      (openFilter === 'all' ||
+        (openFilter === 'receive' && row.open_to_receive > 0) ||
+        (openFilter === 'invoice' && row.open_to_invoice > 0)) &&
+      (!term ||
+        row.sku.toLowerCase().includes(term) ||
+        row.product_name.toLowerCase().includes(term) ||
+        (row.supplier_name || '').toLowerCase().includes(term) ||
+        (row.supplier_code || '').toLowerCase().includes(term) ||
+        row.purchase_order_numbers.toLowerCase().includes(term))
+  );
+
+  const formatQuantity = (quantity: number) => Number(quantity).toLocaleString();
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <p className="text-gray-500">Loading open purchase orders...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-8 max-w-7xl mx-auto">
+      <div className="mb-8">
+        <h1 className="text-2xl font-semibold text-gray-900">Open Purchase Orders</h1>
+        <p className="text-sm text-gray-500 mt-1">
+          Quantities still to be received or invoiced on Approved and Partially Received Purchase Orders
+        </p>
+      </div>
+
+      <div className="bg-white rounded-xl border border-gray-100 p-6 mb-6">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+          <div className="md:col-span-2 relative">
+            <Search className="absolute left-3 bottom-2.5 w-4 h-4 text-gray-400" strokeWidth={1.5} />
+            <Input
+              placeholder="Search by SKU, product, supplier or PO number..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="pl-10"
+            />
+          </div>
+          <Select
+            label="Supplier"
+            value={supplierFilter}
+            onChange={(e) => setSupplierFilter(e.target.value)}
+            options={[
+              { value: 'all', label: 'All Suppliers' },
+              ...suppliers.map(([id, name]) => ({ value: id, label: name })),
+            ]}
+          />
+          <Select
+            label="Outstanding"
+            value={openFilter}
+            onChange={(e) => setOpenFilter(e.target.value)}
+            options={[
+              { value: 'receive', label: 'To Receive' },
+              { value: 'invoice', label: 'To Invoice' },
+              { value: 'all', label: 'All Open Lines' },
+            ]}
+          />
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl border border-gray-100 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b border-gray-100">
+              <tr>
+                <th className="text-left px-6 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Supplier
+                </th>
+                <th className="text-left px-6 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Product
+                </th>
+                <th className="text-right px-6 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Ordered
+                </th>
+                <th className="text-right px-6 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Received
+                </th>
+                <th className="text-right px-6 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Invoiced
+                </th>
+                <th className="text-right px-6 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  To Receive
+                </th>
+                <th className="text-right px-6 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  To Invoice
+                </th>
+                <th className="text-left px-6 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Purchase Orders
+                </th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {filteredRows.length === 0 ? (
+                <tr>
+                  <td colSpan={8} className="px-6 py-12 text-center text-sm text-gray-500">
+                    No outstanding quantities found.
+                  </td>
+                </tr>
+              ) : (
+                filteredRows.map((row) => (
+                  <tr key={`${row.supplier_id}-${row.product_id}-${row.unit_of_measure}`} className="hover:bg-gray-50 transition-colors">
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <p className="text-sm font-medium text-gray-900">{row.supplier_name || 'No supplier record'}</p>
+                      <p className="text-xs text-gray-500">{row.supplier_code || '-'}</p>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <p className="text-sm font-medium text-gray-900">{row.sku}</p>
+                      <p className="text-xs text-gray-500">{row.product_name}</p>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm text-gray-900">
+                      {formatQuantity(row.ordered_quantity)} {row.unit_of_measure}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm text-gray-600">
+                      {formatQuantity(row.received_quantity)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm text-gray-600">
+                      {formatQuantity(row.invoiced_quantity)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium text-gray-900">
+                      {formatQuantity(row.open_to_receive)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium text-gray-900">
+                      {formatQuantity(row.open_to_invoice)}
+                    </td>
+                    <td className="px-6 py-4">
+                      <p className="text-sm text-gray-900">{row.purchase_order_numbers}</p>
+                      <p className="text-xs text-gray-500">
+                        Oldest {new Date(row.oldest_order_date).toLocaleDateString()}
+                      </p>
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
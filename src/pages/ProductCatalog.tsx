@@ -1,29 +1,64 @@
 import { useEffect, useState } from 'react';
-import { Search, Plus, Package } from 'lucide-react';
+import { Search, Plus, Package, Upload, Pencil, History } from 'lucide-react';
 import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
 import { Button } from '../components/ui/Button';
 import { Input } from '../components/ui/Input';
+import { Select } from '../components/ui/Select';
 import { Badge } from '../components/ui/Badge';
+import { ExportMenu } from '../components/ui/ExportMenu';
+import { ProductImportWizard } from '../components/products/ProductImportWizard';
+import { ProductForm } from '../components/products/ProductForm';
+import { ProductHistory } from '../components/products/ProductHistory';
+import { Product, canManageProducts } from '../lib/products';
+import { ExportColumn, ExportFormat, exportFileName, exportRows, ilikeContains } from '../lib/exports';
 
-interface Product {
-  id: string;
+interface ProductRow extends Product {
+  category_name?: string;
+  total_stock?: number;
+}
+
+interface ProductExportRow {
   sku: string;
   name: string;
   description: string | null;
-  category_id: string | null;
   unit_of_measure: string;
   cost_price: number;
   reorder_point: number;
   is_active: boolean;
-  category_name?: string;
-  total_stock?: number;
+  product_categories: { name: string } | null;
+  stock_balances: { quantity_on_hand: number }[] | null;
 }
 
+const EXPORT_COLUMNS: ExportColumn<ProductExportRow>[] = [
+  { header: 'SKU', type: 'string', value: (product) => product.sku },
+  { header: 'Product Name', type: 'string', value: (product) => product.name },
+  { header: 'Description', type: 'string', value: (product) => product.description },
+  { header: 'Category', type: 'string', value: (product) => product.product_categories?.name || 'Uncategorized' },
+  { header: 'Unit', type: 'string', value: (product) => product.unit_of_measure },
+  { header: 'Cost Price', type: 'number', value: (product) => product.cost_price },
+  {
+    header: 'Stock',
+    type: 'number',
+    value: (product) =>
+      (product.stock_balances || []).reduce((sum, balance) => sum + (balance.quantity_on_hand || 0), 0),
+  },
+  { header: 'Reorder Point', type: 'number', value: (product) => product.reorder_point },
+  { header: 'Status', type: 'string', value: (product) => (product.is_active ? 'Active' : 'Inactive') },
+];
+
 export function ProductCatalog() {
-  const [products, setProducts] = useState<Product[]>([]);
-  const [filteredProducts, setFilteredProducts] = useState<Product[]>([]);
+  const { profile } = useAuth();
+  const [products, setProducts] = useState<ProductRow[]>([]);
+  const [filteredProducts, setFilteredProducts] = useState<ProductRow[]>([]);
   const [searchTerm, setSearchTerm] = useState('');
+  const [activeFilter, setActiveFilter] = useState('active');
   const [loading, setLoading] = useState(true);
+  const [showImport, setShowImport] = useState(false);
+  const [editing, setEditing] = useState<ProductRow | 'new' | null>(null);
+  const [historyProduct, setHistoryProduct] = useState<ProductRow | null>(null);
+
+  const canManage = canManageProducts(profile?.role);
 
   useEffect(() => {
     loadProducts();
@@ -31,7 +66,7 @@ export function ProductCatalog() {
 
   useEffect(() => {
     filterProducts();
-  }, [products, searchTerm]);
+  }, [products, searchTerm, activeFilter]);
 
   const loadProducts = async () => {
     try {
@@ -74,9 +109,67 @@ export function ProductCatalog() {
       );
     }
 
+    if (activeFilter !== 'all') {
+      filtered = filtered.filter((product) => product.is_active === (activeFilter === 'active'));
+    }
+
     setFilteredProducts(filtered);
   };
 
+  // Inactive products drop out of the product pickers but stay on existing documents and movements
+  const handleToggleActive = async (product: ProductRow) => {
+    try {
+      const { error } = await supabase
+        .from('products')
+        .update({ is_active: !product.is_active, updated_at: new Date().toISOString() })
+        .eq('id', product.id);
+
+      if (error) throw error;
+      await loadProducts();
+    } catch (error) {
+      console.error('Error updating product:', error);
+      alert('Failed to update product. Please try again.');
+    }
+  };
+
+  const handleExport = (format: ExportFormat, onProgress: (rowsExported: number) => void) =>
+    exportRows({
+      fileName: exportFileName('products'),
+      sheetName: 'Products',
+      format,
+      columns: EXPORT_COLUMNS,
+      onProgress,
+      fetchPage: async (from, to) => {
+        let query = supabase
+          .from('products')
+          .select(`
+            sku,
+            name,
+            description,
+            unit_of_measure,
+            cost_price,
+            reorder_point,
+            is_active,
+            product_categories(name),
+            stock_balances(quantity_on_hand)
+          `);
+
+        if (searchTerm) {
+          const pattern = ilikeContains(searchTerm);
+          query = query.or(`name.ilike.${pattern},sku.ilike.${pattern}`);
+        }
+        if (activeFilter !== 'all') query = query.eq('is_active', activeFilter === 'active');
+
+        const { data, error } = await query
+          .order('name', { ascending: true })
+          .order('id', { ascending: true })
+          .range(from, to);
+
+        if (error) throw error;
+        return (data || []) as unknown as ProductExportRow[];
+      },
+    });
+
   if (loading) {
     return (
       <div className="flex items-center justify-center h-full">
@@ -92,20 +185,43 @@ export function ProductCatalog() {
           <h1 className="text-2xl font-semibold text-gray-900">Product Catalog</h1>
           <p className="text-sm text-gray-500 mt-1">Manage product master data</p>
         </div>
-        <Button>
-          <Plus className="w-4 h-4 mr-2" strokeWidth={1.5} />
-          New Product
-        </Button>
+        <div className="flex items-center gap-3">
+          <ExportMenu label="products" onExport={handleExport} />
+          {canManage && (
+            <>
+              <Button variant="secondary" onClick={() => setShowImport(true)}>
+                <Upload className="w-4 h-4 mr-2" strokeWidth={1.5} />
+                Import
+              </Button>
+              <Button onClick={() => setEditing('new')}>
+                <Plus className="w-4 h-4 mr-2" strokeWidth={1.5} />
+                New Product
+              </Button>
+            </>
+          )}
+        </div>
       </div>
 
       <div className="bg-white rounded-xl border border-gray-100 p-6 mb-6">
-        <div className="relative">
-          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400" strokeWidth={1.5} />
-          <Input
-            placeholder="Search by product name or SKU..."
-            value={searchTerm}
-            onChange={(e) => setSearchTerm(e.target.value)}
-            className="pl-10"
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+          <div className="md:col-span-2 relative">
+            <Search className="absolute left-3 bottom-2.5 w-4 h-4 text-gray-400" strokeWidth={1.5} />
+            <Input
+              placeholder="Search by product name or SKU..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="pl-10"
+            />
+          </div>
+          <Select
+            label="Status"
+            value={activeFilter}
+            onChange={(e) => setActiveFilter(e.target.value)}
+            options={[
+              { value: 'active', label: 'Active' },
+              { value: 'inactive', label: 'Inactive' },
+              { value: 'all', label: 'All Products' },
+            ]}
           />
         </div>
       </div>
@@ -136,12 +252,13 @@ export function ProductCatalog() {
                 <th className="text-left px-6 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Status
                 </th>
+                <th className="px-6 py-3" />
               </tr>
             </thead>
             <tbody className="divide-y divide-gray-100">
               {filteredProducts.length === 0 ? (
                 <tr>
-                  <td colSpan={7} className="px-6 py-12 text-center text-sm text-gray-500">
+                  <td colSpan={8} className="px-6 py-12 text-center text-sm text-gray-500">
                     No products found. Create your first product to get started.
                   </td>
                 </tr>
@@ -149,6 +266,7 @@ export function ProductCatalog() {
                 filteredProducts.map((product) => (
                   <tr
                     key={product.id}
+                    onClick={() => setHistoryProduct(product)}
                     className="hover:bg-gray-50 cursor-pointer transition-colors"
                   >
                     <td className="px-6 py-4 whitespace-nowrap">
@@ -192,6 +310,23 @@ export function ProductCatalog() {
                         {product.is_active ? 'Active' : 'Inactive'}
                       </Badge>
                     </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right" onClick={(e) => e.stopPropagation()}>
+                      <div className="flex items-center justify-end gap-2">
+                        {canManage && (
+                          <>
+                            <Button variant="ghost" size="sm" onClick={() => handleToggleActive(product)}>
+                              {product.is_active ? 'Deactivate' : 'Activate'}
+                            </Button>
+                            <Button variant="ghost" size="sm" onClick={() => setEditing(product)}>
+                              <Pencil className="w-4 h-4" strokeWidth={1.5} />
+                            </Button>
+                          </>
+                        )}
+                        <Button variant="ghost" size="sm" onClick={() => setHistoryProduct(product)} title="History">
+                          <History className="w-4 h-4" strokeWidth={1.5} />
+                        </Button>
+                      </div>
+                    </td>
                   </tr>
                 ))
               )}
@@ -203,6 +338,25 @@ export function ProductCatalog() {
       <div className="mt-4 flex items-center justify-between text-sm text-gray-500">
         <p>Showing {filteredProducts.length} of {products.length} products</p>
       </div>
+
+      {showImport && (
+        <ProductImportWizard onClose={() => setShowImport(false)} onImported={loadProducts} />
+      )}
+
+      {editing && (
+        <ProductForm
+          product={editing === 'new' ? undefined : editing}
+          onClose={() => setEditing(null)}
+          onSaved={() => {
+            setEditing(null);
+            loadProducts();
+          }}
+        />
+      )}
+
+      {historyProduct && (
+        <ProductHistory product={historyProduct} onClose={() => setHistoryProduct(null)} />
+      )}
     </div>
   );
 }
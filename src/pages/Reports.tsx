@@ -0,0 +1,357 @@
+import { useEffect, useState } from 'react';
+import { BarChart3, Bookmark, Play, Save, Trash2 } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { Button } from '../components/ui/Button';
+import { Input } from '../components/ui/Input';
+import { BarChart } from '../components/ui/BarChart';
+import { ReportFiltersForm } from '../components/reports/ReportFiltersForm';
+import {
+  REPORTS,
+  ReportFilters,
+  ReportResult,
+  ReportType,
+  SavedReport,
+  defaultReportFilters,
+  getReportDefinition,
+  loadSavedReports,
+  runReport,
+} from '../lib/reports';
+
+export function Reports() {
+  const { user } = useAuth();
+  const [reportType, setReportType] = useState<ReportType>(REPORTS[0].type);
+  const [activeSaved, setActiveSaved] = useState<SavedReport | null>(null);
+  const [filters, setFilters] = useState<ReportFilters>(defaultReportFilters(REPORTS[0].type));
+  const [result, setResult] = useState<ReportResult | null>(null);
+  const [running, setRunning] = useState(false);
+  const [savedReports, setSavedReports] = useState<SavedReport[]>([]);
+  const [warehouses, setWarehouses] = useState<{ id: string; name: string }[]>([]);
+  const [showSaveModal, setShowSaveModal] = useState(false);
+  const [saveName, setSaveName] = useState('');
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const definition = getReportDefinition(reportType);
+
+  useEffect(() => {
+    execute(REPORTS[0].type, defaultReportFilters(REPORTS[0].type));
+    refreshSavedReports();
+    loadWarehouses();
+  }, []);
+
+  const refreshSavedReports = async () => {
+    try {
+      setSavedReports(await loadSavedReports());
+    } catch (error) {
+      console.error('Error loading saved reports:', error);
+    }
+  };
+
+  const loadWarehouses = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('warehouses')
+        .select('id, name')
+        .eq('is_active', true)
+        .order('code', { ascending: true });
+
+      if (error) throw error;
+      setWarehouses(data || []);
+    } catch (error) {
+      console.error('Error loading warehouses:', error);
+    }
+  };
+
+  const execute = async (type: ReportType, values: ReportFilters) => {
+    setRunning(true);
+
+    try {
+      setResult(await runReport(type, values));
+    } catch (error) {
+      console.error('Error running report:', error);
+      alert('Failed to run the report. Please try again.');
+      setResult(null);
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const openReport = (type: ReportType) => {
+    const values = defaultReportFilters(type);
+    setReportType(type);
+    setActiveSaved(null);
+    setFilters(values);
+    execute(type, values);
+  };
+
+  const openSavedReport = (saved: SavedReport) => {
+    const values = { ...defaultReportFilters(saved.report_type), ...saved.filters };
+    setReportType(saved.report_type);
+    setActiveSaved(saved);
+    setFilters(values);
+    execute(saved.report_type, values);
+  };
+
+  const handleSave = async (asNew: boolean) => {
+    if (!user) return;
+    const name = asNew ? saveName.trim() : activeSaved?.name;
+    if (!name) {
+      setSaveError('Name is required');
+      return;
+    }
+
+    setSaving(true);
+    setSaveError(null);
+
+    try {
+      const { data, error } =
+        asNew || !activeSaved
+          ? await supabase
+              .from('saved_reports')
+              .insert({ user_id: user.id, name, report_type: reportType, filters })
+              .select()
+              .single()
+          : await supabase
+              .from('saved_reports')
+              .update({ filters, updated_at: new Date().toISOString() })
+              .eq('id', activeSaved.id)
+              .select()
+              .single();
+
+      if (error) throw error;
+
+      setActiveSaved(data as SavedReport);
+      setShowSaveModal(false);
+      setSaveName('');
+      await refreshSavedReports();
+    } catch (error) {
+      console.error('Error saving report:', error);
+      // Names are unique per user
+      if ((error as { code?: string }).code === '23505') {
+        setSaveError('You already have a saved report with this name');
+      } else if (asNew) {
+        setSaveError('Failed to save report. Please try again.');
+      } else {
+        alert('Failed to save report. Please try again.');
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (saved: SavedReport) => {
+    if (!confirm(`Delete saved report "${saved.name}"?`)) return;
+
+    try {
+      const { error } = await supabase.from('saved_reports').delete().eq('id', saved.id);
+      if (error) throw error;
+
+      if (activeSaved?.id === saved.id) setActiveSaved(null);
+      await refreshSavedReports();
+    } catch (error) {
+      console.error('Error deleting saved report:', error);
+      alert('Failed to delete saved report. Please try again.');
+    }
+  };
+
+  return (
+    <div className="p-8 max-w-7xl mx-auto">
+      <div className="mb-8">
+        <h1 className="text-2xl font-semibold text-gray-900">Reports</h1>
+        <p className="text-sm text-gray-500 mt-1">Built-in reports over documents and stock, with your saved views</p>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+        <div className="space-y-6">
+          <div className="bg-white rounded-xl border border-gray-100 p-4">
+            <p className="text-xs font-medium text-gray-500 uppercase tracking-wider mb-3">Reports</p>
+            <div className="space-y-1">
+              {REPORTS.map((report) => (
+                <button
+                  key={report.type}
+                  onClick={() => openReport(report.type)}
+                  className={`w-full flex items-center gap-2 px-3 py-2 rounded-lg text-sm text-left transition-colors ${
+                    reportType === report.type && !activeSaved
+                      ? 'bg-gray-900 text-white'
+                      : 'text-gray-700 hover:bg-gray-50'
+                  }`}
+                >
+                  <BarChart3 className="w-4 h-4 flex-shrink-0" strokeWidth={1.5} />
+                  {report.name}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="bg-white rounded-xl border border-gray-100 p-4">
+            <p className="text-xs font-medium text-gray-500 uppercase tracking-wider mb-3">Saved Reports</p>
+            {savedReports.length === 0 ? (
+              <p className="text-sm text-gray-500">Reports you save appear here.</p>
+            ) : (
+              <div className="space-y-1">
+                {savedReports.map((saved) => (
+                  <div
+                    key={saved.id}
+                    className={`flex items-center gap-1 rounded-lg transition-colors ${
+                      activeSaved?.id === saved.id ? 'bg-gray-900 text-white' : 'text-gray-700 hover:bg-gray-50'
+                    }`}
+                  >
+                    <button
+                      onClick={() => openSavedReport(saved)}
+                      className="flex-1 min-w-0 flex items-center gap-2 px-3 py-2 text-sm text-left"
+                    >
+                      <Bookmark className="w-4 h-4 flex-shrink-0" strokeWidth={1.5} />
+                      <span className="truncate">{saved.name}</span>
+                    </button>
+                    <button
+                      onClick={() => handleDelete(saved)}
+                      className="p-2 opacity-60 hover:opacity-100"
+                      title="Delete saved report"
+                    >
+                      <Trash2 className="w-4 h-4" strokeWidth={1.5} />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="lg:col-span-3 space-y-6">
+          <div className="bg-white rounded-xl border border-gray-100 p-6">
+            <div className="flex items-start justify-between mb-6">
+              <div>
+                <h2 className="text-lg font-semibold text-gray-900">{activeSaved?.name || definition.name}</h2>
+                <p className="text-sm text-gray-500 mt-1">
+                  {activeSaved ? `${definition.name} • ` : ''}
+                  {definition.description}
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                {activeSaved && (
+                  <Button variant="secondary" size="sm" onClick={() => handleSave(false)} disabled={saving}>
+                    <Save className="w-4 h-4 mr-2" strokeWidth={1.5} />
+                    Save
+                  </Button>
+                )}
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  onClick={() => {
+                    setSaveError(null);
+                    setShowSaveModal(true);
+                  }}
+                >
+                  <Bookmark className="w-4 h-4 mr-2" strokeWidth={1.5} />
+                  {activeSaved ? 'Save As' : 'Save Report'}
+                </Button>
+              </div>
+            </div>
+
+            <ReportFiltersForm definition={definition} filters={filters} warehouses={warehouses} onChange={setFilters} />
+
+            <div className="flex items-center gap-3 mt-6">
+              <Button onClick={() => execute(reportType, filters)} disabled={running}>
+                <Play className="w-4 h-4 mr-2" strokeWidth={1.5} />
+                {running ? 'Running...' : 'Run Report'}
+              </Button>
+            </div>
+          </div>
+
+          {running && !result ? (
+            <div className="bg-white rounded-xl border border-gray-100 p-6">
+              <p className="text-sm text-gray-500">Loading report...</p>
+            </div>
+          ) : result && (
+            <>
+              <div className="bg-white rounded-xl border border-gray-100 p-6">
+                <h3 className="text-sm font-medium text-gray-900 mb-4">{result.chartTitle}</h3>
+                <BarChart data={result.chart} />
+                {result.notes.map((note) => (
+                  <p key={note} className="text-xs text-gray-500 mt-3">{note}</p>
+                ))}
+              </div>
+
+              <div className="bg-white rounded-xl border border-gray-100 overflow-hidden">
+                <div className="overflow-x-auto">
+                  <table className="w-full">
+                    <thead className="bg-gray-50 border-b border-gray-100">
+                      <tr>
+                        {result.columns.map((column) => (
+                          <th
+                            key={column.key}
+                            className={`${column.align === 'right' ? 'text-right' : 'text-left'} px-6 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider whitespace-nowrap`}
+                          >
+                            {column.label}
+                          </th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {result.rows.length === 0 ? (
+                        <tr>
+                          <td colSpan={result.columns.length} className="px-6 py-12 text-center text-sm text-gray-500">
+                            No data for these filters.
+                          </td>
+                        </tr>
+                      ) : (
+                        result.rows.map((row, index) => (
+                          <tr key={index} className="hover:bg-gray-50 transition-colors">
+                            {result.columns.map((column, columnIndex) => (
+                              <td
+                                key={column.key}
+                                className={`px-6 py-4 whitespace-nowrap text-sm ${
+                                  column.align === 'right' ? 'text-right' : 'text-left'
+                                } ${columnIndex === 0 ? 'font-medium text-gray-900' : 'text-gray-600'}`}
+                              >
+                                {row[column.key]}
+                              </td>
+                            ))}
+                          </tr>
+                        ))
+                      )}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+
+      {showSaveModal && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-xl p-6 max-w-md w-full mx-4">
+            <h3 className="text-lg font-semibold text-gray-900 mb-2">Save Report</h3>
+            <p className="text-sm text-gray-500 mb-4">
+              Saves the {definition.name} report with its current filters. Saved reports are only visible to you.
+            </p>
+            <Input
+              label="Name"
+              value={saveName}
+              onChange={(e) => setSaveName(e.target.value)}
+              placeholder="e.g. Monthly invoice spend"
+              error={saveError || undefined}
+            />
+            <div className="flex items-center gap-3 mt-6">
+              <Button onClick={() => handleSave(true)} disabled={saving}>
+                {saving ? 'Saving...' : 'Save Report'}
+              </Button>
+              <Button
+                variant="ghost"
+                onClick={() => {
+                  setShowSaveModal(false);
+                  setSaveName('');
+                  setSaveError(null);
+                }}
+              >
+                Cancel
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,546 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+  ArrowLeft,
+  Ship,
+  Plane,
+  Truck,
+  MapPin,
+  Calendar,
+  Package,
+  FileText,
+  CheckCircle,
+  Circle,
+  Link2,
+  Unlink,
+  Lock,
+} from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { Button } from '../components/ui/Button';
+import { Select } from '../components/ui/Select';
+import { Badge } from '../components/ui/Badge';
+import { ShipmentForm } from '../components/shipments/ShipmentForm';
+import { LandedCostPanel } from '../components/shipments/LandedCostPanel';
+import { Shipment, getShipmentStatusVariant } from '../lib/shipments';
+import { isApprovedStatus } from '../lib/documents';
+
+interface ShipmentDetailProps {
+  shipmentId: string;
+  onBack: () => void;
+  onViewDocument: (id: string) => void;
+}
+
+interface LinkedDocument {
+  id: string;
+  document_number: string;
+  document_type: string;
+  supplier_name: string;
+  document_value: number;
+  currency: string;
+  status: string;
+}
+
+interface TimelineItem {
+  id: string;
+  action_type: string;
+  new_status: string | null;
+  remarks: string | null;
+  created_at: string;
+  user_name: string;
+  document_number: string | null;
+}
+
+interface HistoryRow {
+  id: string;
+  action_type: string;
+  new_status: string | null;
+  remarks: string | null;
+  created_at: string;
+  document_id: string | null;
+  users_profile: { full_name: string } | null;
+}
+
+function toTimelineItem(item: HistoryRow, documentNumber: string | null): TimelineItem {
+  return {
+    id: item.id,
+    action_type: item.action_type,
+    new_status: item.new_status,
+    remarks: item.remarks,
+    created_at: item.created_at,
+    user_name: item.users_profile?.full_name || 'System',
+    document_number: documentNumber,
+  };
+}
+
+const transportIcons: Record<string, typeof Ship> = {
+  Sea: Ship,
+  Air: Plane,
+  Road: Truck,
+};
+
+export function ShipmentDetail({ shipmentId, onBack, onViewDocument }: ShipmentDetailProps) {
+  const { user, profile } = useAuth();
+  const [shipment, setShipment] = useState<Shipment | null>(null);
+  const [documents, setDocuments] = useState<LinkedDocument[]>([]);
+  const [timeline, setTimeline] = useState<TimelineItem[]>([]);
+  const [blockers, setBlockers] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [actionLoading, setActionLoading] = useState(false);
+  const [showEdit, setShowEdit] = useState(false);
+  const [showLink, setShowLink] = useState(false);
+  const [linkable, setLinkable] = useState<LinkedDocument[]>([]);
+  const [linkDocumentId, setLinkDocumentId] = useState('');
+
+  const loadShipment = useCallback(async () => {
+    try {
+      const [shipmentResult, documentsResult, blockersResult, historyResult] = await Promise.all([
+        supabase.from('shipments').select('*').eq('id', shipmentId).maybeSingle(),
+        supabase
+          .from('documents')
+          .select('id, document_number, document_type, supplier_name, document_value, currency, status')
+          .eq('shipment_id', shipmentId)
+          .order('document_date', { ascending: true }),
+        supabase.rpc('shipment_close_blockers', { p_shipment_id: shipmentId }),
+        supabase
+          .from('shipment_history')
+          .select(`
+            *,
+            users_profile!shipment_history_performed_by_fkey(full_name)
+          `)
+          .eq('shipment_id', shipmentId),
+      ]);
+
+      if (shipmentResult.error) throw shipmentResult.error;
+      if (documentsResult.error) throw documentsResult.error;
+      if (blockersResult.error) throw blockersResult.error;
+      if (historyResult.error) throw historyResult.error;
+
+      const linked: LinkedDocument[] = documentsResult.data || [];
+      const numbers = new Map(linked.map((doc) => [doc.id, doc.document_number]));
+
+      // The shipment timeline includes what happened to each linked document
+      let documentHistory: HistoryRow[] = [];
+      if (linked.length > 0) {
+        const { data, error } = await supabase
+          .from('document_history')
+          .select(`
+            *,
+            users_profile!document_history_performed_by_fkey(full_name)
+          `)
+          .in('document_id', linked.map((doc) => doc.id));
+
+        if (error) throw error;
+        // Link entries are already on the shipment's own history
+        documentHistory = (data || []).filter(
+          (item: HistoryRow) => item.action_type !== 'Linked to Shipment' && item.action_type !== 'Unlinked from Shipment'
+        );
+      }
+
+      const shipmentHistory: HistoryRow[] = historyResult.data || [];
+      const merged = [
+        ...shipmentHistory.map((item) => toTimelineItem(item, null)),
+        ...documentHistory.map((item) => toTimelineItem(item, numbers.get(item.document_id || '') || null)),
+      ].sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
+
+      setShipment(shipmentResult.data);
+      setDocuments(linked);
+      setBlockers(blockersResult.data || []);
+      setTimeline(merged);
+    } catch (error) {
+      console.error('Error loading shipment:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [shipmentId]);
+
+  useEffect(() => {
+    loadShipment();
+  }, [loadShipment]);
+
+  const openLinkModal = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('documents')
+        .select('id, document_number, document_type, supplier_name, document_value, currency, status')
+        .is('shipment_id', null)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      setLinkable(data || []);
+      setLinkDocumentId('');
+      setShowLink(true);
+    } catch (error) {
+      console.error('Error loading documents:', error);
+      alert('Failed to load documents. Please try again.');
+    }
+  };
+
+  const handleLink = async () => {
+    if (!linkDocumentId) return;
+    setActionLoading(true);
+
+    try {
+      const { error } = await supabase.rpc('link_shipment_document', {
+        p_shipment_id: shipmentId,
+        p_document_id: linkDocumentId,
+      });
+
+      if (error) throw error;
+
+      setShowLink(false);
+      await loadShipment();
+    } catch (error) {
+      console.error('Error linking document:', error);
+      alert('Failed to link document. Please try again.');
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  const handleUnlink = async (doc: LinkedDocument) => {
+    if (!confirm(`Remove ${doc.document_number} from this shipment?`)) return;
+    setActionLoading(true);
+
+    try {
+      const { error } = await supabase.rpc('unlink_shipment_document', {
+        p_document_id: doc.id,
+      });
+
+      if (error) throw error;
+      await loadShipment();
+    } catch (error) {
+      console.error('Error unlinking document:', error);
+      alert('Failed to unlink document. Please try again.');
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  const handleClose = async () => {
+    if (!shipment) return;
+    if (!confirm(`Close shipment ${shipment.shipment_number}? Closed shipments can no longer be changed.`)) return;
+    setActionLoading(true);
+
+    try {
+      // Re-checks the linked documents before closing
+      const { error } = await supabase.rpc('close_shipment', {
+        p_shipment_id: shipmentId,
+      });
+
+      if (error) throw error;
+      await loadShipment();
+    } catch (error) {
+      console.error('Error closing shipment:', error);
+      alert('Failed to close shipment. Please try again.');
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  const getStatusBadge = (status: string) => {
+    const variants: Record<string, 'success' | 'warning' | 'danger' | 'info' | 'neutral'> = {
+      Draft: 'neutral',
+      Pending: 'warning',
+      Approved: 'success',
+      'Partially Received': 'info',
+      Rejected: 'danger',
+      Closed: 'info',
+    };
+    return <Badge variant={variants[status] || 'neutral'}>{status}</Badge>;
+  };
+
+  if (loading || !shipment) {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <p className="text-gray-500">Loading shipment...</p>
+      </div>
+    );
+  }
+
+  const isClosed = shipment.status === 'Closed';
+  const canManage = !isClosed && (shipment.created_by === user?.id || profile?.role === 'Admin');
+  const TransportIcon = transportIcons[shipment.transport_mode] || Ship;
+
+  return (
+    <div className="p-8 max-w-5xl mx-auto">
+      <button
+        onClick={onBack}
+        className="flex items-center gap-2 text-sm text-gray-600 hover:text-gray-900 mb-6 transition-colors"
+      >
+        <ArrowLeft className="w-4 h-4" strokeWidth={1.5} />
+        Back to Shipments
+      </button>
+
+      <div className="bg-white rounded-xl border border-gray-100 p-8 mb-6">
+        <div className="flex items-start justify-between mb-6">
+          <div className="flex items-center gap-4">
+            <div className="p-3 bg-gray-50 rounded-lg">
+              <TransportIcon className="w-6 h-6 text-gray-700" strokeWidth={1.5} />
+            </div>
+            <div>
+              <h1 className="text-2xl font-semibold text-gray-900">{shipment.shipment_number}</h1>
+              <p className="text-sm text-gray-500 mt-1">
+                {shipment.supplier_name || 'No supplier'} • {shipment.transport_mode}
+                {shipment.incoterm && ` • ${shipment.incoterm}`}
+              </p>
+            </div>
+          </div>
+          <Badge variant={getShipmentStatusVariant(shipment.status)}>{shipment.status}</Badge>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
+          <div className="space-y-4">
+            <div className="flex items-start gap-3">
+              <TransportIcon className="w-4 h-4 text-gray-400 mt-0.5" strokeWidth={1.5} />
+              <div>
+                <p className="text-xs text-gray-500">{shipment.transport_mode === 'Air' ? 'Flight' : 'Vessel / Voyage'}</p>
+                <p className="text-sm font-medium text-gray-900">{shipment.vessel_or_flight || 'Not set'}</p>
+              </div>
+            </div>
+
+            <div className="flex items-start gap-3">
+              <MapPin className="w-4 h-4 text-gray-400 mt-0.5" strokeWidth={1.5} />
+              <div>
+                <p className="text-xs text-gray-500">Route</p>
+                <p className="text-sm font-medium text-gray-900">
+                  {shipment.port_of_loading || '?'} → {shipment.port_of_discharge || '?'}
+                </p>
+              </div>
+            </div>
+
+            <div className="flex items-start gap-3">
+              <Package className="w-4 h-4 text-gray-400 mt-0.5" strokeWidth={1.5} />
+              <div>
+                <p className="text-xs text-gray-500">Containers</p>
+                <p className="text-sm font-medium text-gray-900">
+                  {shipment.container_numbers.length > 0 ? shipment.container_numbers.join(', ') : 'None'}
+                </p>
+              </div>
+            </div>
+          </div>
+
+          <div className="space-y-4">
+            <div className="flex items-start gap-3">
+              <Calendar className="w-4 h-4 text-gray-400 mt-0.5" strokeWidth={1.5} />
+              <div>
+                <p className="text-xs text-gray-500">ETD</p>
+                <p className="text-sm font-medium text-gray-900">
+                  {shipment.etd ? new Date(shipment.etd).toLocaleDateString() : 'Not set'}
+                </p>
+              </div>
+            </div>
+
+            <div className="flex items-start gap-3">
+              <Calendar className="w-4 h-4 text-gray-400 mt-0.5" strokeWidth={1.5} />
+              <div>
+                <p className="text-xs text-gray-500">ETA</p>
+                <p className="text-sm font-medium text-gray-900">
+                  {shipment.eta ? new Date(shipment.eta).toLocaleDateString() : 'Not set'}
+                </p>
+              </div>
+            </div>
+
+            {shipment.closed_at && (
+              <div className="flex items-start gap-3">
+                <Lock className="w-4 h-4 text-gray-400 mt-0.5" strokeWidth={1.5} />
+                <div>
+                  <p className="text-xs text-gray-500">Closed</p>
+                  <p className="text-sm font-medium text-gray-900">
+                    {new Date(shipment.closed_at).toLocaleDateString()}
+                  </p>
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+
+        {shipment.remarks && (
+          <div className="p-4 bg-gray-50 rounded-lg mb-6">
+            <p className="text-xs text-gray-500 mb-1">Remarks</p>
+            <p className="text-sm text-gray-700">{shipment.remarks}</p>
+          </div>
+        )}
+
+        {canManage && blockers.length > 0 && (
+          <div className="p-4 bg-yellow-50 border border-yellow-100 rounded-lg mb-6">
+            <p className="text-xs text-yellow-800 font-medium mb-1">Not Ready to Close</p>
+            {blockers.map((blocker) => (
+              <p key={blocker} className="text-sm text-yellow-700">{blocker}</p>
+            ))}
+          </div>
+        )}
+
+        {canManage && (
+          <div className="flex items-center gap-3 pt-6 border-t border-gray-100">
+            <Button onClick={handleClose} disabled={actionLoading || blockers.length > 0}>
+              <Lock className="w-4 h-4 mr-2" strokeWidth={1.5} />
+              Close Shipment
+            </Button>
+            <Button variant="secondary" onClick={() => setShowEdit(true)}>Edit Shipment</Button>
+          </div>
+        )}
+      </div>
+
+      <div className="bg-white rounded-xl border border-gray-100 p-8 mb-6">
+        <h2 className="text-lg font-semibold text-gray-900 mb-6">Required Documents</h2>
+        {shipment.required_document_types.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-4">No documents are required to close this shipment</p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            {shipment.required_document_types.map((type) => {
+              const ofType = documents.filter((doc) => doc.document_type === type);
+              const done = ofType.length > 0 && ofType.every((doc) => isApprovedStatus(doc.status));
+              return (
+                <div key={type} className="flex items-start gap-3 p-3 rounded-lg border border-gray-100">
+                  {done ? (
+                    <CheckCircle className="w-4 h-4 text-green-600 mt-0.5" strokeWidth={1.5} />
+                  ) : (
+                    <Circle className="w-4 h-4 text-gray-400 mt-0.5" strokeWidth={1.5} />
+                  )}
+                  <div>
+                    <p className="text-sm font-medium text-gray-900">{type}</p>
+                    <p className="text-xs text-gray-500">
+                      {ofType.length === 0
+                        ? 'Not linked'
+                        : ofType.map((doc) => `${doc.document_number} (${doc.status})`).join(', ')}
+                    </p>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      <div className="bg-white rounded-xl border border-gray-100 p-8 mb-6">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-lg font-semibold text-gray-900">Documents</h2>
+          {canManage && (
+            <Button variant="secondary" size="sm" onClick={openLinkModal}>
+              <Link2 className="w-4 h-4 mr-2" strokeWidth={1.5} />
+              Link Document
+            </Button>
+          )}
+        </div>
+        {documents.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-4">No documents linked yet</p>
+        ) : (
+          <div className="space-y-3">
+            {documents.map((doc) => (
+              <div
+                key={doc.id}
+                className="flex items-center justify-between p-4 rounded-lg border border-gray-100 hover:bg-gray-50 transition-colors"
+              >
+                <button onClick={() => onViewDocument(doc.id)} className="flex-1 flex items-center gap-3 text-left">
+                  <FileText className="w-4 h-4 text-gray-400" strokeWidth={1.5} />
+                  <div>
+                    <div className="flex items-center gap-3">
+                      <p className="text-sm font-medium text-gray-900">{doc.document_number}</p>
+                      {getStatusBadge(doc.status)}
+                    </div>
+                    <p className="text-xs text-gray-500 mt-1">{doc.document_type} • {doc.supplier_name}</p>
+                  </div>
+                </button>
+                <div className="flex items-center gap-3">
+                  <p className="text-sm font-medium text-gray-900">
+                    {doc.currency} {doc.document_value.toLocaleString()}
+                  </p>
+                  {canManage && (
+                    <Button variant="ghost" size="sm" onClick={() => handleUnlink(doc)} disabled={actionLoading}>
+                      <Unlink className="w-4 h-4" strokeWidth={1.5} />
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="bg-white rounded-xl border border-gray-100 p-8 mb-6">
+        <h2 className="text-lg font-semibold text-gray-900 mb-6">Landed Costs</h2>
+        <LandedCostPanel
+          shipmentId={shipment.id}
+          canAllocate={!isClosed && (profile?.role === 'Finance' || profile?.role === 'Admin')}
+          onAllocated={loadShipment}
+        />
+      </div>
+
+      <div className="bg-white rounded-xl border border-gray-100 p-8">
+        <h2 className="text-lg font-semibold text-gray-900 mb-6">Shipment Timeline</h2>
+        <div className="space-y-4">
+          {timeline.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-4">No history available</p>
+          ) : (
+            timeline.map((item, index) => (
+              <div key={item.id} className="flex gap-4">
+                <div className="flex flex-col items-center">
+                  <div className={`w-2 h-2 rounded-full ${item.document_number ? 'bg-gray-400' : 'bg-gray-900'}`} />
+                  {index < timeline.length - 1 && <div className="w-0.5 h-full bg-gray-200 my-1" />}
+                </div>
+                <div className="flex-1 pb-6">
+                  <div className="flex items-center gap-2 mb-1">
+                    {item.document_number && (
+                      <span className="text-xs font-medium text-gray-500">{item.document_number}</span>
+                    )}
+                    <p className="text-sm font-medium text-gray-900">{item.action_type}</p>
+                    {item.new_status && (
+                      <span className="text-xs text-gray-500">
+                        → {item.new_status}
+                      </span>
+                    )}
+                  </div>
+                  <p className="text-xs text-gray-500 mb-1">
+                    {item.user_name} • {new Date(item.created_at).toLocaleString()}
+                  </p>
+                  {item.remarks && (
+                    <p className="text-sm text-gray-600 mt-2">{item.remarks}</p>
+                  )}
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+
+      {showEdit && (
+        <ShipmentForm
+          shipment={shipment}
+          onClose={() => setShowEdit(false)}
+          onSaved={() => {
+            setShowEdit(false);
+            loadShipment();
+          }}
+        />
+      )}
+
+      {showLink && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-xl p-6 max-w-md w-full mx-4">
+            <h3 className="text-lg font-semibold text-gray-900 mb-2">Link Document</h3>
+            <p className="text-sm text-gray-500 mb-4">Documents that are not on another shipment</p>
+            <Select
+              value={linkDocumentId}
+              onChange={(e) => setLinkDocumentId(e.target.value)}
+              options={[
+                { value: '', label: linkable.length === 0 ? 'No documents available' : 'Select document...' },
+                ...linkable.map((doc) => ({
+                  value: doc.id,
+                  label: `${doc.document_number} — ${doc.document_type} (${doc.status})`,
+                })),
+              ]}
+            />
+            <div className="flex items-center gap-3 mt-4">
+              <Button onClick={handleLink} disabled={actionLoading || !linkDocumentId}>
+                Link Document
+              </Button>
+              <Button variant="ghost" onClick={() => setShowLink(false)}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
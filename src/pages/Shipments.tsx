@@ -0,0 +1,206 @@
+import { useEffect, useState } from 'react';
+import { Search, Plus } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { Button } from '../components/ui/Button';
+import { Input } from '../components/ui/Input';
+import { Select } from '../components/ui/Select';
+import { Badge } from '../components/ui/Badge';
+import { ShipmentForm } from '../components/shipments/ShipmentForm';
+import { isApprovedStatus } from '../lib/documents';
+import { SHIPMENT_STATUSES, Shipment, getShipmentStatusVariant } from '../lib/shipments';
+
+interface ShipmentRow extends Shipment {
+  document_count: number;
+  approved_count: number;
+}
+
+interface ShipmentsProps {
+  onViewShipment: (id: string) => void;
+}
+
+export function Shipments({ onViewShipment }: ShipmentsProps) {
+  const [shipments, setShipments] = useState<ShipmentRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [statusFilter, setStatusFilter] = useState('all');
+  const [showForm, setShowForm] = useState(false);
+
+  useEffect(() => {
+    loadShipments();
+  }, []);
+
+  const loadShipments = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('shipments')
+        .select(`
+          *,
+          documents(id, status)
+        `)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+
+      const shipmentsWithCounts = data?.map((shipment) => ({
+        ...shipment,
+        document_count: shipment.documents?.length || 0,
+        approved_count: shipment.documents?.filter((d: { status: string }) => isApprovedStatus(d.status)).length || 0,
+      })) || [];
+
+      setShipments(shipmentsWithCounts);
+    } catch (error) {
+      console.error('Error loading shipments:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const search = searchTerm.toLowerCase();
+  const filteredShipments = shipments.filter(
+    (shipment) =>
+      (statusFilter === 'all' || shipment.status === statusFilter) &&
+      (!search ||
+        shipment.shipment_number.toLowerCase().includes(search) ||
+        shipment.supplier_name?.toLowerCase().includes(search) ||
+        shipment.vessel_or_flight?.toLowerCase().includes(search) ||
+        shipment.container_numbers.some((container) => container.toLowerCase().includes(search)))
+  );
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <p className="text-gray-500">Loading shipments...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-8 max-w-7xl mx-auto">
+      <div className="flex items-center justify-between mb-8">
+        <div>
+          <h1 className="text-2xl font-semibold text-gray-900">Shipments</h1>
+          <p className="text-sm text-gray-500 mt-1">Import shipments and the documents that belong to them</p>
+        </div>
+        <Button onClick={() => setShowForm(true)}>
+          <Plus className="w-4 h-4 mr-2" strokeWidth={1.5} />
+          New Shipment
+        </Button>
+      </div>
+
+      <div className="bg-white rounded-xl border border-gray-100 p-6 mb-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+          <div className="md:col-span-2 relative">
+            <Search className="absolute left-3 bottom-2.5 w-4 h-4 text-gray-400" strokeWidth={1.5} />
+            <Input
+              placeholder="Search by shipment, supplier, vessel or container..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="pl-10"
+            />
+          </div>
+          <Select
+            label="Status"
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value)}
+            options={[
+              { value: 'all', label: 'All Statuses' },
+              ...[...SHIPMENT_STATUSES, 'Closed'].map((status) => ({ value: status, label: status })),
+            ]}
+          />
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl border border-gray-100 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b border-gray-100">
+              <tr>
+                <th className="text-left px-6 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Shipment
+                </th>
+                <th className="text-left px-6 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Transport
+                </th>
+                <th className="text-left px-6 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Route
+                </th>
+                <th className="text-left px-6 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  ETD / ETA
+                </th>
+                <th className="text-left px-6 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Documents
+                </th>
+                <th className="text-left px-6 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Status
+                </th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {filteredShipments.length === 0 ? (
+                <tr>
+                  <td colSpan={6} className="px-6 py-12 text-center text-sm text-gray-500">
+                    No shipments found. Try adjusting your filters or create a new shipment.
+                  </td>
+                </tr>
+              ) : (
+                filteredShipments.map((shipment) => (
+                  <tr
+                    key={shipment.id}
+                    onClick={() => onViewShipment(shipment.id)}
+                    className="hover:bg-gray-50 cursor-pointer transition-colors"
+                  >
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <p className="text-sm font-medium text-gray-900">{shipment.shipment_number}</p>
+                      <p className="text-xs text-gray-500">{shipment.supplier_name || '-'}</p>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <p className="text-sm text-gray-900">{shipment.vessel_or_flight || shipment.transport_mode}</p>
+                      <p className="text-xs text-gray-500">
+                        {shipment.transport_mode}
+                        {shipment.container_numbers.length > 0 && ` • ${shipment.container_numbers.length} container(s)`}
+                      </p>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <p className="text-sm text-gray-600">
+                        {shipment.port_of_loading || '?'} → {shipment.port_of_discharge || '?'}
+                      </p>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <p className="text-sm text-gray-600">
+                        {shipment.etd ? new Date(shipment.etd).toLocaleDateString() : '-'}
+                        {' / '}
+                        {shipment.eta ? new Date(shipment.eta).toLocaleDateString() : '-'}
+                      </p>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <p className="text-sm text-gray-900">
+                        {shipment.approved_count} of {shipment.document_count} approved
+                      </p>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <Badge variant={getShipmentStatusVariant(shipment.status)}>{shipment.status}</Badge>
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div className="mt-4 flex items-center justify-between text-sm text-gray-500">
+        <p>Showing {filteredShipments.length} of {shipments.length} shipments</p>
+      </div>
+
+      {showForm && (
+        <ShipmentForm
+          onClose={() => setShowForm(false)}
+          onSaved={(id) => {
+            setShowForm(false);
+            onViewShipment(id);
+          }}
+        />
+      )}
+    </div>
+  );
+}
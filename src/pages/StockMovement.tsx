@@ -1,7 +1,16 @@
 import { useEffect, useState } from 'react';
-import { ArrowUpCircle, ArrowDownCircle, RefreshCw, FileText } from 'lucide-react';
+import { ArrowUpCircle, ArrowDownCircle, ArrowLeftRight, RefreshCw, FileText, Plus } from 'lucide-react';
 import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { canRecordStockMovements } from '../lib/stock';
+import { DEFAULT_BASE_CURRENCY, loadBaseCurrency } from '../lib/currency';
 import { Badge } from '../components/ui/Badge';
+import { Button } from '../components/ui/Button';
+import { ExportMenu } from '../components/ui/ExportMenu';
+import { StockMovementForm } from '../components/stock/StockMovementForm';
+import { ExportColumn, ExportFormat, exportFileName, exportRows } from '../lib/exports';
+
+const PAGE_SIZE = 50;
 
 interface StockMovement {
   id: string;
@@ -9,6 +18,8 @@ interface StockMovement {
   warehouse_id: string;
   movement_type: string;
   quantity: number;
+  entered_quantity: number | null;
+  entered_unit: string | null;
   unit_cost: number | null;
   source_document_id: string | null;
   reference_number: string | null;
@@ -16,30 +27,82 @@ interface StockMovement {
   movement_date: string;
   product_name?: string;
   product_sku?: string;
+  product_unit?: string;
   warehouse_name?: string;
   document_number?: string;
+  transfer_id: string | null;
+  transfer?: {
+    transfer_number: string;
+    status: string;
+    from_warehouse_name: string;
+    to_warehouse_name: string;
+  } | null;
+}
+
+interface StockMovementExportRow {
+  movement_type: string;
+  quantity: number;
+  entered_quantity: number | null;
+  entered_unit: string | null;
+  unit_cost: number | null;
+  reference_number: string | null;
+  remarks: string | null;
+  movement_date: string;
+  products: { name: string; sku: string; unit_of_measure: string } | null;
+  warehouses: { name: string } | null;
+  documents: { document_number: string } | null;
+  stock_movement_costs: { unit_cost: number } | null;
+  stock_transfers: { transfer_number: string } | null;
+}
+
+// Both legs of a transfer share a transfer_id; show them as a single entry.
+function collapseTransfers(rows: StockMovement[]) {
+  const seen = new Set<string>();
+  return rows.filter((row) => {
+    if (!row.transfer_id) return true;
+    if (seen.has(row.transfer_id)) return false;
+    seen.add(row.transfer_id);
+    return true;
+  });
 }
 
 export function StockMovement() {
+  const { profile } = useAuth();
   const [movements, setMovements] = useState<StockMovement[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [loadedCount, setLoadedCount] = useState(0);
   const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [showForm, setShowForm] = useState(false);
+  const [receivingId, setReceivingId] = useState<string | null>(null);
+  const [baseCurrency, setBaseCurrency] = useState(DEFAULT_BASE_CURRENCY);
 
   useEffect(() => {
     loadMovements();
+    loadBaseCurrency()
+      .then(setBaseCurrency)
+      .catch((error) => console.error('Error loading base currency:', error));
   }, []);
 
-  const loadMovements = async () => {
+  const loadMovements = async (offset = 0) => {
     try {
-      const { data, error } = await supabase
+      const { data, error, count } = await supabase
         .from('stock_movements')
         .select(`
           *,
-          products(name, sku),
+          products(name, sku, unit_of_measure),
           warehouses(name),
-          documents(document_number)
-        `)
+          documents(document_number),
+          stock_movement_costs(unit_cost),
+          stock_transfers(
+            transfer_number,
+            status,
+            from_warehouse:warehouses!stock_transfers_from_warehouse_id_fkey(name),
+            to_warehouse:warehouses!stock_transfers_to_warehouse_id_fkey(name)
+          )
+        `, { count: 'exact' })
         .order('movement_date', { ascending: false })
-        .limit(50);
+        .range(offset, offset + PAGE_SIZE - 1);
 
       if (error) throw error;
 
@@ -47,11 +110,24 @@ export function StockMovement() {
         ...movement,
         product_name: movement.products?.name || 'Unknown',
         product_sku: movement.products?.sku || 'N/A',
+        product_unit: movement.products?.unit_of_measure,
         warehouse_name: movement.warehouses?.name || 'Unknown',
         document_number: movement.documents?.document_number || null,
+        // Valued in base currency; issues carry the cost the valuation method assigned
+        unit_cost: movement.stock_movement_costs?.unit_cost ?? movement.unit_cost,
+        transfer: movement.stock_transfers
+          ? {
+              transfer_number: movement.stock_transfers.transfer_number,
+              status: movement.stock_transfers.status,
+              from_warehouse_name: movement.stock_transfers.from_warehouse?.name || 'Unknown',
+              to_warehouse_name: movement.stock_transfers.to_warehouse?.name || 'Unknown',
+            }
+          : null,
       })) || [];
 
-      setMovements(movementsWithDetails);
+      setMovements((prev) => collapseTransfers(offset === 0 ? movementsWithDetails : [...prev, ...movementsWithDetails]));
+      setLoadedCount(offset + (data?.length || 0));
+      setTotalCount(count || 0);
     } catch (error) {
       console.error('Error loading movements:', error);
     } finally {
@@ -59,6 +135,84 @@ export function StockMovement() {
     }
   };
 
+  const handleReceiveTransfer = async (transferId: string) => {
+    setReceivingId(transferId);
+
+    try {
+      const { error } = await supabase.rpc('receive_stock_transfer', { p_transfer_id: transferId });
+      if (error) throw error;
+      await loadMovements();
+    } catch (error) {
+      console.error('Error receiving transfer:', error);
+      alert('Failed to receive transfer. Please try again.');
+    } finally {
+      setReceivingId(null);
+    }
+  };
+
+  const handleLoadMore = async () => {
+    setLoadingMore(true);
+    await loadMovements(loadedCount);
+    setLoadingMore(false);
+  };
+
+  // Unlike the list, both legs of a transfer are exported since each moves stock in its own warehouse
+  const handleExport = (format: ExportFormat, onProgress: (rowsExported: number) => void) => {
+    const columns: ExportColumn<StockMovementExportRow>[] = [
+      { header: 'Date', type: 'datetime', value: (movement) => movement.movement_date },
+      { header: 'Type', type: 'string', value: (movement) => movement.movement_type },
+      { header: 'SKU', type: 'string', value: (movement) => movement.products?.sku },
+      { header: 'Product', type: 'string', value: (movement) => movement.products?.name },
+      { header: 'Warehouse', type: 'string', value: (movement) => movement.warehouses?.name },
+      { header: 'Quantity', type: 'number', value: (movement) => movement.quantity },
+      { header: 'Unit', type: 'string', value: (movement) => movement.products?.unit_of_measure },
+      { header: 'Entered Quantity', type: 'number', value: (movement) => movement.entered_quantity },
+      { header: 'Entered Unit', type: 'string', value: (movement) => movement.entered_unit },
+      {
+        header: `Unit Cost (${baseCurrency})`,
+        type: 'number',
+        value: (movement) => movement.stock_movement_costs?.unit_cost ?? movement.unit_cost,
+      },
+      { header: 'Document', type: 'string', value: (movement) => movement.documents?.document_number },
+      { header: 'Transfer', type: 'string', value: (movement) => movement.stock_transfers?.transfer_number },
+      { header: 'Reference', type: 'string', value: (movement) => movement.reference_number },
+      { header: 'Remarks', type: 'string', value: (movement) => movement.remarks },
+    ];
+
+    return exportRows({
+      fileName: exportFileName('stock-movements'),
+      sheetName: 'Stock Movements',
+      format,
+      columns,
+      onProgress,
+      fetchPage: async (from, to) => {
+        const { data, error } = await supabase
+          .from('stock_movements')
+          .select(`
+            movement_type,
+            quantity,
+            entered_quantity,
+            entered_unit,
+            unit_cost,
+            reference_number,
+            remarks,
+            movement_date,
+            products(name, sku, unit_of_measure),
+            warehouses(name),
+            documents(document_number),
+            stock_movement_costs(unit_cost),
+            stock_transfers(transfer_number)
+          `)
+          .order('movement_date', { ascending: false })
+          .order('id', { ascending: true })
+          .range(from, to);
+
+        if (error) throw error;
+        return (data || []) as unknown as StockMovementExportRow[];
+      },
+    });
+  };
+
   const getMovementIcon = (type: string) => {
     switch (type) {
       case 'IN':
@@ -67,16 +221,19 @@ export function StockMovement() {
         return <ArrowDownCircle className="w-5 h-5 text-red-600" strokeWidth={1.5} />;
       case 'ADJUST':
         return <RefreshCw className="w-5 h-5 text-blue-600" strokeWidth={1.5} />;
+      case 'TRANSFER':
+        return <ArrowLeftRight className="w-5 h-5 text-gray-600" strokeWidth={1.5} />;
       default:
         return null;
     }
   };
 
   const getMovementBadge = (type: string) => {
-    const variants: Record<string, 'success' | 'danger' | 'info'> = {
+    const variants: Record<string, 'success' | 'danger' | 'info' | 'neutral'> = {
       IN: 'success',
       OUT: 'danger',
       ADJUST: 'info',
+      TRANSFER: 'neutral',
     };
     return <Badge variant={variants[type] || 'neutral'}>{type}</Badge>;
   };
@@ -91,9 +248,20 @@ export function StockMovement() {
 
   return (
     <div className="p-8 max-w-7xl mx-auto">
-      <div className="mb-8">
-        <h1 className="text-2xl font-semibold text-gray-900">Stock Movements</h1>
-        <p className="text-sm text-gray-500 mt-1">Track all inventory transactions and adjustments</p>
+      <div className="flex items-center justify-between mb-8">
+        <div>
+          <h1 className="text-2xl font-semibold text-gray-900">Stock Movements</h1>
+          <p className="text-sm text-gray-500 mt-1">Track all inventory transactions and adjustments</p>
+        </div>
+        <div className="flex items-center gap-3">
+          <ExportMenu label="movements" onExport={handleExport} />
+          {canRecordStockMovements(profile?.role) && (
+            <Button onClick={() => setShowForm(true)}>
+              <Plus className="w-4 h-4 mr-2" strokeWidth={1.5} />
+              Record Movement
+            </Button>
+          )}
+        </div>
       </div>
 
       <div className="bg-white rounded-xl border border-gray-100 overflow-hidden">
@@ -136,8 +304,8 @@ export function StockMovement() {
                   <tr key={movement.id} className="hover:bg-gray-50 transition-colors">
                     <td className="px-6 py-4 whitespace-nowrap">
                       <div className="flex items-center gap-2">
-                        {getMovementIcon(movement.movement_type)}
-                        {getMovementBadge(movement.movement_type)}
+                        {getMovementIcon(movement.transfer ? 'TRANSFER' : movement.movement_type)}
+                        {getMovementBadge(movement.transfer ? 'TRANSFER' : movement.movement_type)}
                       </div>
                     </td>
                     <td className="px-6 py-4">
@@ -147,27 +315,55 @@ export function StockMovement() {
                       </div>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
-                      <p className="text-sm text-gray-600">{movement.warehouse_name}</p>
+                      <p className="text-sm text-gray-600">
+                        {movement.transfer
+                          ? `${movement.transfer.from_warehouse_name} → ${movement.transfer.to_warehouse_name}`
+                          : movement.warehouse_name}
+                      </p>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
                       <p className={`text-sm font-medium ${
-                        movement.movement_type === 'IN'
+                        movement.transfer
+                          ? 'text-gray-900'
+                          : movement.movement_type === 'IN'
                           ? 'text-green-600'
                           : movement.movement_type === 'OUT'
                           ? 'text-red-600'
                           : 'text-blue-600'
                       }`}>
-                        {movement.movement_type === 'IN' ? '+' : movement.movement_type === 'OUT' ? '-' : ''}
-                        {movement.quantity.toLocaleString()}
+                        {!movement.transfer && (movement.movement_type === 'IN' ? '+' : movement.movement_type === 'OUT' ? '-' : '')}
+                        {movement.quantity.toLocaleString()} {movement.product_unit}
                       </p>
+                      {movement.entered_unit && movement.entered_unit !== movement.product_unit && (
+                        <p className="text-xs text-gray-500">
+                          Entered as {movement.entered_quantity?.toLocaleString()} {movement.entered_unit}
+                        </p>
+                      )}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
                       <p className="text-sm text-gray-600">
-                        {movement.unit_cost ? `$${movement.unit_cost.toFixed(2)}` : '-'}
+                        {movement.unit_cost ? `${baseCurrency} ${movement.unit_cost.toFixed(2)}` : '-'}
                       </p>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
-                      {movement.document_number ? (
+                      {movement.transfer ? (
+                        <div className="flex items-center gap-2">
+                          <p className="text-sm text-gray-900">{movement.transfer.transfer_number}</p>
+                          <Badge variant={movement.transfer.status === 'Received' ? 'success' : 'warning'}>
+                            {movement.transfer.status}
+                          </Badge>
+                          {movement.transfer.status === 'In Transit' && canRecordStockMovements(profile?.role) && (
+                            <Button
+                              size="sm"
+                              variant="secondary"
+                              onClick={() => handleReceiveTransfer(movement.transfer_id as string)}
+                              disabled={receivingId === movement.transfer_id}
+                            >
+                              {receivingId === movement.transfer_id ? 'Receiving...' : 'Receive'}
+                            </Button>
+                          )}
+                        </div>
+                      ) : movement.document_number ? (
                         <div className="flex items-center gap-2">
                           <FileText className="w-4 h-4 text-gray-400" strokeWidth={1.5} />
                           <p className="text-sm text-gray-900">{movement.document_number}</p>
@@ -190,8 +386,23 @@ export function StockMovement() {
       </div>
 
       <div className="mt-4 flex items-center justify-between text-sm text-gray-500">
-        <p>Showing {movements.length} movements</p>
+        <p>Showing {loadedCount} of {totalCount} movements</p>
+        {loadedCount < totalCount && (
+          <Button variant="secondary" size="sm" onClick={handleLoadMore} disabled={loadingMore}>
+            {loadingMore ? 'Loading...' : 'Load More'}
+          </Button>
+        )}
       </div>
+
+      {showForm && (
+        <StockMovementForm
+          onClose={() => setShowForm(false)}
+          onSaved={() => {
+            setShowForm(false);
+            loadMovements();
+          }}
+        />
+      )}
     </div>
   );
 }
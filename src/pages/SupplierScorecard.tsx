@@ -0,0 +1,256 @@
+import { useEffect, useState } from 'react';
+import { Trophy } from 'lucide-react';
+import { Select } from '../components/ui/Select';
+import { Sparkline } from '../components/ui/Sparkline';
+import { Supplier, loadSuppliers } from '../lib/suppliers';
+import {
+  SupplierApprovalCycle,
+  SupplierDelivery,
+  computeMetrics,
+  formatCycleTime,
+  formatRate,
+  loadScorecardData,
+  monthlyMetrics,
+  rankSuppliers,
+  recentMonths,
+} from '../lib/supplierScorecard';
+
+const PERIOD_OPTIONS = [
+  { value: '3', label: 'Last 3 months' },
+  { value: '6', label: 'Last 6 months' },
+  { value: '12', label: 'Last 12 months' },
+];
+
+export function SupplierScorecard() {
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [cycles, setCycles] = useState<SupplierApprovalCycle[]>([]);
+  const [deliveries, setDeliveries] = useState<SupplierDelivery[]>([]);
+  const [period, setPeriod] = useState('6');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const months = recentMonths(Number(period));
+
+  useEffect(() => {
+    const loadScorecard = async () => {
+      setLoading(true);
+      try {
+        const since = `${recentMonths(Number(period))[0]}-01`;
+        const [supplierList, data] = await Promise.all([loadSuppliers(), loadScorecardData(since)]);
+        setSuppliers(supplierList);
+        setCycles(data.cycles);
+        setDeliveries(data.deliveries);
+      } catch (error) {
+        console.error('Error loading supplier scorecard:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadScorecard();
+  }, [period]);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <p className="text-gray-500">Loading supplier scorecard...</p>
+      </div>
+    );
+  }
+
+  const ranking = rankSuppliers(
+    suppliers.map((supplier) => supplier.id),
+    cycles,
+    deliveries
+  ).filter((entry) => entry.score !== null);
+  const supplierById = new Map(suppliers.map((supplier) => [supplier.id, supplier]));
+
+  const selected = ranking.find((entry) => entry.supplierId === selectedId) || ranking[0];
+  const selectedSupplier = selected ? supplierById.get(selected.supplierId) : undefined;
+  const trend = selected
+    ? monthlyMetrics(
+        cycles.filter((cycle) => cycle.supplier_id === selected.supplierId),
+        deliveries.filter((delivery) => delivery.supplier_id === selected.supplierId),
+        months
+      )
+    : [];
+  const overall = computeMetrics(cycles, deliveries);
+
+  const trendCards = [
+    {
+      label: 'On-Time Delivery',
+      value: formatRate(selected?.metrics.onTimeRate ?? null),
+      detail: `${selected?.metrics.deliveries || 0} deliveries with an ETA`,
+      values: trend.map((t) => t.metrics.onTimeRate),
+    },
+    {
+      label: 'Quantity Variance',
+      value: formatRate(selected?.metrics.quantityVarianceRate ?? null),
+      detail: 'Goods receipt against PO quantity',
+      values: trend.map((t) => t.metrics.quantityVarianceRate),
+    },
+    {
+      label: 'Rejection Rate',
+      value: formatRate(selected?.metrics.rejectionRate ?? null),
+      detail: `${selected?.metrics.decisions || 0} approval decisions`,
+      values: trend.map((t) => t.metrics.rejectionRate),
+    },
+    {
+      label: 'Avg Approval Cycle',
+      value: formatCycleTime(selected?.metrics.avgCycleHours ?? null),
+      detail: 'Submission to decision',
+      values: trend.map((t) => t.metrics.avgCycleHours),
+    },
+  ];
+
+  return (
+    <div className="p-8 max-w-7xl mx-auto">
+      <div className="flex items-center justify-between mb-8">
+        <div>
+          <h1 className="text-2xl font-semibold text-gray-900">Supplier Scorecard</h1>
+          <p className="text-sm text-gray-500 mt-1">
+            Delivery, quantity accuracy and approval performance from the document trail
+          </p>
+        </div>
+        <div className="w-48">
+          <Select value={period} onChange={(e) => setPeriod(e.target.value)} options={PERIOD_OPTIONS} />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-8">
+        <div className="bg-white rounded-xl border border-gray-100 p-6">
+          <p className="text-sm text-gray-500">On-Time Delivery</p>
+          <p className="text-2xl font-semibold text-gray-900 mt-1">{formatRate(overall.onTimeRate)}</p>
+          <p className="text-xs text-gray-500 mt-1">All suppliers</p>
+        </div>
+        <div className="bg-white rounded-xl border border-gray-100 p-6">
+          <p className="text-sm text-gray-500">Quantity Variance</p>
+          <p className="text-2xl font-semibold text-gray-900 mt-1">{formatRate(overall.quantityVarianceRate)}</p>
+          <p className="text-xs text-gray-500 mt-1">All suppliers</p>
+        </div>
+        <div className="bg-white rounded-xl border border-gray-100 p-6">
+          <p className="text-sm text-gray-500">Rejection Rate</p>
+          <p className="text-2xl font-semibold text-gray-900 mt-1">{formatRate(overall.rejectionRate)}</p>
+          <p className="text-xs text-gray-500 mt-1">All suppliers</p>
+        </div>
+        <div className="bg-white rounded-xl border border-gray-100 p-6">
+          <p className="text-sm text-gray-500">Avg Approval Cycle</p>
+          <p className="text-2xl font-semibold text-gray-900 mt-1">{formatCycleTime(overall.avgCycleHours)}</p>
+          <p className="text-xs text-gray-500 mt-1">All suppliers</p>
+        </div>
+      </div>
+
+      {selected && selectedSupplier && (
+        <div className="bg-white rounded-xl border border-gray-100 p-6 mb-8">
+          <div className="flex items-center justify-between mb-6">
+            <div>
+              <h2 className="text-lg font-semibold text-gray-900">{selectedSupplier.legal_name}</h2>
+              <p className="text-sm text-gray-500">
+                {selectedSupplier.code} • Monthly trend, {months[0]} to {months[months.length - 1]}
+              </p>
+            </div>
+            <div className="text-right">
+              <p className="text-sm text-gray-500">Score</p>
+              <p className="text-2xl font-semibold text-gray-900">{selected.score?.toFixed(0)}</p>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+            {trendCards.map((card) => (
+              <div key={card.label}>
+                <p className="text-sm text-gray-500">{card.label}</p>
+                <p className="text-xl font-semibold text-gray-900 mt-1">{card.value}</p>
+                <p className="text-xs text-gray-500 mb-3">{card.detail}</p>
+                <Sparkline values={card.values} />
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="bg-white rounded-xl border border-gray-100 overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-100 flex items-center gap-2">
+          <Trophy className="w-4 h-4 text-gray-500" strokeWidth={1.5} />
+          <h2 className="text-sm font-semibold text-gray-900">Supplier Ranking</h2>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b border-gray-100">
+              <tr>
+                <th className="text-left px-6 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Rank
+                </th>
+                <th className="text-left px-6 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Supplier
+                </th>
+                <th className="text-right px-6 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  On-Time
+                </th>
+                <th className="text-right px-6 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Qty Variance
+                </th>
+                <th className="text-right px-6 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Rejection
+                </th>
+                <th className="text-right px-6 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Avg Cycle
+                </th>
+                <th className="text-right px-6 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Score
+                </th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {ranking.length === 0 ? (
+                <tr>
+                  <td colSpan={7} className="px-6 py-12 text-center text-sm text-gray-500">
+                    No supplier activity in this period. Link documents to suppliers to see their performance.
+                  </td>
+                </tr>
+              ) : (
+                ranking.map((entry, index) => {
+                  const supplier = supplierById.get(entry.supplierId);
+                  return (
+                    <tr
+                      key={entry.supplierId}
+                      onClick={() => setSelectedId(entry.supplierId)}
+                      className={`cursor-pointer transition-colors ${
+                        entry.supplierId === selected?.supplierId ? 'bg-gray-50' : 'hover:bg-gray-50'
+                      }`}
+                    >
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{index + 1}</td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <p className="text-sm font-medium text-gray-900">{supplier?.legal_name}</p>
+                        <p className="text-xs text-gray-500">{supplier?.code}</p>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-right text-sm text-gray-900">
+                        {formatRate(entry.metrics.onTimeRate)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-right text-sm text-gray-900">
+                        {formatRate(entry.metrics.quantityVarianceRate)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-right text-sm text-gray-900">
+                        {formatRate(entry.metrics.rejectionRate)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-right text-sm text-gray-900">
+                        {formatCycleTime(entry.metrics.avgCycleHours)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-semibold text-gray-900">
+                        {entry.score?.toFixed(0)}
+                      </td>
+                    </tr>
+                  );
+                })
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <p className="mt-4 text-xs text-gray-500">
+        Score out of 100: on-time delivery 40%, quantity accuracy 20%, acceptance 20%, approval speed 20% relative to
+        the fastest supplier. Metrics without data in the period are left out.
+      </p>
+    </div>
+  );
+}
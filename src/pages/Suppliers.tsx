@@ -0,0 +1,238 @@
+import { useEffect, useState } from 'react';
+import { Search, Plus, Pencil, GitMerge } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { Button } from '../components/ui/Button';
+import { Input } from '../components/ui/Input';
+import { Select } from '../components/ui/Select';
+import { Badge } from '../components/ui/Badge';
+import { SupplierForm } from '../components/suppliers/SupplierForm';
+import { SupplierNameMerge } from '../components/suppliers/SupplierNameMerge';
+import { Supplier, SupplierBankDetails, SupplierContact, matchesSupplierSearch } from '../lib/suppliers';
+
+interface SupplierRow extends Supplier {
+  supplier_contacts: SupplierContact[];
+  supplier_bank_details: SupplierBankDetails | null;
+}
+
+export function Suppliers() {
+  const { profile } = useAuth();
+  const [suppliers, setSuppliers] = useState<SupplierRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [activeFilter, setActiveFilter] = useState('active');
+  const [editing, setEditing] = useState<SupplierRow | 'new' | null>(null);
+  const [showMerge, setShowMerge] = useState(false);
+
+  const canManage = profile?.role === 'Finance' || profile?.role === 'Admin';
+
+  useEffect(() => {
+    loadSuppliers();
+  }, []);
+
+  const loadSuppliers = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('suppliers')
+        .select(`
+          *,
+          supplier_contacts(*),
+          supplier_bank_details(*)
+        `)
+        .order('legal_name', { ascending: true });
+
+      if (error) throw error;
+      setSuppliers(data || []);
+    } catch (error) {
+      console.error('Error loading suppliers:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleToggleActive = async (supplier: SupplierRow) => {
+    try {
+      const { error } = await supabase
+        .from('suppliers')
+        .update({ is_active: !supplier.is_active, updated_at: new Date().toISOString() })
+        .eq('id', supplier.id);
+
+      if (error) throw error;
+      await loadSuppliers();
+    } catch (error) {
+      console.error('Error updating supplier:', error);
+      alert('Failed to update supplier. Please try again.');
+    }
+  };
+
+  const filteredSuppliers = suppliers.filter(
+    (supplier) =>
+      (activeFilter === 'all' || supplier.is_active === (activeFilter === 'active')) &&
+      matchesSupplierSearch(supplier, searchTerm)
+  );
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <p className="text-gray-500">Loading suppliers...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-8 max-w-7xl mx-auto">
+      <div className="flex items-center justify-between mb-8">
+        <div>
+          <h1 className="text-2xl font-semibold text-gray-900">Suppliers</h1>
+          <p className="text-sm text-gray-500 mt-1">Supplier master data used on documents</p>
+        </div>
+        {canManage && (
+          <div className="flex items-center gap-3">
+            <Button variant="secondary" onClick={() => setShowMerge(true)}>
+              <GitMerge className="w-4 h-4 mr-2" strokeWidth={1.5} />
+              Map Supplier Names
+            </Button>
+            <Button onClick={() => setEditing('new')}>
+              <Plus className="w-4 h-4 mr-2" strokeWidth={1.5} />
+              New Supplier
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <div className="bg-white rounded-xl border border-gray-100 p-6 mb-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+          <div className="md:col-span-2 relative">
+            <Search className="absolute left-3 bottom-2.5 w-4 h-4 text-gray-400" strokeWidth={1.5} />
+            <Input
+              placeholder="Search by code, name or tax ID..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="pl-10"
+            />
+          </div>
+          <Select
+            label="Status"
+            value={activeFilter}
+            onChange={(e) => setActiveFilter(e.target.value)}
+            options={[
+              { value: 'active', label: 'Active' },
+              { value: 'inactive', label: 'Inactive' },
+              { value: 'all', label: 'All Suppliers' },
+            ]}
+          />
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl border border-gray-100 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b border-gray-100">
+              <tr>
+                <th className="text-left px-6 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Supplier
+                </th>
+                <th className="text-left px-6 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Tax ID / Country
+                </th>
+                <th className="text-left px-6 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Terms
+                </th>
+                <th className="text-left px-6 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Primary Contact
+                </th>
+                <th className="text-left px-6 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Status
+                </th>
+                {canManage && <th className="px-6 py-3" />}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {filteredSuppliers.length === 0 ? (
+                <tr>
+                  <td colSpan={canManage ? 6 : 5} className="px-6 py-12 text-center text-sm text-gray-500">
+                    No suppliers found. Try adjusting your filters or add a new supplier.
+                  </td>
+                </tr>
+              ) : (
+                filteredSuppliers.map((supplier) => {
+                  const primaryContact =
+                    supplier.supplier_contacts.find((contact) => contact.is_primary) || supplier.supplier_contacts[0];
+
+                  return (
+                    <tr key={supplier.id} className="hover:bg-gray-50 transition-colors">
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <p className="text-sm font-medium text-gray-900">{supplier.legal_name}</p>
+                        <p className="text-xs text-gray-500">{supplier.code}</p>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <p className="text-sm text-gray-900">{supplier.tax_id || '-'}</p>
+                        <p className="text-xs text-gray-500">{supplier.country || '-'}</p>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <p className="text-sm text-gray-900">{supplier.payment_terms || '-'}</p>
+                        <p className="text-xs text-gray-500">{supplier.default_currency}</p>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        {primaryContact ? (
+                          <>
+                            <p className="text-sm text-gray-900">{primaryContact.name}</p>
+                            <p className="text-xs text-gray-500">
+                              {primaryContact.email || primaryContact.phone || '-'}
+                              {supplier.supplier_contacts.length > 1 &&
+                                ` • +${supplier.supplier_contacts.length - 1} more`}
+                            </p>
+                          </>
+                        ) : (
+                          <p className="text-sm text-gray-500">-</p>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <Badge variant={supplier.is_active ? 'success' : 'neutral'}>
+                          {supplier.is_active ? 'Active' : 'Inactive'}
+                        </Badge>
+                      </td>
+                      {canManage && (
+                        <td className="px-6 py-4 whitespace-nowrap text-right">
+                          <div className="flex items-center justify-end gap-2">
+                            <Button variant="ghost" size="sm" onClick={() => handleToggleActive(supplier)}>
+                              {supplier.is_active ? 'Deactivate' : 'Activate'}
+                            </Button>
+                            <Button variant="ghost" size="sm" onClick={() => setEditing(supplier)}>
+                              <Pencil className="w-4 h-4" strokeWidth={1.5} />
+                            </Button>
+                          </div>
+                        </td>
+                      )}
+                    </tr>
+                  );
+                })
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div className="mt-4 flex items-center justify-between text-sm text-gray-500">
+        <p>Showing {filteredSuppliers.length} of {suppliers.length} suppliers</p>
+      </div>
+
+      {editing && (
+        <SupplierForm
+          supplier={editing === 'new' ? undefined : editing}
+          contacts={editing === 'new' ? undefined : editing.supplier_contacts}
+          bankDetails={editing === 'new' ? undefined : editing.supplier_bank_details}
+          onClose={() => setEditing(null)}
+          onSaved={() => {
+            setEditing(null);
+            loadSuppliers();
+          }}
+        />
+      )}
+
+      {showMerge && (
+        <SupplierNameMerge suppliers={suppliers} onClose={() => setShowMerge(false)} />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,172 @@
+import { useEffect, useState } from 'react';
+import { Plus } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { Button } from '../components/ui/Button';
+import { Input } from '../components/ui/Input';
+import { Badge } from '../components/ui/Badge';
+import { UnitOfMeasure, canManageProducts, loadUnitsOfMeasure } from '../lib/products';
+
+export function UnitsOfMeasure() {
+  const { profile } = useAuth();
+  const [units, setUnits] = useState<UnitOfMeasure[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [form, setForm] = useState({ code: '', name: '' });
+
+  const canManage = canManageProducts(profile?.role);
+
+  useEffect(() => {
+    loadUnits();
+  }, []);
+
+  const loadUnits = async () => {
+    try {
+      setUnits(await loadUnitsOfMeasure());
+    } catch (error) {
+      console.error('Error loading units of measure:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCreate = async () => {
+    const code = form.code.trim().toUpperCase();
+    if (!code || !form.name.trim()) {
+      setFormError('Enter a code and name');
+      return;
+    }
+
+    setSaving(true);
+    setFormError(null);
+
+    try {
+      const { error } = await supabase.from('units_of_measure').insert({ code, name: form.name.trim() });
+      if (error) throw error;
+      setForm({ code: '', name: '' });
+      await loadUnits();
+    } catch (error) {
+      console.error('Error saving unit of measure:', error);
+      if ((error as { code?: string }).code === '23505') {
+        setFormError(`${code} already exists`);
+      } else {
+        setFormError('Failed to save unit of measure. Please try again.');
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (unit: UnitOfMeasure) => {
+    try {
+      const { error } = await supabase
+        .from('units_of_measure')
+        .update({ is_active: !unit.is_active })
+        .eq('code', unit.code);
+
+      if (error) throw error;
+      await loadUnits();
+    } catch (error) {
+      console.error('Error updating unit of measure:', error);
+      alert('Failed to update unit of measure. Please try again.');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <p className="text-gray-500">Loading units of measure...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-8 max-w-7xl mx-auto space-y-8">
+      <div>
+        <h1 className="text-2xl font-semibold text-gray-900">Units of Measure</h1>
+        <p className="text-sm text-gray-500 mt-1">
+          Units products are stocked, bought and moved in. Conversions such as 1 BOX = 24 PCS are set per product.
+        </p>
+      </div>
+
+      <div className="bg-white rounded-xl border border-gray-100 p-6">
+        {formError && (
+          <div className="p-3 bg-red-50 border border-red-100 rounded-lg mb-4">
+            <p className="text-sm text-red-600">{formError}</p>
+          </div>
+        )}
+
+        {canManage && (
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end mb-6">
+            <Input
+              label="Code"
+              value={form.code}
+              onChange={(e) => setForm({ ...form, code: e.target.value })}
+              placeholder="e.g., PLT"
+            />
+            <div className="md:col-span-2">
+              <Input
+                label="Name"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="e.g., Pallet"
+              />
+            </div>
+            <Button onClick={handleCreate} disabled={saving}>
+              <Plus className="w-4 h-4 mr-2" strokeWidth={1.5} />
+              {saving ? 'Saving...' : 'Add Unit'}
+            </Button>
+          </div>
+        )}
+
+        <div className="overflow-x-auto border border-gray-100 rounded-lg">
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b border-gray-100">
+              <tr>
+                <th className="text-left px-6 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Code
+                </th>
+                <th className="text-left px-6 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Name
+                </th>
+                <th className="text-left px-6 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Status
+                </th>
+                {canManage && <th className="px-6 py-3" />}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {units.length === 0 ? (
+                <tr>
+                  <td colSpan={canManage ? 4 : 3} className="px-6 py-12 text-center text-sm text-gray-500">
+                    No units of measure defined yet.
+                  </td>
+                </tr>
+              ) : (
+                units.map((unit) => (
+                  <tr key={unit.code} className="hover:bg-gray-50 transition-colors">
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{unit.code}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">{unit.name}</td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <Badge variant={unit.is_active ? 'success' : 'neutral'}>
+                        {unit.is_active ? 'Active' : 'Inactive'}
+                      </Badge>
+                    </td>
+                    {canManage && (
+                      <td className="px-6 py-4 whitespace-nowrap text-right">
+                        <Button variant="ghost" size="sm" onClick={() => handleToggleActive(unit)}>
+                          {unit.is_active ? 'Deactivate' : 'Activate'}
+                        </Button>
+                      </td>
+                    )}
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,151 @@
+/*
+  # Document Line Items
+
+  ## Overview
+  Documents so far only carried a single `document_value` total with no link to the
+  product catalog. This migration adds line items so that Purchase Orders, Invoices and
+  Goods Receipts reference `products` directly, and derives `document_value` from them.
+
+  ## 1. New Tables
+
+  ### document_lines
+  Line items belonging to a document
+  - `id` (uuid, primary key)
+  - `document_id` (uuid) - Parent document
+  - `line_number` (integer) - Position of the line within the document
+  - `product_id` (uuid) - Product reference
+  - `description` (text, optional) - Free-text line description
+  - `quantity` (numeric) - Quantity in `unit_of_measure`
+  - `unit_of_measure` (text) - Unit the quantity is expressed in
+  - `unit_price` (numeric) - Price per unit in the document currency
+  - `line_total` (numeric, computed) - quantity * unit_price
+  - `created_at` (timestamptz)
+  - `updated_at` (timestamptz)
+
+  ## 2. Functions & Triggers
+  - `recalculate_document_value()` keeps `documents.document_value` equal to the sum of
+    its line totals after every insert, update or delete on `document_lines`
+
+  ## 3. Security
+  - Lines are visible to whoever can see the parent document
+  - Lines can only be changed by the document creator while the document is a Draft,
+    or by Admins
+*/
+
+-- =============================================
+-- 1. DOCUMENT LINES
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS document_lines (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  document_id uuid NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+  line_number integer NOT NULL,
+  product_id uuid NOT NULL REFERENCES products(id) ON DELETE RESTRICT,
+  description text,
+  quantity numeric(15,3) NOT NULL CHECK (quantity > 0),
+  unit_of_measure text NOT NULL DEFAULT 'PCS',
+  unit_price numeric(15,2) NOT NULL DEFAULT 0 CHECK (unit_price >= 0),
+  line_total numeric(15,2) GENERATED ALWAYS AS (round(quantity * unit_price, 2)) STORED,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE(document_id, line_number)
+);
+
+ALTER TABLE document_lines ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view lines for accessible documents"
+  ON document_lines FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM documents
+      WHERE documents.id = document_lines.document_id
+      AND (
+        documents.created_by = auth.uid()
+        OR documents.approver_id = auth.uid()
+        OR EXISTS (
+          SELECT 1 FROM users_profile
+          WHERE users_profile.id = auth.uid()
+          AND users_profile.role IN ('Admin', 'Finance')
+        )
+      )
+    )
+  );
+
+CREATE POLICY "Creators can manage lines on their draft documents"
+  ON document_lines FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM documents
+      WHERE documents.id = document_lines.document_id
+      AND documents.created_by = auth.uid()
+      AND documents.status = 'Draft'
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM documents
+      WHERE documents.id = document_lines.document_id
+      AND documents.created_by = auth.uid()
+      AND documents.status = 'Draft'
+    )
+  );
+
+CREATE POLICY "Admins can manage all document lines"
+  ON document_lines FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users_profile
+      WHERE users_profile.id = auth.uid()
+      AND users_profile.role = 'Admin'
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_document_lines_document ON document_lines(document_id);
+CREATE INDEX IF NOT EXISTS idx_document_lines_product ON document_lines(product_id);
+
+-- =============================================
+-- 2. DOCUMENT VALUE FROM LINES
+-- =============================================
+
+CREATE OR REPLACE FUNCTION recalculate_document_value()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target_document_id uuid;
+BEGIN
+  target_document_id := COALESCE(NEW.document_id, OLD.document_id);
+
+  UPDATE documents
+  SET document_value = COALESCE((
+        SELECT SUM(line_total) FROM document_lines
+        WHERE document_lines.document_id = target_document_id
+      ), 0),
+      updated_at = now()
+  WHERE id = target_document_id;
+
+  -- A line moved to another document must also refresh its previous parent
+  IF TG_OP = 'UPDATE' AND OLD.document_id IS DISTINCT FROM NEW.document_id THEN
+    UPDATE documents
+    SET document_value = COALESCE((
+          SELECT SUM(line_total) FROM document_lines
+          WHERE document_lines.document_id = OLD.document_id
+        ), 0),
+        updated_at = now()
+    WHERE id = OLD.document_id;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_document_lines_recalculate_value ON document_lines;
+CREATE TRIGGER trg_document_lines_recalculate_value
+  AFTER INSERT OR UPDATE OR DELETE ON document_lines
+  FOR EACH ROW
+  EXECUTE FUNCTION recalculate_document_value();
@@ -0,0 +1,225 @@
+/*
+  # Stock Movements From Approved Documents
+
+  ## Overview
+  Approving a Goods Receipt or Delivery Note now posts one stock movement per document
+  line and updates the matching stock balances. Approval and posting run inside a single
+  database function so they commit or roll back together. Reversing an approval posts
+  compensating movements instead of deleting the originals, keeping the ledger auditable.
+
+  ## 1. Modified Tables
+
+  ### documents
+  - `warehouse_id` (uuid, optional) - Warehouse receiving or issuing the goods.
+    Required before a Goods Receipt or Delivery Note can be approved.
+
+  ## 2. Functions
+  - `approve_document(p_document_id, p_remarks)` - Approves a Pending document, writes the
+    history record and, for stock documents, posts movements and upserts balances
+  - `reverse_document_approval(p_document_id, p_reason)` - Returns an Approved document to
+    Pending and posts movements that cancel out everything it previously posted
+  - `apply_stock_balance(...)` - Internal helper that upserts a (product, warehouse) balance
+
+  ## 3. Important Notes
+  - Goods Receipt lines post IN movements, Delivery Note lines post OUT movements
+  - IN/OUT quantities are stored as positive numbers; the movement type carries the sign
+  - Both functions are SECURITY DEFINER and check the caller's role themselves
+*/
+
+-- =============================================
+-- 1. DOCUMENT WAREHOUSE
+-- =============================================
+
+ALTER TABLE documents
+  ADD COLUMN IF NOT EXISTS warehouse_id uuid REFERENCES warehouses(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_documents_warehouse ON documents(warehouse_id);
+
+-- =============================================
+-- 2. BALANCE HELPER
+-- =============================================
+
+CREATE OR REPLACE FUNCTION apply_stock_balance(
+  p_product_id uuid,
+  p_warehouse_id uuid,
+  p_delta numeric,
+  p_movement_at timestamptz
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO stock_balances (product_id, warehouse_id, quantity_on_hand, last_movement_at, updated_at)
+  VALUES (p_product_id, p_warehouse_id, p_delta, p_movement_at, now())
+  ON CONFLICT (product_id, warehouse_id) DO UPDATE
+  SET quantity_on_hand = stock_balances.quantity_on_hand + EXCLUDED.quantity_on_hand,
+      last_movement_at = GREATEST(COALESCE(stock_balances.last_movement_at, EXCLUDED.last_movement_at), EXCLUDED.last_movement_at),
+      updated_at = now();
+END;
+$$;
+
+REVOKE ALL ON FUNCTION apply_stock_balance(uuid, uuid, numeric, timestamptz) FROM PUBLIC, authenticated;
+
+-- =============================================
+-- 3. APPROVE DOCUMENT
+-- =============================================
+
+CREATE OR REPLACE FUNCTION approve_document(p_document_id uuid, p_remarks text DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  doc documents%ROWTYPE;
+  line record;
+  v_movement_type text;
+  v_now timestamptz := now();
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM users_profile
+    WHERE users_profile.id = auth.uid()
+    AND users_profile.role IN ('Approver', 'Admin')
+  ) THEN
+    RAISE EXCEPTION 'Only Approvers and Admins can approve documents';
+  END IF;
+
+  SELECT * INTO doc FROM documents WHERE id = p_document_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Document % not found', p_document_id;
+  END IF;
+
+  IF doc.status <> 'Pending' THEN
+    RAISE EXCEPTION 'Only Pending documents can be approved (current status: %)', doc.status;
+  END IF;
+
+  v_movement_type := CASE doc.document_type
+    WHEN 'Goods Receipt' THEN 'IN'
+    WHEN 'Delivery Note' THEN 'OUT'
+    ELSE NULL
+  END;
+
+  IF v_movement_type IS NOT NULL THEN
+    IF doc.warehouse_id IS NULL THEN
+      RAISE EXCEPTION '% % has no warehouse assigned', doc.document_type, doc.document_number;
+    END IF;
+
+    FOR line IN
+      SELECT * FROM document_lines
+      WHERE document_id = doc.id
+      ORDER BY line_number
+    LOOP
+      INSERT INTO stock_movements (
+        product_id, warehouse_id, movement_type, quantity, unit_cost,
+        source_document_id, reference_number, remarks, performed_by, movement_date
+      ) VALUES (
+        line.product_id, doc.warehouse_id, v_movement_type, line.quantity, line.unit_price,
+        doc.id, doc.document_number, 'Posted from ' || doc.document_type || ' line ' || line.line_number,
+        auth.uid(), v_now
+      );
+
+      PERFORM apply_stock_balance(
+        line.product_id,
+        doc.warehouse_id,
+        CASE WHEN v_movement_type = 'IN' THEN line.quantity ELSE -line.quantity END,
+        v_now
+      );
+    END LOOP;
+  END IF;
+
+  UPDATE documents
+  SET status = 'Approved', updated_at = v_now
+  WHERE id = doc.id;
+
+  INSERT INTO document_history (document_id, action_type, old_status, new_status, performed_by, remarks)
+  VALUES (doc.id, 'Approved', doc.status, 'Approved', auth.uid(), COALESCE(p_remarks, 'Document approved'));
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION approve_document(uuid, text) TO authenticated;
+
+-- =============================================
+-- 4. REVERSE APPROVAL
+-- =============================================
+
+CREATE OR REPLACE FUNCTION reverse_document_approval(p_document_id uuid, p_reason text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  doc documents%ROWTYPE;
+  net record;
+  v_now timestamptz := now();
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM users_profile
+    WHERE users_profile.id = auth.uid()
+    AND users_profile.role IN ('Approver', 'Admin')
+  ) THEN
+    RAISE EXCEPTION 'Only Approvers and Admins can reverse approvals';
+  END IF;
+
+  IF p_reason IS NULL OR btrim(p_reason) = '' THEN
+    RAISE EXCEPTION 'A reason is required to reverse an approval';
+  END IF;
+
+  SELECT * INTO doc FROM documents WHERE id = p_document_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Document % not found', p_document_id;
+  END IF;
+
+  IF doc.status <> 'Approved' THEN
+    RAISE EXCEPTION 'Only Approved documents can be reversed (current status: %)', doc.status;
+  END IF;
+
+  -- Net out everything this document has posted so far, so repeated
+  -- approve/reverse cycles always return the ledger to zero.
+  FOR net IN
+    SELECT
+      product_id,
+      warehouse_id,
+      SUM(CASE movement_type
+        WHEN 'IN' THEN quantity
+        WHEN 'OUT' THEN -quantity
+        ELSE quantity
+      END) AS quantity,
+      MAX(unit_cost) AS unit_cost
+    FROM stock_movements
+    WHERE source_document_id = doc.id
+    GROUP BY product_id, warehouse_id
+    HAVING SUM(CASE movement_type
+      WHEN 'IN' THEN quantity
+      WHEN 'OUT' THEN -quantity
+      ELSE quantity
+    END) <> 0
+  LOOP
+    INSERT INTO stock_movements (
+      product_id, warehouse_id, movement_type, quantity, unit_cost,
+      source_document_id, reference_number, remarks, performed_by, movement_date
+    ) VALUES (
+      net.product_id, net.warehouse_id,
+      CASE WHEN net.quantity > 0 THEN 'OUT' ELSE 'IN' END,
+      abs(net.quantity), net.unit_cost,
+      doc.id, doc.document_number, 'Reversal: ' || p_reason,
+      auth.uid(), v_now
+    );
+
+    PERFORM apply_stock_balance(net.product_id, net.warehouse_id, -net.quantity, v_now);
+  END LOOP;
+
+  UPDATE documents
+  SET status = 'Pending', updated_at = v_now
+  WHERE id = doc.id;
+
+  INSERT INTO document_history (document_id, action_type, old_status, new_status, performed_by, remarks)
+  VALUES (doc.id, 'Approval Reversed', doc.status, 'Pending', auth.uid(), p_reason);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION reverse_document_approval(uuid, text) TO authenticated;
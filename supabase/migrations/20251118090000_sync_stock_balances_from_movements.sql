@@ -0,0 +1,283 @@
+/*
+  # Stock Balances Maintained From the Movement Ledger
+
+  ## Overview
+  `stock_balances` becomes a projection of `stock_movements`: every inserted movement is
+  applied to its (product_id, warehouse_id) balance by a trigger, regardless of whether it
+  came from document approval, a manual entry or a direct insert. A rebuild routine
+  recomputes every balance from the full ledger for recovery and reconciliation.
+
+  ## 1. Functions & Triggers
+  - `stock_movement_delta(movement_type, quantity)` - Signed effect of a movement on
+    quantity on hand (IN adds, OUT subtracts, ADJUST is applied as stored)
+  - `apply_stock_movement()` - AFTER INSERT trigger on `stock_movements`; validates the
+    movement, refuses OUT movements that would take available stock below zero, and
+    upserts the balance with `last_movement_at`
+  - `rebuild_stock_balances()` - Admin-only; recomputes `quantity_on_hand` and
+    `last_movement_at` for every balance from the movement history
+  - `approve_document` / `reverse_document_approval` - Re-created without their own
+    balance updates, which the trigger now performs
+
+  ## 2. Important Notes
+  - Available stock = quantity_on_hand - reserved_quantity
+  - The ledger is append-only; corrections are posted as new ADJUST movements
+  - `reserved_quantity` is left untouched by the rebuild
+*/
+
+-- =============================================
+-- 1. MOVEMENT SIGN
+-- =============================================
+
+CREATE OR REPLACE FUNCTION stock_movement_delta(p_movement_type text, p_quantity numeric)
+RETURNS numeric
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE p_movement_type
+    WHEN 'IN' THEN p_quantity
+    WHEN 'OUT' THEN -p_quantity
+    ELSE p_quantity
+  END;
+$$;
+
+-- =============================================
+-- 2. APPLY MOVEMENTS TO BALANCES
+-- =============================================
+
+CREATE OR REPLACE FUNCTION apply_stock_movement()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  balance stock_balances%ROWTYPE;
+  v_available numeric;
+BEGIN
+  IF NEW.movement_type IN ('IN', 'OUT') AND NEW.quantity <= 0 THEN
+    RAISE EXCEPTION '% movements must have a positive quantity', NEW.movement_type;
+  END IF;
+
+  IF NEW.movement_type = 'ADJUST' AND NEW.quantity = 0 THEN
+    RAISE EXCEPTION 'ADJUST movements must change the quantity';
+  END IF;
+
+  SELECT * INTO balance
+  FROM stock_balances
+  WHERE product_id = NEW.product_id
+  AND warehouse_id = NEW.warehouse_id
+  FOR UPDATE;
+
+  IF NEW.movement_type = 'OUT' THEN
+    v_available := COALESCE(balance.quantity_on_hand, 0) - COALESCE(balance.reserved_quantity, 0);
+
+    IF v_available - NEW.quantity < 0 THEN
+      RAISE EXCEPTION 'Insufficient available stock: % available, % requested', v_available, NEW.quantity
+        USING ERRCODE = 'check_violation';
+    END IF;
+  END IF;
+
+  PERFORM apply_stock_balance(
+    NEW.product_id,
+    NEW.warehouse_id,
+    stock_movement_delta(NEW.movement_type, NEW.quantity),
+    NEW.movement_date
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_stock_movements_apply_balance ON stock_movements;
+CREATE TRIGGER trg_stock_movements_apply_balance
+  AFTER INSERT ON stock_movements
+  FOR EACH ROW
+  EXECUTE FUNCTION apply_stock_movement();
+
+-- =============================================
+-- 3. REBUILD ROUTINE
+-- =============================================
+
+CREATE OR REPLACE FUNCTION rebuild_stock_balances()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_rows integer;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM users_profile
+    WHERE users_profile.id = auth.uid()
+    AND users_profile.role = 'Admin'
+  ) THEN
+    RAISE EXCEPTION 'Only Admins can rebuild stock balances';
+  END IF;
+
+  -- Block new movements while the projection is recomputed
+  LOCK TABLE stock_movements IN SHARE MODE;
+  LOCK TABLE stock_balances IN EXCLUSIVE MODE;
+
+  UPDATE stock_balances
+  SET quantity_on_hand = 0,
+      last_movement_at = NULL,
+      updated_at = now();
+
+  INSERT INTO stock_balances (product_id, warehouse_id, quantity_on_hand, last_movement_at, updated_at)
+  SELECT
+    product_id,
+    warehouse_id,
+    SUM(stock_movement_delta(movement_type, quantity)),
+    MAX(movement_date),
+    now()
+  FROM stock_movements
+  WHERE product_id IS NOT NULL
+  AND warehouse_id IS NOT NULL
+  GROUP BY product_id, warehouse_id
+  ON CONFLICT (product_id, warehouse_id) DO UPDATE
+  SET quantity_on_hand = EXCLUDED.quantity_on_hand,
+      last_movement_at = EXCLUDED.last_movement_at,
+      updated_at = now();
+
+  GET DIAGNOSTICS v_rows = ROW_COUNT;
+  RETURN v_rows;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION rebuild_stock_balances() TO authenticated;
+
+-- =============================================
+-- 4. DOCUMENT POSTING WITHOUT DIRECT BALANCE UPDATES
+-- =============================================
+
+CREATE OR REPLACE FUNCTION approve_document(p_document_id uuid, p_remarks text DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  doc documents%ROWTYPE;
+  line record;
+  v_movement_type text;
+  v_now timestamptz := now();
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM users_profile
+    WHERE users_profile.id = auth.uid()
+    AND users_profile.role IN ('Approver', 'Admin')
+  ) THEN
+    RAISE EXCEPTION 'Only Approvers and Admins can approve documents';
+  END IF;
+
+  SELECT * INTO doc FROM documents WHERE id = p_document_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Document % not found', p_document_id;
+  END IF;
+
+  IF doc.status <> 'Pending' THEN
+    RAISE EXCEPTION 'Only Pending documents can be approved (current status: %)', doc.status;
+  END IF;
+
+  v_movement_type := CASE doc.document_type
+    WHEN 'Goods Receipt' THEN 'IN'
+    WHEN 'Delivery Note' THEN 'OUT'
+    ELSE NULL
+  END;
+
+  IF v_movement_type IS NOT NULL THEN
+    IF doc.warehouse_id IS NULL THEN
+      RAISE EXCEPTION '% % has no warehouse assigned', doc.document_type, doc.document_number;
+    END IF;
+
+    FOR line IN
+      SELECT * FROM document_lines
+      WHERE document_id = doc.id
+      ORDER BY line_number
+    LOOP
+      INSERT INTO stock_movements (
+        product_id, warehouse_id, movement_type, quantity, unit_cost,
+        source_document_id, reference_number, remarks, performed_by, movement_date
+      ) VALUES (
+        line.product_id, doc.warehouse_id, v_movement_type, line.quantity, line.unit_price,
+        doc.id, doc.document_number, 'Posted from ' || doc.document_type || ' line ' || line.line_number,
+        auth.uid(), v_now
+      );
+    END LOOP;
+  END IF;
+
+  UPDATE documents
+  SET status = 'Approved', updated_at = v_now
+  WHERE id = doc.id;
+
+  INSERT INTO document_history (document_id, action_type, old_status, new_status, performed_by, remarks)
+  VALUES (doc.id, 'Approved', doc.status, 'Approved', auth.uid(), COALESCE(p_remarks, 'Document approved'));
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION reverse_document_approval(p_document_id uuid, p_reason text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  doc documents%ROWTYPE;
+  net record;
+  v_now timestamptz := now();
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM users_profile
+    WHERE users_profile.id = auth.uid()
+    AND users_profile.role IN ('Approver', 'Admin')
+  ) THEN
+    RAISE EXCEPTION 'Only Approvers and Admins can reverse approvals';
+  END IF;
+
+  IF p_reason IS NULL OR btrim(p_reason) = '' THEN
+    RAISE EXCEPTION 'A reason is required to reverse an approval';
+  END IF;
+
+  SELECT * INTO doc FROM documents WHERE id = p_document_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Document % not found', p_document_id;
+  END IF;
+
+  IF doc.status <> 'Approved' THEN
+    RAISE EXCEPTION 'Only Approved documents can be reversed (current status: %)', doc.status;
+  END IF;
+
+  FOR net IN
+    SELECT
+      product_id,
+      warehouse_id,
+      SUM(stock_movement_delta(movement_type, quantity)) AS quantity,
+      MAX(unit_cost) AS unit_cost
+    FROM stock_movements
+    WHERE source_document_id = doc.id
+    GROUP BY product_id, warehouse_id
+    HAVING SUM(stock_movement_delta(movement_type, quantity)) <> 0
+  LOOP
+    INSERT INTO stock_movements (
+      product_id, warehouse_id, movement_type, quantity, unit_cost,
+      source_document_id, reference_number, remarks, performed_by, movement_date
+    ) VALUES (
+      net.product_id, net.warehouse_id,
+      CASE WHEN net.quantity > 0 THEN 'OUT' ELSE 'IN' END,
+      abs(net.quantity), net.unit_cost,
+      doc.id, doc.document_number, 'Reversal: ' || p_reason,
+      auth.uid(), v_now
+    );
+  END LOOP;
+
+  UPDATE documents
+  SET status = 'Pending', updated_at = v_now
+  WHERE id = doc.id;
+
+  INSERT INTO document_history (document_id, action_type, old_status, new_status, performed_by, remarks)
+  VALUES (doc.id, 'Approval Reversed', doc.status, 'Pending', auth.uid(), p_reason);
+END;
+$$;
@@ -0,0 +1,201 @@
+/*
+  # Inter-Warehouse Stock Transfers
+
+  ## Overview
+  Moving goods between warehouses used to take two unrelated manual movements. A transfer
+  is now a single operation that posts a paired OUT (source warehouse) and IN (destination
+  warehouse), both carrying the same `transfer_id`. Transfers can optionally go through an
+  In Transit state: the OUT is posted on dispatch and the IN only when the goods arrive.
+
+  ## 1. New Tables
+
+  ### stock_transfers
+  Header record for a transfer between two warehouses
+  - `id` (uuid, primary key)
+  - `transfer_number` (text, unique) - Generated TRF-YYYYMMDD-NNNNN identifier
+  - `product_id` (uuid) - Product being moved
+  - `from_warehouse_id` (uuid) - Source warehouse
+  - `to_warehouse_id` (uuid) - Destination warehouse
+  - `quantity` (numeric) - Quantity moved
+  - `unit_cost` (numeric, optional) - Cost per unit carried onto both legs
+  - `status` (text) - In Transit, Received
+  - `reference_number` (text, optional) - External reference (waybill, etc.)
+  - `remarks` (text, optional)
+  - `dispatched_by` (uuid) / `dispatched_at` (timestamptz)
+  - `received_by` (uuid, optional) / `received_at` (timestamptz, optional)
+  - `created_at` (timestamptz)
+
+  ## 2. Modified Tables
+
+  ### stock_movements
+  - `transfer_id` (uuid, optional) - Transfer this movement is a leg of
+
+  ## 3. Functions
+  - `create_stock_transfer(...)` - Dispatches a transfer; posts the OUT leg and, unless
+    `p_in_transit` is set, the IN leg in the same transaction
+  - `receive_stock_transfer(p_transfer_id)` - Posts the IN leg of an In Transit transfer
+
+  ## 4. Security
+  - Everyone can view transfers; they are only written through the functions above,
+    which apply the same Admin/Finance/Approver rule as direct stock movements
+*/
+
+-- =============================================
+-- 1. STOCK TRANSFERS
+-- =============================================
+
+CREATE SEQUENCE IF NOT EXISTS stock_transfer_number_seq;
+
+CREATE TABLE IF NOT EXISTS stock_transfers (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  transfer_number text UNIQUE NOT NULL
+    DEFAULT 'TRF-' || to_char(now(), 'YYYYMMDD') || '-' || lpad(nextval('stock_transfer_number_seq')::text, 5, '0'),
+  product_id uuid NOT NULL REFERENCES products(id) ON DELETE RESTRICT,
+  from_warehouse_id uuid NOT NULL REFERENCES warehouses(id) ON DELETE RESTRICT,
+  to_warehouse_id uuid NOT NULL REFERENCES warehouses(id) ON DELETE RESTRICT,
+  quantity numeric(15,3) NOT NULL CHECK (quantity > 0),
+  unit_cost numeric(15,2),
+  status text NOT NULL DEFAULT 'In Transit',
+  reference_number text,
+  remarks text,
+  dispatched_by uuid REFERENCES users_profile(id) ON DELETE SET NULL,
+  dispatched_at timestamptz DEFAULT now(),
+  received_by uuid REFERENCES users_profile(id) ON DELETE SET NULL,
+  received_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  CHECK (from_warehouse_id <> to_warehouse_id),
+  CHECK (status IN ('In Transit', 'Received'))
+);
+
+ALTER TABLE stock_transfers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view stock transfers"
+  ON stock_transfers FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE INDEX IF NOT EXISTS idx_stock_transfers_status ON stock_transfers(status);
+CREATE INDEX IF NOT EXISTS idx_stock_transfers_product ON stock_transfers(product_id);
+
+ALTER TABLE stock_movements
+  ADD COLUMN IF NOT EXISTS transfer_id uuid REFERENCES stock_transfers(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_stock_movements_transfer ON stock_movements(transfer_id);
+
+-- =============================================
+-- 2. CREATE TRANSFER
+-- =============================================
+
+CREATE OR REPLACE FUNCTION create_stock_transfer(
+  p_product_id uuid,
+  p_from_warehouse_id uuid,
+  p_to_warehouse_id uuid,
+  p_quantity numeric,
+  p_unit_cost numeric DEFAULT NULL,
+  p_reference_number text DEFAULT NULL,
+  p_remarks text DEFAULT NULL,
+  p_in_transit boolean DEFAULT false
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  transfer stock_transfers%ROWTYPE;
+  v_now timestamptz := now();
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM users_profile
+    WHERE users_profile.id = auth.uid()
+    AND users_profile.role IN ('Admin', 'Finance', 'Approver')
+  ) THEN
+    RAISE EXCEPTION 'Only Admin, Finance and Approver users can transfer stock';
+  END IF;
+
+  INSERT INTO stock_transfers (
+    product_id, from_warehouse_id, to_warehouse_id, quantity, unit_cost,
+    status, reference_number, remarks, dispatched_by, dispatched_at,
+    received_by, received_at
+  ) VALUES (
+    p_product_id, p_from_warehouse_id, p_to_warehouse_id, p_quantity, p_unit_cost,
+    CASE WHEN p_in_transit THEN 'In Transit' ELSE 'Received' END,
+    p_reference_number, p_remarks, auth.uid(), v_now,
+    CASE WHEN p_in_transit THEN NULL ELSE auth.uid() END,
+    CASE WHEN p_in_transit THEN NULL ELSE v_now END
+  )
+  RETURNING * INTO transfer;
+
+  INSERT INTO stock_movements (
+    product_id, warehouse_id, movement_type, quantity, unit_cost,
+    transfer_id, reference_number, remarks, performed_by, movement_date
+  ) VALUES (
+    transfer.product_id, transfer.from_warehouse_id, 'OUT', transfer.quantity, transfer.unit_cost,
+    transfer.id, transfer.transfer_number, COALESCE(p_remarks, 'Transfer dispatched'),
+    auth.uid(), v_now
+  );
+
+  IF NOT p_in_transit THEN
+    INSERT INTO stock_movements (
+      product_id, warehouse_id, movement_type, quantity, unit_cost,
+      transfer_id, reference_number, remarks, performed_by, movement_date
+    ) VALUES (
+      transfer.product_id, transfer.to_warehouse_id, 'IN', transfer.quantity, transfer.unit_cost,
+      transfer.id, transfer.transfer_number, COALESCE(p_remarks, 'Transfer received'),
+      auth.uid(), v_now
+    );
+  END IF;
+
+  RETURN transfer.id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION create_stock_transfer(uuid, uuid, uuid, numeric, numeric, text, text, boolean) TO authenticated;
+
+-- =============================================
+-- 3. RECEIVE TRANSFER
+-- =============================================
+
+CREATE OR REPLACE FUNCTION receive_stock_transfer(p_transfer_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  transfer stock_transfers%ROWTYPE;
+  v_now timestamptz := now();
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM users_profile
+    WHERE users_profile.id = auth.uid()
+    AND users_profile.role IN ('Admin', 'Finance', 'Approver')
+  ) THEN
+    RAISE EXCEPTION 'Only Admin, Finance and Approver users can receive transfers';
+  END IF;
+
+  SELECT * INTO transfer FROM stock_transfers WHERE id = p_transfer_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transfer % not found', p_transfer_id;
+  END IF;
+
+  IF transfer.status <> 'In Transit' THEN
+    RAISE EXCEPTION 'Transfer % has already been received', transfer.transfer_number;
+  END IF;
+
+  INSERT INTO stock_movements (
+    product_id, warehouse_id, movement_type, quantity, unit_cost,
+    transfer_id, reference_number, remarks, performed_by, movement_date
+  ) VALUES (
+    transfer.product_id, transfer.to_warehouse_id, 'IN', transfer.quantity, transfer.unit_cost,
+    transfer.id, transfer.transfer_number, 'Transfer received', auth.uid(), v_now
+  );
+
+  UPDATE stock_transfers
+  SET status = 'Received', received_by = auth.uid(), received_at = v_now
+  WHERE id = transfer.id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION receive_stock_transfer(uuid) TO authenticated;
@@ -0,0 +1,629 @@
+/*
+  # Configurable Multi-Level Approval Chains
+
+  ## Overview
+  Approval used to be a single step that any Approver or Admin could take. Approval chains
+  are now configured per document type, currency and value threshold, e.g. Purchase Orders
+  of 50,000 USD or more need a Procurement approver and then Finance. When a document is
+  submitted the matching chain is copied onto the document as approval steps; the document
+  only becomes Approved once every step has been approved.
+
+  ## 1. New Tables
+
+  ### approval_chains
+  - `id` (uuid, primary key)
+  - `name` (text) - Display name
+  - `document_type` (text) - Document type the chain applies to
+  - `currency` (text, optional) - Restricts the chain to one currency; NULL matches any
+  - `min_value` (numeric) - Chain applies when document_value >= min_value
+  - `is_active` (boolean)
+  - `created_by` (uuid), `created_at`, `updated_at`
+
+  ### approval_chain_steps
+  - `id` (uuid, primary key)
+  - `chain_id` (uuid) - Parent chain
+  - `step_order` (integer) - Steps run in ascending order; steps sharing an order run
+    in parallel and must all be approved before the chain moves on
+  - `name` (text) - Step label, e.g. "Procurement Manager"
+  - `approver_role` (text) - Role allowed to decide the step
+  - `approver_department` (text, optional) - Further restricts approvers to a department
+
+  ### document_approval_steps
+  Per-document copy of the chain, so later chain edits do not affect documents in flight
+  - `id` (uuid, primary key)
+  - `document_id` (uuid)
+  - `chain_step_id` (uuid, optional) - Source step; NULL for the default single step
+  - `step_order`, `name`, `approver_role`, `approver_department` - Copied from the chain
+  - `status` (text) - Waiting, Pending, Approved, Rejected, Skipped
+  - `decided_by` (uuid, optional), `decided_at` (timestamptz, optional)
+  - `remarks` (text, optional)
+  - `superseded_at` (timestamptz, optional) - Set when the chain is restarted
+  - `created_at` (timestamptz)
+
+  ## 2. Modified Tables
+
+  ### documents
+  - `approval_chain_id` (uuid, optional) - Chain selected at submission
+  - `current_step_order` (integer, optional) - Step order awaiting decisions
+
+  ## 3. Functions
+  - `submit_document(p_document_id, p_remarks)` - Draft -> Pending and starts the chain
+  - `approve_document(p_document_id, p_remarks)` - Approves the caller's current step;
+    the final step approves the document and posts stock movements
+  - `reject_document(p_document_id, p_reason)` - Rejects the current step and the document
+  - `reverse_document_approval(...)` - Now restarts the chain after compensating stock
+
+  ## 4. Security
+  - Users who can decide a step of a document can view that document, its lines, files
+    and history
+  - Chains are managed by Admins; step decisions only happen through the functions above
+  - Admins can decide any step
+
+  ## 5. Important Notes
+  - When no active chain matches, a single "Approval" step for the Approver role is used,
+    matching the previous behaviour
+  - The most specific chain wins: highest `min_value`, then currency-specific over any
+*/
+
+-- =============================================
+-- 1. APPROVAL CHAINS
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS approval_chains (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  name text NOT NULL,
+  document_type text NOT NULL,
+  currency text,
+  min_value numeric(15,2) NOT NULL DEFAULT 0,
+  is_active boolean DEFAULT true,
+  created_by uuid REFERENCES users_profile(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE approval_chains ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view approval chains"
+  ON approval_chains FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage approval chains"
+  ON approval_chains FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users_profile
+      WHERE users_profile.id = auth.uid()
+      AND users_profile.role = 'Admin'
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_approval_chains_type ON approval_chains(document_type);
+
+CREATE TABLE IF NOT EXISTS approval_chain_steps (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  chain_id uuid NOT NULL REFERENCES approval_chains(id) ON DELETE CASCADE,
+  step_order integer NOT NULL CHECK (step_order > 0),
+  name text NOT NULL,
+  approver_role text NOT NULL,
+  approver_department text,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE approval_chain_steps ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view approval chain steps"
+  ON approval_chain_steps FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage approval chain steps"
+  ON approval_chain_steps FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users_profile
+      WHERE users_profile.id = auth.uid()
+      AND users_profile.role = 'Admin'
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_approval_chain_steps_chain ON approval_chain_steps(chain_id);
+
+-- =============================================
+-- 2. DOCUMENT APPROVAL STEPS
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS document_approval_steps (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  document_id uuid NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+  chain_step_id uuid REFERENCES approval_chain_steps(id) ON DELETE SET NULL,
+  step_order integer NOT NULL,
+  name text NOT NULL,
+  approver_role text NOT NULL,
+  approver_department text,
+  status text NOT NULL DEFAULT 'Waiting',
+  decided_by uuid REFERENCES users_profile(id) ON DELETE SET NULL,
+  decided_at timestamptz,
+  remarks text,
+  superseded_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  CHECK (status IN ('Waiting', 'Pending', 'Approved', 'Rejected', 'Skipped'))
+);
+
+ALTER TABLE document_approval_steps ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_document_approval_steps_document ON document_approval_steps(document_id);
+CREATE INDEX IF NOT EXISTS idx_document_approval_steps_pending
+  ON document_approval_steps(approver_role, status)
+  WHERE superseded_at IS NULL;
+
+ALTER TABLE documents
+  ADD COLUMN IF NOT EXISTS approval_chain_id uuid REFERENCES approval_chains(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS current_step_order integer;
+
+-- =============================================
+-- 3. STEP APPROVER CHECKS
+-- =============================================
+
+CREATE OR REPLACE FUNCTION is_step_approver(p_role text, p_department text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM users_profile
+    WHERE users_profile.id = auth.uid()
+    AND (
+      users_profile.role = 'Admin'
+      OR (
+        users_profile.role = p_role
+        AND (p_department IS NULL OR users_profile.department = p_department)
+      )
+    )
+  );
+$$;
+
+-- Steps that are not yet reached ('Waiting') do not grant access
+CREATE OR REPLACE FUNCTION is_document_step_approver(p_document_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM document_approval_steps
+    WHERE document_approval_steps.document_id = p_document_id
+    AND document_approval_steps.superseded_at IS NULL
+    AND document_approval_steps.status <> 'Waiting'
+    AND is_step_approver(document_approval_steps.approver_role, document_approval_steps.approver_department)
+  );
+$$;
+
+CREATE POLICY "Users can view approval steps for accessible documents"
+  ON document_approval_steps FOR SELECT
+  TO authenticated
+  USING (
+    is_document_step_approver(document_id)
+    OR EXISTS (
+      SELECT 1 FROM documents
+      WHERE documents.id = document_approval_steps.document_id
+      AND (
+        documents.created_by = auth.uid()
+        OR documents.approver_id = auth.uid()
+        OR EXISTS (
+          SELECT 1 FROM users_profile
+          WHERE users_profile.id = auth.uid()
+          AND users_profile.role IN ('Admin', 'Finance')
+        )
+      )
+    )
+  );
+
+CREATE POLICY "Step approvers can view their documents"
+  ON documents FOR SELECT
+  TO authenticated
+  USING (is_document_step_approver(id));
+
+CREATE POLICY "Step approvers can view document lines"
+  ON document_lines FOR SELECT
+  TO authenticated
+  USING (is_document_step_approver(document_id));
+
+CREATE POLICY "Step approvers can view document files"
+  ON document_files FOR SELECT
+  TO authenticated
+  USING (is_document_step_approver(document_id));
+
+CREATE POLICY "Step approvers can view document history"
+  ON document_history FOR SELECT
+  TO authenticated
+  USING (is_document_step_approver(document_id));
+
+-- =============================================
+-- 4. INTERNAL HELPERS
+-- =============================================
+
+CREATE OR REPLACE FUNCTION start_approval_chain(p_document_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  doc documents%ROWTYPE;
+  v_chain_id uuid;
+  v_first_order integer;
+BEGIN
+  SELECT * INTO doc FROM documents WHERE id = p_document_id;
+
+  UPDATE document_approval_steps
+  SET superseded_at = now()
+  WHERE document_id = doc.id
+  AND superseded_at IS NULL;
+
+  SELECT approval_chains.id INTO v_chain_id
+  FROM approval_chains
+  WHERE approval_chains.is_active
+  AND approval_chains.document_type = doc.document_type
+  AND (approval_chains.currency IS NULL OR approval_chains.currency = doc.currency)
+  AND approval_chains.min_value <= COALESCE(doc.document_value, 0)
+  AND EXISTS (SELECT 1 FROM approval_chain_steps WHERE approval_chain_steps.chain_id = approval_chains.id)
+  ORDER BY approval_chains.min_value DESC, (approval_chains.currency IS NOT NULL) DESC, approval_chains.created_at
+  LIMIT 1;
+
+  IF v_chain_id IS NOT NULL THEN
+    INSERT INTO document_approval_steps (document_id, chain_step_id, step_order, name, approver_role, approver_department)
+    SELECT doc.id, id, step_order, name, approver_role, approver_department
+    FROM approval_chain_steps
+    WHERE chain_id = v_chain_id;
+  ELSE
+    INSERT INTO document_approval_steps (document_id, step_order, name, approver_role)
+    VALUES (doc.id, 1, 'Approval', 'Approver');
+  END IF;
+
+  SELECT MIN(step_order) INTO v_first_order
+  FROM document_approval_steps
+  WHERE document_id = doc.id
+  AND superseded_at IS NULL;
+
+  UPDATE document_approval_steps
+  SET status = 'Pending'
+  WHERE document_id = doc.id
+  AND superseded_at IS NULL
+  AND step_order = v_first_order;
+
+  UPDATE documents
+  SET approval_chain_id = v_chain_id,
+      current_step_order = v_first_order
+  WHERE id = doc.id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION post_document_stock_movements(p_document_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  doc documents%ROWTYPE;
+  line record;
+  v_movement_type text;
+  v_now timestamptz := now();
+BEGIN
+  SELECT * INTO doc FROM documents WHERE id = p_document_id;
+
+  v_movement_type := CASE doc.document_type
+    WHEN 'Goods Receipt' THEN 'IN'
+    WHEN 'Delivery Note' THEN 'OUT'
+    ELSE NULL
+  END;
+
+  IF v_movement_type IS NULL THEN
+    RETURN;
+  END IF;
+
+  IF doc.warehouse_id IS NULL THEN
+    RAISE EXCEPTION '% % has no warehouse assigned', doc.document_type, doc.document_number;
+  END IF;
+
+  FOR line IN
+    SELECT * FROM document_lines
+    WHERE document_id = doc.id
+    ORDER BY line_number
+  LOOP
+    INSERT INTO stock_movements (
+      product_id, warehouse_id, movement_type, quantity, unit_cost,
+      source_document_id, reference_number, remarks, performed_by, movement_date
+    ) VALUES (
+      line.product_id, doc.warehouse_id, v_movement_type, line.quantity, line.unit_price,
+      doc.id, doc.document_number, 'Posted from ' || doc.document_type || ' line ' || line.line_number,
+      auth.uid(), v_now
+    );
+  END LOOP;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION start_approval_chain(uuid) FROM PUBLIC, authenticated;
+REVOKE ALL ON FUNCTION post_document_stock_movements(uuid) FROM PUBLIC, authenticated;
+
+-- =============================================
+-- 5. SUBMIT / APPROVE / REJECT
+-- =============================================
+
+CREATE OR REPLACE FUNCTION submit_document(p_document_id uuid, p_remarks text DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  doc documents%ROWTYPE;
+BEGIN
+  SELECT * INTO doc FROM documents WHERE id = p_document_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Document % not found', p_document_id;
+  END IF;
+
+  IF doc.created_by IS DISTINCT FROM auth.uid() AND NOT EXISTS (
+    SELECT 1 FROM users_profile
+    WHERE users_profile.id = auth.uid()
+    AND users_profile.role = 'Admin'
+  ) THEN
+    RAISE EXCEPTION 'Only the document creator can submit it for approval';
+  END IF;
+
+  IF doc.status <> 'Draft' THEN
+    RAISE EXCEPTION 'Only Draft documents can be submitted (current status: %)', doc.status;
+  END IF;
+
+  UPDATE documents
+  SET status = 'Pending', rejection_reason = NULL, updated_at = now()
+  WHERE id = doc.id;
+
+  PERFORM start_approval_chain(doc.id);
+
+  INSERT INTO document_history (document_id, action_type, old_status, new_status, performed_by, remarks)
+  VALUES (doc.id, 'Submitted', doc.status, 'Pending', auth.uid(), COALESCE(p_remarks, 'Submitted for approval'));
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION submit_document(uuid, text) TO authenticated;
+
+CREATE OR REPLACE FUNCTION approve_document(p_document_id uuid, p_remarks text DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  doc documents%ROWTYPE;
+  step document_approval_steps%ROWTYPE;
+  v_next_order integer;
+BEGIN
+  SELECT * INTO doc FROM documents WHERE id = p_document_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Document % not found', p_document_id;
+  END IF;
+
+  IF doc.status <> 'Pending' THEN
+    RAISE EXCEPTION 'Only Pending documents can be approved (current status: %)', doc.status;
+  END IF;
+
+  SELECT * INTO step
+  FROM document_approval_steps
+  WHERE document_id = doc.id
+  AND superseded_at IS NULL
+  AND status = 'Pending'
+  AND step_order = doc.current_step_order
+  AND is_step_approver(approver_role, approver_department)
+  ORDER BY created_at
+  LIMIT 1
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'You are not an approver for the current step of %', doc.document_number;
+  END IF;
+
+  UPDATE document_approval_steps
+  SET status = 'Approved', decided_by = auth.uid(), decided_at = now(), remarks = p_remarks
+  WHERE id = step.id;
+
+  INSERT INTO document_history (document_id, action_type, old_status, new_status, performed_by, remarks)
+  VALUES (doc.id, 'Step Approved', doc.status, doc.status, auth.uid(),
+    step.name || COALESCE(': ' || p_remarks, ''));
+
+  -- Parallel steps at the same order must all be approved before moving on
+  IF EXISTS (
+    SELECT 1 FROM document_approval_steps
+    WHERE document_id = doc.id
+    AND superseded_at IS NULL
+    AND status = 'Pending'
+    AND step_order = doc.current_step_order
+  ) THEN
+    RETURN;
+  END IF;
+
+  SELECT MIN(step_order) INTO v_next_order
+  FROM document_approval_steps
+  WHERE document_id = doc.id
+  AND superseded_at IS NULL
+  AND status = 'Waiting'
+  AND step_order > doc.current_step_order;
+
+  IF v_next_order IS NOT NULL THEN
+    UPDATE document_approval_steps
+    SET status = 'Pending'
+    WHERE document_id = doc.id
+    AND superseded_at IS NULL
+    AND step_order = v_next_order;
+
+    UPDATE documents
+    SET current_step_order = v_next_order, updated_at = now()
+    WHERE id = doc.id;
+
+    RETURN;
+  END IF;
+
+  PERFORM post_document_stock_movements(doc.id);
+
+  UPDATE documents
+  SET status = 'Approved', current_step_order = NULL, updated_at = now()
+  WHERE id = doc.id;
+
+  INSERT INTO document_history (document_id, action_type, old_status, new_status, performed_by, remarks)
+  VALUES (doc.id, 'Approved', doc.status, 'Approved', auth.uid(), 'Approval chain completed');
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION reject_document(p_document_id uuid, p_reason text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  doc documents%ROWTYPE;
+  step document_approval_steps%ROWTYPE;
+BEGIN
+  IF p_reason IS NULL OR btrim(p_reason) = '' THEN
+    RAISE EXCEPTION 'A rejection reason is required';
+  END IF;
+
+  SELECT * INTO doc FROM documents WHERE id = p_document_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Document % not found', p_document_id;
+  END IF;
+
+  IF doc.status <> 'Pending' THEN
+    RAISE EXCEPTION 'Only Pending documents can be rejected (current status: %)', doc.status;
+  END IF;
+
+  SELECT * INTO step
+  FROM document_approval_steps
+  WHERE document_id = doc.id
+  AND superseded_at IS NULL
+  AND status = 'Pending'
+  AND step_order = doc.current_step_order
+  AND is_step_approver(approver_role, approver_department)
+  ORDER BY created_at
+  LIMIT 1
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'You are not an approver for the current step of %', doc.document_number;
+  END IF;
+
+  UPDATE document_approval_steps
+  SET status = 'Rejected', decided_by = auth.uid(), decided_at = now(), remarks = p_reason
+  WHERE id = step.id;
+
+  UPDATE document_approval_steps
+  SET status = 'Skipped'
+  WHERE document_id = doc.id
+  AND superseded_at IS NULL
+  AND status IN ('Waiting', 'Pending');
+
+  UPDATE documents
+  SET status = 'Rejected', rejection_reason = p_reason, current_step_order = NULL, updated_at = now()
+  WHERE id = doc.id;
+
+  INSERT INTO document_history (document_id, action_type, old_status, new_status, performed_by, remarks)
+  VALUES (doc.id, 'Rejected', doc.status, 'Rejected', auth.uid(), step.name || ': ' || p_reason);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION reject_document(uuid, text) TO authenticated;
+
+CREATE OR REPLACE FUNCTION reverse_document_approval(p_document_id uuid, p_reason text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  doc documents%ROWTYPE;
+  net record;
+  v_now timestamptz := now();
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM users_profile
+    WHERE users_profile.id = auth.uid()
+    AND users_profile.role IN ('Approver', 'Admin')
+  ) THEN
+    RAISE EXCEPTION 'Only Approvers and Admins can reverse approvals';
+  END IF;
+
+  IF p_reason IS NULL OR btrim(p_reason) = '' THEN
+    RAISE EXCEPTION 'A reason is required to reverse an approval';
+  END IF;
+
+  SELECT * INTO doc FROM documents WHERE id = p_document_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Document % not found', p_document_id;
+  END IF;
+
+  IF doc.status <> 'Approved' THEN
+    RAISE EXCEPTION 'Only Approved documents can be reversed (current status: %)', doc.status;
+  END IF;
+
+  FOR net IN
+    SELECT
+      product_id,
+      warehouse_id,
+      SUM(stock_movement_delta(movement_type, quantity)) AS quantity,
+      MAX(unit_cost) AS unit_cost
+    FROM stock_movements
+    WHERE source_document_id = doc.id
+    GROUP BY product_id, warehouse_id
+    HAVING SUM(stock_movement_delta(movement_type, quantity)) <> 0
+  LOOP
+    INSERT INTO stock_movements (
+      product_id, warehouse_id, movement_type, quantity, unit_cost,
+      source_document_id, reference_number, remarks, performed_by, movement_date
+    ) VALUES (
+      net.product_id, net.warehouse_id,
+      CASE WHEN net.quantity > 0 THEN 'OUT' ELSE 'IN' END,
+      abs(net.quantity), net.unit_cost,
+      doc.id, doc.document_number, 'Reversal: ' || p_reason,
+      auth.uid(), v_now
+    );
+  END LOOP;
+
+  UPDATE documents
+  SET status = 'Pending', updated_at = v_now
+  WHERE id = doc.id;
+
+  PERFORM start_approval_chain(doc.id);
+
+  INSERT INTO document_history (document_id, action_type, old_status, new_status, performed_by, remarks)
+  VALUES (doc.id, 'Approval Reversed', doc.status, 'Pending', auth.uid(), p_reason);
+END;
+$$;
+
+-- =============================================
+-- 6. SEED DATA
+-- =============================================
+
+INSERT INTO approval_chains (name, document_type, currency, min_value)
+SELECT 'High-value Purchase Orders (USD)', 'Purchase Order', 'USD', 50000
+WHERE NOT EXISTS (SELECT 1 FROM approval_chains WHERE name = 'High-value Purchase Orders (USD)');
+
+INSERT INTO approval_chain_steps (chain_id, step_order, name, approver_role, approver_department)
+SELECT c.id, s.step_order, s.name, s.approver_role, s.approver_department
+FROM approval_chains c
+CROSS JOIN (VALUES
+  (1, 'Procurement Manager', 'Approver', 'Procurement'),
+  (2, 'Finance', 'Finance', NULL)
+) AS s(step_order, name, approver_role, approver_department)
+WHERE c.name = 'High-value Purchase Orders (USD)'
+AND NOT EXISTS (SELECT 1 FROM approval_chain_steps WHERE approval_chain_steps.chain_id = c.id);
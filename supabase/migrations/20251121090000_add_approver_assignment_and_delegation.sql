@@ -0,0 +1,663 @@
+/*
+  # Approver Assignment and Delegation
+
+  ## Overview
+  Documents can now name an approver, either picked on the create form or filled in by
+  department-based assignment rules. The assigned approver decides the default approval
+  step. Approvers can delegate to a colleague for a date range (out of office); while the
+  delegation is active their Pending documents are reassigned to the delegate and every
+  reassignment is written to `document_history`.
+
+  ## 1. New Tables
+
+  ### approver_assignment_rules
+  - `id` (uuid, primary key)
+  - `department` (text) - Creator department the rule applies to
+  - `document_type` (text, optional) - Restricts the rule to one document type
+  - `approver_id` (uuid) - Approver assigned by the rule
+  - `is_active` (boolean)
+  - `created_at` (timestamptz)
+
+  ### approver_delegations
+  - `id` (uuid, primary key)
+  - `approver_id` (uuid) - Approver who is away
+  - `delegate_id` (uuid) - Approver receiving the documents
+  - `starts_on` (date), `ends_on` (date) - Inclusive delegation window
+  - `reason` (text, optional)
+  - `created_by` (uuid), `created_at` (timestamptz)
+  - `revoked_at` (timestamptz, optional) - Set when the delegation is cancelled
+
+  ## 2. Modified Tables
+
+  ### document_approval_steps
+  - `approver_id` (uuid, optional) - Named approver for the step. When set, only that user
+    (or an Admin) can decide it; the default step uses the document's assigned approver
+
+  ## 3. Functions & Triggers
+  - `assign_document_approver()` - BEFORE INSERT trigger on `documents` filling
+    `approver_id` from the assignment rules when none was chosen
+  - `resolve_delegated_approver(p_approver_id, p_on)` - Follows active delegations
+  - `create_approver_delegation(...)` - Records a delegation and applies it immediately
+    when the window has started
+  - `revoke_approver_delegation(p_delegation_id)`
+  - `apply_due_approver_delegations()` - Reassigns Pending documents for every active
+    delegation; idempotent and safe to schedule (e.g. daily with pg_cron)
+  - `is_step_approver` now also takes the step's named approver
+
+  ## 4. Security
+  - Rules are managed by Admins and readable by everyone
+  - Approvers see and manage their own delegations; Admins manage all
+*/
+
+-- =============================================
+-- 1. ASSIGNMENT RULES
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS approver_assignment_rules (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  department text NOT NULL,
+  document_type text,
+  approver_id uuid NOT NULL REFERENCES users_profile(id) ON DELETE CASCADE,
+  is_active boolean DEFAULT true,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE approver_assignment_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view assignment rules"
+  ON approver_assignment_rules FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage assignment rules"
+  ON approver_assignment_rules FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users_profile
+      WHERE users_profile.id = auth.uid()
+      AND users_profile.role = 'Admin'
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_approver_assignment_rules_department ON approver_assignment_rules(department);
+
+-- =============================================
+-- 2. DELEGATIONS
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS approver_delegations (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  approver_id uuid NOT NULL REFERENCES users_profile(id) ON DELETE CASCADE,
+  delegate_id uuid NOT NULL REFERENCES users_profile(id) ON DELETE CASCADE,
+  starts_on date NOT NULL,
+  ends_on date NOT NULL,
+  reason text,
+  created_by uuid REFERENCES users_profile(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  revoked_at timestamptz,
+  CHECK (approver_id <> delegate_id),
+  CHECK (ends_on >= starts_on)
+);
+
+ALTER TABLE approver_delegations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view delegations involving them"
+  ON approver_delegations FOR SELECT
+  TO authenticated
+  USING (
+    auth.uid() = approver_id
+    OR auth.uid() = delegate_id
+    OR EXISTS (
+      SELECT 1 FROM users_profile
+      WHERE users_profile.id = auth.uid()
+      AND users_profile.role = 'Admin'
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_approver_delegations_approver ON approver_delegations(approver_id);
+CREATE INDEX IF NOT EXISTS idx_approver_delegations_window ON approver_delegations(starts_on, ends_on);
+
+ALTER TABLE document_approval_steps
+  ADD COLUMN IF NOT EXISTS approver_id uuid REFERENCES users_profile(id) ON DELETE SET NULL;
+
+-- =============================================
+-- 3. AUTO-ASSIGNMENT ON CREATE
+-- =============================================
+
+CREATE OR REPLACE FUNCTION assign_document_approver()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.approver_id IS NULL THEN
+    SELECT approver_assignment_rules.approver_id INTO NEW.approver_id
+    FROM approver_assignment_rules
+    JOIN users_profile creator ON creator.id = NEW.created_by
+    WHERE approver_assignment_rules.is_active
+    AND approver_assignment_rules.department = creator.department
+    AND (approver_assignment_rules.document_type IS NULL OR approver_assignment_rules.document_type = NEW.document_type)
+    ORDER BY (approver_assignment_rules.document_type IS NOT NULL) DESC, approver_assignment_rules.created_at
+    LIMIT 1;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_documents_assign_approver ON documents;
+CREATE TRIGGER trg_documents_assign_approver
+  BEFORE INSERT ON documents
+  FOR EACH ROW
+  EXECUTE FUNCTION assign_document_approver();
+
+-- =============================================
+-- 4. DELEGATION RESOLUTION
+-- =============================================
+
+CREATE OR REPLACE FUNCTION resolve_delegated_approver(p_approver_id uuid, p_on date DEFAULT CURRENT_DATE)
+RETURNS uuid
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_current uuid := p_approver_id;
+  v_next uuid;
+  v_depth integer := 0;
+BEGIN
+  -- Follow delegate-of-delegate chains, bounded to avoid cycles
+  WHILE v_current IS NOT NULL AND v_depth < 5 LOOP
+    SELECT delegate_id INTO v_next
+    FROM approver_delegations
+    WHERE approver_id = v_current
+    AND revoked_at IS NULL
+    AND p_on BETWEEN starts_on AND ends_on
+    ORDER BY created_at DESC
+    LIMIT 1;
+
+    EXIT WHEN v_next IS NULL OR v_next = p_approver_id;
+    v_current := v_next;
+    v_depth := v_depth + 1;
+  END LOOP;
+
+  RETURN v_current;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION apply_approver_delegation(p_delegation_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  delegation approver_delegations%ROWTYPE;
+  doc record;
+  v_delegate_name text;
+  v_approver_name text;
+  v_count integer := 0;
+BEGIN
+  SELECT * INTO delegation FROM approver_delegations WHERE id = p_delegation_id;
+
+  IF NOT FOUND OR delegation.revoked_at IS NOT NULL
+     OR CURRENT_DATE NOT BETWEEN delegation.starts_on AND delegation.ends_on THEN
+    RETURN 0;
+  END IF;
+
+  SELECT full_name INTO v_approver_name FROM users_profile WHERE id = delegation.approver_id;
+  SELECT full_name INTO v_delegate_name FROM users_profile WHERE id = delegation.delegate_id;
+
+  FOR doc IN
+    SELECT id, status FROM documents
+    WHERE approver_id = delegation.approver_id
+    AND status = 'Pending'
+    FOR UPDATE
+  LOOP
+    UPDATE documents
+    SET approver_id = delegation.delegate_id, updated_at = now()
+    WHERE id = doc.id;
+
+    UPDATE document_approval_steps
+    SET approver_id = delegation.delegate_id
+    WHERE document_id = doc.id
+    AND superseded_at IS NULL
+    AND status IN ('Waiting', 'Pending')
+    AND approver_id = delegation.approver_id;
+
+    INSERT INTO document_history (document_id, action_type, old_status, new_status, performed_by, remarks)
+    VALUES (
+      doc.id, 'Delegated', doc.status, doc.status, COALESCE(auth.uid(), delegation.created_by),
+      'Delegated from ' || COALESCE(v_approver_name, 'approver') || ' to ' || COALESCE(v_delegate_name, 'delegate')
+        || ' until ' || to_char(delegation.ends_on, 'YYYY-MM-DD')
+        || COALESCE(': ' || delegation.reason, '')
+    );
+
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION apply_approver_delegation(uuid) FROM PUBLIC, authenticated;
+
+CREATE OR REPLACE FUNCTION apply_due_approver_delegations()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  delegation record;
+  v_total integer := 0;
+BEGIN
+  FOR delegation IN
+    SELECT id FROM approver_delegations
+    WHERE revoked_at IS NULL
+    AND CURRENT_DATE BETWEEN starts_on AND ends_on
+    ORDER BY created_at
+  LOOP
+    v_total := v_total + apply_approver_delegation(delegation.id);
+  END LOOP;
+
+  RETURN v_total;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION apply_due_approver_delegations() TO authenticated;
+
+CREATE OR REPLACE FUNCTION create_approver_delegation(
+  p_delegate_id uuid,
+  p_starts_on date,
+  p_ends_on date,
+  p_reason text DEFAULT NULL,
+  p_approver_id uuid DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_approver_id uuid := COALESCE(p_approver_id, auth.uid());
+  v_delegation_id uuid;
+BEGIN
+  IF v_approver_id <> auth.uid() AND NOT EXISTS (
+    SELECT 1 FROM users_profile
+    WHERE users_profile.id = auth.uid()
+    AND users_profile.role = 'Admin'
+  ) THEN
+    RAISE EXCEPTION 'Only Admins can set up delegations for other approvers';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM users_profile
+    WHERE users_profile.id = p_delegate_id
+    AND users_profile.role IN ('Approver', 'Admin')
+  ) THEN
+    RAISE EXCEPTION 'The delegate must be an Approver';
+  END IF;
+
+  INSERT INTO approver_delegations (approver_id, delegate_id, starts_on, ends_on, reason, created_by)
+  VALUES (v_approver_id, p_delegate_id, p_starts_on, p_ends_on, p_reason, auth.uid())
+  RETURNING id INTO v_delegation_id;
+
+  PERFORM apply_approver_delegation(v_delegation_id);
+
+  RETURN v_delegation_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION create_approver_delegation(uuid, date, date, text, uuid) TO authenticated;
+
+CREATE OR REPLACE FUNCTION revoke_approver_delegation(p_delegation_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE approver_delegations
+  SET revoked_at = now()
+  WHERE id = p_delegation_id
+  AND revoked_at IS NULL
+  AND (
+    approver_id = auth.uid()
+    OR EXISTS (
+      SELECT 1 FROM users_profile
+      WHERE users_profile.id = auth.uid()
+      AND users_profile.role = 'Admin'
+    )
+  );
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Delegation not found or not yours to revoke';
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION revoke_approver_delegation(uuid) TO authenticated;
+
+-- =============================================
+-- 5. NAMED STEP APPROVERS
+-- =============================================
+
+DROP POLICY IF EXISTS "Step approvers can view their documents" ON documents;
+DROP POLICY IF EXISTS "Step approvers can view document lines" ON document_lines;
+DROP POLICY IF EXISTS "Step approvers can view document files" ON document_files;
+DROP POLICY IF EXISTS "Step approvers can view document history" ON document_history;
+DROP POLICY IF EXISTS "Users can view approval steps for accessible documents" ON document_approval_steps;
+DROP FUNCTION IF EXISTS is_document_step_approver(uuid);
+DROP FUNCTION IF EXISTS is_step_approver(text, text);
+
+CREATE OR REPLACE FUNCTION is_step_approver(p_role text, p_department text, p_approver_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM users_profile
+    WHERE users_profile.id = auth.uid()
+    AND (
+      users_profile.role = 'Admin'
+      OR (
+        p_approver_id IS NOT NULL
+        AND users_profile.id = p_approver_id
+      )
+      OR (
+        p_approver_id IS NULL
+        AND users_profile.role = p_role
+        AND (p_department IS NULL OR users_profile.department = p_department)
+      )
+    )
+  );
+$$;
+
+-- Steps that are not yet reached ('Waiting') do not grant access
+CREATE OR REPLACE FUNCTION is_document_step_approver(p_document_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM document_approval_steps
+    WHERE document_approval_steps.document_id = p_document_id
+    AND document_approval_steps.superseded_at IS NULL
+    AND document_approval_steps.status <> 'Waiting'
+    AND is_step_approver(
+      document_approval_steps.approver_role,
+      document_approval_steps.approver_department,
+      document_approval_steps.approver_id
+    )
+  );
+$$;
+
+CREATE POLICY "Users can view approval steps for accessible documents"
+  ON document_approval_steps FOR SELECT
+  TO authenticated
+  USING (
+    is_document_step_approver(document_id)
+    OR EXISTS (
+      SELECT 1 FROM documents
+      WHERE documents.id = document_approval_steps.document_id
+      AND (
+        documents.created_by = auth.uid()
+        OR documents.approver_id = auth.uid()
+        OR EXISTS (
+          SELECT 1 FROM users_profile
+          WHERE users_profile.id = auth.uid()
+          AND users_profile.role IN ('Admin', 'Finance')
+        )
+      )
+    )
+  );
+
+CREATE POLICY "Step approvers can view their documents"
+  ON documents FOR SELECT
+  TO authenticated
+  USING (is_document_step_approver(id));
+
+CREATE POLICY "Step approvers can view document lines"
+  ON document_lines FOR SELECT
+  TO authenticated
+  USING (is_document_step_approver(document_id));
+
+CREATE POLICY "Step approvers can view document files"
+  ON document_files FOR SELECT
+  TO authenticated
+  USING (is_document_step_approver(document_id));
+
+CREATE POLICY "Step approvers can view document history"
+  ON document_history FOR SELECT
+  TO authenticated
+  USING (is_document_step_approver(document_id));
+
+-- =============================================
+-- 6. CHAIN START WITH ASSIGNED APPROVER
+-- =============================================
+
+CREATE OR REPLACE FUNCTION start_approval_chain(p_document_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  doc documents%ROWTYPE;
+  v_chain_id uuid;
+  v_first_order integer;
+  v_approver_id uuid;
+BEGIN
+  SELECT * INTO doc FROM documents WHERE id = p_document_id;
+
+  -- Route to the delegate if the assigned approver is currently away
+  v_approver_id := resolve_delegated_approver(doc.approver_id);
+
+  IF v_approver_id IS DISTINCT FROM doc.approver_id THEN
+    UPDATE documents SET approver_id = v_approver_id WHERE id = doc.id;
+
+    INSERT INTO document_history (document_id, action_type, old_status, new_status, performed_by, remarks)
+    VALUES (doc.id, 'Delegated', doc.status, doc.status, auth.uid(),
+      'Delegated from ' || COALESCE((SELECT full_name FROM users_profile WHERE id = doc.approver_id), 'approver')
+        || ' to ' || COALESCE((SELECT full_name FROM users_profile WHERE id = v_approver_id), 'delegate'));
+  END IF;
+
+  UPDATE document_approval_steps
+  SET superseded_at = now()
+  WHERE document_id = doc.id
+  AND superseded_at IS NULL;
+
+  SELECT approval_chains.id INTO v_chain_id
+  FROM approval_chains
+  WHERE approval_chains.is_active
+  AND approval_chains.document_type = doc.document_type
+  AND (approval_chains.currency IS NULL OR approval_chains.currency = doc.currency)
+  AND approval_chains.min_value <= COALESCE(doc.document_value, 0)
+  AND EXISTS (SELECT 1 FROM approval_chain_steps WHERE approval_chain_steps.chain_id = approval_chains.id)
+  ORDER BY approval_chains.min_value DESC, (approval_chains.currency IS NOT NULL) DESC, approval_chains.created_at
+  LIMIT 1;
+
+  IF v_chain_id IS NOT NULL THEN
+    INSERT INTO document_approval_steps (document_id, chain_step_id, step_order, name, approver_role, approver_department)
+    SELECT doc.id, id, step_order, name, approver_role, approver_department
+    FROM approval_chain_steps
+    WHERE chain_id = v_chain_id;
+  ELSE
+    INSERT INTO document_approval_steps (document_id, step_order, name, approver_role, approver_id)
+    VALUES (doc.id, 1, 'Approval', 'Approver', v_approver_id);
+  END IF;
+
+  SELECT MIN(step_order) INTO v_first_order
+  FROM document_approval_steps
+  WHERE document_id = doc.id
+  AND superseded_at IS NULL;
+
+  UPDATE document_approval_steps
+  SET status = 'Pending'
+  WHERE document_id = doc.id
+  AND superseded_at IS NULL
+  AND step_order = v_first_order;
+
+  UPDATE documents
+  SET approval_chain_id = v_chain_id,
+      current_step_order = v_first_order
+  WHERE id = doc.id;
+END;
+$$;
+
+-- =============================================
+-- 7. APPROVE / REJECT WITH NAMED APPROVERS
+-- =============================================
+
+CREATE OR REPLACE FUNCTION approve_document(p_document_id uuid, p_remarks text DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  doc documents%ROWTYPE;
+  step document_approval_steps%ROWTYPE;
+  v_next_order integer;
+BEGIN
+  SELECT * INTO doc FROM documents WHERE id = p_document_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Document % not found', p_document_id;
+  END IF;
+
+  IF doc.status <> 'Pending' THEN
+    RAISE EXCEPTION 'Only Pending documents can be approved (current status: %)', doc.status;
+  END IF;
+
+  SELECT * INTO step
+  FROM document_approval_steps
+  WHERE document_id = doc.id
+  AND superseded_at IS NULL
+  AND status = 'Pending'
+  AND step_order = doc.current_step_order
+  AND is_step_approver(approver_role, approver_department, approver_id)
+  ORDER BY created_at
+  LIMIT 1
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'You are not an approver for the current step of %', doc.document_number;
+  END IF;
+
+  UPDATE document_approval_steps
+  SET status = 'Approved', decided_by = auth.uid(), decided_at = now(), remarks = p_remarks
+  WHERE id = step.id;
+
+  INSERT INTO document_history (document_id, action_type, old_status, new_status, performed_by, remarks)
+  VALUES (doc.id, 'Step Approved', doc.status, doc.status, auth.uid(),
+    step.name || COALESCE(': ' || p_remarks, ''));
+
+  -- Parallel steps at the same order must all be approved before moving on
+  IF EXISTS (
+    SELECT 1 FROM document_approval_steps
+    WHERE document_id = doc.id
+    AND superseded_at IS NULL
+    AND status = 'Pending'
+    AND step_order = doc.current_step_order
+  ) THEN
+    RETURN;
+  END IF;
+
+  SELECT MIN(step_order) INTO v_next_order
+  FROM document_approval_steps
+  WHERE document_id = doc.id
+  AND superseded_at IS NULL
+  AND status = 'Waiting'
+  AND step_order > doc.current_step_order;
+
+  IF v_next_order IS NOT NULL THEN
+    UPDATE document_approval_steps
+    SET status = 'Pending'
+    WHERE document_id = doc.id
+    AND superseded_at IS NULL
+    AND step_order = v_next_order;
+
+    UPDATE documents
+    SET current_step_order = v_next_order, updated_at = now()
+    WHERE id = doc.id;
+
+    RETURN;
+  END IF;
+
+  PERFORM post_document_stock_movements(doc.id);
+
+  UPDATE documents
+  SET status = 'Approved', current_step_order = NULL, updated_at = now()
+  WHERE id = doc.id;
+
+  INSERT INTO document_history (document_id, action_type, old_status, new_status, performed_by, remarks)
+  VALUES (doc.id, 'Approved', doc.status, 'Approved', auth.uid(), 'Approval chain completed');
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION reject_document(p_document_id uuid, p_reason text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  doc documents%ROWTYPE;
+  step document_approval_steps%ROWTYPE;
+BEGIN
+  IF p_reason IS NULL OR btrim(p_reason) = '' THEN
+    RAISE EXCEPTION 'A rejection reason is required';
+  END IF;
+
+  SELECT * INTO doc FROM documents WHERE id = p_document_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Document % not found', p_document_id;
+  END IF;
+
+  IF doc.status <> 'Pending' THEN
+    RAISE EXCEPTION 'Only Pending documents can be rejected (current status: %)', doc.status;
+  END IF;
+
+  SELECT * INTO step
+  FROM document_approval_steps
+  WHERE document_id = doc.id
+  AND superseded_at IS NULL
+  AND status = 'Pending'
+  AND step_order = doc.current_step_order
+  AND is_step_approver(approver_role, approver_department, approver_id)
+  ORDER BY created_at
+  LIMIT 1
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'You are not an approver for the current step of %', doc.document_number;
+  END IF;
+
+  UPDATE document_approval_steps
+  SET status = 'Rejected', decided_by = auth.uid(), decided_at = now(), remarks = p_reason
+  WHERE id = step.id;
+
+  UPDATE document_approval_steps
+  SET status = 'Skipped'
+  WHERE document_id = doc.id
+  AND superseded_at IS NULL
+  AND status IN ('Waiting', 'Pending');
+
+  UPDATE documents
+  SET status = 'Rejected', rejection_reason = p_reason, current_step_order = NULL, updated_at = now()
+  WHERE id = doc.id;
+
+  INSERT INTO document_history (document_id, action_type, old_status, new_status, performed_by, remarks)
+  VALUES (doc.id, 'Rejected', doc.status, 'Rejected', auth.uid(), step.name || ': ' || p_reason);
+END;
+$$;
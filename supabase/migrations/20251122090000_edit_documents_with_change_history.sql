@@ -0,0 +1,74 @@
+/*
+  # Edit Draft and Rejected Documents
+
+  ## Overview
+  Creators can now edit their documents while they are Draft or Rejected (so a rejected
+  document can be corrected before resubmission). Every save writes an "Updated"
+  `document_history` entry carrying a structured before/after diff of the changed fields.
+
+  ## 1. Modified Tables
+
+  ### document_history
+  - `changes` (jsonb, optional) - Array of `{ field, label, before, after }` objects
+    describing the fields changed by an "Updated" entry
+
+  ## 2. Security
+  - "Creators can update their draft documents" now also covers Rejected documents, and
+    the updated row must stay Draft or Rejected (status changes go through the workflow
+    functions)
+  - "Creators can manage lines on their draft documents" likewise covers Rejected documents
+
+  ## 3. Triggers
+  - `trg_documents_assign_approver` also runs when `approver_id` is cleared on update, so
+    "Auto-assign by department" behaves the same when editing as when creating
+*/
+
+ALTER TABLE document_history ADD COLUMN IF NOT EXISTS changes jsonb;
+
+-- =============================================
+-- 1. DOCUMENT UPDATE POLICY
+-- =============================================
+
+DROP POLICY IF EXISTS "Creators can update their draft documents" ON documents;
+
+CREATE POLICY "Creators can update their draft documents"
+  ON documents FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = created_by AND status IN ('Draft', 'Rejected'))
+  WITH CHECK (auth.uid() = created_by AND status IN ('Draft', 'Rejected'));
+
+-- =============================================
+-- 2. DOCUMENT LINES POLICY
+-- =============================================
+
+DROP POLICY IF EXISTS "Creators can manage lines on their draft documents" ON document_lines;
+
+CREATE POLICY "Creators can manage lines on their draft documents"
+  ON document_lines FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM documents
+      WHERE documents.id = document_lines.document_id
+      AND documents.created_by = auth.uid()
+      AND documents.status IN ('Draft', 'Rejected')
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM documents
+      WHERE documents.id = document_lines.document_id
+      AND documents.created_by = auth.uid()
+      AND documents.status IN ('Draft', 'Rejected')
+    )
+  );
+
+-- =============================================
+-- 3. APPROVER AUTO-ASSIGNMENT ON EDIT
+-- =============================================
+
+DROP TRIGGER IF EXISTS trg_documents_assign_approver ON documents;
+CREATE TRIGGER trg_documents_assign_approver
+  BEFORE INSERT OR UPDATE OF approver_id ON documents
+  FOR EACH ROW
+  EXECUTE FUNCTION assign_document_approver();
@@ -0,0 +1,202 @@
+/*
+  # Document Revisions
+
+  ## Overview
+  Rejected documents can be revised and resubmitted. Revising snapshots the rejected
+  revision (header fields, lines and the rejection reason), bumps `documents.revision` and
+  moves the document back to Draft. Submitting the new revision restarts the approval chain
+  through `submit_document()`. Snapshots let the detail page compare any two revisions.
+
+  ## 1. New Tables
+
+  ### document_revisions
+  - `id` (uuid, primary key)
+  - `document_id` (uuid) - Revised document
+  - `revision` (integer) - Revision number the snapshot describes
+  - `snapshot` (jsonb) - `fields` (keyed like the "Updated" history diff) and `lines`
+  - `rejection_reason` (text, optional) - Why this revision was rejected
+  - `created_by` (uuid) - User who started the next revision
+  - `created_at` (timestamptz)
+
+  ## 2. Modified Tables
+
+  ### documents
+  - `revision` (integer) - Current revision number, starting at 1
+
+  ### document_history
+  - `revision` (integer) - Revision the entry belongs to, filled in by trigger
+
+  ## 3. Functions
+  - `document_revision_snapshot(p_document_id)` - Internal, builds the snapshot jsonb
+  - `revise_document(p_document_id, p_remarks)` - Rejected → Draft under a new revision
+
+  ## 4. Security
+  - Revision snapshots are visible to anyone who can see the document
+*/
+
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS revision integer NOT NULL DEFAULT 1;
+ALTER TABLE document_history ADD COLUMN IF NOT EXISTS revision integer;
+
+CREATE TABLE IF NOT EXISTS document_revisions (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  document_id uuid NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+  revision integer NOT NULL,
+  snapshot jsonb NOT NULL,
+  rejection_reason text,
+  created_by uuid REFERENCES users_profile(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE(document_id, revision)
+);
+
+ALTER TABLE document_revisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view revisions for accessible documents"
+  ON document_revisions FOR SELECT
+  TO authenticated
+  USING (
+    is_document_step_approver(document_id)
+    OR EXISTS (
+      SELECT 1 FROM documents
+      WHERE documents.id = document_revisions.document_id
+      AND (
+        documents.created_by = auth.uid()
+        OR documents.approver_id = auth.uid()
+        OR EXISTS (
+          SELECT 1 FROM users_profile
+          WHERE users_profile.id = auth.uid()
+          AND users_profile.role IN ('Admin', 'Finance')
+        )
+      )
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_document_revisions_document ON document_revisions(document_id);
+
+-- =============================================
+-- 1. HISTORY REVISION TAGGING
+-- =============================================
+
+CREATE OR REPLACE FUNCTION set_document_history_revision()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.revision IS NULL THEN
+    SELECT revision INTO NEW.revision FROM documents WHERE id = NEW.document_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_document_history_revision ON document_history;
+CREATE TRIGGER trg_document_history_revision
+  BEFORE INSERT ON document_history
+  FOR EACH ROW
+  EXECUTE FUNCTION set_document_history_revision();
+
+UPDATE document_history SET revision = 1 WHERE revision IS NULL;
+
+-- =============================================
+-- 2. SNAPSHOTS
+-- =============================================
+
+-- Header values are text so the client can diff them like the "Updated" history changes
+CREATE OR REPLACE FUNCTION document_revision_snapshot(p_document_id uuid)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT jsonb_build_object(
+    'fields', jsonb_build_object(
+      'document_type', documents.document_type,
+      'document_number', documents.document_number,
+      'supplier_name', documents.supplier_name,
+      'document_date', to_char(documents.document_date, 'YYYY-MM-DD'),
+      'currency', documents.currency,
+      'priority', documents.priority,
+      'approver', approver.full_name,
+      'warehouse', warehouses.name,
+      'document_value', to_char(COALESCE(documents.document_value, 0), 'FM999999999999990.00'),
+      'remarks', documents.remarks
+    ),
+    'lines', COALESCE((
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'product', products.sku || ' ' || products.name,
+          'description', document_lines.description,
+          'quantity', document_lines.quantity,
+          'unit_of_measure', document_lines.unit_of_measure,
+          'unit_price', document_lines.unit_price,
+          'line_total', document_lines.line_total
+        )
+        ORDER BY document_lines.line_number
+      )
+      FROM document_lines
+      LEFT JOIN products ON products.id = document_lines.product_id
+      WHERE document_lines.document_id = documents.id
+    ), '[]'::jsonb)
+  )
+  FROM documents
+  LEFT JOIN users_profile approver ON approver.id = documents.approver_id
+  LEFT JOIN warehouses ON warehouses.id = documents.warehouse_id
+  WHERE documents.id = p_document_id;
+$$;
+
+REVOKE ALL ON FUNCTION document_revision_snapshot(uuid) FROM PUBLIC, authenticated;
+
+-- =============================================
+-- 3. REVISE
+-- =============================================
+
+CREATE OR REPLACE FUNCTION revise_document(p_document_id uuid, p_remarks text DEFAULT NULL)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  doc documents%ROWTYPE;
+BEGIN
+  SELECT * INTO doc FROM documents WHERE id = p_document_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Document % not found', p_document_id;
+  END IF;
+
+  IF doc.created_by IS DISTINCT FROM auth.uid() AND NOT EXISTS (
+    SELECT 1 FROM users_profile
+    WHERE users_profile.id = auth.uid()
+    AND users_profile.role = 'Admin'
+  ) THEN
+    RAISE EXCEPTION 'Only the document creator can revise it';
+  END IF;
+
+  IF doc.status <> 'Rejected' THEN
+    RAISE EXCEPTION 'Only Rejected documents can be revised (current status: %)', doc.status;
+  END IF;
+
+  INSERT INTO document_revisions (document_id, revision, snapshot, rejection_reason, created_by)
+  VALUES (doc.id, doc.revision, document_revision_snapshot(doc.id), doc.rejection_reason, auth.uid());
+
+  UPDATE documents
+  SET status = 'Draft',
+      revision = doc.revision + 1,
+      rejection_reason = NULL,
+      current_step_order = NULL,
+      updated_at = now()
+  WHERE id = doc.id;
+
+  INSERT INTO document_history (document_id, action_type, old_status, new_status, performed_by, remarks)
+  VALUES (doc.id, 'Revised', doc.status, 'Draft', auth.uid(),
+    COALESCE(p_remarks, 'Revision ' || (doc.revision + 1) || ' started'));
+
+  RETURN doc.revision + 1;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION revise_document(uuid, text) TO authenticated;
@@ -0,0 +1,105 @@
+/*
+  # Document Attachments Storage
+
+  ## Overview
+  Files attached to documents live in the private `document-files` storage bucket under
+  `<document_id>/<file>`, with one `document_files` row per object. Uploads and deletes are
+  written to `document_history` by trigger; the client records downloads.
+
+  ## 1. Storage
+  - `document-files` bucket: private, 10 MB limit, PDF/PNG/JPEG only
+  - Objects are readable by anyone who can see the matching `document_files` row
+  - Document creators can upload into their document's folder
+  - Uploaders can delete their own objects
+
+  ## 2. Security
+  - New policy "Uploaders can delete their files" on `document_files`
+
+  ## 3. Triggers
+  - `record_document_file_history()` - AFTER INSERT/DELETE on `document_files`, adds
+    "File Uploaded" / "File Deleted" history entries
+*/
+
+-- =============================================
+-- 1. BUCKET
+-- =============================================
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('document-files', 'document-files', false, 10485760, ARRAY['application/pdf', 'image/png', 'image/jpeg'])
+ON CONFLICT (id) DO UPDATE
+SET public = EXCLUDED.public,
+    file_size_limit = EXCLUDED.file_size_limit,
+    allowed_mime_types = EXCLUDED.allowed_mime_types;
+
+CREATE POLICY "Users can read attachments they can see"
+  ON storage.objects FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'document-files'
+    AND EXISTS (
+      SELECT 1 FROM document_files
+      WHERE document_files.file_url = storage.objects.name
+    )
+  );
+
+CREATE POLICY "Creators can upload attachments to their documents"
+  ON storage.objects FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'document-files'
+    AND EXISTS (
+      SELECT 1 FROM documents
+      WHERE documents.id::text = (storage.foldername(storage.objects.name))[1]
+      AND documents.created_by = auth.uid()
+    )
+  );
+
+CREATE POLICY "Uploaders can delete their attachments"
+  ON storage.objects FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'document-files'
+    AND EXISTS (
+      SELECT 1 FROM document_files
+      WHERE document_files.file_url = storage.objects.name
+      AND document_files.uploaded_by = auth.uid()
+    )
+  );
+
+-- =============================================
+-- 2. DOCUMENT FILES
+-- =============================================
+
+CREATE POLICY "Uploaders can delete their files"
+  ON document_files FOR DELETE
+  TO authenticated
+  USING (auth.uid() = uploaded_by);
+
+CREATE OR REPLACE FUNCTION record_document_file_history()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO document_history (document_id, action_type, performed_by, remarks)
+    VALUES (NEW.document_id, 'File Uploaded', COALESCE(auth.uid(), NEW.uploaded_by), NEW.file_name);
+    RETURN NEW;
+  END IF;
+
+  -- Skip when the row goes away because its document is being deleted
+  IF EXISTS (SELECT 1 FROM documents WHERE id = OLD.document_id) THEN
+    INSERT INTO document_history (document_id, action_type, performed_by, remarks)
+    VALUES (OLD.document_id, 'File Deleted', auth.uid(), OLD.file_name);
+  END IF;
+
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_document_files_history ON document_files;
+CREATE TRIGGER trg_document_files_history
+  AFTER INSERT OR DELETE ON document_files
+  FOR EACH ROW
+  EXECUTE FUNCTION record_document_file_history();
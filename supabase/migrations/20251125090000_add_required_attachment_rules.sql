@@ -0,0 +1,198 @@
+/*
+  # Required Attachment Rules
+
+  ## Overview
+  Admins define which attachment categories each document type needs before it can be
+  submitted, e.g. an Invoice needs a "Commercial Invoice" and a Goods Receipt needs a
+  "Bill of Lading". Files are tagged with a category when uploaded; `submit_document`
+  refuses documents that are still missing a required category.
+
+  ## 1. New Tables
+
+  ### attachment_requirements
+  - `id` (uuid, primary key)
+  - `document_type` (text) - Document type the rule applies to
+  - `category` (text) - Attachment category that must be present
+  - `description` (text, optional) - Hint shown to uploaders
+  - `is_active` (boolean)
+  - `created_by` (uuid), `created_at` (timestamptz)
+
+  ## 2. Modified Tables
+
+  ### document_files
+  - `category` (text, optional) - Attachment category; NULL for uncategorised files
+
+  ## 3. Functions
+  - `missing_attachment_categories(p_document_id)` - Active required categories with no
+    matching file on the document
+  - `set_document_file_category(p_file_id, p_category)` - Re-tags a file; the uploader,
+    the document creator or an Admin can do it
+  - `submit_document` now raises when required attachments are missing
+
+  ## 4. Security
+  - Rules are managed by Admins and readable by everyone
+  - File categories only change through `set_document_file_category`, so uploaders never
+    get a general UPDATE on `document_files` (its `file_url` drives storage access)
+*/
+
+-- =============================================
+-- 1. ATTACHMENT REQUIREMENTS
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS attachment_requirements (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  document_type text NOT NULL,
+  category text NOT NULL,
+  description text,
+  is_active boolean DEFAULT true,
+  created_by uuid REFERENCES users_profile(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (document_type, category)
+);
+
+ALTER TABLE attachment_requirements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view attachment requirements"
+  ON attachment_requirements FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage attachment requirements"
+  ON attachment_requirements FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users_profile
+      WHERE users_profile.id = auth.uid()
+      AND users_profile.role = 'Admin'
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM users_profile
+      WHERE users_profile.id = auth.uid()
+      AND users_profile.role = 'Admin'
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_attachment_requirements_document_type ON attachment_requirements(document_type);
+
+-- =============================================
+-- 2. FILE CATEGORIES
+-- =============================================
+
+ALTER TABLE document_files ADD COLUMN IF NOT EXISTS category text;
+
+CREATE INDEX IF NOT EXISTS idx_document_files_document_category ON document_files(document_id, category);
+
+CREATE OR REPLACE FUNCTION set_document_file_category(p_file_id uuid, p_category text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  f document_files%ROWTYPE;
+BEGIN
+  SELECT * INTO f FROM document_files WHERE id = p_file_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'File % not found', p_file_id;
+  END IF;
+
+  IF f.uploaded_by IS DISTINCT FROM auth.uid()
+    AND NOT EXISTS (
+      SELECT 1 FROM documents
+      WHERE documents.id = f.document_id
+      AND documents.created_by = auth.uid()
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM users_profile
+      WHERE users_profile.id = auth.uid()
+      AND users_profile.role = 'Admin'
+    )
+  THEN
+    RAISE EXCEPTION 'Only the uploader or the document creator can change the file category';
+  END IF;
+
+  UPDATE document_files
+  SET category = NULLIF(btrim(p_category), '')
+  WHERE id = f.id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION set_document_file_category(uuid, text) TO authenticated;
+
+-- =============================================
+-- 3. SUBMISSION CHECK
+-- =============================================
+
+CREATE OR REPLACE FUNCTION missing_attachment_categories(p_document_id uuid)
+RETURNS SETOF text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT r.category
+  FROM attachment_requirements r
+  JOIN documents d ON d.document_type = r.document_type
+  WHERE d.id = p_document_id
+  AND r.is_active
+  AND NOT EXISTS (
+    SELECT 1 FROM document_files f
+    WHERE f.document_id = d.id
+    AND f.category = r.category
+  )
+  ORDER BY r.category;
+$$;
+
+REVOKE ALL ON FUNCTION missing_attachment_categories(uuid) FROM PUBLIC, authenticated;
+
+CREATE OR REPLACE FUNCTION submit_document(p_document_id uuid, p_remarks text DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  doc documents%ROWTYPE;
+  v_missing text;
+BEGIN
+  SELECT * INTO doc FROM documents WHERE id = p_document_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Document % not found', p_document_id;
+  END IF;
+
+  IF doc.created_by IS DISTINCT FROM auth.uid() AND NOT EXISTS (
+    SELECT 1 FROM users_profile
+    WHERE users_profile.id = auth.uid()
+    AND users_profile.role = 'Admin'
+  ) THEN
+    RAISE EXCEPTION 'Only the document creator can submit it for approval';
+  END IF;
+
+  IF doc.status <> 'Draft' THEN
+    RAISE EXCEPTION 'Only Draft documents can be submitted (current status: %)', doc.status;
+  END IF;
+
+  SELECT string_agg(category, ', ') INTO v_missing
+  FROM missing_attachment_categories(doc.id) AS category;
+
+  IF v_missing IS NOT NULL THEN
+    RAISE EXCEPTION 'Missing required attachments: %', v_missing;
+  END IF;
+
+  UPDATE documents
+  SET status = 'Pending', rejection_reason = NULL, updated_at = now()
+  WHERE id = doc.id;
+
+  PERFORM start_approval_chain(doc.id);
+
+  INSERT INTO document_history (document_id, action_type, old_status, new_status, performed_by, remarks)
+  VALUES (doc.id, 'Submitted', doc.status, 'Pending', auth.uid(), COALESCE(p_remarks, 'Submitted for approval'));
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION submit_document(uuid, text) TO authenticated;
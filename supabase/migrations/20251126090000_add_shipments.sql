@@ -0,0 +1,386 @@
+/*
+  # Import Shipments
+
+  ## Overview
+  One import shipment usually has a PO, commercial invoice, packing list, bill of lading,
+  customs declaration and goods receipt. Shipments group those documents and carry the
+  transport details. A shipment can only be closed once every required document type is
+  linked and all linked documents of those types are Approved.
+
+  ## 1. New Tables
+
+  ### shipments
+  - `id` (uuid, primary key)
+  - `shipment_number` (text, unique) - Reference, e.g. "SHP-2025-001"
+  - `supplier_name` (text, optional)
+  - `transport_mode` (text) - Sea, Air or Road
+  - `vessel_or_flight` (text, optional) - Vessel name / voyage or flight number
+  - `container_numbers` (text[]) - Container numbers; empty for air freight
+  - `port_of_loading` (text, optional), `port_of_discharge` (text, optional)
+  - `incoterm` (text, optional) - e.g. FOB, CIF
+  - `etd` (date, optional), `eta` (date, optional) - Estimated departure / arrival
+  - `status` (text) - Open, In Transit, Arrived, Closed
+  - `required_document_types` (text[]) - Document types needed before closing
+  - `remarks` (text, optional)
+  - `created_by` (uuid), `created_at`, `updated_at`
+  - `closed_by` (uuid, optional), `closed_at` (timestamptz, optional)
+
+  ### shipment_history
+  Shipment timeline; linked documents' own history is shown alongside it
+  - `id` (uuid, primary key)
+  - `shipment_id` (uuid)
+  - `action_type` (text) - Created, Updated, Status Changed, Document Linked,
+    Document Unlinked, Closed
+  - `old_status` (text, optional), `new_status` (text, optional)
+  - `document_id` (uuid, optional) - Document for link/unlink entries
+  - `performed_by` (uuid), `remarks` (text, optional), `created_at`
+
+  ## 2. Modified Tables
+
+  ### documents
+  - `shipment_id` (uuid, optional) - Shipment the document belongs to
+
+  ## 3. Functions
+  - `link_shipment_document(p_shipment_id, p_document_id)`
+  - `unlink_shipment_document(p_document_id)`
+  - `shipment_close_blockers(p_shipment_id)` - Reasons the shipment cannot close yet
+  - `close_shipment(p_shipment_id)` - Closes the shipment when there are no blockers
+
+  ## 4. Security
+  - Everyone can view shipments and their timeline
+  - The creator or an Admin edits a shipment; closed shipments are read-only
+  - Documents are linked only through the functions above, by someone who manages the
+    shipment and can see the document
+*/
+
+-- =============================================
+-- 1. SHIPMENTS
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS shipments (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  shipment_number text UNIQUE NOT NULL,
+  supplier_name text,
+  transport_mode text NOT NULL DEFAULT 'Sea' CHECK (transport_mode IN ('Sea', 'Air', 'Road')),
+  vessel_or_flight text,
+  container_numbers text[] NOT NULL DEFAULT '{}',
+  port_of_loading text,
+  port_of_discharge text,
+  incoterm text,
+  etd date,
+  eta date,
+  status text NOT NULL DEFAULT 'Open' CHECK (status IN ('Open', 'In Transit', 'Arrived', 'Closed')),
+  required_document_types text[] NOT NULL DEFAULT ARRAY[
+    'Purchase Order', 'Invoice', 'Packing List', 'Bill of Lading', 'Customs Declaration', 'Goods Receipt'
+  ],
+  remarks text,
+  created_by uuid REFERENCES users_profile(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  closed_by uuid REFERENCES users_profile(id) ON DELETE SET NULL,
+  closed_at timestamptz,
+  CHECK (eta IS NULL OR etd IS NULL OR eta >= etd)
+);
+
+ALTER TABLE shipments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view shipments"
+  ON shipments FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Users can create shipments"
+  ON shipments FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = created_by AND status <> 'Closed');
+
+-- Closing goes through close_shipment(), which checks the linked documents
+CREATE POLICY "Creators and admins can update open shipments"
+  ON shipments FOR UPDATE
+  TO authenticated
+  USING (
+    status <> 'Closed'
+    AND (
+      auth.uid() = created_by
+      OR EXISTS (
+        SELECT 1 FROM users_profile
+        WHERE users_profile.id = auth.uid()
+        AND users_profile.role = 'Admin'
+      )
+    )
+  )
+  WITH CHECK (status <> 'Closed');
+
+CREATE POLICY "Creators and admins can delete open shipments"
+  ON shipments FOR DELETE
+  TO authenticated
+  USING (
+    status <> 'Closed'
+    AND (
+      auth.uid() = created_by
+      OR EXISTS (
+        SELECT 1 FROM users_profile
+        WHERE users_profile.id = auth.uid()
+        AND users_profile.role = 'Admin'
+      )
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_shipments_status ON shipments(status);
+CREATE INDEX IF NOT EXISTS idx_shipments_eta ON shipments(eta);
+
+ALTER TABLE documents
+  ADD COLUMN IF NOT EXISTS shipment_id uuid REFERENCES shipments(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_documents_shipment ON documents(shipment_id);
+
+-- =============================================
+-- 2. SHIPMENT HISTORY
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS shipment_history (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  shipment_id uuid NOT NULL REFERENCES shipments(id) ON DELETE CASCADE,
+  action_type text NOT NULL,
+  old_status text,
+  new_status text,
+  document_id uuid REFERENCES documents(id) ON DELETE SET NULL,
+  performed_by uuid REFERENCES users_profile(id) ON DELETE SET NULL,
+  remarks text,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE shipment_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view shipment history"
+  ON shipment_history FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE INDEX IF NOT EXISTS idx_shipment_history_shipment ON shipment_history(shipment_id);
+
+CREATE OR REPLACE FUNCTION record_shipment_history()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO shipment_history (shipment_id, action_type, new_status, performed_by, remarks)
+    VALUES (NEW.id, 'Created', NEW.status, COALESCE(auth.uid(), NEW.created_by), 'Shipment created');
+  ELSIF NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO shipment_history (shipment_id, action_type, old_status, new_status, performed_by)
+    VALUES (
+      NEW.id,
+      CASE WHEN NEW.status = 'Closed' THEN 'Closed' ELSE 'Status Changed' END,
+      OLD.status,
+      NEW.status,
+      auth.uid()
+    );
+  ELSE
+    INSERT INTO shipment_history (shipment_id, action_type, performed_by, remarks)
+    VALUES (NEW.id, 'Updated', auth.uid(), 'Shipment details updated');
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_shipments_history ON shipments;
+CREATE TRIGGER trg_shipments_history
+  AFTER INSERT OR UPDATE ON shipments
+  FOR EACH ROW
+  EXECUTE FUNCTION record_shipment_history();
+
+-- =============================================
+-- 3. LINKING DOCUMENTS
+-- =============================================
+
+CREATE OR REPLACE FUNCTION can_manage_shipment(p_shipment_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM shipments
+    WHERE id = p_shipment_id
+    AND created_by = auth.uid()
+  ) OR EXISTS (
+    SELECT 1 FROM users_profile
+    WHERE users_profile.id = auth.uid()
+    AND users_profile.role = 'Admin'
+  );
+$$;
+
+REVOKE ALL ON FUNCTION can_manage_shipment(uuid) FROM PUBLIC, authenticated;
+
+CREATE OR REPLACE FUNCTION link_shipment_document(p_shipment_id uuid, p_document_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  s shipments%ROWTYPE;
+  doc documents%ROWTYPE;
+BEGIN
+  SELECT * INTO s FROM shipments WHERE id = p_shipment_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Shipment % not found', p_shipment_id;
+  END IF;
+
+  IF NOT can_manage_shipment(s.id) THEN
+    RAISE EXCEPTION 'Only the shipment creator or an Admin can link documents';
+  END IF;
+
+  IF s.status = 'Closed' THEN
+    RAISE EXCEPTION 'Shipment % is closed', s.shipment_number;
+  END IF;
+
+  SELECT * INTO doc FROM documents WHERE id = p_document_id FOR UPDATE;
+
+  -- Same visibility as the documents SELECT policy
+  IF NOT FOUND OR NOT (
+    doc.created_by = auth.uid()
+    OR doc.approver_id = auth.uid()
+    OR EXISTS (
+      SELECT 1 FROM users_profile
+      WHERE users_profile.id = auth.uid()
+      AND users_profile.role IN ('Admin', 'Finance')
+    )
+  ) THEN
+    RAISE EXCEPTION 'Document % not found', p_document_id;
+  END IF;
+
+  IF doc.shipment_id = s.id THEN
+    RETURN;
+  END IF;
+
+  IF doc.shipment_id IS NOT NULL THEN
+    RAISE EXCEPTION 'Document % already belongs to another shipment', doc.document_number;
+  END IF;
+
+  UPDATE documents SET shipment_id = s.id WHERE id = doc.id;
+
+  INSERT INTO shipment_history (shipment_id, action_type, document_id, performed_by, remarks)
+  VALUES (s.id, 'Document Linked', doc.id, auth.uid(), doc.document_type || ' ' || doc.document_number);
+
+  INSERT INTO document_history (document_id, action_type, performed_by, remarks)
+  VALUES (doc.id, 'Linked to Shipment', auth.uid(), s.shipment_number);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION link_shipment_document(uuid, uuid) TO authenticated;
+
+CREATE OR REPLACE FUNCTION unlink_shipment_document(p_document_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  doc documents%ROWTYPE;
+  s shipments%ROWTYPE;
+BEGIN
+  SELECT * INTO doc FROM documents WHERE id = p_document_id FOR UPDATE;
+
+  IF NOT FOUND OR doc.shipment_id IS NULL THEN
+    RAISE EXCEPTION 'Document % is not linked to a shipment', p_document_id;
+  END IF;
+
+  SELECT * INTO s FROM shipments WHERE id = doc.shipment_id FOR UPDATE;
+
+  IF NOT can_manage_shipment(s.id) THEN
+    RAISE EXCEPTION 'Only the shipment creator or an Admin can unlink documents';
+  END IF;
+
+  IF s.status = 'Closed' THEN
+    RAISE EXCEPTION 'Shipment % is closed', s.shipment_number;
+  END IF;
+
+  UPDATE documents SET shipment_id = NULL WHERE id = doc.id;
+
+  INSERT INTO shipment_history (shipment_id, action_type, document_id, performed_by, remarks)
+  VALUES (s.id, 'Document Unlinked', doc.id, auth.uid(), doc.document_type || ' ' || doc.document_number);
+
+  INSERT INTO document_history (document_id, action_type, performed_by, remarks)
+  VALUES (doc.id, 'Unlinked from Shipment', auth.uid(), s.shipment_number);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION unlink_shipment_document(uuid) TO authenticated;
+
+-- =============================================
+-- 4. CLOSING
+-- =============================================
+
+CREATE OR REPLACE FUNCTION shipment_close_blockers(p_shipment_id uuid)
+RETURNS SETOF text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT 'No ' || required.document_type || ' linked'
+  FROM shipments s
+  CROSS JOIN LATERAL unnest(s.required_document_types) AS required(document_type)
+  WHERE s.id = p_shipment_id
+  AND NOT EXISTS (
+    SELECT 1 FROM documents d
+    WHERE d.shipment_id = s.id
+    AND d.document_type = required.document_type
+  )
+  UNION ALL
+  SELECT d.document_type || ' ' || d.document_number || ' is ' || d.status
+  FROM documents d
+  JOIN shipments s ON s.id = d.shipment_id
+  WHERE s.id = p_shipment_id
+  AND d.document_type = ANY (s.required_document_types)
+  AND d.status <> 'Approved';
+$$;
+
+GRANT EXECUTE ON FUNCTION shipment_close_blockers(uuid) TO authenticated;
+
+CREATE OR REPLACE FUNCTION close_shipment(p_shipment_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  s shipments%ROWTYPE;
+  v_blockers text;
+BEGIN
+  SELECT * INTO s FROM shipments WHERE id = p_shipment_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Shipment % not found', p_shipment_id;
+  END IF;
+
+  IF NOT can_manage_shipment(s.id) THEN
+    RAISE EXCEPTION 'Only the shipment creator or an Admin can close it';
+  END IF;
+
+  IF s.status = 'Closed' THEN
+    RAISE EXCEPTION 'Shipment % is already closed', s.shipment_number;
+  END IF;
+
+  SELECT string_agg(blocker, '; ') INTO v_blockers
+  FROM shipment_close_blockers(s.id) AS blocker;
+
+  IF v_blockers IS NOT NULL THEN
+    RAISE EXCEPTION 'Shipment % cannot be closed: %', s.shipment_number, v_blockers;
+  END IF;
+
+  -- The history trigger records the Closed entry
+  UPDATE shipments
+  SET status = 'Closed', closed_by = auth.uid(), closed_at = now(), updated_at = now()
+  WHERE id = s.id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION close_shipment(uuid) TO authenticated;
@@ -0,0 +1,342 @@
+/*
+  # Landed Cost Allocation
+
+  ## Overview
+  Freight, insurance, customs duty and brokerage invoices are filed as their own documents
+  on a shipment. Finance allocates them onto the shipment's approved Goods Receipt lines by
+  value, weight, volume or quantity. The allocated amount per unit is added to the line's
+  unit price and written to the unit cost of the IN movement the line posted, so stock is
+  valued at its landed cost.
+
+  ## 1. New Tables
+
+  ### landed_cost_allocations
+  - `id` (uuid, primary key)
+  - `shipment_id` (uuid) - Shipment whose costs were allocated
+  - `method` (text) - Value, Weight, Volume or Quantity
+  - `currency` (text) - Currency of the goods receipts and cost documents
+  - `total_cost` (numeric) - Sum of the allocated cost documents
+  - `allocated_by` (uuid), `allocated_at` (timestamptz)
+  - `superseded_at` (timestamptz, optional) - Set when the shipment is allocated again
+
+  ### landed_cost_allocation_lines
+  One row per cost document and receipt line
+  - `id` (uuid, primary key)
+  - `allocation_id` (uuid)
+  - `cost_document_id` (uuid) - Freight/insurance/duty/brokerage document
+  - `receipt_document_id` (uuid), `document_line_id` (uuid) - Goods Receipt line
+  - `product_id` (uuid), `quantity` (numeric)
+  - `basis_value` (numeric) - Line value, weight, volume or quantity used as the weight
+  - `amount` (numeric) - Share of the cost document assigned to the line
+
+  ## 2. Modified Tables
+
+  ### products
+  - `unit_weight` (numeric) - Kilograms per unit, default basis for weight allocation
+  - `unit_volume` (numeric) - Cubic metres per unit, default basis for volume allocation
+
+  ### stock_movements
+  - `document_line_id` (uuid, optional) - Document line a posted movement came from;
+    backfilled for existing postings
+  - `unit_cost` widened to 4 decimals so per-unit landed costs do not round away
+
+  ## 3. Functions
+  - `post_document_stock_movements` - Re-created to record `document_line_id`
+  - `allocate_landed_costs(p_shipment_id, p_method, p_basis)` - Finance/Admin only.
+    `p_basis` optionally overrides the weight or volume of individual receipt lines,
+    keyed by document line id, e.g. from the packing list
+
+  ## 4. Important Notes
+  - Only Approved cost documents and Approved Goods Receipts are allocated
+  - Allocating again supersedes the previous allocation; movement costs are recomputed
+    from the line unit price, so repeated runs do not stack
+  - Rounding differences go to the line with the largest basis so each cost document is
+    allocated exactly
+  - A Goods Receipt that is reversed and approved again posts at its plain unit price
+    until the shipment is allocated again
+*/
+
+-- =============================================
+-- 1. PRODUCT WEIGHT AND VOLUME
+-- =============================================
+
+ALTER TABLE products
+  ADD COLUMN IF NOT EXISTS unit_weight numeric(15,4) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS unit_volume numeric(15,6) NOT NULL DEFAULT 0;
+
+-- =============================================
+-- 2. MOVEMENT SOURCE LINES
+-- =============================================
+
+ALTER TABLE stock_movements
+  ADD COLUMN IF NOT EXISTS document_line_id uuid REFERENCES document_lines(id) ON DELETE SET NULL;
+
+ALTER TABLE stock_movements ALTER COLUMN unit_cost TYPE numeric(15,4);
+
+CREATE INDEX IF NOT EXISTS idx_stock_movements_document_line ON stock_movements(document_line_id);
+
+-- Postings carry "Posted from <type> line <n>" in their remarks
+UPDATE stock_movements
+SET document_line_id = document_lines.id
+FROM documents, document_lines
+WHERE stock_movements.document_line_id IS NULL
+AND stock_movements.source_document_id = documents.id
+AND document_lines.document_id = documents.id
+AND stock_movements.remarks = 'Posted from ' || documents.document_type || ' line ' || document_lines.line_number;
+
+CREATE OR REPLACE FUNCTION post_document_stock_movements(p_document_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  doc documents%ROWTYPE;
+  line record;
+  v_movement_type text;
+  v_now timestamptz := now();
+BEGIN
+  SELECT * INTO doc FROM documents WHERE id = p_document_id;
+
+  v_movement_type := CASE doc.document_type
+    WHEN 'Goods Receipt' THEN 'IN'
+    WHEN 'Delivery Note' THEN 'OUT'
+    ELSE NULL
+  END;
+
+  IF v_movement_type IS NULL THEN
+    RETURN;
+  END IF;
+
+  IF doc.warehouse_id IS NULL THEN
+    RAISE EXCEPTION '% % has no warehouse assigned', doc.document_type, doc.document_number;
+  END IF;
+
+  FOR line IN
+    SELECT * FROM document_lines
+    WHERE document_id = doc.id
+    ORDER BY line_number
+  LOOP
+    INSERT INTO stock_movements (
+      product_id, warehouse_id, movement_type, quantity, unit_cost,
+      source_document_id, document_line_id, reference_number, remarks, performed_by, movement_date
+    ) VALUES (
+      line.product_id, doc.warehouse_id, v_movement_type, line.quantity, line.unit_price,
+      doc.id, line.id, doc.document_number, 'Posted from ' || doc.document_type || ' line ' || line.line_number,
+      auth.uid(), v_now
+    );
+  END LOOP;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION post_document_stock_movements(uuid) FROM PUBLIC, authenticated;
+
+-- =============================================
+-- 3. ALLOCATIONS
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS landed_cost_allocations (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  shipment_id uuid NOT NULL REFERENCES shipments(id) ON DELETE CASCADE,
+  method text NOT NULL CHECK (method IN ('Value', 'Weight', 'Volume', 'Quantity')),
+  currency text NOT NULL,
+  total_cost numeric(15,2) NOT NULL DEFAULT 0,
+  allocated_by uuid REFERENCES users_profile(id) ON DELETE SET NULL,
+  allocated_at timestamptz DEFAULT now(),
+  superseded_at timestamptz
+);
+
+CREATE TABLE IF NOT EXISTS landed_cost_allocation_lines (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  allocation_id uuid NOT NULL REFERENCES landed_cost_allocations(id) ON DELETE CASCADE,
+  cost_document_id uuid REFERENCES documents(id) ON DELETE SET NULL,
+  receipt_document_id uuid REFERENCES documents(id) ON DELETE SET NULL,
+  document_line_id uuid REFERENCES document_lines(id) ON DELETE SET NULL,
+  product_id uuid REFERENCES products(id) ON DELETE SET NULL,
+  quantity numeric(15,3) NOT NULL,
+  basis_value numeric(15,4) NOT NULL,
+  amount numeric(15,4) NOT NULL
+);
+
+ALTER TABLE landed_cost_allocations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE landed_cost_allocation_lines ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view landed cost allocations"
+  ON landed_cost_allocations FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Authenticated users can view landed cost allocation lines"
+  ON landed_cost_allocation_lines FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE INDEX IF NOT EXISTS idx_landed_cost_allocations_shipment ON landed_cost_allocations(shipment_id);
+CREATE INDEX IF NOT EXISTS idx_landed_cost_allocation_lines_allocation ON landed_cost_allocation_lines(allocation_id);
+
+-- =============================================
+-- 4. ALLOCATE
+-- =============================================
+
+CREATE OR REPLACE FUNCTION allocate_landed_costs(
+  p_shipment_id uuid,
+  p_method text,
+  p_basis jsonb DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  s shipments%ROWTYPE;
+  v_currency text;
+  v_mismatch text;
+  v_total_basis numeric;
+  v_total_cost numeric;
+  v_allocation_id uuid;
+  v_now timestamptz := now();
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM users_profile
+    WHERE users_profile.id = auth.uid()
+    AND users_profile.role IN ('Finance', 'Admin')
+  ) THEN
+    RAISE EXCEPTION 'Only Finance and Admins can allocate landed costs';
+  END IF;
+
+  IF p_method NOT IN ('Value', 'Weight', 'Volume', 'Quantity') THEN
+    RAISE EXCEPTION 'Unknown allocation method %', p_method;
+  END IF;
+
+  SELECT * INTO s FROM shipments WHERE id = p_shipment_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Shipment % not found', p_shipment_id;
+  END IF;
+
+  IF s.status = 'Closed' THEN
+    RAISE EXCEPTION 'Shipment % is closed', s.shipment_number;
+  END IF;
+
+  CREATE TEMP TABLE tmp_receipt_lines ON COMMIT DROP AS
+  SELECT
+    l.id AS document_line_id,
+    d.id AS receipt_document_id,
+    d.currency,
+    l.product_id,
+    l.quantity,
+    l.unit_price,
+    CASE p_method
+      WHEN 'Value' THEN l.line_total
+      WHEN 'Quantity' THEN l.quantity
+      WHEN 'Weight' THEN COALESCE((p_basis ->> l.id::text)::numeric, l.quantity * p.unit_weight)
+      WHEN 'Volume' THEN COALESCE((p_basis ->> l.id::text)::numeric, l.quantity * p.unit_volume)
+    END AS basis_value
+  FROM document_lines l
+  JOIN documents d ON d.id = l.document_id
+  JOIN products p ON p.id = l.product_id
+  WHERE d.shipment_id = s.id
+  AND d.document_type = 'Goods Receipt'
+  AND d.status = 'Approved';
+
+  CREATE TEMP TABLE tmp_cost_documents ON COMMIT DROP AS
+  SELECT id, document_number, currency, document_value
+  FROM documents
+  WHERE shipment_id = s.id
+  AND document_type IN ('Freight Invoice', 'Insurance Invoice', 'Customs Duty', 'Brokerage Invoice')
+  AND status = 'Approved'
+  AND document_value <> 0;
+
+  IF NOT EXISTS (SELECT 1 FROM tmp_receipt_lines) THEN
+    RAISE EXCEPTION 'Shipment % has no approved Goods Receipt lines', s.shipment_number;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM tmp_cost_documents) THEN
+    RAISE EXCEPTION 'Shipment % has no approved landed cost documents', s.shipment_number;
+  END IF;
+
+  SELECT MIN(currency) INTO v_currency FROM tmp_receipt_lines;
+
+  SELECT string_agg(label, ', ') INTO v_mismatch
+  FROM (
+    SELECT DISTINCT 'Goods Receipt in ' || currency AS label FROM tmp_receipt_lines WHERE currency <> v_currency
+    UNION ALL
+    SELECT document_number || ' in ' || currency FROM tmp_cost_documents WHERE currency <> v_currency
+  ) mismatched;
+
+  IF v_mismatch IS NOT NULL THEN
+    RAISE EXCEPTION 'All documents must be in %: %', v_currency, v_mismatch;
+  END IF;
+
+  SELECT SUM(basis_value) INTO v_total_basis FROM tmp_receipt_lines;
+  SELECT SUM(document_value) INTO v_total_cost FROM tmp_cost_documents;
+
+  IF COALESCE(v_total_basis, 0) <= 0 THEN
+    RAISE EXCEPTION 'No % recorded for the received lines', lower(p_method);
+  END IF;
+
+  UPDATE landed_cost_allocations
+  SET superseded_at = v_now
+  WHERE shipment_id = s.id
+  AND superseded_at IS NULL;
+
+  INSERT INTO landed_cost_allocations (shipment_id, method, currency, total_cost, allocated_by, allocated_at)
+  VALUES (s.id, p_method, v_currency, v_total_cost, auth.uid(), v_now)
+  RETURNING id INTO v_allocation_id;
+
+  INSERT INTO landed_cost_allocation_lines (
+    allocation_id, cost_document_id, receipt_document_id, document_line_id,
+    product_id, quantity, basis_value, amount
+  )
+  SELECT
+    v_allocation_id, c.id, r.receipt_document_id, r.document_line_id,
+    r.product_id, r.quantity, r.basis_value,
+    round(c.document_value * r.basis_value / v_total_basis, 4)
+  FROM tmp_cost_documents c
+  CROSS JOIN tmp_receipt_lines r;
+
+  -- Put each cost document's rounding difference on its largest line
+  UPDATE landed_cost_allocation_lines target
+  SET amount = target.amount + diff.remainder
+  FROM (
+    SELECT DISTINCT ON (a.cost_document_id)
+      a.id,
+      c.document_value - SUM(a.amount) OVER (PARTITION BY a.cost_document_id) AS remainder
+    FROM landed_cost_allocation_lines a
+    JOIN tmp_cost_documents c ON c.id = a.cost_document_id
+    WHERE a.allocation_id = v_allocation_id
+    ORDER BY a.cost_document_id, a.basis_value DESC, a.id
+  ) diff
+  WHERE target.id = diff.id
+  AND diff.remainder <> 0;
+
+  -- Recompute from the line price so a new allocation replaces the previous one
+  UPDATE stock_movements
+  SET unit_cost = r.unit_price + COALESCE(allocated.amount, 0) / r.quantity
+  FROM tmp_receipt_lines r
+  LEFT JOIN (
+    SELECT document_line_id, SUM(amount) AS amount
+    FROM landed_cost_allocation_lines
+    WHERE allocation_id = v_allocation_id
+    GROUP BY document_line_id
+  ) allocated ON allocated.document_line_id = r.document_line_id
+  WHERE stock_movements.document_line_id = r.document_line_id
+  AND stock_movements.source_document_id = r.receipt_document_id
+  AND stock_movements.movement_type = 'IN';
+
+  INSERT INTO shipment_history (shipment_id, action_type, performed_by, remarks)
+  VALUES (
+    s.id,
+    'Landed Costs Allocated',
+    auth.uid(),
+    v_currency || ' ' || to_char(v_total_cost, 'FM999,999,999,990.00') || ' by ' || lower(p_method)
+  );
+
+  DROP TABLE tmp_receipt_lines, tmp_cost_documents;
+
+  RETURN v_allocation_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION allocate_landed_costs(uuid, text, jsonb) TO authenticated;
@@ -0,0 +1,366 @@
+/*
+  # Inventory Valuation From the Movement Ledger
+
+  ## Overview
+  Stock used to be valued at `quantity_on_hand * products.cost_price`, the static master
+  price. Stock is now valued by replaying each product's `stock_movements` in date order
+  with the valuation method of its category, either weighted moving average or FIFO. The
+  result is kept in `stock_movement_costs`, a projection of the ledger like
+  `stock_balances`: it holds the cost of every movement and the quantity and value on
+  hand after it.
+
+  ## 1. New Tables
+
+  ### stock_movement_costs
+  One row per valued movement
+  - `movement_id` (uuid, primary key) - Movement being valued
+  - `product_id` (uuid)
+  - `sequence` (integer) - Position of the movement in the product's replay order
+  - `valuation_method` (text) - Method the product was valued with
+  - `quantity` (numeric) - Signed effect on quantity on hand
+  - `unit_cost` (numeric) - Cost per unit received or issued
+  - `total_cost` (numeric) - Signed effect on stock value
+  - `balance_quantity` (numeric), `balance_value` (numeric) - On hand after the movement
+
+  ## 2. Modified Tables
+
+  ### product_categories
+  - `valuation_method` (text) - Moving Average (default) or FIFO
+
+  ## 3. Views
+  - `product_stock_values` - Current quantity, value and average unit cost per product
+
+  ## 4. Functions & Triggers
+  - `revalue_product_stock(p_product_id)` - Internal; replays one product's ledger
+  - Statement triggers on `stock_movements` revalue the affected products after inserts
+    and after unit cost updates (e.g. landed cost allocation)
+  - Products are revalued when their category changes, and a category's products when
+    its valuation method changes
+  - `rebuild_stock_valuation()` - Admin-only; revalues every product
+
+  ## 5. Important Notes
+  - Receipts and positive adjustments add stock at their unit cost; when no unit cost is
+    recorded, at the current average cost (or the master cost price if none is on hand)
+  - Issues and negative adjustments are costed by the method: the current average cost,
+    or the oldest remaining FIFO layers
+  - Transfer legs are not valued; goods keep their cost while moving between warehouses,
+    including while In Transit
+  - Valuation is per product across all warehouses
+*/
+
+-- =============================================
+-- 1. VALUATION METHOD PER CATEGORY
+-- =============================================
+
+ALTER TABLE product_categories
+  ADD COLUMN IF NOT EXISTS valuation_method text NOT NULL DEFAULT 'Moving Average';
+
+ALTER TABLE product_categories
+  DROP CONSTRAINT IF EXISTS product_categories_valuation_method_check;
+
+ALTER TABLE product_categories
+  ADD CONSTRAINT product_categories_valuation_method_check
+  CHECK (valuation_method IN ('Moving Average', 'FIFO'));
+
+-- =============================================
+-- 2. MOVEMENT COSTS
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS stock_movement_costs (
+  movement_id uuid PRIMARY KEY REFERENCES stock_movements(id) ON DELETE CASCADE,
+  product_id uuid NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  sequence integer NOT NULL,
+  valuation_method text NOT NULL,
+  quantity numeric(15,3) NOT NULL,
+  unit_cost numeric(18,4) NOT NULL,
+  total_cost numeric(18,4) NOT NULL,
+  balance_quantity numeric(15,3) NOT NULL,
+  balance_value numeric(18,4) NOT NULL,
+  UNIQUE (product_id, sequence)
+);
+
+ALTER TABLE stock_movement_costs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view stock movement costs"
+  ON stock_movement_costs FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE OR REPLACE VIEW product_stock_values
+WITH (security_invoker = true)
+AS
+SELECT DISTINCT ON (product_id)
+  product_id,
+  valuation_method,
+  balance_quantity AS quantity,
+  balance_value AS stock_value,
+  CASE WHEN balance_quantity > 0 THEN round(balance_value / balance_quantity, 4) ELSE 0 END AS average_unit_cost
+FROM stock_movement_costs
+ORDER BY product_id, sequence DESC;
+
+-- =============================================
+-- 3. REVALUATION
+-- =============================================
+
+CREATE OR REPLACE FUNCTION revalue_product_stock(p_product_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  movement record;
+  v_method text;
+  v_cost_price numeric;
+  v_sequence integer := 0;
+  v_delta numeric;
+  v_unit_cost numeric;
+  v_total numeric;
+  v_quantity numeric := 0;
+  v_value numeric := 0;
+  v_last_cost numeric;
+  v_remaining numeric;
+  v_take numeric;
+  -- FIFO layers, oldest first from v_head
+  v_layer_qty numeric[] := '{}';
+  v_layer_cost numeric[] := '{}';
+  v_head integer := 1;
+BEGIN
+  SELECT COALESCE(c.valuation_method, 'Moving Average'), COALESCE(p.cost_price, 0)
+  INTO v_method, v_cost_price
+  FROM products p
+  LEFT JOIN product_categories c ON c.id = p.category_id
+  WHERE p.id = p_product_id;
+
+  DELETE FROM stock_movement_costs WHERE product_id = p_product_id;
+
+  IF v_method IS NULL THEN
+    RETURN;
+  END IF;
+
+  v_last_cost := v_cost_price;
+
+  FOR movement IN
+    SELECT id, movement_type, quantity, unit_cost
+    FROM stock_movements
+    WHERE product_id = p_product_id
+    AND transfer_id IS NULL
+    ORDER BY movement_date, created_at, id
+  LOOP
+    v_delta := stock_movement_delta(movement.movement_type, movement.quantity);
+
+    IF v_delta >= 0 THEN
+      v_unit_cost := COALESCE(
+        movement.unit_cost,
+        CASE WHEN v_quantity > 0 THEN v_value / v_quantity ELSE v_last_cost END
+      );
+      v_total := v_delta * v_unit_cost;
+
+      IF v_method = 'FIFO' AND v_delta > 0 THEN
+        v_layer_qty := v_layer_qty || v_delta;
+        v_layer_cost := v_layer_cost || v_unit_cost;
+      END IF;
+    ELSIF v_method = 'FIFO' THEN
+      v_remaining := -v_delta;
+      v_total := 0;
+
+      WHILE v_remaining > 0 AND v_head <= array_length(v_layer_qty, 1) LOOP
+        v_take := LEAST(v_remaining, v_layer_qty[v_head]);
+        v_total := v_total + v_take * v_layer_cost[v_head];
+        v_last_cost := v_layer_cost[v_head];
+        v_layer_qty[v_head] := v_layer_qty[v_head] - v_take;
+        v_remaining := v_remaining - v_take;
+
+        IF v_layer_qty[v_head] = 0 THEN
+          v_head := v_head + 1;
+        END IF;
+      END LOOP;
+
+      -- Issues beyond the recorded layers (e.g. a negative adjustment) go at the last cost
+      v_total := -(v_total + v_remaining * v_last_cost);
+      v_unit_cost := v_total / v_delta;
+    ELSE
+      v_unit_cost := CASE WHEN v_quantity > 0 THEN v_value / v_quantity ELSE v_last_cost END;
+      v_total := v_delta * v_unit_cost;
+    END IF;
+
+    v_unit_cost := round(v_unit_cost, 4);
+    v_total := round(v_total, 4);
+    v_quantity := v_quantity + v_delta;
+    v_value := CASE WHEN v_quantity = 0 THEN 0 ELSE v_value + v_total END;
+
+    IF v_unit_cost > 0 THEN
+      v_last_cost := v_unit_cost;
+    END IF;
+
+    v_sequence := v_sequence + 1;
+
+    INSERT INTO stock_movement_costs (
+      movement_id, product_id, sequence, valuation_method, quantity,
+      unit_cost, total_cost, balance_quantity, balance_value
+    ) VALUES (
+      movement.id, p_product_id, v_sequence, v_method, v_delta,
+      v_unit_cost, v_total, v_quantity, v_value
+    );
+  END LOOP;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION revalue_product_stock(uuid) FROM PUBLIC, authenticated;
+
+CREATE OR REPLACE FUNCTION revalue_inserted_movements()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_product_id uuid;
+BEGIN
+  FOR v_product_id IN
+    SELECT DISTINCT product_id FROM inserted_movements
+    WHERE product_id IS NOT NULL
+    AND transfer_id IS NULL
+  LOOP
+    PERFORM revalue_product_stock(v_product_id);
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_stock_movements_revalue_insert ON stock_movements;
+CREATE TRIGGER trg_stock_movements_revalue_insert
+  AFTER INSERT ON stock_movements
+  REFERENCING NEW TABLE AS inserted_movements
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION revalue_inserted_movements();
+
+CREATE OR REPLACE FUNCTION revalue_updated_movements()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_product_id uuid;
+BEGIN
+  FOR v_product_id IN
+    SELECT DISTINCT new_rows.product_id
+    FROM updated_movements new_rows
+    JOIN previous_movements old_rows ON old_rows.id = new_rows.id
+    WHERE new_rows.product_id IS NOT NULL
+    AND (
+      new_rows.unit_cost IS DISTINCT FROM old_rows.unit_cost
+      OR new_rows.quantity <> old_rows.quantity
+      OR new_rows.movement_date <> old_rows.movement_date
+    )
+  LOOP
+    PERFORM revalue_product_stock(v_product_id);
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_stock_movements_revalue_update ON stock_movements;
+CREATE TRIGGER trg_stock_movements_revalue_update
+  AFTER UPDATE ON stock_movements
+  REFERENCING OLD TABLE AS previous_movements NEW TABLE AS updated_movements
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION revalue_updated_movements();
+
+CREATE OR REPLACE FUNCTION revalue_product_on_category_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM revalue_product_stock(NEW.id);
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_products_revalue_category ON products;
+CREATE TRIGGER trg_products_revalue_category
+  AFTER UPDATE OF category_id ON products
+  FOR EACH ROW
+  WHEN (OLD.category_id IS DISTINCT FROM NEW.category_id)
+  EXECUTE FUNCTION revalue_product_on_category_change();
+
+CREATE OR REPLACE FUNCTION revalue_category_products()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_product_id uuid;
+BEGIN
+  FOR v_product_id IN
+    SELECT id FROM products WHERE category_id = NEW.id
+  LOOP
+    PERFORM revalue_product_stock(v_product_id);
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_product_categories_revalue ON product_categories;
+CREATE TRIGGER trg_product_categories_revalue
+  AFTER UPDATE OF valuation_method ON product_categories
+  FOR EACH ROW
+  WHEN (OLD.valuation_method IS DISTINCT FROM NEW.valuation_method)
+  EXECUTE FUNCTION revalue_category_products();
+
+-- =============================================
+-- 4. REBUILD ROUTINE
+-- =============================================
+
+CREATE OR REPLACE FUNCTION rebuild_stock_valuation()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_product_id uuid;
+  v_rows integer := 0;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM users_profile
+    WHERE users_profile.id = auth.uid()
+    AND users_profile.role = 'Admin'
+  ) THEN
+    RAISE EXCEPTION 'Only Admins can rebuild the stock valuation';
+  END IF;
+
+  LOCK TABLE stock_movements IN SHARE MODE;
+
+  FOR v_product_id IN
+    SELECT DISTINCT product_id FROM stock_movements WHERE product_id IS NOT NULL
+  LOOP
+    PERFORM revalue_product_stock(v_product_id);
+    v_rows := v_rows + 1;
+  END LOOP;
+
+  RETURN v_rows;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION rebuild_stock_valuation() TO authenticated;
+
+-- Value the existing ledger
+DO $$
+DECLARE
+  v_product_id uuid;
+BEGIN
+  FOR v_product_id IN
+    SELECT DISTINCT product_id FROM stock_movements WHERE product_id IS NOT NULL
+  LOOP
+    PERFORM revalue_product_stock(v_product_id);
+  END LOOP;
+END;
+$$;
@@ -0,0 +1,390 @@
+/*
+  # Exchange Rates and Base-Currency Reporting
+
+  ## Overview
+  Documents are raised in the supplier's currency, but totals used to add raw
+  `document_value` amounts across currencies. A base (functional) currency is now set
+  system-wide, THB by default, and Finance maintains daily exchange rates into it, by hand
+  or by CSV import. Each document captures its conversion rate and base-currency value
+  when it is approved, and stock movements posted from documents carry the same rate so
+  the inventory valuation is kept in base currency.
+
+  ## 1. New Tables
+
+  ### system_settings
+  Single-row table of system-wide settings
+  - `id` (boolean, primary key) - Always true
+  - `base_currency` (text) - Functional currency all aggregates are reported in
+  - `updated_by` (uuid), `updated_at` (timestamptz)
+
+  ### exchange_rates
+  - `id` (uuid, primary key)
+  - `base_currency` (text) - Base currency the rate converts into
+  - `currency` (text) - Foreign currency
+  - `rate_date` (date) - Date the rate applies from
+  - `rate` (numeric) - Units of base currency per one unit of `currency`
+  - `source` (text) - Manual or CSV Import
+  - `created_by` (uuid), `created_at` (timestamptz)
+
+  ## 2. Modified Tables
+
+  ### documents
+  - `exchange_rate` (numeric, optional) - Rate captured at approval
+  - `base_currency` (text, optional) - Base currency at approval
+  - `base_value` (numeric, optional) - `document_value` converted at the captured rate
+
+  ### stock_movements
+  - `exchange_rate` (numeric) - Converts `unit_cost` into base currency; 1 for manual
+    movements, which are entered in base currency even when linked to a document
+
+  ## 3. Functions & Triggers
+  - `base_currency()` - Current base currency
+  - `exchange_rate_for(p_currency, p_on)` - Latest rate on or before a date (1 for the
+    base currency, NULL when no rate is recorded)
+  - `set_base_currency(p_currency)` - Admin-only
+  - `capture_document_exchange_rate()` - BEFORE UPDATE trigger on `documents`; fills the
+    rate and base value when a document becomes Approved and clears them on reversal
+  - `set_stock_movement_exchange_rate()` - BEFORE INSERT trigger on `stock_movements`
+  - `revalue_product_stock` - Re-created to value movements in base currency
+
+  ## 4. Security
+  - Everyone can view rates and settings; Finance and Admins manage rates
+  - The base currency can only be changed before any document has captured a rate
+
+  ## 5. Important Notes
+  - Approval uses the latest rate on or before the approval date and fails when the
+    document's currency has none
+  - Documents approved and movements posted before this migration have no captured rate
+    and keep a movement rate of 1
+*/
+
+-- =============================================
+-- 1. BASE CURRENCY
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS system_settings (
+  id boolean PRIMARY KEY DEFAULT true CHECK (id),
+  base_currency text NOT NULL DEFAULT 'THB',
+  updated_by uuid REFERENCES users_profile(id) ON DELETE SET NULL,
+  updated_at timestamptz DEFAULT now()
+);
+
+INSERT INTO system_settings (id, base_currency) VALUES (true, 'THB')
+ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE system_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view system settings"
+  ON system_settings FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE OR REPLACE FUNCTION base_currency()
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT base_currency FROM system_settings WHERE id;
+$$;
+
+-- =============================================
+-- 2. EXCHANGE RATES
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS exchange_rates (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  base_currency text NOT NULL DEFAULT base_currency(),
+  currency text NOT NULL,
+  rate_date date NOT NULL,
+  rate numeric(18,8) NOT NULL CHECK (rate > 0),
+  source text NOT NULL DEFAULT 'Manual' CHECK (source IN ('Manual', 'CSV Import')),
+  created_by uuid REFERENCES users_profile(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (base_currency, currency, rate_date),
+  CHECK (currency <> base_currency)
+);
+
+ALTER TABLE exchange_rates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view exchange rates"
+  ON exchange_rates FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Finance can manage exchange rates"
+  ON exchange_rates FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users_profile
+      WHERE users_profile.id = auth.uid()
+      AND users_profile.role IN ('Finance', 'Admin')
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM users_profile
+      WHERE users_profile.id = auth.uid()
+      AND users_profile.role IN ('Finance', 'Admin')
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_exchange_rates_lookup ON exchange_rates(base_currency, currency, rate_date DESC);
+
+CREATE OR REPLACE FUNCTION exchange_rate_for(p_currency text, p_on date DEFAULT CURRENT_DATE)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN p_currency = base_currency() THEN 1
+    ELSE (
+      SELECT rate FROM exchange_rates
+      WHERE base_currency = base_currency()
+      AND currency = p_currency
+      AND rate_date <= p_on
+      ORDER BY rate_date DESC
+      LIMIT 1
+    )
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION set_base_currency(p_currency text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM users_profile
+    WHERE users_profile.id = auth.uid()
+    AND users_profile.role = 'Admin'
+  ) THEN
+    RAISE EXCEPTION 'Only Admins can change the base currency';
+  END IF;
+
+  IF p_currency IS NULL OR btrim(p_currency) = '' THEN
+    RAISE EXCEPTION 'A base currency is required';
+  END IF;
+
+  -- Captured rates and base values would silently mean a different currency
+  IF EXISTS (SELECT 1 FROM documents WHERE exchange_rate IS NOT NULL) THEN
+    RAISE EXCEPTION 'The base currency cannot be changed once documents have been approved with a captured rate';
+  END IF;
+
+  UPDATE system_settings
+  SET base_currency = upper(btrim(p_currency)), updated_by = auth.uid(), updated_at = now()
+  WHERE id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION set_base_currency(text) TO authenticated;
+
+-- =============================================
+-- 3. RATE CAPTURED AT APPROVAL
+-- =============================================
+
+ALTER TABLE documents
+  ADD COLUMN IF NOT EXISTS exchange_rate numeric(18,8),
+  ADD COLUMN IF NOT EXISTS base_currency text,
+  ADD COLUMN IF NOT EXISTS base_value numeric(15,2);
+
+CREATE OR REPLACE FUNCTION capture_document_exchange_rate()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_rate numeric;
+BEGIN
+  IF NEW.status = 'Approved' AND OLD.status IS DISTINCT FROM 'Approved' THEN
+    v_rate := exchange_rate_for(NEW.currency, CURRENT_DATE);
+
+    IF v_rate IS NULL THEN
+      RAISE EXCEPTION 'No % exchange rate recorded on or before % to approve %',
+        NEW.currency, CURRENT_DATE, NEW.document_number;
+    END IF;
+
+    NEW.exchange_rate := v_rate;
+    NEW.base_currency := base_currency();
+    NEW.base_value := round(NEW.document_value * v_rate, 2);
+  ELSIF OLD.status = 'Approved' AND NEW.status <> 'Approved' THEN
+    -- A reversed document captures a fresh rate when it is approved again
+    NEW.exchange_rate := NULL;
+    NEW.base_currency := NULL;
+    NEW.base_value := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_documents_capture_exchange_rate ON documents;
+CREATE TRIGGER trg_documents_capture_exchange_rate
+  BEFORE UPDATE OF status ON documents
+  FOR EACH ROW
+  EXECUTE FUNCTION capture_document_exchange_rate();
+
+-- =============================================
+-- 4. MOVEMENT RATES
+-- =============================================
+
+ALTER TABLE stock_movements
+  ADD COLUMN IF NOT EXISTS exchange_rate numeric(18,8) NOT NULL DEFAULT 1;
+
+CREATE OR REPLACE FUNCTION set_stock_movement_exchange_rate()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  doc documents%ROWTYPE;
+BEGIN
+  -- Manual movements are entered in base currency even when linked to a document; only
+  -- postings from document lines and their reversals are priced in the document currency
+  IF NEW.source_document_id IS NULL
+    OR (NEW.document_line_id IS NULL AND COALESCE(NEW.remarks, '') NOT LIKE 'Reversal: %') THEN
+    NEW.exchange_rate := 1;
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO doc FROM documents WHERE id = NEW.source_document_id;
+
+  -- Approval posts movements just before the document is marked Approved, so use the
+  -- rate it is about to capture; reversals of an Approved document use the captured one
+  NEW.exchange_rate := CASE
+    WHEN doc.status = 'Approved' AND doc.exchange_rate IS NOT NULL THEN doc.exchange_rate
+    ELSE exchange_rate_for(doc.currency, NEW.movement_date::date)
+  END;
+
+  IF NEW.exchange_rate IS NULL THEN
+    RAISE EXCEPTION 'No % exchange rate recorded on or before % to post %',
+      doc.currency, NEW.movement_date::date, doc.document_number;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_stock_movements_exchange_rate ON stock_movements;
+CREATE TRIGGER trg_stock_movements_exchange_rate
+  BEFORE INSERT ON stock_movements
+  FOR EACH ROW
+  EXECUTE FUNCTION set_stock_movement_exchange_rate();
+
+-- =============================================
+-- 5. VALUATION IN BASE CURRENCY
+-- =============================================
+
+CREATE OR REPLACE FUNCTION revalue_product_stock(p_product_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  movement record;
+  v_method text;
+  v_cost_price numeric;
+  v_sequence integer := 0;
+  v_delta numeric;
+  v_unit_cost numeric;
+  v_total numeric;
+  v_quantity numeric := 0;
+  v_value numeric := 0;
+  v_last_cost numeric;
+  v_remaining numeric;
+  v_take numeric;
+  -- FIFO layers, oldest first from v_head
+  v_layer_qty numeric[] := '{}';
+  v_layer_cost numeric[] := '{}';
+  v_head integer := 1;
+BEGIN
+  SELECT COALESCE(c.valuation_method, 'Moving Average'), COALESCE(p.cost_price, 0)
+  INTO v_method, v_cost_price
+  FROM products p
+  LEFT JOIN product_categories c ON c.id = p.category_id
+  WHERE p.id = p_product_id;
+
+  DELETE FROM stock_movement_costs WHERE product_id = p_product_id;
+
+  IF v_method IS NULL THEN
+    RETURN;
+  END IF;
+
+  v_last_cost := v_cost_price;
+
+  FOR movement IN
+    SELECT id, movement_type, quantity, unit_cost * exchange_rate AS unit_cost
+    FROM stock_movements
+    WHERE product_id = p_product_id
+    AND transfer_id IS NULL
+    ORDER BY movement_date, created_at, id
+  LOOP
+    v_delta := stock_movement_delta(movement.movement_type, movement.quantity);
+
+    IF v_delta >= 0 THEN
+      v_unit_cost := COALESCE(
+        movement.unit_cost,
+        CASE WHEN v_quantity > 0 THEN v_value / v_quantity ELSE v_last_cost END
+      );
+      v_total := v_delta * v_unit_cost;
+
+      IF v_method = 'FIFO' AND v_delta > 0 THEN
+        v_layer_qty := v_layer_qty || v_delta;
+        v_layer_cost := v_layer_cost || v_unit_cost;
+      END IF;
+    ELSIF v_method = 'FIFO' THEN
+      v_remaining := -v_delta;
+      v_total := 0;
+
+      WHILE v_remaining > 0 AND v_head <= array_length(v_layer_qty, 1) LOOP
+        v_take := LEAST(v_remaining, v_layer_qty[v_head]);
+        v_total := v_total + v_take * v_layer_cost[v_head];
+        v_last_cost := v_layer_cost[v_head];
+        v_layer_qty[v_head] := v_layer_qty[v_head] - v_take;
+        v_remaining := v_remaining - v_take;
+
+        IF v_layer_qty[v_head] = 0 THEN
+          v_head := v_head + 1;
+        END IF;
+      END LOOP;
+
+      -- Issues beyond the recorded layers (e.g. a negative adjustment) go at the last cost
+      v_total := -(v_total + v_remaining * v_last_cost);
+      v_unit_cost := v_total / v_delta;
+    ELSE
+      v_unit_cost := CASE WHEN v_quantity > 0 THEN v_value / v_quantity ELSE v_last_cost END;
+      v_total := v_delta * v_unit_cost;
+    END IF;
+
+    v_unit_cost := round(v_unit_cost, 4);
+    v_total := round(v_total, 4);
+    v_quantity := v_quantity + v_delta;
+    v_value := CASE WHEN v_quantity = 0 THEN 0 ELSE v_value + v_total END;
+
+    IF v_unit_cost > 0 THEN
+      v_last_cost := v_unit_cost;
+    END IF;
+
+    v_sequence := v_sequence + 1;
+
+    INSERT INTO stock_movement_costs (
+      movement_id, product_id, sequence, valuation_method, quantity,
+      unit_cost, total_cost, balance_quantity, balance_value
+    ) VALUES (
+      movement.id, p_product_id, v_sequence, v_method, v_delta,
+      v_unit_cost, v_total, v_quantity, v_value
+    );
+  END LOOP;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION revalue_product_stock(uuid) FROM PUBLIC, authenticated;
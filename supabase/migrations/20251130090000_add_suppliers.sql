@@ -0,0 +1,198 @@
+/*
+  # Supplier Master Data
+
+  ## Overview
+  `documents.supplier_name` is free text, so one supplier shows up under several spellings.
+  Suppliers are now master records that documents link to. The free-text name stays on
+  the document as the name it was raised under and is set from the supplier's legal name
+  when one is picked. Existing names are mapped onto supplier records with a one-off
+  merge tool.
+
+  ## 1. New Tables
+
+  ### suppliers
+  - `id` (uuid, primary key)
+  - `code` (text, unique) - Short supplier code
+  - `legal_name` (text) - Registered name
+  - `tax_id` (text, optional), `country` (text, optional)
+  - `default_currency` (text) - Currency new documents for the supplier start in
+  - `payment_terms` (text, optional) - e.g. Net 30
+  - `bank_name`, `bank_account_name`, `bank_account_number`, `bank_swift_code`
+    (text, optional) - Payment details
+  - `is_active` (boolean)
+  - `created_by` (uuid), `created_at`, `updated_at` (timestamptz)
+
+  ### supplier_contacts
+  - `id` (uuid, primary key)
+  - `supplier_id` (uuid)
+  - `name` (text), `title` (text, optional)
+  - `email` (text, optional), `phone` (text, optional)
+  - `is_primary` (boolean)
+
+  ## 2. Modified Tables
+
+  ### documents
+  - `supplier_id` (uuid, optional) - Supplier record the document belongs to
+
+  ## 3. Functions
+  - `map_supplier_names(p_supplier_id, p_names)` - Finance/Admin only; links unmapped
+    documents whose free-text supplier name is one of `p_names` to the supplier, renames
+    them to its legal name and records the old name in each document's history
+
+  ## 4. Security
+  - Everyone can view suppliers and contacts; Finance and Admins manage them
+*/
+
+-- =============================================
+-- 1. SUPPLIERS
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS suppliers (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  code text UNIQUE NOT NULL,
+  legal_name text NOT NULL,
+  tax_id text,
+  country text,
+  default_currency text NOT NULL DEFAULT 'USD',
+  payment_terms text,
+  bank_name text,
+  bank_account_name text,
+  bank_account_number text,
+  bank_swift_code text,
+  is_active boolean NOT NULL DEFAULT true,
+  created_by uuid REFERENCES users_profile(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS supplier_contacts (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  supplier_id uuid NOT NULL REFERENCES suppliers(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  title text,
+  email text,
+  phone text,
+  is_primary boolean NOT NULL DEFAULT false,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE suppliers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE supplier_contacts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view suppliers"
+  ON suppliers FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Finance can manage suppliers"
+  ON suppliers FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users_profile
+      WHERE users_profile.id = auth.uid()
+      AND users_profile.role IN ('Finance', 'Admin')
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM users_profile
+      WHERE users_profile.id = auth.uid()
+      AND users_profile.role IN ('Finance', 'Admin')
+    )
+  );
+
+CREATE POLICY "Authenticated users can view supplier contacts"
+  ON supplier_contacts FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Finance can manage supplier contacts"
+  ON supplier_contacts FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users_profile
+      WHERE users_profile.id = auth.uid()
+      AND users_profile.role IN ('Finance', 'Admin')
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM users_profile
+      WHERE users_profile.id = auth.uid()
+      AND users_profile.role IN ('Finance', 'Admin')
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_suppliers_legal_name ON suppliers(legal_name);
+CREATE INDEX IF NOT EXISTS idx_supplier_contacts_supplier ON supplier_contacts(supplier_id);
+
+-- =============================================
+-- 2. DOCUMENT SUPPLIERS
+-- =============================================
+
+ALTER TABLE documents
+  ADD COLUMN IF NOT EXISTS supplier_id uuid REFERENCES suppliers(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_documents_supplier ON documents(supplier_id);
+
+-- =============================================
+-- 3. MAP FREE-TEXT NAMES
+-- =============================================
+
+CREATE OR REPLACE FUNCTION map_supplier_names(p_supplier_id uuid, p_names text[])
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  s suppliers%ROWTYPE;
+  doc record;
+  v_count integer := 0;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM users_profile
+    WHERE users_profile.id = auth.uid()
+    AND users_profile.role IN ('Finance', 'Admin')
+  ) THEN
+    RAISE EXCEPTION 'Only Finance and Admin users can map supplier names';
+  END IF;
+
+  SELECT * INTO s FROM suppliers WHERE id = p_supplier_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Supplier % not found', p_supplier_id;
+  END IF;
+
+  FOR doc IN
+    SELECT id, supplier_name, status FROM documents
+    WHERE supplier_id IS NULL
+    AND supplier_name = ANY(p_names)
+    FOR UPDATE
+  LOOP
+    UPDATE documents
+    SET supplier_id = s.id, supplier_name = s.legal_name
+    WHERE id = doc.id;
+
+    INSERT INTO document_history (document_id, action_type, old_status, new_status, performed_by, remarks, changes)
+    VALUES (
+      doc.id, 'Supplier Mapped', doc.status, doc.status, auth.uid(),
+      'Mapped to supplier ' || s.code,
+      CASE WHEN doc.supplier_name <> s.legal_name THEN
+        jsonb_build_array(jsonb_build_object(
+          'field', 'supplier_name', 'label', 'Supplier',
+          'before', doc.supplier_name, 'after', s.legal_name
+        ))
+      END
+    );
+
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION map_supplier_names(uuid, text[]) TO authenticated;
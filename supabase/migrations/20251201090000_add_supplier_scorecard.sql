@@ -0,0 +1,115 @@
+/*
+  # Supplier Performance Scorecard
+
+  ## Overview
+  Documents now link to supplier records, so supplier performance can be measured from
+  the document trail. Two views expose the underlying events; the scorecard page
+  aggregates them per supplier and month, and ranks suppliers across the period.
+
+  ## 1. Views
+
+  ### supplier_approval_cycles
+  One row per approval decision on a supplier's document
+  - `supplier_id`, `document_id`, `document_type`
+  - `submitted_at` (timestamptz) - Latest submission (or approval reversal) before the decision
+  - `decided_at` (timestamptz) - When the document was Approved or Rejected
+  - `outcome` (text) - Approved or Rejected
+  - `cycle_hours` (numeric) - Hours from submission to decision
+
+  ### supplier_deliveries
+  One row per supplier and shipment with an Approved Goods Receipt
+  - `supplier_id`, `shipment_id`, `shipment_number`
+  - `eta` (date) - Shipment ETA
+  - `received_at` (timestamptz) - First stock movement posted from the supplier's Goods
+    Receipts on the shipment
+  - `on_time` (boolean) - Received on or before the ETA; null when the shipment has no ETA
+  - `ordered_quantity` (numeric) - Quantity on the supplier's Approved Purchase Orders
+  - `received_quantity` (numeric) - Quantity on the supplier's Approved Goods Receipts
+  - `quantity_variance` (numeric) - Sum over products of |received - ordered|
+
+  ## 2. Important Notes
+  - Both views run with the caller's permissions, so the figures cover the documents the
+    caller can see; the scorecard page is offered to Finance and Admins, who see all
+  - A resubmitted revision starts a new approval cycle, so a document rejected once and
+    then approved counts as one rejection and one approval
+  - Purchase Orders are matched to Goods Receipts through their shipment
+*/
+
+-- =============================================
+-- 1. APPROVAL CYCLES
+-- =============================================
+
+CREATE OR REPLACE VIEW supplier_approval_cycles
+WITH (security_invoker = true)
+AS
+SELECT
+  d.supplier_id,
+  d.id AS document_id,
+  d.document_type,
+  submitted.created_at AS submitted_at,
+  decision.created_at AS decided_at,
+  decision.action_type AS outcome,
+  round(extract(epoch FROM decision.created_at - submitted.created_at) / 3600, 2) AS cycle_hours
+FROM document_history decision
+JOIN documents d ON d.id = decision.document_id
+JOIN LATERAL (
+  SELECT h.created_at
+  FROM document_history h
+  WHERE h.document_id = decision.document_id
+  AND h.action_type IN ('Submitted', 'Approval Reversed')
+  AND h.created_at <= decision.created_at
+  ORDER BY h.created_at DESC
+  LIMIT 1
+) submitted ON true
+WHERE decision.action_type IN ('Approved', 'Rejected')
+AND d.supplier_id IS NOT NULL;
+
+-- =============================================
+-- 2. DELIVERIES
+-- =============================================
+
+CREATE OR REPLACE VIEW supplier_deliveries
+WITH (security_invoker = true)
+AS
+WITH receipts AS (
+  SELECT gr.supplier_id, gr.shipment_id, min(m.movement_date) AS received_at
+  FROM documents gr
+  JOIN document_lines l ON l.document_id = gr.id
+  JOIN stock_movements m ON m.document_line_id = l.id AND m.movement_type = 'IN'
+  WHERE gr.document_type = 'Goods Receipt'
+  AND gr.status = 'Approved'
+  AND gr.supplier_id IS NOT NULL
+  AND gr.shipment_id IS NOT NULL
+  GROUP BY gr.supplier_id, gr.shipment_id
+),
+product_quantities AS (
+  SELECT
+    d.supplier_id,
+    d.shipment_id,
+    l.product_id,
+    COALESCE(SUM(l.quantity) FILTER (WHERE d.document_type = 'Purchase Order'), 0) AS ordered,
+    COALESCE(SUM(l.quantity) FILTER (WHERE d.document_type = 'Goods Receipt'), 0) AS received
+  FROM documents d
+  JOIN document_lines l ON l.document_id = d.id
+  WHERE d.document_type IN ('Purchase Order', 'Goods Receipt')
+  AND d.status = 'Approved'
+  AND d.supplier_id IS NOT NULL
+  AND d.shipment_id IS NOT NULL
+  GROUP BY d.supplier_id, d.shipment_id, l.product_id
+)
+SELECT
+  r.supplier_id,
+  r.shipment_id,
+  s.shipment_number,
+  s.eta,
+  r.received_at,
+  CASE WHEN s.eta IS NOT NULL THEN r.received_at::date <= s.eta END AS on_time,
+  COALESCE(SUM(q.ordered), 0) AS ordered_quantity,
+  COALESCE(SUM(q.received), 0) AS received_quantity,
+  COALESCE(SUM(abs(q.received - q.ordered)), 0) AS quantity_variance
+FROM receipts r
+JOIN shipments s ON s.id = r.shipment_id
+LEFT JOIN product_quantities q ON q.supplier_id = r.supplier_id AND q.shipment_id = r.shipment_id
+GROUP BY r.supplier_id, r.shipment_id, s.shipment_number, s.eta, r.received_at;
+
+CREATE INDEX IF NOT EXISTS idx_document_history_action ON document_history(action_type, document_id);
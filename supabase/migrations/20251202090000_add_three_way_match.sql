@@ -0,0 +1,377 @@
+/*
+  # Three-Way Match
+
+  ## Overview
+  Finance used to check by hand that an Invoice agrees with its Purchase Order and the
+  goods actually received. Goods Receipts and Invoices now reference the Purchase Order
+  they belong to, and every Invoice is matched line by line against the PO's ordered
+  quantities and prices and the quantities on its Approved Goods Receipts. An Invoice with
+  unresolved exceptions cannot be approved unless Finance overrides the match with a
+  reason, which is recorded in the document history.
+
+  ## 1. Modified Tables
+
+  ### system_settings
+  - `match_price_tolerance_percent` (numeric) - How far an invoiced unit price may exceed
+    the PO price, default 2%
+  - `match_quantity_tolerance_percent` (numeric) - How far an invoiced quantity may exceed
+    the received quantity not yet invoiced, default 0%
+
+  ### documents
+  - `purchase_order_id` (uuid, optional) - Purchase Order a Goods Receipt or Invoice
+    belongs to
+  - `match_override_reason` (text), `match_override_by` (uuid), `match_override_at`
+    (timestamptz) - Finance override of the Invoice's match exceptions
+  - `match_override_revision` (integer) - Revision the override applies to
+
+  ## 2. Functions & Triggers
+  - `compute_three_way_match(p_invoice_id)` - Internal; the match as JSON: the Purchase
+    Order, tolerances, exceptions and one entry per product
+  - `three_way_match(p_document_id)` - The match for an Invoice the caller can view
+  - `override_three_way_match(p_document_id, p_reason)` - Finance/Admin only; accepts a
+    Pending Invoice's exceptions
+  - `set_match_tolerances(p_price_percent, p_quantity_percent)` - Finance/Admin only
+  - `check_invoice_three_way_match()` - BEFORE UPDATE trigger on `documents`; blocks
+    approving an Invoice with exceptions and no override for its current revision
+
+  ## 3. Important Notes
+  - Exceptions: no Purchase Order referenced, the PO is not Approved or differs in
+    currency or supplier, a product not on the PO, an invoiced quantity above what has
+    been received and not yet invoiced, or a unit price above the PO price
+  - Quantities received or invoiced are taken from Approved Goods Receipts and other
+    Approved Invoices referencing the same PO
+  - Invoicing less than received, or at a lower price, is not an exception
+  - Revising a rejected Invoice starts a new revision, so an earlier override no longer
+    applies
+*/
+
+-- =============================================
+-- 1. TOLERANCES
+-- =============================================
+
+ALTER TABLE system_settings
+  ADD COLUMN IF NOT EXISTS match_price_tolerance_percent numeric(5,2) NOT NULL DEFAULT 2
+    CHECK (match_price_tolerance_percent >= 0),
+  ADD COLUMN IF NOT EXISTS match_quantity_tolerance_percent numeric(5,2) NOT NULL DEFAULT 0
+    CHECK (match_quantity_tolerance_percent >= 0);
+
+CREATE OR REPLACE FUNCTION set_match_tolerances(p_price_percent numeric, p_quantity_percent numeric)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM users_profile
+    WHERE users_profile.id = auth.uid()
+    AND users_profile.role IN ('Finance', 'Admin')
+  ) THEN
+    RAISE EXCEPTION 'Only Finance and Admin users can change match tolerances';
+  END IF;
+
+  IF p_price_percent IS NULL OR p_price_percent < 0 OR p_quantity_percent IS NULL OR p_quantity_percent < 0 THEN
+    RAISE EXCEPTION 'Tolerances must be zero or more';
+  END IF;
+
+  UPDATE system_settings
+  SET match_price_tolerance_percent = p_price_percent,
+      match_quantity_tolerance_percent = p_quantity_percent,
+      updated_by = auth.uid(),
+      updated_at = now()
+  WHERE id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION set_match_tolerances(numeric, numeric) TO authenticated;
+
+-- =============================================
+-- 2. PURCHASE ORDER REFERENCES & OVERRIDES
+-- =============================================
+
+ALTER TABLE documents
+  ADD COLUMN IF NOT EXISTS purchase_order_id uuid REFERENCES documents(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS match_override_reason text,
+  ADD COLUMN IF NOT EXISTS match_override_by uuid REFERENCES users_profile(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS match_override_at timestamptz,
+  ADD COLUMN IF NOT EXISTS match_override_revision integer;
+
+CREATE INDEX IF NOT EXISTS idx_documents_purchase_order ON documents(purchase_order_id);
+
+-- =============================================
+-- 3. MATCHING
+-- =============================================
+
+CREATE OR REPLACE FUNCTION compute_three_way_match(p_invoice_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  inv documents%ROWTYPE;
+  po documents%ROWTYPE;
+  line record;
+  v_price_tolerance numeric;
+  v_quantity_tolerance numeric;
+  v_invoiceable numeric;
+  v_quantity_ok boolean;
+  v_price_ok boolean;
+  v_status text;
+  v_issues text[] := '{}';
+  v_lines jsonb := '[]';
+BEGIN
+  SELECT * INTO inv FROM documents WHERE id = p_invoice_id;
+
+  SELECT match_price_tolerance_percent, match_quantity_tolerance_percent
+  INTO v_price_tolerance, v_quantity_tolerance
+  FROM system_settings WHERE id;
+
+  IF inv.purchase_order_id IS NOT NULL THEN
+    SELECT * INTO po FROM documents WHERE id = inv.purchase_order_id;
+  END IF;
+
+  IF po.id IS NULL THEN
+    v_issues := v_issues || 'No Purchase Order referenced'::text;
+  ELSE
+    IF po.document_type <> 'Purchase Order' THEN
+      v_issues := v_issues || format('%s is not a Purchase Order', po.document_number);
+    END IF;
+    IF po.status <> 'Approved' THEN
+      v_issues := v_issues || format('Purchase Order %s is not Approved', po.document_number);
+    END IF;
+    IF po.currency <> inv.currency THEN
+      v_issues := v_issues || format('Invoice currency %s differs from the Purchase Order currency %s', inv.currency, po.currency);
+    END IF;
+    IF po.supplier_id IS DISTINCT FROM inv.supplier_id THEN
+      v_issues := v_issues || 'Invoice supplier differs from the Purchase Order supplier'::text;
+    END IF;
+
+    FOR line IN
+      WITH invoiced AS (
+        SELECT product_id, SUM(quantity) AS quantity, SUM(line_total) / SUM(quantity) AS unit_price
+        FROM document_lines WHERE document_id = inv.id
+        GROUP BY product_id
+      ),
+      ordered AS (
+        SELECT product_id, SUM(quantity) AS quantity, SUM(line_total) / SUM(quantity) AS unit_price
+        FROM document_lines WHERE document_id = po.id
+        GROUP BY product_id
+      ),
+      received AS (
+        SELECT l.product_id, SUM(l.quantity) AS quantity
+        FROM documents d
+        JOIN document_lines l ON l.document_id = d.id
+        WHERE d.purchase_order_id = po.id
+        AND d.document_type = 'Goods Receipt'
+        AND d.status = 'Approved'
+        GROUP BY l.product_id
+      ),
+      previously_invoiced AS (
+        SELECT l.product_id, SUM(l.quantity) AS quantity
+        FROM documents d
+        JOIN document_lines l ON l.document_id = d.id
+        WHERE d.purchase_order_id = po.id
+        AND d.document_type = 'Invoice'
+        AND d.status = 'Approved'
+        AND d.id <> inv.id
+        GROUP BY l.product_id
+      )
+      SELECT
+        p.id AS product_id,
+        p.sku,
+        p.name,
+        COALESCE(o.quantity, 0) AS ordered_quantity,
+        round(o.unit_price, 4) AS ordered_unit_price,
+        COALESCE(r.quantity, 0) AS received_quantity,
+        COALESCE(prev.quantity, 0) AS previously_invoiced_quantity,
+        COALESCE(i.quantity, 0) AS invoiced_quantity,
+        round(i.unit_price, 4) AS invoiced_unit_price
+      FROM (SELECT product_id FROM invoiced UNION SELECT product_id FROM ordered) k
+      JOIN products p ON p.id = k.product_id
+      LEFT JOIN invoiced i ON i.product_id = k.product_id
+      LEFT JOIN ordered o ON o.product_id = k.product_id
+      LEFT JOIN received r ON r.product_id = k.product_id
+      LEFT JOIN previously_invoiced prev ON prev.product_id = k.product_id
+      ORDER BY p.sku
+    LOOP
+      v_invoiceable := GREATEST(line.received_quantity - line.previously_invoiced_quantity, 0);
+      v_quantity_ok := line.invoiced_quantity <= v_invoiceable * (1 + v_quantity_tolerance / 100);
+      v_price_ok := line.ordered_unit_price IS NULL
+        OR line.invoiced_unit_price IS NULL
+        OR line.invoiced_unit_price <= line.ordered_unit_price * (1 + v_price_tolerance / 100);
+
+      v_status := CASE
+        WHEN line.invoiced_quantity = 0 THEN 'Not Invoiced'
+        WHEN line.ordered_unit_price IS NULL THEN 'Not on PO'
+        WHEN NOT v_quantity_ok AND NOT v_price_ok THEN 'Quantity and Price Variance'
+        WHEN NOT v_quantity_ok THEN 'Quantity Variance'
+        WHEN NOT v_price_ok THEN 'Price Variance'
+        ELSE 'Matched'
+      END;
+
+      IF v_status NOT IN ('Matched', 'Not Invoiced') THEN
+        v_issues := v_issues || format('%s: %s', line.sku, v_status);
+      END IF;
+
+      v_lines := v_lines || jsonb_build_object(
+        'product_id', line.product_id,
+        'sku', line.sku,
+        'name', line.name,
+        'ordered_quantity', line.ordered_quantity,
+        'ordered_unit_price', line.ordered_unit_price,
+        'received_quantity', line.received_quantity,
+        'previously_invoiced_quantity', line.previously_invoiced_quantity,
+        'invoiceable_quantity', v_invoiceable,
+        'invoiced_quantity', line.invoiced_quantity,
+        'invoiced_unit_price', line.invoiced_unit_price,
+        'status', v_status
+      );
+    END LOOP;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'purchase_order_id', po.id,
+    'purchase_order_number', po.document_number,
+    'price_tolerance_percent', v_price_tolerance,
+    'quantity_tolerance_percent', v_quantity_tolerance,
+    'issues', to_jsonb(v_issues),
+    'lines', v_lines
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION compute_three_way_match(uuid) FROM PUBLIC, authenticated;
+
+CREATE OR REPLACE FUNCTION three_way_match(p_document_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  doc documents%ROWTYPE;
+BEGIN
+  SELECT * INTO doc FROM documents WHERE id = p_document_id;
+
+  -- The PO and Goods Receipts may be hidden from the caller, but the Invoice must not be
+  IF NOT FOUND OR NOT (
+    doc.created_by = auth.uid()
+    OR doc.approver_id = auth.uid()
+    OR is_document_step_approver(doc.id)
+    OR EXISTS (
+      SELECT 1 FROM users_profile
+      WHERE users_profile.id = auth.uid()
+      AND users_profile.role IN ('Finance', 'Admin')
+    )
+  ) THEN
+    RAISE EXCEPTION 'Document % not found', p_document_id;
+  END IF;
+
+  IF doc.document_type <> 'Invoice' THEN
+    RAISE EXCEPTION 'Only Invoices are matched';
+  END IF;
+
+  RETURN compute_three_way_match(doc.id);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION three_way_match(uuid) TO authenticated;
+
+-- =============================================
+-- 4. OVERRIDES
+-- =============================================
+
+CREATE OR REPLACE FUNCTION override_three_way_match(p_document_id uuid, p_reason text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  doc documents%ROWTYPE;
+  v_issues jsonb;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM users_profile
+    WHERE users_profile.id = auth.uid()
+    AND users_profile.role IN ('Finance', 'Admin')
+  ) THEN
+    RAISE EXCEPTION 'Only Finance and Admin users can override a three-way match';
+  END IF;
+
+  IF p_reason IS NULL OR btrim(p_reason) = '' THEN
+    RAISE EXCEPTION 'A reason is required to override a three-way match';
+  END IF;
+
+  SELECT * INTO doc FROM documents WHERE id = p_document_id FOR UPDATE;
+
+  IF NOT FOUND OR doc.document_type <> 'Invoice' THEN
+    RAISE EXCEPTION 'Invoice % not found', p_document_id;
+  END IF;
+
+  -- Pending documents cannot be edited, so the override covers what the approvers see
+  IF doc.status <> 'Pending' THEN
+    RAISE EXCEPTION 'Only Pending Invoices can have their match overridden';
+  END IF;
+
+  v_issues := compute_three_way_match(doc.id)->'issues';
+
+  IF jsonb_array_length(v_issues) = 0 THEN
+    RAISE EXCEPTION 'Invoice % has no match exceptions', doc.document_number;
+  END IF;
+
+  UPDATE documents
+  SET match_override_reason = btrim(p_reason),
+      match_override_by = auth.uid(),
+      match_override_at = now(),
+      match_override_revision = doc.revision
+  WHERE id = doc.id;
+
+  INSERT INTO document_history (document_id, action_type, old_status, new_status, performed_by, remarks)
+  VALUES (
+    doc.id, 'Match Override', doc.status, doc.status, auth.uid(),
+    btrim(p_reason) || ' (overrode: ' || (SELECT string_agg(issue, '; ') FROM jsonb_array_elements_text(v_issues) issue) || ')'
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION override_three_way_match(uuid, text) TO authenticated;
+
+-- =============================================
+-- 5. APPROVAL CHECK
+-- =============================================
+
+CREATE OR REPLACE FUNCTION check_invoice_three_way_match()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_issues jsonb;
+BEGIN
+  IF NEW.document_type = 'Invoice'
+    AND NEW.status = 'Approved'
+    AND OLD.status IS DISTINCT FROM 'Approved'
+    AND NEW.match_override_revision IS DISTINCT FROM NEW.revision THEN
+    v_issues := compute_three_way_match(NEW.id)->'issues';
+
+    IF jsonb_array_length(v_issues) > 0 THEN
+      RAISE EXCEPTION 'Invoice % has unresolved three-way match exceptions: %',
+        NEW.document_number,
+        (SELECT string_agg(issue, '; ') FROM jsonb_array_elements_text(v_issues) issue);
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_documents_check_three_way_match ON documents;
+CREATE TRIGGER trg_documents_check_three_way_match
+  BEFORE UPDATE OF status ON documents
+  FOR EACH ROW
+  EXECUTE FUNCTION check_invoice_three_way_match();
@@ -0,0 +1,492 @@
+/*
+  # Purchase Order Fulfilment
+
+  ## Overview
+  A Purchase Order used to stop at Approved and never showed how much of it had been
+  delivered or billed. PO lines now carry the quantities received and invoiced against
+  them, updated whenever a Goods Receipt or Invoice referencing the PO is approved or its
+  approval is reversed. The PO moves on to Partially Received once goods arrive, and to
+  Closed when every line has been received and invoiced in full. A new view lists the
+  quantities still outstanding per supplier and SKU.
+
+  ## 1. Modified Tables
+
+  ### document_lines
+  - `received_quantity` (numeric) - Quantity received against a Purchase Order line
+  - `invoiced_quantity` (numeric) - Quantity invoiced against a Purchase Order line
+
+  ## 2. Views
+
+  ### open_purchase_order_lines
+  One row per supplier and product with quantities outstanding on Approved or Partially
+  Received Purchase Orders
+  - `supplier_id`, `supplier_code`, `supplier_name`
+  - `product_id`, `sku`, `product_name`, `unit_of_measure`
+  - `ordered_quantity`, `received_quantity`, `invoiced_quantity` (numeric)
+  - `open_to_receive` (numeric) - Ordered but not yet received
+  - `open_to_invoice` (numeric) - Received but not yet invoiced
+  - `purchase_order_count` (integer), `purchase_order_numbers` (text)
+  - `oldest_order_date` (date) - Date of the oldest Purchase Order still open
+
+  ## 3. Functions & Triggers
+  - `refresh_purchase_order_fulfilment(p_purchase_order_id, p_remarks)` - Internal;
+    recomputes the PO's line quantities and moves it between Approved, Partially Received
+    and Closed, recording the change in its history
+  - `sync_purchase_order_fulfilment()` - AFTER UPDATE trigger on `documents`; refreshes
+    the referenced PO when a Goods Receipt or Invoice enters or leaves Approved or changes
+    PO, and a PO itself when it is approved
+  - `capture_document_exchange_rate()`, `compute_three_way_match()` and
+    `shipment_close_blockers()` treat Partially Received and Closed as approved
+  - `recalculate_document_value()` now only runs when line quantities, prices or parents
+    change
+
+  ## 4. Important Notes
+  - Quantities come from Approved Goods Receipts and Invoices referencing the PO. When a
+    product appears on several PO lines they are filled in line order, and anything
+    beyond the ordered quantity is shown on the last of them
+  - Reversing a Goods Receipt or Invoice moves the PO back, e.g. from Closed to Partially
+    Received
+  - Only Approved Purchase Orders can have their approval reversed, so a PO with receipts
+    has to have those reversed first
+*/
+
+-- =============================================
+-- 1. LINE QUANTITIES
+-- =============================================
+
+ALTER TABLE document_lines
+  ADD COLUMN IF NOT EXISTS received_quantity numeric(15,3) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS invoiced_quantity numeric(15,3) NOT NULL DEFAULT 0;
+
+-- Fulfilment updates do not change a document's value
+DROP TRIGGER IF EXISTS trg_document_lines_recalculate_value ON document_lines;
+CREATE TRIGGER trg_document_lines_recalculate_value
+  AFTER INSERT OR DELETE OR UPDATE OF document_id, quantity, unit_price ON document_lines
+  FOR EACH ROW
+  EXECUTE FUNCTION recalculate_document_value();
+
+-- =============================================
+-- 2. FULFILMENT
+-- =============================================
+
+CREATE OR REPLACE FUNCTION refresh_purchase_order_fulfilment(p_purchase_order_id uuid, p_remarks text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  po documents%ROWTYPE;
+  v_status text;
+BEGIN
+  SELECT * INTO po FROM documents WHERE id = p_purchase_order_id FOR UPDATE;
+
+  IF NOT FOUND OR po.document_type <> 'Purchase Order' THEN
+    RETURN;
+  END IF;
+
+  WITH fulfilled AS (
+    SELECT
+      l.product_id,
+      COALESCE(SUM(l.quantity) FILTER (WHERE d.document_type = 'Goods Receipt'), 0) AS received,
+      COALESCE(SUM(l.quantity) FILTER (WHERE d.document_type = 'Invoice'), 0) AS invoiced
+    FROM documents d
+    JOIN document_lines l ON l.document_id = d.id
+    WHERE d.purchase_order_id = po.id
+    AND d.document_type IN ('Goods Receipt', 'Invoice')
+    AND d.status = 'Approved'
+    GROUP BY l.product_id
+  ),
+  allocated AS (
+    SELECT
+      l.id,
+      l.quantity,
+      SUM(l.quantity) OVER product_lines - l.quantity AS ordered_before,
+      l.line_number = MAX(l.line_number) OVER (PARTITION BY l.product_id) AS is_last,
+      COALESCE(f.received, 0) AS received,
+      COALESCE(f.invoiced, 0) AS invoiced
+    FROM document_lines l
+    LEFT JOIN fulfilled f ON f.product_id = l.product_id
+    WHERE l.document_id = po.id
+    WINDOW product_lines AS (PARTITION BY l.product_id ORDER BY l.line_number)
+  )
+  UPDATE document_lines l
+  SET received_quantity = CASE
+        WHEN a.is_last THEN GREATEST(a.received - a.ordered_before, 0)
+        ELSE LEAST(GREATEST(a.received - a.ordered_before, 0), a.quantity)
+      END,
+      invoiced_quantity = CASE
+        WHEN a.is_last THEN GREATEST(a.invoiced - a.ordered_before, 0)
+        ELSE LEAST(GREATEST(a.invoiced - a.ordered_before, 0), a.quantity)
+      END
+  FROM allocated a
+  WHERE l.id = a.id;
+
+  -- A PO awaiting approval keeps its status; the quantities are refreshed again on approval
+  IF po.status NOT IN ('Approved', 'Partially Received', 'Closed') THEN
+    RETURN;
+  END IF;
+
+  SELECT CASE
+    WHEN bool_and(received_quantity >= quantity AND invoiced_quantity >= quantity) THEN 'Closed'
+    WHEN bool_or(received_quantity > 0) THEN 'Partially Received'
+    ELSE 'Approved'
+  END
+  INTO v_status
+  FROM document_lines
+  WHERE document_id = po.id;
+
+  IF v_status <> po.status THEN
+    UPDATE documents
+    SET status = v_status, updated_at = now()
+    WHERE id = po.id;
+
+    INSERT INTO document_history (document_id, action_type, old_status, new_status, performed_by, remarks)
+    VALUES (po.id, 'Fulfilment Updated', po.status, v_status, auth.uid(), p_remarks);
+  END IF;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION refresh_purchase_order_fulfilment(uuid, text) FROM PUBLIC, authenticated;
+
+CREATE OR REPLACE FUNCTION sync_purchase_order_fulfilment()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_remarks text;
+BEGIN
+  IF NEW.document_type IN ('Goods Receipt', 'Invoice')
+    AND 'Approved' IN (OLD.status, NEW.status)
+    AND (OLD.status IS DISTINCT FROM NEW.status OR OLD.purchase_order_id IS DISTINCT FROM NEW.purchase_order_id) THEN
+    v_remarks := format('%s %s %s', NEW.document_type, NEW.document_number,
+      CASE
+        WHEN NEW.status <> 'Approved' THEN 'no longer approved'
+        WHEN OLD.status <> 'Approved' THEN 'approved'
+        ELSE 'moved to another Purchase Order'
+      END);
+
+    IF OLD.purchase_order_id IS NOT NULL AND OLD.purchase_order_id IS DISTINCT FROM NEW.purchase_order_id THEN
+      PERFORM refresh_purchase_order_fulfilment(OLD.purchase_order_id, v_remarks);
+    END IF;
+
+    IF NEW.purchase_order_id IS NOT NULL THEN
+      PERFORM refresh_purchase_order_fulfilment(NEW.purchase_order_id, v_remarks);
+    END IF;
+  ELSIF NEW.document_type = 'Purchase Order'
+    AND NEW.status = 'Approved'
+    AND OLD.status NOT IN ('Approved', 'Partially Received', 'Closed') THEN
+    -- Receipts approved while the PO was reversed count once it is approved again
+    PERFORM refresh_purchase_order_fulfilment(NEW.id, 'Purchase Order approved');
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_documents_sync_purchase_order_fulfilment ON documents;
+CREATE TRIGGER trg_documents_sync_purchase_order_fulfilment
+  AFTER UPDATE OF status, purchase_order_id ON documents
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_purchase_order_fulfilment();
+
+-- =============================================
+-- 3. APPROVED STATES
+-- =============================================
+
+-- Moving between Approved, Partially Received and Closed keeps the captured rate
+CREATE OR REPLACE FUNCTION capture_document_exchange_rate()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_rate numeric;
+  v_was_approved boolean := OLD.status IN ('Approved', 'Partially Received', 'Closed');
+  v_is_approved boolean := NEW.status IN ('Approved', 'Partially Received', 'Closed');
+BEGIN
+  IF v_is_approved AND NOT v_was_approved THEN
+    v_rate := exchange_rate_for(NEW.currency, CURRENT_DATE);
+
+    IF v_rate IS NULL THEN
+      RAISE EXCEPTION 'No % exchange rate recorded on or before % to approve %',
+        NEW.currency, CURRENT_DATE, NEW.document_number;
+    END IF;
+
+    NEW.exchange_rate := v_rate;
+    NEW.base_currency := base_currency();
+    NEW.base_value := round(NEW.document_value * v_rate, 2);
+  ELSIF v_was_approved AND NOT v_is_approved THEN
+    -- A reversed document captures a fresh rate when it is approved again
+    NEW.exchange_rate := NULL;
+    NEW.base_currency := NULL;
+    NEW.base_value := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION shipment_close_blockers(p_shipment_id uuid)
+RETURNS SETOF text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT 'No ' || required.document_type || ' linked'
+  FROM shipments s
+  CROSS JOIN LATERAL unnest(s.required_document_types) AS required(document_type)
+  WHERE s.id = p_shipment_id
+  AND NOT EXISTS (
+    SELECT 1 FROM documents d
+    WHERE d.shipment_id = s.id
+    AND d.document_type = required.document_type
+  )
+  UNION ALL
+  SELECT d.document_type || ' ' || d.document_number || ' is ' || d.status
+  FROM documents d
+  JOIN shipments s ON s.id = d.shipment_id
+  WHERE s.id = p_shipment_id
+  AND d.document_type = ANY (s.required_document_types)
+  AND d.status NOT IN ('Approved', 'Partially Received', 'Closed');
+$$;
+
+CREATE OR REPLACE FUNCTION compute_three_way_match(p_invoice_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  inv documents%ROWTYPE;
+  po documents%ROWTYPE;
+  line record;
+  v_price_tolerance numeric;
+  v_quantity_tolerance numeric;
+  v_invoiceable numeric;
+  v_quantity_ok boolean;
+  v_price_ok boolean;
+  v_status text;
+  v_issues text[] := '{}';
+  v_lines jsonb := '[]';
+BEGIN
+  SELECT * INTO inv FROM documents WHERE id = p_invoice_id;
+
+  SELECT match_price_tolerance_percent, match_quantity_tolerance_percent
+  INTO v_price_tolerance, v_quantity_tolerance
+  FROM system_settings WHERE id;
+
+  IF inv.purchase_order_id IS NOT NULL THEN
+    SELECT * INTO po FROM documents WHERE id = inv.purchase_order_id;
+  END IF;
+
+  IF po.id IS NULL THEN
+    v_issues := v_issues || 'No Purchase Order referenced'::text;
+  ELSE
+    IF po.document_type <> 'Purchase Order' THEN
+      v_issues := v_issues || format('%s is not a Purchase Order', po.document_number);
+    END IF;
+    IF po.status NOT IN ('Approved', 'Partially Received', 'Closed') THEN
+      v_issues := v_issues || format('Purchase Order %s is not Approved', po.document_number);
+    END IF;
+    IF po.currency <> inv.currency THEN
+      v_issues := v_issues || format('Invoice currency %s differs from the Purchase Order currency %s', inv.currency, po.currency);
+    END IF;
+    IF po.supplier_id IS DISTINCT FROM inv.supplier_id THEN
+      v_issues := v_issues || 'Invoice supplier differs from the Purchase Order supplier'::text;
+    END IF;
+
+    FOR line IN
+      WITH invoiced AS (
+        SELECT product_id, SUM(quantity) AS quantity, SUM(line_total) / SUM(quantity) AS unit_price
+        FROM document_lines WHERE document_id = inv.id
+        GROUP BY product_id
+      ),
+      ordered AS (
+        SELECT product_id, SUM(quantity) AS quantity, SUM(line_total) / SUM(quantity) AS unit_price
+        FROM document_lines WHERE document_id = po.id
+        GROUP BY product_id
+      ),
+      received AS (
+        SELECT l.product_id, SUM(l.quantity) AS quantity
+        FROM documents d
+        JOIN document_lines l ON l.document_id = d.id
+        WHERE d.purchase_order_id = po.id
+        AND d.document_type = 'Goods Receipt'
+        AND d.status = 'Approved'
+        GROUP BY l.product_id
+      ),
+      previously_invoiced AS (
+        SELECT l.product_id, SUM(l.quantity) AS quantity
+        FROM documents d
+        JOIN document_lines l ON l.document_id = d.id
+        WHERE d.purchase_order_id = po.id
+        AND d.document_type = 'Invoice'
+        AND d.status = 'Approved'
+        AND d.id <> inv.id
+        GROUP BY l.product_id
+      )
+      SELECT
+        p.id AS product_id,
+        p.sku,
+        p.name,
+        COALESCE(o.quantity, 0) AS ordered_quantity,
+        round(o.unit_price, 4) AS ordered_unit_price,
+        COALESCE(r.quantity, 0) AS received_quantity,
+        COALESCE(prev.quantity, 0) AS previously_invoiced_quantity,
+        COALESCE(i.quantity, 0) AS invoiced_quantity,
+        round(i.unit_price, 4) AS invoiced_unit_price
+      FROM (SELECT product_id FROM invoiced UNION SELECT product_id FROM ordered) k
+      JOIN products p ON p.id = k.product_id
+      LEFT JOIN invoiced i ON i.product_id = k.product_id
+      LEFT JOIN ordered o ON o.product_id = k.product_id
+      LEFT JOIN received r ON r.product_id = k.product_id
+      LEFT JOIN previously_invoiced prev ON prev.product_id = k.product_id
+      ORDER BY p.sku
+    LOOP
+      v_invoiceable := GREATEST(line.received_quantity - line.previously_invoiced_quantity, 0);
+      v_quantity_ok := line.invoiced_quantity <= v_invoiceable * (1 + v_quantity_tolerance / 100);
+      v_price_ok := line.ordered_unit_price IS NULL
+        OR line.invoiced_unit_price IS NULL
+        OR line.invoiced_unit_price <= line.ordered_unit_price * (1 + v_price_tolerance / 100);
+
+      v_status := CASE
+        WHEN line.invoiced_quantity = 0 THEN 'Not Invoiced'
+        WHEN line.ordered_unit_price IS NULL THEN 'Not on PO'
+        WHEN NOT v_quantity_ok AND NOT v_price_ok THEN 'Quantity and Price Variance'
+        WHEN NOT v_quantity_ok THEN 'Quantity Variance'
+        WHEN NOT v_price_ok THEN 'Price Variance'
+        ELSE 'Matched'
+      END;
+
+      IF v_status NOT IN ('Matched', 'Not Invoiced') THEN
+        v_issues := v_issues || format('%s: %s', line.sku, v_status);
+      END IF;
+
+      v_lines := v_lines || jsonb_build_object(
+        'product_id', line.product_id,
+        'sku', line.sku,
+        'name', line.name,
+        'ordered_quantity', line.ordered_quantity,
+        'ordered_unit_price', line.ordered_unit_price,
+        'received_quantity', line.received_quantity,
+        'previously_invoiced_quantity', line.previously_invoiced_quantity,
+        'invoiceable_quantity', v_invoiceable,
+        'invoiced_quantity', line.invoiced_quantity,
+        'invoiced_unit_price', line.invoiced_unit_price,
+        'status', v_status
+      );
+    END LOOP;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'purchase_order_id', po.id,
+    'purchase_order_number', po.document_number,
+    'price_tolerance_percent', v_price_tolerance,
+    'quantity_tolerance_percent', v_quantity_tolerance,
+    'issues', to_jsonb(v_issues),
+    'lines', v_lines
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION compute_three_way_match(uuid) FROM PUBLIC, authenticated;
+
+-- Purchase Orders that have moved on from Approved still count as ordered
+CREATE OR REPLACE VIEW supplier_deliveries
+WITH (security_invoker = true)
+AS
+WITH receipts AS (
+  SELECT gr.supplier_id, gr.shipment_id, min(m.movement_date) AS received_at
+  FROM documents gr
+  JOIN document_lines l ON l.document_id = gr.id
+  JOIN stock_movements m ON m.document_line_id = l.id AND m.movement_type = 'IN'
+  WHERE gr.document_type = 'Goods Receipt'
+  AND gr.status = 'Approved'
+  AND gr.supplier_id IS NOT NULL
+  AND gr.shipment_id IS NOT NULL
+  GROUP BY gr.supplier_id, gr.shipment_id
+),
+product_quantities AS (
+  SELECT
+    d.supplier_id,
+    d.shipment_id,
+    l.product_id,
+    COALESCE(SUM(l.quantity) FILTER (WHERE d.document_type = 'Purchase Order'), 0) AS ordered,
+    COALESCE(SUM(l.quantity) FILTER (WHERE d.document_type = 'Goods Receipt'), 0) AS received
+  FROM documents d
+  JOIN document_lines l ON l.document_id = d.id
+  WHERE d.document_type IN ('Purchase Order', 'Goods Receipt')
+  AND d.status IN ('Approved', 'Partially Received', 'Closed')
+  AND d.supplier_id IS NOT NULL
+  AND d.shipment_id IS NOT NULL
+  GROUP BY d.supplier_id, d.shipment_id, l.product_id
+)
+SELECT
+  r.supplier_id,
+  r.shipment_id,
+  s.shipment_number,
+  s.eta,
+  r.received_at,
+  CASE WHEN s.eta IS NOT NULL THEN r.received_at::date <= s.eta END AS on_time,
+  COALESCE(SUM(q.ordered), 0) AS ordered_quantity,
+  COALESCE(SUM(q.received), 0) AS received_quantity,
+  COALESCE(SUM(abs(q.received - q.ordered)), 0) AS quantity_variance
+FROM receipts r
+JOIN shipments s ON s.id = r.shipment_id
+LEFT JOIN product_quantities q ON q.supplier_id = r.supplier_id AND q.shipment_id = r.shipment_id
+GROUP BY r.supplier_id, r.shipment_id, s.shipment_number, s.eta, r.received_at;
+
+-- =============================================
+-- 4. OPEN PURCHASE ORDERS
+-- =============================================
+
+CREATE OR REPLACE VIEW open_purchase_order_lines
+WITH (security_invoker = true)
+AS
+SELECT
+  po.supplier_id,
+  s.code AS supplier_code,
+  s.legal_name AS supplier_name,
+  l.product_id,
+  p.sku,
+  p.name AS product_name,
+  l.unit_of_measure,
+  SUM(l.quantity) AS ordered_quantity,
+  SUM(l.received_quantity) AS received_quantity,
+  SUM(l.invoiced_quantity) AS invoiced_quantity,
+  SUM(GREATEST(l.quantity - l.received_quantity, 0)) AS open_to_receive,
+  SUM(GREATEST(l.received_quantity - l.invoiced_quantity, 0)) AS open_to_invoice,
+  COUNT(DISTINCT po.id)::integer AS purchase_order_count,
+  string_agg(DISTINCT po.document_number, ', ') AS purchase_order_numbers,
+  min(po.document_date) AS oldest_order_date
+FROM documents po
+JOIN document_lines l ON l.document_id = po.id
+JOIN products p ON p.id = l.product_id
+LEFT JOIN suppliers s ON s.id = po.supplier_id
+WHERE po.document_type = 'Purchase Order'
+AND po.status IN ('Approved', 'Partially Received')
+AND (l.received_quantity < l.quantity OR l.invoiced_quantity < l.received_quantity)
+GROUP BY po.supplier_id, s.code, s.legal_name, l.product_id, p.sku, p.name, l.unit_of_measure;
+
+-- =============================================
+-- 5. BACKFILL
+-- =============================================
+
+DO $$
+DECLARE
+  po record;
+BEGIN
+  FOR po IN
+    SELECT id FROM documents
+    WHERE document_type = 'Purchase Order'
+    AND status = 'Approved'
+  LOOP
+    PERFORM refresh_purchase_order_fulfilment(po.id, 'Fulfilment recorded from existing Goods Receipts and Invoices');
+  END LOOP;
+END $$;
@@ -0,0 +1,181 @@
+/*
+  # Reports
+
+  ## Overview
+  The Reports page was a placeholder. It now offers built-in reports (document aging,
+  approval cycle time, spend, stock movement summary and stock valuation as of a date),
+  each with its own filters, and users can save a report with its filters under a name
+  of their own. The document reports are built on the client from the documents the user
+  can see; the stock reports aggregate the movement ledger in the database.
+
+  ## 1. New Tables
+
+  ### saved_reports
+  - `id` (uuid, primary key)
+  - `user_id` (uuid) - Owner; saved reports are private to them
+  - `name` (text) - Unique per user
+  - `report_type` (text) - Built-in report the filters apply to
+  - `filters` (jsonb) - Filter values as set on the Reports page
+  - `created_at`, `updated_at` (timestamptz)
+
+  ## 2. Views
+
+  ### document_approval_cycles
+  One row per approval decision on any document, like `supplier_approval_cycles`
+  - `document_id`, `document_number`, `document_type`, `supplier_id`
+  - `decided_by` (uuid) - Approver who made the decision
+  - `submitted_at`, `decided_at` (timestamptz), `outcome` (text), `cycle_hours` (numeric)
+
+  ## 3. Functions
+  - `report_stock_movements(p_from, p_to, p_warehouse_id)` - Quantity and base-currency
+    value moved per product and movement type between two dates, optionally for one
+    warehouse; transfer legs are reported as TRANSFER IN / TRANSFER OUT
+  - `report_stock_valuation(p_as_of)` - Quantity and value per product after the last
+    movement on or before a date
+
+  ## 4. Important Notes
+  - Both functions and the view run with the caller's permissions
+  - Valuation as of a date reads the running balances kept in `stock_movement_costs`, so
+    it reflects any later revaluation (e.g. landed costs allocated afterwards)
+*/
+
+-- =============================================
+-- 1. SAVED REPORTS
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS saved_reports (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id uuid NOT NULL REFERENCES users_profile(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  report_type text NOT NULL
+    CHECK (report_type IN ('document-aging', 'approval-cycle-time', 'spend', 'stock-movements', 'stock-valuation')),
+  filters jsonb NOT NULL DEFAULT '{}',
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (user_id, name)
+);
+
+ALTER TABLE saved_reports ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their saved reports"
+  ON saved_reports FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their saved reports"
+  ON saved_reports FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their saved reports"
+  ON saved_reports FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their saved reports"
+  ON saved_reports FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_saved_reports_user ON saved_reports(user_id);
+
+-- =============================================
+-- 2. APPROVAL CYCLES
+-- =============================================
+
+CREATE OR REPLACE VIEW document_approval_cycles
+WITH (security_invoker = true)
+AS
+SELECT
+  d.id AS document_id,
+  d.document_number,
+  d.document_type,
+  d.supplier_id,
+  decision.performed_by AS decided_by,
+  submitted.created_at AS submitted_at,
+  decision.created_at AS decided_at,
+  decision.action_type AS outcome,
+  round(extract(epoch FROM decision.created_at - submitted.created_at) / 3600, 2) AS cycle_hours
+FROM document_history decision
+JOIN documents d ON d.id = decision.document_id
+JOIN LATERAL (
+  SELECT h.created_at
+  FROM document_history h
+  WHERE h.document_id = decision.document_id
+  AND h.action_type IN ('Submitted', 'Approval Reversed')
+  AND h.created_at <= decision.created_at
+  ORDER BY h.created_at DESC
+  LIMIT 1
+) submitted ON true
+WHERE decision.action_type IN ('Approved', 'Rejected');
+
+-- =============================================
+-- 3. STOCK REPORTS
+-- =============================================
+
+CREATE OR REPLACE FUNCTION report_stock_movements(p_from date, p_to date, p_warehouse_id uuid DEFAULT NULL)
+RETURNS TABLE (
+  product_id uuid,
+  sku text,
+  product_name text,
+  movement_type text,
+  movement_count bigint,
+  quantity numeric,
+  value numeric
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    p.id,
+    p.sku,
+    p.name,
+    CASE WHEN m.transfer_id IS NOT NULL THEN 'TRANSFER ' || m.movement_type ELSE m.movement_type END,
+    COUNT(*),
+    SUM(m.quantity),
+    COALESCE(SUM(c.total_cost), 0)
+  FROM stock_movements m
+  JOIN products p ON p.id = m.product_id
+  LEFT JOIN stock_movement_costs c ON c.movement_id = m.id
+  WHERE m.movement_date >= p_from
+  AND m.movement_date < p_to + 1
+  AND (p_warehouse_id IS NULL OR m.warehouse_id = p_warehouse_id)
+  GROUP BY p.id, p.sku, p.name, 4
+  ORDER BY p.sku, 4;
+$$;
+
+GRANT EXECUTE ON FUNCTION report_stock_movements(date, date, uuid) TO authenticated;
+
+CREATE OR REPLACE FUNCTION report_stock_valuation(p_as_of date)
+RETURNS TABLE (
+  product_id uuid,
+  sku text,
+  product_name text,
+  category_name text,
+  valuation_method text,
+  quantity numeric,
+  stock_value numeric
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT p.id, p.sku, p.name, pc.name, last_cost.valuation_method, last_cost.balance_quantity, last_cost.balance_value
+  FROM products p
+  LEFT JOIN product_categories pc ON pc.id = p.category_id
+  JOIN LATERAL (
+    SELECT c.valuation_method, c.balance_quantity, c.balance_value
+    FROM stock_movement_costs c
+    JOIN stock_movements m ON m.id = c.movement_id
+    WHERE c.product_id = p.id
+    AND m.movement_date < p_as_of + 1
+    ORDER BY c.sequence DESC
+    LIMIT 1
+  ) last_cost ON true
+  WHERE last_cost.balance_quantity <> 0 OR last_cost.balance_value <> 0
+  ORDER BY p.sku;
+$$;
+
+GRANT EXECUTE ON FUNCTION report_stock_valuation(date) TO authenticated;
@@ -0,0 +1,198 @@
+/*
+  # Approval KPIs and SLAs
+
+  ## Overview
+  The dashboard showed a fixed average approval time and a made-up trend. Approval
+  performance is now measured from the document history: cycle times from submission to
+  decision, breaches of an approval SLA set per priority, and each approver's queue and
+  turnaround on their own steps.
+
+  ## 1. Modified Tables
+
+  ### system_settings
+  - `approval_sla_hours` (jsonb) - Hours allowed from submission to decision per
+    priority, default Urgent 24, High 48, Medium 72, Low 120
+
+  ## 2. Views
+  - `document_approval_cycles` - Gains `priority`
+  - `approval_step_turnaround` - One row per decided approval step: who decided it, when
+    it became theirs (`started_at`), when they decided and the hours in between
+  - `pending_document_ages` - Pending documents with their priority, when they were last
+    submitted and the hours they have waited since
+  - `my_approval_queue` - Pending documents whose current step the caller can decide
+
+  ## 3. Functions
+  - `set_approval_sla_hours(p_hours)` - Admin only
+  - `approval_step_started_at(p_step_id)` - When a step became the current one: the
+    later of the last submission and the last decision on an earlier step
+
+  ## 4. Important Notes
+  - Views run with the caller's permissions, so requesters measure their own documents
+  - A step's turnaround starts when the step was reached, not when the document was
+    submitted, so later steps in a chain are not charged for earlier ones
+*/
+
+-- =============================================
+-- 1. SLA SETTINGS
+-- =============================================
+
+ALTER TABLE system_settings
+  ADD COLUMN IF NOT EXISTS approval_sla_hours jsonb NOT NULL
+    DEFAULT '{"Urgent": 24, "High": 48, "Medium": 72, "Low": 120}';
+
+CREATE OR REPLACE FUNCTION set_approval_sla_hours(p_hours jsonb)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_priority text;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM users_profile
+    WHERE users_profile.id = auth.uid()
+    AND users_profile.role = 'Admin'
+  ) THEN
+    RAISE EXCEPTION 'Only Admin users can change approval SLAs';
+  END IF;
+
+  FOREACH v_priority IN ARRAY ARRAY['Urgent', 'High', 'Medium', 'Low'] LOOP
+    IF jsonb_typeof(p_hours -> v_priority) IS DISTINCT FROM 'number' OR (p_hours ->> v_priority)::numeric <= 0 THEN
+      RAISE EXCEPTION 'The % SLA must be a positive number of hours', v_priority;
+    END IF;
+  END LOOP;
+
+  UPDATE system_settings
+  SET approval_sla_hours = jsonb_build_object(
+        'Urgent', (p_hours ->> 'Urgent')::numeric,
+        'High', (p_hours ->> 'High')::numeric,
+        'Medium', (p_hours ->> 'Medium')::numeric,
+        'Low', (p_hours ->> 'Low')::numeric
+      ),
+      updated_by = auth.uid(),
+      updated_at = now()
+  WHERE id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION set_approval_sla_hours(jsonb) TO authenticated;
+
+-- =============================================
+-- 2. CYCLE TIMES
+-- =============================================
+
+CREATE OR REPLACE VIEW document_approval_cycles
+WITH (security_invoker = true)
+AS
+SELECT
+  d.id AS document_id,
+  d.document_number,
+  d.document_type,
+  d.supplier_id,
+  decision.performed_by AS decided_by,
+  submitted.created_at AS submitted_at,
+  decision.created_at AS decided_at,
+  decision.action_type AS outcome,
+  round(extract(epoch FROM decision.created_at - submitted.created_at) / 3600, 2) AS cycle_hours,
+  d.priority
+FROM document_history decision
+JOIN documents d ON d.id = decision.document_id
+JOIN LATERAL (
+  SELECT h.created_at
+  FROM document_history h
+  WHERE h.document_id = decision.document_id
+  AND h.action_type IN ('Submitted', 'Approval Reversed')
+  AND h.created_at <= decision.created_at
+  ORDER BY h.created_at DESC
+  LIMIT 1
+) submitted ON true
+WHERE decision.action_type IN ('Approved', 'Rejected');
+
+CREATE OR REPLACE VIEW pending_document_ages
+WITH (security_invoker = true)
+AS
+SELECT
+  d.id AS document_id,
+  d.priority,
+  submitted.created_at AS submitted_at,
+  round(extract(epoch FROM now() - submitted.created_at) / 3600, 2) AS hours_waiting
+FROM documents d
+JOIN LATERAL (
+  SELECT max(h.created_at) AS created_at
+  FROM document_history h
+  WHERE h.document_id = d.id
+  AND h.action_type IN ('Submitted', 'Approval Reversed')
+) submitted ON submitted.created_at IS NOT NULL
+WHERE d.status = 'Pending';
+
+-- =============================================
+-- 3. APPROVER TURNAROUND & QUEUE
+-- =============================================
+
+CREATE OR REPLACE FUNCTION approval_step_started_at(p_step_id uuid)
+RETURNS timestamptz
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT GREATEST(
+    (
+      SELECT max(h.created_at)
+      FROM document_history h
+      WHERE h.document_id = s.document_id
+      AND h.action_type IN ('Submitted', 'Approval Reversed')
+      AND h.created_at <= COALESCE(s.decided_at, now())
+    ),
+    (
+      SELECT max(prev.decided_at)
+      FROM document_approval_steps prev
+      WHERE prev.document_id = s.document_id
+      AND prev.superseded_at IS NOT DISTINCT FROM s.superseded_at
+      AND prev.step_order < s.step_order
+      AND prev.decided_at <= COALESCE(s.decided_at, now())
+    )
+  )
+  FROM document_approval_steps s
+  WHERE s.id = p_step_id;
+$$;
+
+CREATE OR REPLACE VIEW approval_step_turnaround
+WITH (security_invoker = true)
+AS
+SELECT
+  s.id AS step_id,
+  s.document_id,
+  s.decided_by,
+  s.status AS outcome,
+  started.started_at,
+  s.decided_at,
+  round(extract(epoch FROM s.decided_at - started.started_at) / 3600, 2) AS hours
+FROM document_approval_steps s
+CROSS JOIN LATERAL (SELECT approval_step_started_at(s.id) AS started_at) started
+WHERE s.status IN ('Approved', 'Rejected')
+AND s.decided_at IS NOT NULL
+AND started.started_at IS NOT NULL;
+
+CREATE OR REPLACE VIEW my_approval_queue
+WITH (security_invoker = true)
+AS
+SELECT
+  d.id AS document_id,
+  d.document_number,
+  d.document_type,
+  d.supplier_name,
+  d.priority,
+  d.document_value,
+  d.currency,
+  s.name AS step_name,
+  approval_step_started_at(s.id) AS waiting_since
+FROM document_approval_steps s
+JOIN documents d ON d.id = s.document_id
+WHERE s.superseded_at IS NULL
+AND s.status = 'Pending'
+AND d.status = 'Pending'
+AND s.step_order = d.current_step_order
+AND is_step_approver(s.approver_role, s.approver_department, s.approver_id);
+
+CREATE INDEX IF NOT EXISTS idx_document_approval_steps_decided_by ON document_approval_steps(decided_by, decided_at);
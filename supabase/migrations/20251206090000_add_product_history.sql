@@ -0,0 +1,125 @@
+/*
+  # Product Maintenance and History
+
+  ## Overview
+  Products are now created, edited and deactivated from the Product Catalog. Deactivating
+  is a soft delete: the product disappears from the product pickers but stays on existing
+  documents, movements and reports. Changes to the cost price, reorder point and active
+  flag are recorded with who made them and when, whether they come from the form or an
+  import.
+
+  ## 1. New Tables
+
+  ### product_history
+  - `id` (uuid, primary key)
+  - `product_id` (uuid)
+  - `action_type` (text) - Created, Updated, Deactivated, Reactivated
+  - `changes` (jsonb, optional) - Array of `{ field, label, before, after }` objects, in
+    the same shape as `document_history.changes`
+  - `performed_by` (uuid), `created_at`
+
+  ## 2. Triggers
+  - `trg_products_history` - Records the creation of a product and any change to
+    `cost_price`, `reorder_point` or `is_active`; other edits are not logged
+
+  ## 3. Security
+  - Everyone can view product history; rows are only written by the trigger
+*/
+
+-- =============================================
+-- 1. PRODUCT HISTORY
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS product_history (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  product_id uuid NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  action_type text NOT NULL,
+  changes jsonb,
+  performed_by uuid REFERENCES users_profile(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE product_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view product history"
+  ON product_history FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE INDEX IF NOT EXISTS idx_product_history_product ON product_history(product_id, created_at);
+
+-- =============================================
+-- 2. RECORDING CHANGES
+-- =============================================
+
+CREATE OR REPLACE FUNCTION record_product_history()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_changes jsonb := '[]'::jsonb;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO product_history (product_id, action_type, changes, performed_by)
+    VALUES (
+      NEW.id,
+      'Created',
+      jsonb_build_array(
+        jsonb_build_object('field', 'cost_price', 'label', 'Cost Price', 'before', NULL, 'after', NEW.cost_price::text),
+        jsonb_build_object('field', 'reorder_point', 'label', 'Reorder Point', 'before', NULL, 'after', NEW.reorder_point::text)
+      ),
+      auth.uid()
+    );
+    RETURN NEW;
+  END IF;
+
+  IF NEW.cost_price IS DISTINCT FROM OLD.cost_price THEN
+    v_changes := v_changes || jsonb_build_object(
+      'field', 'cost_price', 'label', 'Cost Price', 'before', OLD.cost_price::text, 'after', NEW.cost_price::text
+    );
+  END IF;
+
+  IF NEW.reorder_point IS DISTINCT FROM OLD.reorder_point THEN
+    v_changes := v_changes || jsonb_build_object(
+      'field', 'reorder_point', 'label', 'Reorder Point', 'before', OLD.reorder_point::text, 'after', NEW.reorder_point::text
+    );
+  END IF;
+
+  IF NEW.is_active IS DISTINCT FROM OLD.is_active THEN
+    INSERT INTO product_history (product_id, action_type, changes, performed_by)
+    VALUES (
+      NEW.id,
+      CASE WHEN NEW.is_active THEN 'Reactivated' ELSE 'Deactivated' END,
+      NULLIF(v_changes, '[]'::jsonb),
+      auth.uid()
+    );
+  ELSIF jsonb_array_length(v_changes) > 0 THEN
+    INSERT INTO product_history (product_id, action_type, changes, performed_by)
+    VALUES (NEW.id, 'Updated', v_changes, auth.uid());
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_products_history ON products;
+CREATE TRIGGER trg_products_history
+  AFTER INSERT OR UPDATE ON products
+  FOR EACH ROW
+  EXECUTE FUNCTION record_product_history();
+
+-- Existing products start their history from the values they have today
+INSERT INTO product_history (product_id, action_type, changes, performed_by, created_at)
+SELECT
+  p.id,
+  'Created',
+  jsonb_build_array(
+    jsonb_build_object('field', 'cost_price', 'label', 'Cost Price', 'before', NULL, 'after', p.cost_price::text),
+    jsonb_build_object('field', 'reorder_point', 'label', 'Reorder Point', 'before', NULL, 'after', p.reorder_point::text)
+  ),
+  NULL,
+  p.created_at
+FROM products p
+WHERE NOT EXISTS (SELECT 1 FROM product_history h WHERE h.product_id = p.id);
@@ -0,0 +1,956 @@
+/*
+  # Units of Measure and Conversions
+
+  ## Overview
+  `products.unit_of_measure` was free text and every quantity was assumed to be in it.
+  Suppliers ship in cartons or pallets while stock is kept in pieces, so units now come
+  from a master list and each product can define how many of its base unit another unit
+  holds (1 BOX = 24 PCS). Document lines and stock movements can be entered in any unit
+  the product allows; stock is always held in the base unit, and the entered quantity and
+  unit are kept alongside for traceability.
+
+  ## 1. New Tables
+
+  ### units_of_measure
+  - `code` (text, primary key) - e.g. PCS, BOX, PLT
+  - `name` (text) - e.g. Pieces, Box, Pallet
+  - `is_active` (boolean) - Inactive units stay on the products and lines that use them
+    but cannot be picked for new ones
+  - `created_at` (timestamptz)
+
+  ### product_unit_conversions
+  - `id` (uuid, primary key)
+  - `product_id` (uuid)
+  - `unit_of_measure` (text) - Alternative unit, never the product's base unit
+  - `factor` (numeric) - Base units in one of this unit, e.g. 24 for 1 BOX = 24 PCS
+  - `created_at`, `updated_at` (timestamptz)
+
+  ## 2. Modified Tables
+
+  ### products, document_lines
+  - `unit_of_measure` now references `units_of_measure`; codes already in use are added
+    to the list
+
+  ### document_lines
+  - `conversion_factor` (numeric) - Base units per line unit, captured when the line is
+    saved so later changes to the conversion do not alter it
+  - `base_quantity` (numeric, computed) - quantity * conversion_factor
+
+  ### stock_movements
+  - `quantity` stays in the product's base unit
+  - `entered_quantity` (numeric), `entered_unit` (text) - Quantity and unit as entered;
+    backfilled from `quantity` and the base unit for existing movements
+
+  ### stock_transfers
+  - `entered_quantity` (numeric), `entered_unit` (text) - As on stock movements
+
+  ## 3. Functions & Triggers
+  - `product_unit_factor(p_product_id, p_unit)` - Base units in one `p_unit` of the
+    product, 1 for the base unit and NULL for a unit the product does not allow
+  - `set_document_line_conversion()` - BEFORE INSERT/UPDATE trigger on `document_lines`;
+    captures the conversion factor and rejects units the product does not allow
+  - `set_stock_movement_base_quantity()` - BEFORE INSERT trigger on `stock_movements`;
+    a movement inserted with `entered_quantity` and `entered_unit` but no `quantity` is
+    converted to the base unit, one inserted with only `quantity` is recorded as entered
+    in the base unit
+  - `check_product_unit_conversion()`, `check_product_base_unit()` - Keep the base unit
+    out of the conversions, and stop the base unit changing once stock has moved
+  - `create_stock_transfer` - Takes an optional `p_unit_of_measure`
+  - `post_document_stock_movements`, `allocate_landed_costs`,
+    `refresh_purchase_order_fulfilment`, `compute_three_way_match` and the
+    `supplier_deliveries` view work in base quantities. PO line `received_quantity` and
+    `invoiced_quantity` stay in the PO line's own unit
+
+  ## 4. Security
+  - Everyone can view units and conversions; Finance and Admins manage them, as for
+    products
+
+  ## 5. Important Notes
+  - Unit costs on stock movements and transfers are per base unit; posted document lines
+    divide their unit price by the conversion factor
+  - Three-way match compares quantities and unit prices per base unit, so a PO in BOX
+    can be invoiced in PCS
+*/
+
+-- =============================================
+-- 1. UNITS OF MEASURE
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS units_of_measure (
+  code text PRIMARY KEY,
+  name text NOT NULL,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE units_of_measure ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view units of measure"
+  ON units_of_measure FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Authorized users can manage units of measure"
+  ON units_of_measure FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users_profile
+      WHERE users_profile.id = auth.uid()
+      AND users_profile.role IN ('Admin', 'Finance')
+    )
+  );
+
+INSERT INTO units_of_measure (code, name) VALUES
+  ('PCS', 'Pieces'),
+  ('BOX', 'Box'),
+  ('CTN', 'Carton'),
+  ('PLT', 'Pallet'),
+  ('SET', 'Set'),
+  ('PACK', 'Pack'),
+  ('PAIR', 'Pair'),
+  ('ROLL', 'Roll'),
+  ('KG', 'Kilogram'),
+  ('G', 'Gram'),
+  ('TON', 'Tonne'),
+  ('L', 'Litre'),
+  ('ML', 'Millilitre'),
+  ('M', 'Metre'),
+  ('CM', 'Centimetre'),
+  ('M2', 'Square Metre'),
+  ('M3', 'Cubic Metre')
+ON CONFLICT (code) DO NOTHING;
+
+-- Units typed in before the master list existed are kept under their own code
+INSERT INTO units_of_measure (code, name)
+SELECT DISTINCT used.code, used.code
+FROM (
+  SELECT unit_of_measure AS code FROM products
+  UNION
+  SELECT unit_of_measure FROM document_lines
+) used
+ON CONFLICT (code) DO NOTHING;
+
+ALTER TABLE products
+  ADD CONSTRAINT products_unit_of_measure_fkey
+  FOREIGN KEY (unit_of_measure) REFERENCES units_of_measure(code) ON UPDATE CASCADE;
+
+ALTER TABLE document_lines
+  ADD CONSTRAINT document_lines_unit_of_measure_fkey
+  FOREIGN KEY (unit_of_measure) REFERENCES units_of_measure(code) ON UPDATE CASCADE;
+
+-- =============================================
+-- 2. PRODUCT CONVERSIONS
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS product_unit_conversions (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  product_id uuid NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  unit_of_measure text NOT NULL REFERENCES units_of_measure(code) ON UPDATE CASCADE,
+  factor numeric(15,6) NOT NULL CHECK (factor > 0),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE(product_id, unit_of_measure)
+);
+
+ALTER TABLE product_unit_conversions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view unit conversions"
+  ON product_unit_conversions FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Authorized users can manage unit conversions"
+  ON product_unit_conversions FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users_profile
+      WHERE users_profile.id = auth.uid()
+      AND users_profile.role IN ('Admin', 'Finance')
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_product_unit_conversions_product ON product_unit_conversions(product_id);
+
+CREATE OR REPLACE FUNCTION product_unit_factor(p_product_id uuid, p_unit text)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT CASE WHEN p.unit_of_measure = p_unit THEN 1 ELSE c.factor END
+  FROM products p
+  LEFT JOIN product_unit_conversions c ON c.product_id = p.id AND c.unit_of_measure = p_unit
+  WHERE p.id = p_product_id;
+$$;
+
+GRANT EXECUTE ON FUNCTION product_unit_factor(uuid, text) TO authenticated;
+
+CREATE OR REPLACE FUNCTION check_product_unit_conversion()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM products
+    WHERE id = NEW.product_id
+    AND unit_of_measure = NEW.unit_of_measure
+  ) THEN
+    RAISE EXCEPTION '% is already the base unit of this product', NEW.unit_of_measure;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_product_unit_conversions_check ON product_unit_conversions;
+CREATE TRIGGER trg_product_unit_conversions_check
+  BEFORE INSERT OR UPDATE OF product_id, unit_of_measure ON product_unit_conversions
+  FOR EACH ROW
+  EXECUTE FUNCTION check_product_unit_conversion();
+
+-- Stock is held in the base unit, so it is fixed once the product has moved
+CREATE OR REPLACE FUNCTION check_product_base_unit()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.unit_of_measure IS DISTINCT FROM OLD.unit_of_measure THEN
+    IF EXISTS (SELECT 1 FROM stock_movements WHERE product_id = NEW.id) THEN
+      RAISE EXCEPTION 'The base unit of % cannot change once stock has moved', NEW.sku;
+    END IF;
+
+    -- The new base unit cannot also be one of its conversions
+    DELETE FROM product_unit_conversions
+    WHERE product_id = NEW.id
+    AND unit_of_measure = NEW.unit_of_measure;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_products_check_base_unit ON products;
+CREATE TRIGGER trg_products_check_base_unit
+  BEFORE UPDATE OF unit_of_measure ON products
+  FOR EACH ROW
+  EXECUTE FUNCTION check_product_base_unit();
+
+-- =============================================
+-- 3. DOCUMENT LINES
+-- =============================================
+
+ALTER TABLE document_lines
+  ADD COLUMN IF NOT EXISTS conversion_factor numeric(15,6) NOT NULL DEFAULT 1 CHECK (conversion_factor > 0),
+  ADD COLUMN IF NOT EXISTS base_quantity numeric(15,3)
+    GENERATED ALWAYS AS (round(quantity * conversion_factor, 3)) STORED;
+
+CREATE OR REPLACE FUNCTION set_document_line_conversion()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_factor numeric;
+BEGIN
+  v_factor := product_unit_factor(NEW.product_id, NEW.unit_of_measure);
+
+  IF v_factor IS NULL THEN
+    RAISE EXCEPTION 'Line %: % is not a unit of measure for %',
+      NEW.line_number, NEW.unit_of_measure, (SELECT sku FROM products WHERE id = NEW.product_id);
+  END IF;
+
+  NEW.conversion_factor := v_factor;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_document_lines_conversion ON document_lines;
+CREATE TRIGGER trg_document_lines_conversion
+  BEFORE INSERT OR UPDATE OF product_id, unit_of_measure ON document_lines
+  FOR EACH ROW
+  EXECUTE FUNCTION set_document_line_conversion();
+
+-- =============================================
+-- 4. STOCK MOVEMENTS
+-- =============================================
+
+ALTER TABLE stock_movements
+  ADD COLUMN IF NOT EXISTS entered_quantity numeric(15,3),
+  ADD COLUMN IF NOT EXISTS entered_unit text REFERENCES units_of_measure(code) ON UPDATE CASCADE;
+
+-- Every movement so far was entered in the base unit
+UPDATE stock_movements m
+SET entered_quantity = m.quantity,
+    entered_unit = p.unit_of_measure
+FROM products p
+WHERE p.id = m.product_id
+AND m.entered_unit IS NULL;
+
+CREATE OR REPLACE FUNCTION set_stock_movement_base_quantity()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_factor numeric;
+BEGIN
+  IF NEW.entered_unit IS NULL THEN
+    NEW.entered_unit := (SELECT unit_of_measure FROM products WHERE id = NEW.product_id);
+    NEW.entered_quantity := NEW.quantity;
+  ELSIF NEW.quantity IS NULL THEN
+    v_factor := product_unit_factor(NEW.product_id, NEW.entered_unit);
+
+    IF v_factor IS NULL THEN
+      RAISE EXCEPTION '% is not a unit of measure for %',
+        NEW.entered_unit, (SELECT sku FROM products WHERE id = NEW.product_id);
+    END IF;
+
+    NEW.quantity := round(NEW.entered_quantity * v_factor, 3);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_stock_movements_base_quantity ON stock_movements;
+CREATE TRIGGER trg_stock_movements_base_quantity
+  BEFORE INSERT ON stock_movements
+  FOR EACH ROW
+  EXECUTE FUNCTION set_stock_movement_base_quantity();
+
+-- =============================================
+-- 5. STOCK TRANSFERS
+-- =============================================
+
+ALTER TABLE stock_transfers
+  ADD COLUMN IF NOT EXISTS entered_quantity numeric(15,3),
+  ADD COLUMN IF NOT EXISTS entered_unit text REFERENCES units_of_measure(code) ON UPDATE CASCADE;
+
+UPDATE stock_transfers t
+SET entered_quantity = t.quantity,
+    entered_unit = p.unit_of_measure
+FROM products p
+WHERE p.id = t.product_id
+AND t.entered_unit IS NULL;
+
+DROP FUNCTION IF EXISTS create_stock_transfer(uuid, uuid, uuid, numeric, numeric, text, text, boolean);
+
+CREATE OR REPLACE FUNCTION create_stock_transfer(
+  p_product_id uuid,
+  p_from_warehouse_id uuid,
+  p_to_warehouse_id uuid,
+  p_quantity numeric,
+  p_unit_cost numeric DEFAULT NULL,
+  p_reference_number text DEFAULT NULL,
+  p_remarks text DEFAULT NULL,
+  p_in_transit boolean DEFAULT false,
+  p_unit_of_measure text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  transfer stock_transfers%ROWTYPE;
+  v_unit text;
+  v_factor numeric;
+  v_now timestamptz := now();
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM users_profile
+    WHERE users_profile.id = auth.uid()
+    AND users_profile.role IN ('Admin', 'Finance', 'Approver')
+  ) THEN
+    RAISE EXCEPTION 'Only Admin, Finance and Approver users can transfer stock';
+  END IF;
+
+  v_unit := COALESCE(p_unit_of_measure, (SELECT unit_of_measure FROM products WHERE id = p_product_id));
+  v_factor := product_unit_factor(p_product_id, v_unit);
+
+  IF v_factor IS NULL THEN
+    RAISE EXCEPTION '% is not a unit of measure for %', v_unit, (SELECT sku FROM products WHERE id = p_product_id);
+  END IF;
+
+  INSERT INTO stock_transfers (
+    product_id, from_warehouse_id, to_warehouse_id, quantity, entered_quantity, entered_unit, unit_cost,
+    status, reference_number, remarks, dispatched_by, dispatched_at,
+    received_by, received_at
+  ) VALUES (
+    p_product_id, p_from_warehouse_id, p_to_warehouse_id, round(p_quantity * v_factor, 3), p_quantity, v_unit, p_unit_cost,
+    CASE WHEN p_in_transit THEN 'In Transit' ELSE 'Received' END,
+    p_reference_number, p_remarks, auth.uid(), v_now,
+    CASE WHEN p_in_transit THEN NULL ELSE auth.uid() END,
+    CASE WHEN p_in_transit THEN NULL ELSE v_now END
+  )
+  RETURNING * INTO transfer;
+
+  INSERT INTO stock_movements (
+    product_id, warehouse_id, movement_type, quantity, entered_quantity, entered_unit, unit_cost,
+    transfer_id, reference_number, remarks, performed_by, movement_date
+  ) VALUES (
+    transfer.product_id, transfer.from_warehouse_id, 'OUT', transfer.quantity,
+    transfer.entered_quantity, transfer.entered_unit, transfer.unit_cost,
+    transfer.id, transfer.transfer_number, COALESCE(p_remarks, 'Transfer dispatched'),
+    auth.uid(), v_now
+  );
+
+  IF NOT p_in_transit THEN
+    INSERT INTO stock_movements (
+      product_id, warehouse_id, movement_type, quantity, entered_quantity, entered_unit, unit_cost,
+      transfer_id, reference_number, remarks, performed_by, movement_date
+    ) VALUES (
+      transfer.product_id, transfer.to_warehouse_id, 'IN', transfer.quantity,
+      transfer.entered_quantity, transfer.entered_unit, transfer.unit_cost,
+      transfer.id, transfer.transfer_number, COALESCE(p_remarks, 'Transfer received'),
+      auth.uid(), v_now
+    );
+  END IF;
+
+  RETURN transfer.id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION create_stock_transfer(uuid, uuid, uuid, numeric, numeric, text, text, boolean, text) TO authenticated;
+
+CREATE OR REPLACE FUNCTION receive_stock_transfer(p_transfer_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  transfer stock_transfers%ROWTYPE;
+  v_now timestamptz := now();
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM users_profile
+    WHERE users_profile.id = auth.uid()
+    AND users_profile.role IN ('Admin', 'Finance', 'Approver')
+  ) THEN
+    RAISE EXCEPTION 'Only Admin, Finance and Approver users can receive transfers';
+  END IF;
+
+  SELECT * INTO transfer FROM stock_transfers WHERE id = p_transfer_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transfer % not found', p_transfer_id;
+  END IF;
+
+  IF transfer.status <> 'In Transit' THEN
+    RAISE EXCEPTION 'Transfer % has already been received', transfer.transfer_number;
+  END IF;
+
+  INSERT INTO stock_movements (
+    product_id, warehouse_id, movement_type, quantity, entered_quantity, entered_unit, unit_cost,
+    transfer_id, reference_number, remarks, performed_by, movement_date
+  ) VALUES (
+    transfer.product_id, transfer.to_warehouse_id, 'IN', transfer.quantity,
+    transfer.entered_quantity, transfer.entered_unit, transfer.unit_cost,
+    transfer.id, transfer.transfer_number, 'Transfer received', auth.uid(), v_now
+  );
+
+  UPDATE stock_transfers
+  SET status = 'Received', received_by = auth.uid(), received_at = v_now
+  WHERE id = transfer.id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION receive_stock_transfer(uuid) TO authenticated;
+
+-- =============================================
+-- 6. POSTING AND LANDED COSTS
+-- =============================================
+
+-- Lines post their base quantity at the unit price per base unit
+CREATE OR REPLACE FUNCTION post_document_stock_movements(p_document_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  doc documents%ROWTYPE;
+  line record;
+  v_movement_type text;
+  v_now timestamptz := now();
+BEGIN
+  SELECT * INTO doc FROM documents WHERE id = p_document_id;
+
+  v_movement_type := CASE doc.document_type
+    WHEN 'Goods Receipt' THEN 'IN'
+    WHEN 'Delivery Note' THEN 'OUT'
+    ELSE NULL
+  END;
+
+  IF v_movement_type IS NULL THEN
+    RETURN;
+  END IF;
+
+  IF doc.warehouse_id IS NULL THEN
+    RAISE EXCEPTION '% % has no warehouse assigned', doc.document_type, doc.document_number;
+  END IF;
+
+  FOR line IN
+    SELECT * FROM document_lines
+    WHERE document_id = doc.id
+    ORDER BY line_number
+  LOOP
+    INSERT INTO stock_movements (
+      product_id, warehouse_id, movement_type, quantity, entered_quantity, entered_unit, unit_cost,
+      source_document_id, document_line_id, reference_number, remarks, performed_by, movement_date
+    ) VALUES (
+      line.product_id, doc.warehouse_id, v_movement_type, line.base_quantity, line.quantity, line.unit_of_measure,
+      round(line.unit_price / line.conversion_factor, 4),
+      doc.id, line.id, doc.document_number, 'Posted from ' || doc.document_type || ' line ' || line.line_number,
+      auth.uid(), v_now
+    );
+  END LOOP;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION post_document_stock_movements(uuid) FROM PUBLIC, authenticated;
+
+CREATE OR REPLACE FUNCTION allocate_landed_costs(
+  p_shipment_id uuid,
+  p_method text,
+  p_basis jsonb DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  s shipments%ROWTYPE;
+  v_currency text;
+  v_mismatch text;
+  v_total_basis numeric;
+  v_total_cost numeric;
+  v_allocation_id uuid;
+  v_now timestamptz := now();
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM users_profile
+    WHERE users_profile.id = auth.uid()
+    AND users_profile.role IN ('Finance', 'Admin')
+  ) THEN
+    RAISE EXCEPTION 'Only Finance and Admins can allocate landed costs';
+  END IF;
+
+  IF p_method NOT IN ('Value', 'Weight', 'Volume', 'Quantity') THEN
+    RAISE EXCEPTION 'Unknown allocation method %', p_method;
+  END IF;
+
+  SELECT * INTO s FROM shipments WHERE id = p_shipment_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Shipment % not found', p_shipment_id;
+  END IF;
+
+  IF s.status = 'Closed' THEN
+    RAISE EXCEPTION 'Shipment % is closed', s.shipment_number;
+  END IF;
+
+  CREATE TEMP TABLE tmp_receipt_lines ON COMMIT DROP AS
+  SELECT
+    l.id AS document_line_id,
+    d.id AS receipt_document_id,
+    d.currency,
+    l.product_id,
+    -- Per base unit, like the movement the line posted
+    l.base_quantity AS quantity,
+    l.unit_price / l.conversion_factor AS unit_price,
+    CASE p_method
+      WHEN 'Value' THEN l.line_total
+      WHEN 'Quantity' THEN l.base_quantity
+      WHEN 'Weight' THEN COALESCE((p_basis ->> l.id::text)::numeric, l.base_quantity * p.unit_weight)
+      WHEN 'Volume' THEN COALESCE((p_basis ->> l.id::text)::numeric, l.base_quantity * p.unit_volume)
+    END AS basis_value
+  FROM document_lines l
+  JOIN documents d ON d.id = l.document_id
+  JOIN products p ON p.id = l.product_id
+  WHERE d.shipment_id = s.id
+  AND d.document_type = 'Goods Receipt'
+  AND d.status = 'Approved';
+
+  CREATE TEMP TABLE tmp_cost_documents ON COMMIT DROP AS
+  SELECT id, document_number, currency, document_value
+  FROM documents
+  WHERE shipment_id = s.id
+  AND document_type IN ('Freight Invoice', 'Insurance Invoice', 'Customs Duty', 'Brokerage Invoice')
+  AND status = 'Approved'
+  AND document_value <> 0;
+
+  IF NOT EXISTS (SELECT 1 FROM tmp_receipt_lines) THEN
+    RAISE EXCEPTION 'Shipment % has no approved Goods Receipt lines', s.shipment_number;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM tmp_cost_documents) THEN
+    RAISE EXCEPTION 'Shipment % has no approved landed cost documents', s.shipment_number;
+  END IF;
+
+  SELECT MIN(currency) INTO v_currency FROM tmp_receipt_lines;
+
+  SELECT string_agg(label, ', ') INTO v_mismatch
+  FROM (
+    SELECT DISTINCT 'Goods Receipt in ' || currency AS label FROM tmp_receipt_lines WHERE currency <> v_currency
+    UNION ALL
+    SELECT document_number || ' in ' || currency FROM tmp_cost_documents WHERE currency <> v_currency
+  ) mismatched;
+
+  IF v_mismatch IS NOT NULL THEN
+    RAISE EXCEPTION 'All documents must be in %: %', v_currency, v_mismatch;
+  END IF;
+
+  SELECT SUM(basis_value) INTO v_total_basis FROM tmp_receipt_lines;
+  SELECT SUM(document_value) INTO v_total_cost FROM tmp_cost_documents;
+
+  IF COALESCE(v_total_basis, 0) <= 0 THEN
+    RAISE EXCEPTION 'No % recorded for the received lines', lower(p_method);
+  END IF;
+
+  UPDATE landed_cost_allocations
+  SET superseded_at = v_now
+  WHERE shipment_id = s.id
+  AND superseded_at IS NULL;
+
+  INSERT INTO landed_cost_allocations (shipment_id, method, currency, total_cost, allocated_by, allocated_at)
+  VALUES (s.id, p_method, v_currency, v_total_cost, auth.uid(), v_now)
+  RETURNING id INTO v_allocation_id;
+
+  INSERT INTO landed_cost_allocation_lines (
+    allocation_id, cost_document_id, receipt_document_id, document_line_id,
+    product_id, quantity, basis_value, amount
+  )
+  SELECT
+    v_allocation_id, c.id, r.receipt_document_id, r.document_line_id,
+    r.product_id, r.quantity, r.basis_value,
+    round(c.document_value * r.basis_value / v_total_basis, 4)
+  FROM tmp_cost_documents c
+  CROSS JOIN tmp_receipt_lines r;
+
+  -- Put each cost document's rounding difference on its largest line
+  UPDATE landed_cost_allocation_lines target
+  SET amount = target.amount + diff.remainder
+  FROM (
+    SELECT DISTINCT ON (a.cost_document_id)
+      a.id,
+      c.document_value - SUM(a.amount) OVER (PARTITION BY a.cost_document_id) AS remainder
+    FROM landed_cost_allocation_lines a
+    JOIN tmp_cost_documents c ON c.id = a.cost_document_id
+    WHERE a.allocation_id = v_allocation_id
+    ORDER BY a.cost_document_id, a.basis_value DESC, a.id
+  ) diff
+  WHERE target.id = diff.id
+  AND diff.remainder <> 0;
+
+  -- Recompute from the line price so a new allocation replaces the previous one
+  UPDATE stock_movements
+  SET unit_cost = r.unit_price + COALESCE(allocated.amount, 0) / r.quantity
+  FROM tmp_receipt_lines r
+  LEFT JOIN (
+    SELECT document_line_id, SUM(amount) AS amount
+    FROM landed_cost_allocation_lines
+    WHERE allocation_id = v_allocation_id
+    GROUP BY document_line_id
+  ) allocated ON allocated.document_line_id = r.document_line_id
+  WHERE stock_movements.document_line_id = r.document_line_id
+  AND stock_movements.source_document_id = r.receipt_document_id
+  AND stock_movements.movement_type = 'IN';
+
+  INSERT INTO shipment_history (shipment_id, action_type, performed_by, remarks)
+  VALUES (
+    s.id,
+    'Landed Costs Allocated',
+    auth.uid(),
+    v_currency || ' ' || to_char(v_total_cost, 'FM999,999,999,990.00') || ' by ' || lower(p_method)
+  );
+
+  DROP TABLE tmp_receipt_lines, tmp_cost_documents;
+
+  RETURN v_allocation_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION allocate_landed_costs(uuid, text, jsonb) TO authenticated;
+
+-- =============================================
+-- 7. FULFILMENT, MATCHING AND SCORECARD
+-- =============================================
+
+CREATE OR REPLACE FUNCTION refresh_purchase_order_fulfilment(p_purchase_order_id uuid, p_remarks text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  po documents%ROWTYPE;
+  v_status text;
+BEGIN
+  SELECT * INTO po FROM documents WHERE id = p_purchase_order_id FOR UPDATE;
+
+  IF NOT FOUND OR po.document_type <> 'Purchase Order' THEN
+    RETURN;
+  END IF;
+
+  WITH fulfilled AS (
+    SELECT
+      l.product_id,
+      COALESCE(SUM(l.base_quantity) FILTER (WHERE d.document_type = 'Goods Receipt'), 0) AS received,
+      COALESCE(SUM(l.base_quantity) FILTER (WHERE d.document_type = 'Invoice'), 0) AS invoiced
+    FROM documents d
+    JOIN document_lines l ON l.document_id = d.id
+    WHERE d.purchase_order_id = po.id
+    AND d.document_type IN ('Goods Receipt', 'Invoice')
+    AND d.status = 'Approved'
+    GROUP BY l.product_id
+  ),
+  allocated AS (
+    SELECT
+      l.id,
+      l.base_quantity,
+      l.conversion_factor,
+      SUM(l.base_quantity) OVER product_lines - l.base_quantity AS ordered_before,
+      l.line_number = MAX(l.line_number) OVER (PARTITION BY l.product_id) AS is_last,
+      COALESCE(f.received, 0) AS received,
+      COALESCE(f.invoiced, 0) AS invoiced
+    FROM document_lines l
+    LEFT JOIN fulfilled f ON f.product_id = l.product_id
+    WHERE l.document_id = po.id
+    WINDOW product_lines AS (PARTITION BY l.product_id ORDER BY l.line_number)
+  )
+  -- Filled in base units, then shown in the PO line's own unit
+  UPDATE document_lines l
+  SET received_quantity = round(CASE
+        WHEN a.is_last THEN GREATEST(a.received - a.ordered_before, 0)
+        ELSE LEAST(GREATEST(a.received - a.ordered_before, 0), a.base_quantity)
+      END / a.conversion_factor, 3),
+      invoiced_quantity = round(CASE
+        WHEN a.is_last THEN GREATEST(a.invoiced - a.ordered_before, 0)
+        ELSE LEAST(GREATEST(a.invoiced - a.ordered_before, 0), a.base_quantity)
+      END / a.conversion_factor, 3)
+  FROM allocated a
+  WHERE l.id = a.id;
+
+  -- A PO awaiting approval keeps its status; the quantities are refreshed again on approval
+  IF po.status NOT IN ('Approved', 'Partially Received', 'Closed') THEN
+    RETURN;
+  END IF;
+
+  SELECT CASE
+    WHEN bool_and(received_quantity >= quantity AND invoiced_quantity >= quantity) THEN 'Closed'
+    WHEN bool_or(received_quantity > 0) THEN 'Partially Received'
+    ELSE 'Approved'
+  END
+  INTO v_status
+  FROM document_lines
+  WHERE document_id = po.id;
+
+  IF v_status <> po.status THEN
+    UPDATE documents
+    SET status = v_status, updated_at = now()
+    WHERE id = po.id;
+
+    INSERT INTO document_history (document_id, action_type, old_status, new_status, performed_by, remarks)
+    VALUES (po.id, 'Fulfilment Updated', po.status, v_status, auth.uid(), p_remarks);
+  END IF;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION refresh_purchase_order_fulfilment(uuid, text) FROM PUBLIC, authenticated;
+
+-- Quantities and unit prices are compared per base unit
+CREATE OR REPLACE FUNCTION compute_three_way_match(p_invoice_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  inv documents%ROWTYPE;
+  po documents%ROWTYPE;
+  line record;
+  v_price_tolerance numeric;
+  v_quantity_tolerance numeric;
+  v_invoiceable numeric;
+  v_quantity_ok boolean;
+  v_price_ok boolean;
+  v_status text;
+  v_issues text[] := '{}';
+  v_lines jsonb := '[]';
+BEGIN
+  SELECT * INTO inv FROM documents WHERE id = p_invoice_id;
+
+  SELECT match_price_tolerance_percent, match_quantity_tolerance_percent
+  INTO v_price_tolerance, v_quantity_tolerance
+  FROM system_settings WHERE id;
+
+  IF inv.purchase_order_id IS NOT NULL THEN
+    SELECT * INTO po FROM documents WHERE id = inv.purchase_order_id;
+  END IF;
+
+  IF po.id IS NULL THEN
+    v_issues := v_issues || 'No Purchase Order referenced'::text;
+  ELSE
+    IF po.document_type <> 'Purchase Order' THEN
+      v_issues := v_issues || format('%s is not a Purchase Order', po.document_number);
+    END IF;
+    IF po.status NOT IN ('Approved', 'Partially Received', 'Closed') THEN
+      v_issues := v_issues || format('Purchase Order %s is not Approved', po.document_number);
+    END IF;
+    IF po.currency <> inv.currency THEN
+      v_issues := v_issues || format('Invoice currency %s differs from the Purchase Order currency %s', inv.currency, po.currency);
+    END IF;
+    IF po.supplier_id IS DISTINCT FROM inv.supplier_id THEN
+      v_issues := v_issues || 'Invoice supplier differs from the Purchase Order supplier'::text;
+    END IF;
+
+    FOR line IN
+      WITH invoiced AS (
+        SELECT product_id, SUM(base_quantity) AS quantity, SUM(line_total) / SUM(base_quantity) AS unit_price
+        FROM document_lines WHERE document_id = inv.id
+        GROUP BY product_id
+      ),
+      ordered AS (
+        SELECT product_id, SUM(base_quantity) AS quantity, SUM(line_total) / SUM(base_quantity) AS unit_price
+        FROM document_lines WHERE document_id = po.id
+        GROUP BY product_id
+      ),
+      received AS (
+        SELECT l.product_id, SUM(l.base_quantity) AS quantity
+        FROM documents d
+        JOIN document_lines l ON l.document_id = d.id
+        WHERE d.purchase_order_id = po.id
+        AND d.document_type = 'Goods Receipt'
+        AND d.status = 'Approved'
+        GROUP BY l.product_id
+      ),
+      previously_invoiced AS (
+        SELECT l.product_id, SUM(l.base_quantity) AS quantity
+        FROM documents d
+        JOIN document_lines l ON l.document_id = d.id
+        WHERE d.purchase_order_id = po.id
+        AND d.document_type = 'Invoice'
+        AND d.status = 'Approved'
+        AND d.id <> inv.id
+        GROUP BY l.product_id
+      )
+      SELECT
+        p.id AS product_id,
+        p.sku,
+        p.name,
+        p.unit_of_measure,
+        COALESCE(o.quantity, 0) AS ordered_quantity,
+        round(o.unit_price, 4) AS ordered_unit_price,
+        COALESCE(r.quantity, 0) AS received_quantity,
+        COALESCE(prev.quantity, 0) AS previously_invoiced_quantity,
+        COALESCE(i.quantity, 0) AS invoiced_quantity,
+        round(i.unit_price, 4) AS invoiced_unit_price
+      FROM (SELECT product_id FROM invoiced UNION SELECT product_id FROM ordered) k
+      JOIN products p ON p.id = k.product_id
+      LEFT JOIN invoiced i ON i.product_id = k.product_id
+      LEFT JOIN ordered o ON o.product_id = k.product_id
+      LEFT JOIN received r ON r.product_id = k.product_id
+      LEFT JOIN previously_invoiced prev ON prev.product_id = k.product_id
+      ORDER BY p.sku
+    LOOP
+      v_invoiceable := GREATEST(line.received_quantity - line.previously_invoiced_quantity, 0);
+      v_quantity_ok := line.invoiced_quantity <= v_invoiceable * (1 + v_quantity_tolerance / 100);
+      v_price_ok := line.ordered_unit_price IS NULL
+        OR line.invoiced_unit_price IS NULL
+        OR line.invoiced_unit_price <= line.ordered_unit_price * (1 + v_price_tolerance / 100);
+
+      v_status := CASE
+        WHEN line.invoiced_quantity = 0 THEN 'Not Invoiced'
+        WHEN line.ordered_unit_price IS NULL THEN 'Not on PO'
+        WHEN NOT v_quantity_ok AND NOT v_price_ok THEN 'Quantity and Price Variance'
+        WHEN NOT v_quantity_ok THEN 'Quantity Variance'
+        WHEN NOT v_price_ok THEN 'Price Variance'
+        ELSE 'Matched'
+      END;
+
+      IF v_status NOT IN ('Matched', 'Not Invoiced') THEN
+        v_issues := v_issues || format('%s: %s', line.sku, v_status);
+      END IF;
+
+      v_lines := v_lines || jsonb_build_object(
+        'product_id', line.product_id,
+        'sku', line.sku,
+        'name', line.name,
+        'unit_of_measure', line.unit_of_measure,
+        'ordered_quantity', line.ordered_quantity,
+        'ordered_unit_price', line.ordered_unit_price,
+        'received_quantity', line.received_quantity,
+        'previously_invoiced_quantity', line.previously_invoiced_quantity,
+        'invoiceable_quantity', v_invoiceable,
+        'invoiced_quantity', line.invoiced_quantity,
+        'invoiced_unit_price', line.invoiced_unit_price,
+        'status', v_status
+      );
+    END LOOP;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'purchase_order_id', po.id,
+    'purchase_order_number', po.document_number,
+    'price_tolerance_percent', v_price_tolerance,
+    'quantity_tolerance_percent', v_quantity_tolerance,
+    'issues', to_jsonb(v_issues),
+    'lines', v_lines
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION compute_three_way_match(uuid) FROM PUBLIC, authenticated;
+
+CREATE OR REPLACE VIEW supplier_deliveries
+WITH (security_invoker = true)
+AS
+WITH receipts AS (
+  SELECT gr.supplier_id, gr.shipment_id, min(m.movement_date) AS received_at
+  FROM documents gr
+  JOIN document_lines l ON l.document_id = gr.id
+  JOIN stock_movements m ON m.document_line_id = l.id AND m.movement_type = 'IN'
+  WHERE gr.document_type = 'Goods Receipt'
+  AND gr.status = 'Approved'
+  AND gr.supplier_id IS NOT NULL
+  AND gr.shipment_id IS NOT NULL
+  GROUP BY gr.supplier_id, gr.shipment_id
+),
+product_quantities AS (
+  SELECT
+    d.supplier_id,
+    d.shipment_id,
+    l.product_id,
+    COALESCE(SUM(l.base_quantity) FILTER (WHERE d.document_type = 'Purchase Order'), 0) AS ordered,
+    COALESCE(SUM(l.base_quantity) FILTER (WHERE d.document_type = 'Goods Receipt'), 0) AS received
+  FROM documents d
+  JOIN document_lines l ON l.document_id = d.id
+  WHERE d.document_type IN ('Purchase Order', 'Goods Receipt')
+  AND d.status IN ('Approved', 'Partially Received', 'Closed')
+  AND d.supplier_id IS NOT NULL
+  AND d.shipment_id IS NOT NULL
+  GROUP BY d.supplier_id, d.shipment_id, l.product_id
+)
+SELECT
+  r.supplier_id,
+  r.shipment_id,
+  s.shipment_number,
+  s.eta,
+  r.received_at,
+  CASE WHEN s.eta IS NOT NULL THEN r.received_at::date <= s.eta END AS on_time,
+  COALESCE(SUM(q.ordered), 0) AS ordered_quantity,
+  COALESCE(SUM(q.received), 0) AS received_quantity,
+  COALESCE(SUM(abs(q.received - q.ordered)), 0) AS quantity_variance
+FROM receipts r
+JOIN shipments s ON s.id = r.shipment_id
+LEFT JOIN product_quantities q ON q.supplier_id = r.supplier_id AND q.shipment_id = r.shipment_id
+GROUP BY r.supplier_id, r.shipment_id, s.shipment_number, s.eta, r.received_at;
@@ -0,0 +1,57 @@
+/*
+  # Protect Three-Way Match Overrides
+
+  ## Overview
+  The `match_override_*` columns live on `documents`, so the row-level policies that let
+  creators edit their Draft documents and approvers update the documents assigned to them
+  also let them set `match_override_revision` directly. That skipped the match without a
+  reason or a history entry. Overrides can now only be recorded through
+  `override_three_way_match`.
+
+  ## 1. Functions & Triggers
+  - `check_match_override_change()` - BEFORE INSERT/UPDATE trigger on `documents`;
+    rejects any change to the `match_override_*` columns made directly by an API user
+
+  ## 2. Important Notes
+  - The trigger function is not SECURITY DEFINER on purpose: inside
+    `override_three_way_match` (and the other SECURITY DEFINER functions) `current_user`
+    is the function owner, while direct API writes run as `authenticated` or `anon`
+*/
+
+-- =============================================
+-- 1. OVERRIDE GUARD
+-- =============================================
+
+CREATE OR REPLACE FUNCTION check_match_override_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF current_user NOT IN ('authenticated', 'anon') THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.match_override_reason IS NOT NULL
+      OR NEW.match_override_by IS NOT NULL
+      OR NEW.match_override_at IS NOT NULL
+      OR NEW.match_override_revision IS NOT NULL THEN
+      RAISE EXCEPTION 'Three-way match overrides can only be recorded by Finance on a Pending Invoice';
+    END IF;
+  ELSIF NEW.match_override_reason IS DISTINCT FROM OLD.match_override_reason
+    OR NEW.match_override_by IS DISTINCT FROM OLD.match_override_by
+    OR NEW.match_override_at IS DISTINCT FROM OLD.match_override_at
+    OR NEW.match_override_revision IS DISTINCT FROM OLD.match_override_revision THEN
+    RAISE EXCEPTION 'Three-way match overrides can only be recorded by Finance on a Pending Invoice';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_documents_check_match_override ON documents;
+CREATE TRIGGER trg_documents_check_match_override
+  BEFORE INSERT OR UPDATE ON documents
+  FOR EACH ROW
+  EXECUTE FUNCTION check_match_override_change();
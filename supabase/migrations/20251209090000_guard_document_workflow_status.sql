@@ -0,0 +1,77 @@
+/*
+  # Guard Document Workflow Status
+
+  ## Overview
+  The baseline "Approvers can update documents assigned to them" policy, the creator
+  policy and the Admin policy all allowed a plain `UPDATE documents SET status =
+  'Approved'` (or 'Closed'), which skipped the approval chain, stock posting and the
+  document history. Document status and approval progress can now only change through
+  the workflow functions: `submit_document`, `approve_document`, `reject_document`,
+  `reverse_document_approval` and `revise_document` (plus the Purchase Order fulfilment
+  refresh they trigger).
+
+  ## 1. Security
+  - "Approvers can update documents assigned to them" is dropped; approvers decide
+    documents through `approve_document` and `reject_document`
+  - "Users can create documents" now requires new documents to be Draft
+
+  ## 2. Functions & Triggers
+  - `check_document_workflow_change()` - BEFORE INSERT/UPDATE trigger on `documents`;
+    rejects direct API writes that create a document in any status other than Draft, or
+    change `status`, `current_step_order`, `approval_chain_id` or `revision` (an
+    override or approval recorded for an earlier revision must not apply again)
+
+  ## 3. Important Notes
+  - As with `check_match_override_change`, the trigger function is not SECURITY DEFINER
+    so that writes made inside the workflow functions (which run as their owner) pass
+*/
+
+-- =============================================
+-- 1. POLICIES
+-- =============================================
+
+DROP POLICY IF EXISTS "Approvers can update documents assigned to them" ON documents;
+
+DROP POLICY IF EXISTS "Users can create documents" ON documents;
+
+CREATE POLICY "Users can create documents"
+  ON documents FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = created_by AND status = 'Draft');
+
+-- =============================================
+-- 2. WORKFLOW GUARD
+-- =============================================
+
+CREATE OR REPLACE FUNCTION check_document_workflow_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF current_user NOT IN ('authenticated', 'anon') THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status IS DISTINCT FROM 'Draft'
+      OR NEW.current_step_order IS NOT NULL
+      OR NEW.approval_chain_id IS NOT NULL THEN
+      RAISE EXCEPTION 'New documents must be created as Draft and submitted for approval';
+    END IF;
+  ELSIF NEW.status IS DISTINCT FROM OLD.status
+    OR NEW.current_step_order IS DISTINCT FROM OLD.current_step_order
+    OR NEW.approval_chain_id IS DISTINCT FROM OLD.approval_chain_id
+    OR NEW.revision IS DISTINCT FROM OLD.revision THEN
+    RAISE EXCEPTION 'Document status can only change by submitting, approving, rejecting, reversing or revising it';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_documents_check_workflow_change ON documents;
+CREATE TRIGGER trg_documents_check_workflow_change
+  BEFORE INSERT OR UPDATE ON documents
+  FOR EACH ROW
+  EXECUTE FUNCTION check_document_workflow_change();
@@ -0,0 +1,32 @@
+/*
+  # Start Approval Chains for Pending Documents
+
+  ## Overview
+  Approval chains are started by `submit_document` and `reverse_document_approval`.
+  Documents that were already Pending when approval chains were introduced never went
+  through either, so they have no approval steps and no `current_step_order`, and
+  `approve_document` / `reject_document` can never decide them. This starts the chain for
+  every such document, exactly as if it had just been submitted.
+
+  ## 1. Data
+  - Runs `start_approval_chain()` for each Pending document without a current step
+  - A "Chain Started" entry is written to `document_history` for each of them
+*/
+
+DO $$
+DECLARE
+  doc record;
+BEGIN
+  FOR doc IN
+    SELECT id, status FROM documents
+    WHERE status = 'Pending'
+    AND current_step_order IS NULL
+    ORDER BY created_at
+  LOOP
+    PERFORM start_approval_chain(doc.id);
+
+    INSERT INTO document_history (document_id, action_type, old_status, new_status, remarks)
+    VALUES (doc.id, 'Chain Started', doc.status, doc.status, 'Approval chain started for a document submitted before approval chains');
+  END LOOP;
+END;
+$$;
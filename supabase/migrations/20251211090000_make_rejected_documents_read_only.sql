@@ -0,0 +1,52 @@
+/*
+  # Make Rejected Documents Read-Only
+
+  ## Overview
+  Creators could edit Rejected documents in place, so when they then revised them
+  `revise_document` snapshotted the edited content as the rejected revision instead of
+  what the approver actually rejected. Rejected documents are now read-only; "Revise and
+  Resubmit" snapshots the rejected revision, moves the document back to Draft and the
+  creator edits the new revision from there.
+
+  ## 1. Security
+  - "Creators can update their draft documents" covers Draft documents only again
+  - "Creators can manage lines on their draft documents" likewise covers Draft only
+*/
+
+-- =============================================
+-- 1. DOCUMENT UPDATE POLICY
+-- =============================================
+
+DROP POLICY IF EXISTS "Creators can update their draft documents" ON documents;
+
+CREATE POLICY "Creators can update their draft documents"
+  ON documents FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = created_by AND status = 'Draft')
+  WITH CHECK (auth.uid() = created_by AND status = 'Draft');
+
+-- =============================================
+-- 2. DOCUMENT LINES POLICY
+-- =============================================
+
+DROP POLICY IF EXISTS "Creators can manage lines on their draft documents" ON document_lines;
+
+CREATE POLICY "Creators can manage lines on their draft documents"
+  ON document_lines FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM documents
+      WHERE documents.id = document_lines.document_id
+      AND documents.created_by = auth.uid()
+      AND documents.status = 'Draft'
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM documents
+      WHERE documents.id = document_lines.document_id
+      AND documents.created_by = auth.uid()
+      AND documents.status = 'Draft'
+    )
+  );
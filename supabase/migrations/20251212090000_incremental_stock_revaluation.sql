@@ -0,0 +1,282 @@
+/*
+  # Incremental Stock Revaluation
+
+  ## Overview
+  Every insert into `stock_movements` replayed the product's whole ledger, so valuing a
+  product got slower with every movement, and two transactions moving the same product at
+  the same time raced on `stock_movement_costs` (UNIQUE(product_id, sequence) and
+  `movement_id`). Revaluation now locks the product first and replays only from the
+  earliest movement date affected, resuming from the costs already recorded before it.
+
+  ## 1. Modified Tables
+
+  ### stock_movement_costs
+  Replay state after the movement, so a later replay can resume from it
+  - `last_cost` (numeric) - Cost used for movements without one when nothing is on hand
+  - `layers_received` (numeric) - FIFO: quantity added to cost layers so far
+  - `layers_consumed` (numeric) - FIFO: quantity taken from cost layers so far
+
+  ## 2. Functions & Triggers
+  - `revalue_product_stock(p_product_id, p_from)` - Locks the product and replays its
+    movements dated on or after `p_from`; NULL replays the whole ledger as before
+  - The insert and update triggers on `stock_movements` pass the earliest movement date
+    they affect, and revalue products in a fixed order to avoid deadlocks
+
+  ## 3. Important Notes
+  - FIFO layers are costed at the rounded unit cost stored on the receipt, so a resumed
+    replay gives the same result as a full one
+  - A full replay still happens when a product's valuation method changes, and for
+    `rebuild_stock_valuation()`
+  - Movements without a date sort last, as they did in the full replay
+*/
+
+-- =============================================
+-- 1. REPLAY STATE
+-- =============================================
+
+ALTER TABLE stock_movement_costs
+  ADD COLUMN IF NOT EXISTS last_cost numeric(18,4) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS layers_received numeric(15,3) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS layers_consumed numeric(15,3) NOT NULL DEFAULT 0;
+
+-- =============================================
+-- 2. REVALUATION
+-- =============================================
+
+DROP FUNCTION IF EXISTS revalue_product_stock(uuid);
+
+CREATE OR REPLACE FUNCTION revalue_product_stock(p_product_id uuid, p_from timestamptz DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  movement record;
+  layer record;
+  resume_from stock_movement_costs%ROWTYPE;
+  v_method text;
+  v_cost_price numeric;
+  v_sequence integer := 0;
+  v_delta numeric;
+  v_unit_cost numeric;
+  v_total numeric;
+  v_quantity numeric := 0;
+  v_value numeric := 0;
+  v_last_cost numeric;
+  v_remaining numeric;
+  v_take numeric;
+  v_received numeric := 0;
+  v_consumed numeric := 0;
+  -- FIFO layers, oldest first from v_head
+  v_layer_qty numeric[] := '{}';
+  v_layer_cost numeric[] := '{}';
+  v_head integer := 1;
+BEGIN
+  -- Serialises revaluations of the same product until the transaction ends
+  SELECT COALESCE(c.valuation_method, 'Moving Average'), COALESCE(p.cost_price, 0)
+  INTO v_method, v_cost_price
+  FROM products p
+  LEFT JOIN product_categories c ON c.id = p.category_id
+  WHERE p.id = p_product_id
+  FOR UPDATE OF p;
+
+  IF v_method IS NULL THEN
+    DELETE FROM stock_movement_costs WHERE product_id = p_product_id;
+    RETURN;
+  END IF;
+
+  v_last_cost := v_cost_price;
+
+  IF p_from IS NOT NULL THEN
+    DELETE FROM stock_movement_costs
+    USING stock_movements
+    WHERE stock_movement_costs.product_id = p_product_id
+    AND stock_movements.id = stock_movement_costs.movement_id
+    AND COALESCE(stock_movements.movement_date, 'infinity') >= p_from;
+
+    SELECT * INTO resume_from
+    FROM stock_movement_costs
+    WHERE product_id = p_product_id
+    ORDER BY sequence DESC
+    LIMIT 1;
+
+    IF FOUND AND resume_from.valuation_method = v_method THEN
+      v_sequence := resume_from.sequence;
+      v_quantity := resume_from.balance_quantity;
+      v_value := resume_from.balance_value;
+      v_last_cost := resume_from.last_cost;
+      v_received := resume_from.layers_received;
+      v_consumed := resume_from.layers_consumed;
+
+      -- Receipts still (partly) on hand, i.e. beyond what issues have taken
+      IF v_method = 'FIFO' THEN
+        FOR layer IN
+          SELECT quantity, unit_cost, layers_received
+          FROM stock_movement_costs
+          WHERE product_id = p_product_id
+          AND quantity > 0
+          AND layers_received > v_consumed
+          ORDER BY sequence
+        LOOP
+          v_layer_qty := v_layer_qty || LEAST(layer.quantity, layer.layers_received - v_consumed);
+          v_layer_cost := v_layer_cost || layer.unit_cost;
+        END LOOP;
+      END IF;
+    ELSE
+      -- Nothing valued before p_from, or the valuation method changed since
+      p_from := NULL;
+    END IF;
+  END IF;
+
+  IF p_from IS NULL THEN
+    DELETE FROM stock_movement_costs WHERE product_id = p_product_id;
+  END IF;
+
+  FOR movement IN
+    SELECT id, movement_type, quantity, unit_cost * exchange_rate AS unit_cost
+    FROM stock_movements
+    WHERE product_id = p_product_id
+    AND transfer_id IS NULL
+    AND (p_from IS NULL OR COALESCE(movement_date, 'infinity') >= p_from)
+    ORDER BY movement_date, created_at, id
+  LOOP
+    v_delta := stock_movement_delta(movement.movement_type, movement.quantity);
+
+    IF v_delta >= 0 THEN
+      v_unit_cost := round(COALESCE(
+        movement.unit_cost,
+        CASE WHEN v_quantity > 0 THEN v_value / v_quantity ELSE v_last_cost END
+      ), 4);
+      v_total := v_delta * v_unit_cost;
+
+      IF v_method = 'FIFO' AND v_delta > 0 THEN
+        v_layer_qty := v_layer_qty || v_delta;
+        v_layer_cost := v_layer_cost || v_unit_cost;
+        v_received := v_received + v_delta;
+      END IF;
+    ELSIF v_method = 'FIFO' THEN
+      v_remaining := -v_delta;
+      v_total := 0;
+
+      WHILE v_remaining > 0 AND v_head <= array_length(v_layer_qty, 1) LOOP
+        v_take := LEAST(v_remaining, v_layer_qty[v_head]);
+        v_total := v_total + v_take * v_layer_cost[v_head];
+        v_last_cost := v_layer_cost[v_head];
+        v_layer_qty[v_head] := v_layer_qty[v_head] - v_take;
+        v_remaining := v_remaining - v_take;
+        v_consumed := v_consumed + v_take;
+
+        IF v_layer_qty[v_head] = 0 THEN
+          v_head := v_head + 1;
+        END IF;
+      END LOOP;
+
+      -- Issues beyond the recorded layers (e.g. a negative adjustment) go at the last cost
+      v_total := -(v_total + v_remaining * v_last_cost);
+      v_unit_cost := v_total / v_delta;
+    ELSE
+      v_unit_cost := CASE WHEN v_quantity > 0 THEN v_value / v_quantity ELSE v_last_cost END;
+      v_total := v_delta * v_unit_cost;
+    END IF;
+
+    v_unit_cost := round(v_unit_cost, 4);
+    v_total := round(v_total, 4);
+    v_quantity := v_quantity + v_delta;
+    v_value := CASE WHEN v_quantity = 0 THEN 0 ELSE v_value + v_total END;
+
+    IF v_unit_cost > 0 THEN
+      v_last_cost := v_unit_cost;
+    END IF;
+
+    v_sequence := v_sequence + 1;
+
+    INSERT INTO stock_movement_costs (
+      movement_id, product_id, sequence, valuation_method, quantity,
+      unit_cost, total_cost, balance_quantity, balance_value,
+      last_cost, layers_received, layers_consumed
+    ) VALUES (
+      movement.id, p_product_id, v_sequence, v_method, v_delta,
+      v_unit_cost, v_total, v_quantity, v_value,
+      v_last_cost, v_received, v_consumed
+    );
+  END LOOP;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION revalue_product_stock(uuid, timestamptz) FROM PUBLIC, authenticated;
+
+-- =============================================
+-- 3. MOVEMENT TRIGGERS
+-- =============================================
+
+CREATE OR REPLACE FUNCTION revalue_inserted_movements()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  affected record;
+BEGIN
+  FOR affected IN
+    SELECT product_id, MIN(COALESCE(movement_date, 'infinity')) AS from_date
+    FROM inserted_movements
+    WHERE product_id IS NOT NULL
+    AND transfer_id IS NULL
+    GROUP BY product_id
+    ORDER BY product_id
+  LOOP
+    PERFORM revalue_product_stock(affected.product_id, affected.from_date);
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION revalue_updated_movements()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  affected record;
+BEGIN
+  FOR affected IN
+    SELECT
+      new_rows.product_id,
+      MIN(LEAST(
+        COALESCE(new_rows.movement_date, 'infinity'),
+        COALESCE(old_rows.movement_date, 'infinity')
+      )) AS from_date
+    FROM updated_movements new_rows
+    JOIN previous_movements old_rows ON old_rows.id = new_rows.id
+    WHERE new_rows.product_id IS NOT NULL
+    AND (
+      new_rows.unit_cost IS DISTINCT FROM old_rows.unit_cost
+      OR new_rows.quantity <> old_rows.quantity
+      OR new_rows.movement_date IS DISTINCT FROM old_rows.movement_date
+    )
+    GROUP BY new_rows.product_id
+    ORDER BY new_rows.product_id
+  LOOP
+    PERFORM revalue_product_stock(affected.product_id, affected.from_date);
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$;
+
+-- Fill in the replay state for the existing costs
+DO $$
+DECLARE
+  v_product_id uuid;
+BEGIN
+  FOR v_product_id IN
+    SELECT DISTINCT product_id FROM stock_movements WHERE product_id IS NOT NULL
+  LOOP
+    PERFORM revalue_product_stock(v_product_id);
+  END LOOP;
+END;
+$$;
@@ -0,0 +1,142 @@
+/*
+  # Apply Approver Assignment and Delegation to Approval Chains
+
+  ## Overview
+  Two gaps in approver assignment and delegation:
+  - `apply_due_approver_delegations()` was never called, so a delegation scheduled to
+    start in the future never moved the approver's Pending documents to the delegate
+  - Only the default single step was given the document's approver; steps copied from an
+    approval chain never got an `approver_id`, so the approver picker, the department
+    assignment rules and delegations had no effect on chain documents
+
+  ## 1. Scheduling
+  - `apply_due_approver_delegations()` runs daily at 00:05 (database time) through
+    pg_cron, so delegations take effect on their start date
+
+  ## 2. Functions
+  - `start_approval_chain` - Chain steps the document's assigned approver qualifies for
+    (same role, and department when the step has one) are named for that approver, who
+    is first resolved through active delegations as before
+
+  ## 3. Data
+  - Waiting and Pending chain steps of Pending documents are named for the document's
+    assigned approver in the same way
+  - Delegations that are already due are applied
+
+  ## 4. Important Notes
+  - Chain steps the assigned approver does not qualify for (e.g. a Finance step) stay open
+    to every user with the step's role and department
+  - Once named, a step follows the approver's delegations like the default step does
+*/
+
+-- =============================================
+-- 1. SCHEDULED DELEGATIONS
+-- =============================================
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(
+  'apply-approver-delegations',
+  '5 0 * * *',
+  'SELECT public.apply_due_approver_delegations()'
+);
+
+-- =============================================
+-- 2. CHAIN START WITH NAMED STEP APPROVERS
+-- =============================================
+
+CREATE OR REPLACE FUNCTION start_approval_chain(p_document_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  doc documents%ROWTYPE;
+  v_chain_id uuid;
+  v_first_order integer;
+  v_approver_id uuid;
+BEGIN
+  SELECT * INTO doc FROM documents WHERE id = p_document_id;
+
+  -- Route to the delegate if the assigned approver is currently away
+  v_approver_id := resolve_delegated_approver(doc.approver_id);
+
+  IF v_approver_id IS DISTINCT FROM doc.approver_id THEN
+    UPDATE documents SET approver_id = v_approver_id WHERE id = doc.id;
+
+    INSERT INTO document_history (document_id, action_type, old_status, new_status, performed_by, remarks)
+    VALUES (doc.id, 'Delegated', doc.status, doc.status, auth.uid(),
+      'Delegated from ' || COALESCE((SELECT full_name FROM users_profile WHERE id = doc.approver_id), 'approver')
+        || ' to ' || COALESCE((SELECT full_name FROM users_profile WHERE id = v_approver_id), 'delegate'));
+  END IF;
+
+  UPDATE document_approval_steps
+  SET superseded_at = now()
+  WHERE document_id = doc.id
+  AND superseded_at IS NULL;
+
+  SELECT approval_chains.id INTO v_chain_id
+  FROM approval_chains
+  WHERE approval_chains.is_active
+  AND approval_chains.document_type = doc.document_type
+  AND (approval_chains.currency IS NULL OR approval_chains.currency = doc.currency)
+  AND approval_chains.min_value <= COALESCE(doc.document_value, 0)
+  AND EXISTS (SELECT 1 FROM approval_chain_steps WHERE approval_chain_steps.chain_id = approval_chains.id)
+  ORDER BY approval_chains.min_value DESC, (approval_chains.currency IS NOT NULL) DESC, approval_chains.created_at
+  LIMIT 1;
+
+  IF v_chain_id IS NOT NULL THEN
+    INSERT INTO document_approval_steps (
+      document_id, chain_step_id, step_order, name, approver_role, approver_department, approver_id
+    )
+    SELECT
+      doc.id, approval_chain_steps.id, approval_chain_steps.step_order, approval_chain_steps.name,
+      approval_chain_steps.approver_role, approval_chain_steps.approver_department, approver.id
+    FROM approval_chain_steps
+    LEFT JOIN users_profile approver
+      ON approver.id = v_approver_id
+      AND approver.role = approval_chain_steps.approver_role
+      AND (approval_chain_steps.approver_department IS NULL OR approver.department = approval_chain_steps.approver_department)
+    WHERE approval_chain_steps.chain_id = v_chain_id;
+  ELSE
+    INSERT INTO document_approval_steps (document_id, step_order, name, approver_role, approver_id)
+    VALUES (doc.id, 1, 'Approval', 'Approver', v_approver_id);
+  END IF;
+
+  SELECT MIN(step_order) INTO v_first_order
+  FROM document_approval_steps
+  WHERE document_id = doc.id
+  AND superseded_at IS NULL;
+
+  UPDATE document_approval_steps
+  SET status = 'Pending'
+  WHERE document_id = doc.id
+  AND superseded_at IS NULL
+  AND step_order = v_first_order;
+
+  UPDATE documents
+  SET approval_chain_id = v_chain_id,
+      current_step_order = v_first_order
+  WHERE id = doc.id;
+END;
+$$;
+
+-- =============================================
+-- 3. DOCUMENTS IN FLIGHT
+-- =============================================
+
+UPDATE document_approval_steps
+SET approver_id = documents.approver_id
+FROM documents
+JOIN users_profile approver ON approver.id = documents.approver_id
+WHERE document_approval_steps.document_id = documents.id
+AND documents.status = 'Pending'
+AND document_approval_steps.chain_step_id IS NOT NULL
+AND document_approval_steps.superseded_at IS NULL
+AND document_approval_steps.status IN ('Waiting', 'Pending')
+AND document_approval_steps.approver_id IS NULL
+AND approver.role = document_approval_steps.approver_role
+AND (document_approval_steps.approver_department IS NULL OR approver.department = document_approval_steps.approver_department);
+
+SELECT apply_due_approver_delegations();
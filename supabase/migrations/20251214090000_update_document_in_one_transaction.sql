@@ -0,0 +1,84 @@
+/*
+  # Update Documents in One Transaction
+
+  ## Overview
+  Editing a document updated the header, deleted its lines, inserted the new lines and
+  wrote the "Updated" history entry as four separate requests. A failed line insert left
+  the document with no lines and a value of 0, and a failed history insert left an
+  unlogged change. `update_document` now does all of it in one transaction.
+
+  ## 1. Functions
+  - `update_document(p_document_id, p_document, p_lines, p_changes)` - Updates the header
+    fields in `p_document`, replaces the lines with `p_lines` (left alone when NULL) and
+    records `p_changes` as an "Updated" history entry
+
+  ## 2. Security
+  - The function is SECURITY INVOKER: the caller's row-level policies apply exactly as
+    they did to the separate requests, so only the creator of a Draft document (or an
+    Admin) can edit it
+*/
+
+CREATE OR REPLACE FUNCTION update_document(
+  p_document_id uuid,
+  p_document jsonb,
+  p_lines jsonb,
+  p_changes jsonb
+)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  doc documents%ROWTYPE;
+BEGIN
+  SELECT * INTO doc FROM documents WHERE id = p_document_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Document % not found or cannot be edited', p_document_id;
+  END IF;
+
+  doc := jsonb_populate_record(doc, p_document);
+
+  UPDATE documents
+  SET document_type = doc.document_type,
+      document_number = doc.document_number,
+      supplier_id = doc.supplier_id,
+      supplier_name = doc.supplier_name,
+      document_date = doc.document_date,
+      document_value = doc.document_value,
+      currency = doc.currency,
+      priority = doc.priority,
+      warehouse_id = doc.warehouse_id,
+      purchase_order_id = doc.purchase_order_id,
+      approver_id = doc.approver_id,
+      remarks = doc.remarks,
+      updated_at = now()
+  WHERE id = doc.id;
+
+  IF p_lines IS NOT NULL THEN
+    DELETE FROM document_lines WHERE document_id = doc.id;
+
+    INSERT INTO document_lines (
+      document_id, line_number, product_id, description, quantity, unit_of_measure, unit_price
+    )
+    SELECT doc.id, line.line_number, line.product_id, line.description, line.quantity, line.unit_of_measure, line.unit_price
+    FROM jsonb_to_recordset(p_lines) AS line(
+      line_number integer,
+      product_id uuid,
+      description text,
+      quantity numeric,
+      unit_of_measure text,
+      unit_price numeric
+    );
+  END IF;
+
+  INSERT INTO document_history (document_id, action_type, old_status, new_status, performed_by, remarks, changes)
+  VALUES (
+    doc.id, 'Updated', doc.status, doc.status, auth.uid(),
+    'Changed ' || (SELECT string_agg(change->>'label', ', ') FROM jsonb_array_elements(p_changes) change),
+    p_changes
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION update_document(uuid, jsonb, jsonb, jsonb) TO authenticated;
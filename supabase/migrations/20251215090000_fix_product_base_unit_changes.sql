@@ -0,0 +1,112 @@
+/*
+  # Fix Product Base Unit Changes
+
+  ## Overview
+  A product's base unit could change as long as no stock had moved, but Draft and Pending
+  document lines keep a conversion factor captured against the old base unit, so their
+  `base_quantity` became wrong. The product's other conversions were also left expressed
+  in the old base unit. The base unit is now fixed once document lines or stock movements
+  reference the product, and when it does change the conversions follow it.
+
+  ## 1. Functions & Triggers
+  - `products_with_fixed_base_unit(p_product_ids)` - The given products that have stock
+    movements or document lines, i.e. whose base unit can no longer change
+  - `check_product_base_unit()` - Re-created to also block the change when document lines
+    reference the product
+  - `rescale_product_unit_conversions()` - AFTER UPDATE trigger on `products`; when the
+    new base unit was one of the conversions, the other conversions are divided by its
+    factor and the old base unit becomes a conversion, otherwise the conversions are
+    cleared because nothing relates the two units
+
+  ## 2. Important Notes
+  - Rescaling runs after the update so the old base unit can be added as a conversion
+*/
+
+-- =============================================
+-- 1. PRODUCTS IN USE
+-- =============================================
+
+CREATE OR REPLACE FUNCTION products_with_fixed_base_unit(p_product_ids uuid[])
+RETURNS SETOF uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT products.id
+  FROM products
+  WHERE products.id = ANY(p_product_ids)
+  AND (
+    EXISTS (SELECT 1 FROM stock_movements WHERE stock_movements.product_id = products.id)
+    OR EXISTS (SELECT 1 FROM document_lines WHERE document_lines.product_id = products.id)
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION products_with_fixed_base_unit(uuid[]) TO authenticated;
+
+-- =============================================
+-- 2. BASE UNIT CHECK
+-- =============================================
+
+-- Stock and document lines are held in the base unit, so it is fixed once either exists
+CREATE OR REPLACE FUNCTION check_product_base_unit()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.unit_of_measure IS DISTINCT FROM OLD.unit_of_measure
+    AND EXISTS (SELECT 1 FROM products_with_fixed_base_unit(ARRAY[NEW.id])) THEN
+    RAISE EXCEPTION 'The base unit of % cannot change once it is on documents or stock has moved', NEW.sku;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- =============================================
+-- 3. CONVERSIONS FOLLOW THE BASE UNIT
+-- =============================================
+
+CREATE OR REPLACE FUNCTION rescale_product_unit_conversions()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_factor numeric;
+BEGIN
+  SELECT factor INTO v_factor
+  FROM product_unit_conversions
+  WHERE product_id = NEW.id
+  AND unit_of_measure = NEW.unit_of_measure;
+
+  IF v_factor IS NULL THEN
+    DELETE FROM product_unit_conversions WHERE product_id = NEW.id;
+    RETURN NULL;
+  END IF;
+
+  -- e.g. PCS base with BOX = 24 and CTN = 240, moving to BOX: CTN = 10, PCS = 1/24
+  DELETE FROM product_unit_conversions
+  WHERE product_id = NEW.id
+  AND unit_of_measure = NEW.unit_of_measure;
+
+  UPDATE product_unit_conversions
+  SET factor = round(factor / v_factor, 6), updated_at = now()
+  WHERE product_id = NEW.id;
+
+  INSERT INTO product_unit_conversions (product_id, unit_of_measure, factor)
+  VALUES (NEW.id, OLD.unit_of_measure, round(1 / v_factor, 6));
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_products_rescale_unit_conversions ON products;
+CREATE TRIGGER trg_products_rescale_unit_conversions
+  AFTER UPDATE OF unit_of_measure ON products
+  FOR EACH ROW
+  WHEN (OLD.unit_of_measure IS DISTINCT FROM NEW.unit_of_measure)
+  EXECUTE FUNCTION rescale_product_unit_conversions();
@@ -0,0 +1,33 @@
+/*
+  # Save Product Unit Conversions in One Transaction
+
+  ## Overview
+  The product form replaced a product's unit conversions by deleting them all and then
+  inserting the new list as two requests, so a failed insert (e.g. a unit that is not
+  allowed) left the product with no conversions at all. The replacement now happens in
+  one transaction.
+
+  ## 1. Functions
+  - `set_product_unit_conversions(p_product_id, p_conversions)` - Replaces the product's
+    conversions with `p_conversions`, an array of `{ unit_of_measure, factor }`
+
+  ## 2. Security
+  - SECURITY INVOKER: "Authorized users can manage unit conversions" still decides who
+    can change them
+*/
+
+CREATE OR REPLACE FUNCTION set_product_unit_conversions(p_product_id uuid, p_conversions jsonb)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM product_unit_conversions WHERE product_id = p_product_id;
+
+  INSERT INTO product_unit_conversions (product_id, unit_of_measure, factor)
+  SELECT p_product_id, conversion.unit_of_measure, conversion.factor
+  FROM jsonb_to_recordset(COALESCE(p_conversions, '[]'::jsonb)) AS conversion(unit_of_measure text, factor numeric);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION set_product_unit_conversions(uuid, jsonb) TO authenticated;
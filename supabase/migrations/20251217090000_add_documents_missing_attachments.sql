@@ -0,0 +1,40 @@
+/*
+  # Documents Missing Attachments
+
+  ## Overview
+  The dashboard fetched every document file and worked out which open documents were
+  missing required attachments in the browser. PostgREST returns at most 1000 rows per
+  request, so once there were more files than that the count and list were wrong. The
+  missing categories are now worked out in the database.
+
+  ## 1. Views
+  - `documents_missing_attachments` - Open documents (Draft, Pending, Rejected) with the
+    active required categories that have no matching file, one row per document
+
+  ## 2. Security
+  - The view is security invoker, so callers only see documents and files their own
+    policies allow, as with the separate queries it replaces
+*/
+
+CREATE OR REPLACE VIEW documents_missing_attachments
+WITH (security_invoker = true)
+AS
+SELECT
+  d.id AS document_id,
+  d.document_number,
+  d.document_type,
+  d.supplier_name,
+  d.status,
+  d.created_at,
+  array_agg(r.category ORDER BY r.category) AS missing
+FROM documents d
+JOIN attachment_requirements r
+  ON r.document_type = d.document_type
+  AND r.is_active
+WHERE d.status IN ('Draft', 'Pending', 'Rejected')
+AND NOT EXISTS (
+  SELECT 1 FROM document_files f
+  WHERE f.document_id = d.id
+  AND f.category = r.category
+)
+GROUP BY d.id;
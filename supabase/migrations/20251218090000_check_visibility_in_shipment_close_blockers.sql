@@ -0,0 +1,53 @@
+/*
+  # Check Document Visibility in Shipment Close Blockers
+
+  ## Overview
+  `shipment_close_blockers` runs as SECURITY DEFINER and can be called by any
+  authenticated user. Shipments are visible to everyone, so the function listed the
+  number and status of linked documents the caller cannot otherwise see. It now names
+  only documents the caller can view, using the same check as `three_way_match`.
+
+  ## 1. Functions
+  - `shipment_close_blockers(p_shipment_id)` - Re-created; an unapproved document the
+    caller cannot view is reported by its type only
+
+  ## 2. Important Notes
+  - Hidden documents still block closing, so the list of reasons stays complete
+  - `close_shipment` is unchanged and still refuses to close while any blocker remains
+*/
+
+CREATE OR REPLACE FUNCTION shipment_close_blockers(p_shipment_id uuid)
+RETURNS SETOF text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT 'No ' || required.document_type || ' linked'
+  FROM shipments s
+  CROSS JOIN LATERAL unnest(s.required_document_types) AS required(document_type)
+  WHERE s.id = p_shipment_id
+  AND NOT EXISTS (
+    SELECT 1 FROM documents d
+    WHERE d.shipment_id = s.id
+    AND d.document_type = required.document_type
+  )
+  UNION ALL
+  SELECT CASE
+    WHEN d.created_by = auth.uid()
+      OR d.approver_id = auth.uid()
+      OR is_document_step_approver(d.id)
+      OR EXISTS (
+        SELECT 1 FROM users_profile
+        WHERE users_profile.id = auth.uid()
+        AND users_profile.role IN ('Finance', 'Admin')
+      )
+    THEN d.document_type || ' ' || d.document_number || ' is ' || d.status
+    ELSE 'A ' || d.document_type || ' you cannot view is not approved yet'
+  END
+  FROM documents d
+  JOIN shipments s ON s.id = d.shipment_id
+  WHERE s.id = p_shipment_id
+  AND d.document_type = ANY (s.required_document_types)
+  AND d.status NOT IN ('Approved', 'Partially Received', 'Closed');
+$$;
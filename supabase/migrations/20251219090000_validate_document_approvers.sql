@@ -0,0 +1,282 @@
+/*
+  # Validate Document Approvers
+
+  ## Overview
+  A document's `approver_id` was whatever its creator sent, and a named step approver
+  could decide the step whatever their role. A Requester could therefore name themselves
+  as approver, submit and approve their own document (posting stock for a Goods
+  Receipt). The assigned approver must now be an Approver other than the creator, and a
+  named step approver must also hold the step's role.
+
+  ## 1. Functions & Triggers
+  - `check_document_approver()` - BEFORE INSERT/UPDATE trigger on `documents`; rejects an
+    `approver_id` that is the creator or not an Approver
+  - `assign_document_approver()` - Re-created to skip rules naming the creator or a user
+    who is no longer an Approver
+  - `is_step_approver(...)` - A named approver must also have the step's role
+  - `start_approval_chain(...)` - Re-checks the assigned approver, and does not follow a
+    delegation to the document's creator
+  - `apply_approver_delegation(...)` - Leaves documents created by the delegate with the
+    approver who is away
+
+  ## 2. Important Notes
+  - Existing documents are not changed; one with an invalid approver fails at submit
+    until the approver is changed
+  - Admins can still decide any step
+*/
+
+-- =============================================
+-- 1. ASSIGNED APPROVER CHECK
+-- =============================================
+
+CREATE OR REPLACE FUNCTION check_document_approver()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.approver_id IS NULL
+    OR (TG_OP = 'UPDATE'
+      AND NEW.approver_id IS NOT DISTINCT FROM OLD.approver_id
+      AND NEW.created_by IS NOT DISTINCT FROM OLD.created_by) THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.approver_id = NEW.created_by THEN
+    RAISE EXCEPTION 'You cannot be the approver of your own document';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM users_profile
+    WHERE users_profile.id = NEW.approver_id
+    AND users_profile.role = 'Approver'
+  ) THEN
+    RAISE EXCEPTION 'The assigned approver must be an Approver';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Runs after trg_documents_assign_approver, so rule-assigned approvers are checked too
+DROP TRIGGER IF EXISTS trg_documents_check_approver ON documents;
+CREATE TRIGGER trg_documents_check_approver
+  BEFORE INSERT OR UPDATE OF approver_id, created_by ON documents
+  FOR EACH ROW
+  EXECUTE FUNCTION check_document_approver();
+
+CREATE OR REPLACE FUNCTION assign_document_approver()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.approver_id IS NULL THEN
+    SELECT approver_assignment_rules.approver_id INTO NEW.approver_id
+    FROM approver_assignment_rules
+    JOIN users_profile creator ON creator.id = NEW.created_by
+    JOIN users_profile approver ON approver.id = approver_assignment_rules.approver_id
+    WHERE approver_assignment_rules.is_active
+    AND approver_assignment_rules.department = creator.department
+    AND (approver_assignment_rules.document_type IS NULL OR approver_assignment_rules.document_type = NEW.document_type)
+    AND approver.role = 'Approver'
+    AND approver.id <> creator.id
+    ORDER BY (approver_assignment_rules.document_type IS NOT NULL) DESC, approver_assignment_rules.created_at
+    LIMIT 1;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- =============================================
+-- 2. STEP APPROVERS
+-- =============================================
+
+CREATE OR REPLACE FUNCTION is_step_approver(p_role text, p_department text, p_approver_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM users_profile
+    WHERE users_profile.id = auth.uid()
+    AND (
+      users_profile.role = 'Admin'
+      OR (
+        p_approver_id IS NOT NULL
+        AND users_profile.id = p_approver_id
+        AND users_profile.role = p_role
+      )
+      OR (
+        p_approver_id IS NULL
+        AND users_profile.role = p_role
+        AND (p_department IS NULL OR users_profile.department = p_department)
+      )
+    )
+  );
+$$;
+
+-- =============================================
+-- 3. CHAIN START
+-- =============================================
+
+CREATE OR REPLACE FUNCTION start_approval_chain(p_document_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  doc documents%ROWTYPE;
+  v_chain_id uuid;
+  v_first_order integer;
+  v_approver_id uuid;
+BEGIN
+  SELECT * INTO doc FROM documents WHERE id = p_document_id;
+
+  -- The approver may predate check_document_approver()
+  IF doc.approver_id IS NOT NULL AND (
+    doc.approver_id = doc.created_by
+    OR NOT EXISTS (
+      SELECT 1 FROM users_profile
+      WHERE users_profile.id = doc.approver_id
+      AND users_profile.role = 'Approver'
+    )
+  ) THEN
+    RAISE EXCEPTION 'Choose another approver for %: the approver must be an Approver other than its creator',
+      doc.document_number;
+  END IF;
+
+  -- Route to the delegate if the assigned approver is currently away, unless the
+  -- delegate is the document's creator
+  v_approver_id := resolve_delegated_approver(doc.approver_id);
+
+  IF v_approver_id = doc.created_by THEN
+    v_approver_id := doc.approver_id;
+  END IF;
+
+  IF v_approver_id IS DISTINCT FROM doc.approver_id THEN
+    UPDATE documents SET approver_id = v_approver_id WHERE id = doc.id;
+
+    INSERT INTO document_history (document_id, action_type, old_status, new_status, performed_by, remarks)
+    VALUES (doc.id, 'Delegated', doc.status, doc.status, auth.uid(),
+      'Delegated from ' || COALESCE((SELECT full_name FROM users_profile WHERE id = doc.approver_id), 'approver')
+        || ' to ' || COALESCE((SELECT full_name FROM users_profile WHERE id = v_approver_id), 'delegate'));
+  END IF;
+
+  UPDATE document_approval_steps
+  SET superseded_at = now()
+  WHERE document_id = doc.id
+  AND superseded_at IS NULL;
+
+  SELECT approval_chains.id INTO v_chain_id
+  FROM approval_chains
+  WHERE approval_chains.is_active
+  AND approval_chains.document_type = doc.document_type
+  AND (approval_chains.currency IS NULL OR approval_chains.currency = doc.currency)
+  AND approval_chains.min_value <= COALESCE(doc.document_value, 0)
+  AND EXISTS (SELECT 1 FROM approval_chain_steps WHERE approval_chain_steps.chain_id = approval_chains.id)
+  ORDER BY approval_chains.min_value DESC, (approval_chains.currency IS NOT NULL) DESC, approval_chains.created_at
+  LIMIT 1;
+
+  IF v_chain_id IS NOT NULL THEN
+    INSERT INTO document_approval_steps (
+      document_id, chain_step_id, step_order, name, approver_role, approver_department, approver_id
+    )
+    SELECT
+      doc.id, approval_chain_steps.id, approval_chain_steps.step_order, approval_chain_steps.name,
+      approval_chain_steps.approver_role, approval_chain_steps.approver_department, approver.id
+    FROM approval_chain_steps
+    LEFT JOIN users_profile approver
+      ON approver.id = v_approver_id
+      AND approver.role = approval_chain_steps.approver_role
+      AND (approval_chain_steps.approver_department IS NULL OR approver.department = approval_chain_steps.approver_department)
+    WHERE approval_chain_steps.chain_id = v_chain_id;
+  ELSE
+    INSERT INTO document_approval_steps (document_id, step_order, name, approver_role, approver_id)
+    VALUES (doc.id, 1, 'Approval', 'Approver', v_approver_id);
+  END IF;
+
+  SELECT MIN(step_order) INTO v_first_order
+  FROM document_approval_steps
+  WHERE document_id = doc.id
+  AND superseded_at IS NULL;
+
+  UPDATE document_approval_steps
+  SET status = 'Pending'
+  WHERE document_id = doc.id
+  AND superseded_at IS NULL
+  AND step_order = v_first_order;
+
+  UPDATE documents
+  SET approval_chain_id = v_chain_id,
+      current_step_order = v_first_order
+  WHERE id = doc.id;
+END;
+$$;
+
+-- =============================================
+-- 4. DELEGATION
+-- =============================================
+
+CREATE OR REPLACE FUNCTION apply_approver_delegation(p_delegation_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  delegation approver_delegations%ROWTYPE;
+  doc record;
+  v_delegate_name text;
+  v_approver_name text;
+  v_count integer := 0;
+BEGIN
+  SELECT * INTO delegation FROM approver_delegations WHERE id = p_delegation_id;
+
+  IF NOT FOUND OR delegation.revoked_at IS NOT NULL
+     OR CURRENT_DATE NOT BETWEEN delegation.starts_on AND delegation.ends_on THEN
+    RETURN 0;
+  END IF;
+
+  SELECT full_name INTO v_approver_name FROM users_profile WHERE id = delegation.approver_id;
+  SELECT full_name INTO v_delegate_name FROM users_profile WHERE id = delegation.delegate_id;
+
+  -- The delegate's own documents stay with the approver who is away
+  FOR doc IN
+    SELECT id, status FROM documents
+    WHERE approver_id = delegation.approver_id
+    AND status = 'Pending'
+    AND created_by IS DISTINCT FROM delegation.delegate_id
+    FOR UPDATE
+  LOOP
+    UPDATE documents
+    SET approver_id = delegation.delegate_id, updated_at = now()
+    WHERE id = doc.id;
+
+    UPDATE document_approval_steps
+    SET approver_id = delegation.delegate_id
+    WHERE document_id = doc.id
+    AND superseded_at IS NULL
+    AND status IN ('Waiting', 'Pending')
+    AND approver_id = delegation.approver_id;
+
+    INSERT INTO document_history (document_id, action_type, old_status, new_status, performed_by, remarks)
+    VALUES (
+      doc.id, 'Delegated', doc.status, doc.status, COALESCE(auth.uid(), delegation.created_by),
+      'Delegated from ' || COALESCE(v_approver_name, 'approver') || ' to ' || COALESCE(v_delegate_name, 'delegate')
+        || ' until ' || to_char(delegation.ends_on, 'YYYY-MM-DD')
+        || COALESCE(': ' || delegation.reason, '')
+    );
+
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
@@ -0,0 +1,411 @@
+/*
+  # Hand Back Delegated Documents
+
+  ## Overview
+  Two gaps in out-of-office delegation:
+  - `create_approver_delegation` did not check that the approver handing over their
+    documents was an Approver, so any user could set up a delegation for themselves
+  - When a delegation was revoked or passed its end date, the Pending documents already
+    moved to the delegate stayed with the delegate
+
+  Documents now remember the delegation that moved them, and go back to their approver
+  (or whoever that approver currently delegates to) once it no longer applies.
+
+  ## 1. Modified Tables
+
+  ### documents
+  - `delegation_id` (uuid, optional) - Delegation that first moved the document away from
+    its assigned approver; cleared when the document is handed back
+
+  ## 2. Functions
+  - `create_approver_delegation(...)` - Re-created; the approver and the delegate must
+    both be Approvers
+  - `revoke_approver_delegation(...)` - Re-created to hand documents back straight away
+  - `return_delegated_documents()` - Re-resolves every Pending delegated document and
+    moves it, with its open steps named for the current approver, to the approver it
+    should now be with
+  - `apply_due_approver_delegations()` - Re-created to hand back documents of ended
+    delegations before applying the ones due, so the nightly job handles both
+  - `apply_approver_delegation(...)` and `start_approval_chain(...)` - Re-created to set
+    `delegation_id`
+
+  ## 3. Data
+  - Pending documents already with a delegate are linked to the latest delegation to
+    that delegate made before they were moved, and handed back if it has ended
+
+  ## 4. Important Notes
+  - Documents approved or rejected while delegated stay as decided
+  - A document is never handed to its own creator; it stays with the approver instead
+*/
+
+-- =============================================
+-- 1. DELEGATED DOCUMENTS
+-- =============================================
+
+ALTER TABLE documents
+  ADD COLUMN IF NOT EXISTS delegation_id uuid REFERENCES approver_delegations(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_documents_delegation ON documents(delegation_id) WHERE delegation_id IS NOT NULL;
+
+-- =============================================
+-- 2. APPLYING DELEGATIONS
+-- =============================================
+
+CREATE OR REPLACE FUNCTION apply_approver_delegation(p_delegation_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  delegation approver_delegations%ROWTYPE;
+  doc record;
+  v_delegate_name text;
+  v_approver_name text;
+  v_count integer := 0;
+BEGIN
+  SELECT * INTO delegation FROM approver_delegations WHERE id = p_delegation_id;
+
+  IF NOT FOUND OR delegation.revoked_at IS NOT NULL
+     OR CURRENT_DATE NOT BETWEEN delegation.starts_on AND delegation.ends_on THEN
+    RETURN 0;
+  END IF;
+
+  SELECT full_name INTO v_approver_name FROM users_profile WHERE id = delegation.approver_id;
+  SELECT full_name INTO v_delegate_name FROM users_profile WHERE id = delegation.delegate_id;
+
+  -- The delegate's own documents stay with the approver who is away
+  FOR doc IN
+    SELECT id, status FROM documents
+    WHERE approver_id = delegation.approver_id
+    AND status = 'Pending'
+    AND created_by IS DISTINCT FROM delegation.delegate_id
+    FOR UPDATE
+  LOOP
+    -- A document passed on by a delegate keeps the delegation from its own approver
+    UPDATE documents
+    SET approver_id = delegation.delegate_id,
+        delegation_id = COALESCE(delegation_id, delegation.id),
+        updated_at = now()
+    WHERE id = doc.id;
+
+    UPDATE document_approval_steps
+    SET approver_id = delegation.delegate_id
+    WHERE document_id = doc.id
+    AND superseded_at IS NULL
+    AND status IN ('Waiting', 'Pending')
+    AND approver_id = delegation.approver_id;
+
+    INSERT INTO document_history (document_id, action_type, old_status, new_status, performed_by, remarks)
+    VALUES (
+      doc.id, 'Delegated', doc.status, doc.status, COALESCE(auth.uid(), delegation.created_by),
+      'Delegated from ' || COALESCE(v_approver_name, 'approver') || ' to ' || COALESCE(v_delegate_name, 'delegate')
+        || ' until ' || to_char(delegation.ends_on, 'YYYY-MM-DD')
+        || COALESCE(': ' || delegation.reason, '')
+    );
+
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION start_approval_chain(p_document_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  doc documents%ROWTYPE;
+  v_chain_id uuid;
+  v_first_order integer;
+  v_approver_id uuid;
+  v_delegation_id uuid;
+BEGIN
+  SELECT * INTO doc FROM documents WHERE id = p_document_id;
+
+  -- The approver may predate check_document_approver()
+  IF doc.approver_id IS NOT NULL AND (
+    doc.approver_id = doc.created_by
+    OR NOT EXISTS (
+      SELECT 1 FROM users_profile
+      WHERE users_profile.id = doc.approver_id
+      AND users_profile.role = 'Approver'
+    )
+  ) THEN
+    RAISE EXCEPTION 'Choose another approver for %: the approver must be an Approver other than its creator',
+      doc.document_number;
+  END IF;
+
+  -- Route to the delegate if the assigned approver is currently away, unless the
+  -- delegate is the document's creator
+  v_approver_id := resolve_delegated_approver(doc.approver_id);
+
+  IF v_approver_id = doc.created_by THEN
+    v_approver_id := doc.approver_id;
+  END IF;
+
+  IF v_approver_id IS DISTINCT FROM doc.approver_id THEN
+    -- Same first hop as resolve_delegated_approver()
+    SELECT id INTO v_delegation_id
+    FROM approver_delegations
+    WHERE approver_id = doc.approver_id
+    AND revoked_at IS NULL
+    AND CURRENT_DATE BETWEEN starts_on AND ends_on
+    ORDER BY created_at DESC
+    LIMIT 1;
+
+    UPDATE documents SET approver_id = v_approver_id WHERE id = doc.id;
+
+    INSERT INTO document_history (document_id, action_type, old_status, new_status, performed_by, remarks)
+    VALUES (doc.id, 'Delegated', doc.status, doc.status, auth.uid(),
+      'Delegated from ' || COALESCE((SELECT full_name FROM users_profile WHERE id = doc.approver_id), 'approver')
+        || ' to ' || COALESCE((SELECT full_name FROM users_profile WHERE id = v_approver_id), 'delegate'));
+  END IF;
+
+  UPDATE document_approval_steps
+  SET superseded_at = now()
+  WHERE document_id = doc.id
+  AND superseded_at IS NULL;
+
+  SELECT approval_chains.id INTO v_chain_id
+  FROM approval_chains
+  WHERE approval_chains.is_active
+  AND approval_chains.document_type = doc.document_type
+  AND (approval_chains.currency IS NULL OR approval_chains.currency = doc.currency)
+  AND approval_chains.min_value <= COALESCE(doc.document_value, 0)
+  AND EXISTS (SELECT 1 FROM approval_chain_steps WHERE approval_chain_steps.chain_id = approval_chains.id)
+  ORDER BY approval_chains.min_value DESC, (approval_chains.currency IS NOT NULL) DESC, approval_chains.created_at
+  LIMIT 1;
+
+  IF v_chain_id IS NOT NULL THEN
+    INSERT INTO document_approval_steps (
+      document_id, chain_step_id, step_order, name, approver_role, approver_department, approver_id
+    )
+    SELECT
+      doc.id, approval_chain_steps.id, approval_chain_steps.step_order, approval_chain_steps.name,
+      approval_chain_steps.approver_role, approval_chain_steps.approver_department, approver.id
+    FROM approval_chain_steps
+    LEFT JOIN users_profile approver
+      ON approver.id = v_approver_id
+      AND approver.role = approval_chain_steps.approver_role
+      AND (approval_chain_steps.approver_department IS NULL OR approver.department = approval_chain_steps.approver_department)
+    WHERE approval_chain_steps.chain_id = v_chain_id;
+  ELSE
+    INSERT INTO document_approval_steps (document_id, step_order, name, approver_role, approver_id)
+    VALUES (doc.id, 1, 'Approval', 'Approver', v_approver_id);
+  END IF;
+
+  SELECT MIN(step_order) INTO v_first_order
+  FROM document_approval_steps
+  WHERE document_id = doc.id
+  AND superseded_at IS NULL;
+
+  UPDATE document_approval_steps
+  SET status = 'Pending'
+  WHERE document_id = doc.id
+  AND superseded_at IS NULL
+  AND step_order = v_first_order;
+
+  UPDATE documents
+  SET approval_chain_id = v_chain_id,
+      current_step_order = v_first_order,
+      delegation_id = v_delegation_id
+  WHERE id = doc.id;
+END;
+$$;
+
+-- =============================================
+-- 3. HANDING BACK
+-- =============================================
+
+CREATE OR REPLACE FUNCTION return_delegated_documents()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  doc record;
+  v_target uuid;
+  v_count integer := 0;
+BEGIN
+  FOR doc IN
+    SELECT documents.id, documents.status, documents.approver_id, documents.created_by,
+      approver_delegations.approver_id AS original_approver_id
+    FROM documents
+    JOIN approver_delegations ON approver_delegations.id = documents.delegation_id
+    WHERE documents.status = 'Pending'
+    FOR UPDATE OF documents
+  LOOP
+    -- Ended and revoked delegations no longer resolve, so this is where the document belongs now
+    v_target := resolve_delegated_approver(doc.original_approver_id);
+
+    IF v_target = doc.created_by THEN
+      v_target := doc.original_approver_id;
+    END IF;
+
+    IF v_target IS DISTINCT FROM doc.approver_id THEN
+      UPDATE documents
+      SET approver_id = v_target, updated_at = now()
+      WHERE id = doc.id;
+
+      UPDATE document_approval_steps
+      SET approver_id = v_target
+      WHERE document_id = doc.id
+      AND superseded_at IS NULL
+      AND status IN ('Waiting', 'Pending')
+      AND approver_id = doc.approver_id;
+
+      INSERT INTO document_history (document_id, action_type, old_status, new_status, performed_by, remarks)
+      VALUES (doc.id, 'Delegation Ended', doc.status, doc.status, auth.uid(),
+        'Returned from ' || COALESCE((SELECT full_name FROM users_profile WHERE id = doc.approver_id), 'delegate')
+          || ' to ' || COALESCE((SELECT full_name FROM users_profile WHERE id = v_target), 'approver'));
+
+      v_count := v_count + 1;
+    END IF;
+
+    IF v_target = doc.original_approver_id THEN
+      UPDATE documents SET delegation_id = NULL WHERE id = doc.id;
+    END IF;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION return_delegated_documents() FROM PUBLIC, authenticated;
+
+CREATE OR REPLACE FUNCTION apply_due_approver_delegations()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  delegation record;
+  v_total integer;
+BEGIN
+  v_total := return_delegated_documents();
+
+  FOR delegation IN
+    SELECT id FROM approver_delegations
+    WHERE revoked_at IS NULL
+    AND CURRENT_DATE BETWEEN starts_on AND ends_on
+    ORDER BY created_at
+  LOOP
+    v_total := v_total + apply_approver_delegation(delegation.id);
+  END LOOP;
+
+  RETURN v_total;
+END;
+$$;
+
+-- =============================================
+-- 4. CREATING & REVOKING
+-- =============================================
+
+CREATE OR REPLACE FUNCTION create_approver_delegation(
+  p_delegate_id uuid,
+  p_starts_on date,
+  p_ends_on date,
+  p_reason text DEFAULT NULL,
+  p_approver_id uuid DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_approver_id uuid := COALESCE(p_approver_id, auth.uid());
+  v_delegation_id uuid;
+BEGIN
+  IF v_approver_id <> auth.uid() AND NOT EXISTS (
+    SELECT 1 FROM users_profile
+    WHERE users_profile.id = auth.uid()
+    AND users_profile.role = 'Admin'
+  ) THEN
+    RAISE EXCEPTION 'Only Admins can set up delegations for other approvers';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM users_profile
+    WHERE users_profile.id = v_approver_id
+    AND users_profile.role = 'Approver'
+  ) THEN
+    RAISE EXCEPTION 'Only Approvers can delegate their approvals';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM users_profile
+    WHERE users_profile.id = p_delegate_id
+    AND users_profile.role = 'Approver'
+  ) THEN
+    RAISE EXCEPTION 'The delegate must be an Approver';
+  END IF;
+
+  INSERT INTO approver_delegations (approver_id, delegate_id, starts_on, ends_on, reason, created_by)
+  VALUES (v_approver_id, p_delegate_id, p_starts_on, p_ends_on, p_reason, auth.uid())
+  RETURNING id INTO v_delegation_id;
+
+  PERFORM apply_approver_delegation(v_delegation_id);
+
+  RETURN v_delegation_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION revoke_approver_delegation(p_delegation_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE approver_delegations
+  SET revoked_at = now()
+  WHERE id = p_delegation_id
+  AND revoked_at IS NULL
+  AND (
+    approver_id = auth.uid()
+    OR EXISTS (
+      SELECT 1 FROM users_profile
+      WHERE users_profile.id = auth.uid()
+      AND users_profile.role = 'Admin'
+    )
+  );
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Delegation not found or not yours to revoke';
+  END IF;
+
+  PERFORM return_delegated_documents();
+END;
+$$;
+
+-- =============================================
+-- 5. DATA
+-- =============================================
+
+-- Link documents already moved to a delegate to the latest delegation to that delegate
+-- made before the move, then hand back those whose delegation has ended
+UPDATE documents
+SET delegation_id = (
+  SELECT approver_delegations.id
+  FROM approver_delegations
+  WHERE approver_delegations.delegate_id = documents.approver_id
+  AND approver_delegations.created_at <= (
+    SELECT max(document_history.created_at)
+    FROM document_history
+    WHERE document_history.document_id = documents.id
+    AND document_history.action_type = 'Delegated'
+  )
+  ORDER BY approver_delegations.created_at DESC
+  LIMIT 1
+)
+WHERE documents.status = 'Pending'
+AND documents.delegation_id IS NULL;
+
+SELECT apply_due_approver_delegations();
@@ -0,0 +1,36 @@
+/*
+  # Revoke Internal Functions from anon
+
+  ## Overview
+  Internal SECURITY DEFINER helpers were revoked from PUBLIC and `authenticated` only.
+  Supabase's default privileges also grant EXECUTE on new functions to `anon`, so the
+  helpers stayed callable over PostgREST without signing in. Several have no caller
+  check, e.g. `post_document_stock_movements` and `apply_stock_balance` could post stock
+  and change balances anonymously. They are now revoked from `anon` as well, and
+  functions created from here on are not granted to `anon` by default.
+
+  ## 1. Security
+  - EXECUTE revoked from `anon` on every internal helper
+  - Default privileges no longer grant EXECUTE on new functions in `public` to `anon`;
+    the RPCs are all granted to `authenticated` explicitly
+
+  ## 2. Important Notes
+  - Only the helpers already revoked from `authenticated` are revoked here; the RPCs
+    and the helpers used in policies keep their grants to `authenticated`
+  - Triggers and SECURITY DEFINER functions calling the helpers run as their owner, so
+    they are not affected
+*/
+
+REVOKE ALL ON FUNCTION apply_approver_delegation(uuid) FROM anon;
+REVOKE ALL ON FUNCTION apply_stock_balance(uuid, uuid, numeric, timestamptz) FROM anon;
+REVOKE ALL ON FUNCTION can_manage_shipment(uuid) FROM anon;
+REVOKE ALL ON FUNCTION compute_three_way_match(uuid) FROM anon;
+REVOKE ALL ON FUNCTION document_revision_snapshot(uuid) FROM anon;
+REVOKE ALL ON FUNCTION missing_attachment_categories(uuid) FROM anon;
+REVOKE ALL ON FUNCTION post_document_stock_movements(uuid) FROM anon;
+REVOKE ALL ON FUNCTION refresh_purchase_order_fulfilment(uuid, text) FROM anon;
+REVOKE ALL ON FUNCTION return_delegated_documents() FROM anon;
+REVOKE ALL ON FUNCTION revalue_product_stock(uuid, timestamptz) FROM anon;
+REVOKE ALL ON FUNCTION start_approval_chain(uuid) FROM anon;
+
+ALTER DEFAULT PRIVILEGES IN SCHEMA public REVOKE EXECUTE ON FUNCTIONS FROM anon;
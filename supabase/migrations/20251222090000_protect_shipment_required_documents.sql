@@ -0,0 +1,183 @@
+/*
+  # Protect Shipment Required Documents
+
+  ## Overview
+  Any user can create a shipment, and its creator could edit `required_document_types`
+  down to nothing, after which `close_shipment` succeeded with no approved documents.
+  Only Admins can now drop a required document type; other users start from the default
+  set and can only add to it. `link_shipment_document` also checked a narrower document
+  visibility than `shipment_close_blockers`, leaving out step approvers; both now use
+  the same check.
+
+  ## 1. Functions & Triggers
+  - `default_shipment_document_types()` - The default required types, now also used as
+    the column default
+  - `check_shipment_required_documents()` - BEFORE INSERT/UPDATE trigger on `shipments`;
+    a non-Admin cannot create a shipment without the default required types, or remove
+    a required type from one
+  - `can_view_document(p_document_id)` - Whether the caller can see a document: its
+    creator, assigned approver, a step approver, Finance or an Admin
+  - `link_shipment_document(...)` and `shipment_close_blockers(...)` - Re-created to use
+    `can_view_document`
+
+  ## 2. Important Notes
+  - As with `check_document_workflow_change`, the trigger function is not SECURITY
+    DEFINER, so changes made inside SECURITY DEFINER functions pass
+  - Existing shipments keep their required types; the check applies to later changes
+*/
+
+-- =============================================
+-- 1. REQUIRED DOCUMENT TYPES
+-- =============================================
+
+-- Keep in line with DEFAULT_REQUIRED_DOCUMENT_TYPES in src/lib/shipments.ts
+CREATE OR REPLACE FUNCTION default_shipment_document_types()
+RETURNS text[]
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT ARRAY[
+    'Purchase Order', 'Invoice', 'Packing List', 'Bill of Lading', 'Customs Declaration', 'Goods Receipt'
+  ];
+$$;
+
+ALTER TABLE shipments
+  ALTER COLUMN required_document_types SET DEFAULT default_shipment_document_types();
+
+CREATE OR REPLACE FUNCTION check_shipment_required_documents()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF current_user NOT IN ('authenticated', 'anon') OR EXISTS (
+    SELECT 1 FROM users_profile
+    WHERE users_profile.id = auth.uid()
+    AND users_profile.role = 'Admin'
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' AND NOT NEW.required_document_types @> default_shipment_document_types() THEN
+    RAISE EXCEPTION 'Only Admins can create a shipment without all of the default required documents';
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NOT NEW.required_document_types @> OLD.required_document_types THEN
+    RAISE EXCEPTION 'Only Admins can remove a required document type from a shipment';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_shipments_check_required_documents ON shipments;
+CREATE TRIGGER trg_shipments_check_required_documents
+  BEFORE INSERT OR UPDATE OF required_document_types ON shipments
+  FOR EACH ROW
+  EXECUTE FUNCTION check_shipment_required_documents();
+
+-- =============================================
+-- 2. DOCUMENT VISIBILITY
+-- =============================================
+
+-- Same visibility as the documents SELECT policies
+CREATE OR REPLACE FUNCTION can_view_document(p_document_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM documents
+    WHERE documents.id = p_document_id
+    AND (
+      documents.created_by = auth.uid()
+      OR documents.approver_id = auth.uid()
+      OR is_document_step_approver(documents.id)
+      OR EXISTS (
+        SELECT 1 FROM users_profile
+        WHERE users_profile.id = auth.uid()
+        AND users_profile.role IN ('Finance', 'Admin')
+      )
+    )
+  );
+$$;
+
+REVOKE ALL ON FUNCTION can_view_document(uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION link_shipment_document(p_shipment_id uuid, p_document_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  s shipments%ROWTYPE;
+  doc documents%ROWTYPE;
+BEGIN
+  SELECT * INTO s FROM shipments WHERE id = p_shipment_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Shipment % not found', p_shipment_id;
+  END IF;
+
+  IF NOT can_manage_shipment(s.id) THEN
+    RAISE EXCEPTION 'Only the shipment creator or an Admin can link documents';
+  END IF;
+
+  IF s.status = 'Closed' THEN
+    RAISE EXCEPTION 'Shipment % is closed', s.shipment_number;
+  END IF;
+
+  SELECT * INTO doc FROM documents WHERE id = p_document_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT can_view_document(doc.id) THEN
+    RAISE EXCEPTION 'Document % not found', p_document_id;
+  END IF;
+
+  IF doc.shipment_id = s.id THEN
+    RETURN;
+  END IF;
+
+  IF doc.shipment_id IS NOT NULL THEN
+    RAISE EXCEPTION 'Document % already belongs to another shipment', doc.document_number;
+  END IF;
+
+  UPDATE documents SET shipment_id = s.id WHERE id = doc.id;
+
+  INSERT INTO shipment_history (shipment_id, action_type, document_id, performed_by, remarks)
+  VALUES (s.id, 'Document Linked', doc.id, auth.uid(), doc.document_type || ' ' || doc.document_number);
+
+  INSERT INTO document_history (document_id, action_type, performed_by, remarks)
+  VALUES (doc.id, 'Linked to Shipment', auth.uid(), s.shipment_number);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION shipment_close_blockers(p_shipment_id uuid)
+RETURNS SETOF text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT 'No ' || required.document_type || ' linked'
+  FROM shipments s
+  CROSS JOIN LATERAL unnest(s.required_document_types) AS required(document_type)
+  WHERE s.id = p_shipment_id
+  AND NOT EXISTS (
+    SELECT 1 FROM documents d
+    WHERE d.shipment_id = s.id
+    AND d.document_type = required.document_type
+  )
+  UNION ALL
+  SELECT CASE
+    WHEN can_view_document(d.id) THEN d.document_type || ' ' || d.document_number || ' is ' || d.status
+    ELSE 'A ' || d.document_type || ' you cannot view is not approved yet'
+  END
+  FROM documents d
+  JOIN shipments s ON s.id = d.shipment_id
+  WHERE s.id = p_shipment_id
+  AND d.document_type = ANY (s.required_document_types)
+  AND d.status NOT IN ('Approved', 'Partially Received', 'Closed');
+$$;
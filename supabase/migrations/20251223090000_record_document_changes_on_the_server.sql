@@ -0,0 +1,197 @@
+/*
+  # Record Document Changes on the Server
+
+  ## Overview
+  `update_document` wrote the "Updated" history entry from a diff the browser sent, so
+  the history showed whatever the client claimed had changed. It also took
+  `document_value` from the client even when the lines were left alone, letting the
+  value drift from the line totals, and an empty diff gave the entry no remarks. The diff
+  is now worked out in the database from the document before and after the edit, and
+  the value only ever comes from the lines.
+
+  ## 1. Functions
+  - `update_document(p_document_id, p_document, p_lines)` - Replaces the four-argument
+    version; updates the header fields in `p_document` except `document_value`,
+    replaces the lines with `p_lines` (left alone when NULL) and records the changes
+    it made, if any, as an "Updated" history entry
+  - `document_change_snapshot(p_document_id)` - `document_revision_snapshot` plus the
+    supplier record code and Purchase Order number
+  - `document_changes(p_before, p_after)` - The `{ field, label, before, after }` entries
+    between two snapshots, in the shape `src/lib/documentChanges.ts` reads
+
+  ## 2. Security
+  - `update_document` is now SECURITY DEFINER so it can read the snapshots, and checks
+    what the row-level policies did: the document must be Draft and the caller its
+    creator or an Admin
+*/
+
+-- =============================================
+-- 1. CHANGE DIFF
+-- =============================================
+
+CREATE OR REPLACE FUNCTION document_change_snapshot(p_document_id uuid)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT jsonb_set(
+    snapshot,
+    '{fields}',
+    (snapshot->'fields') || jsonb_build_object(
+      'supplier_id', suppliers.code,
+      'purchase_order_id', purchase_order.document_number
+    )
+  )
+  FROM documents
+  CROSS JOIN LATERAL document_revision_snapshot(documents.id) AS snapshot
+  LEFT JOIN suppliers ON suppliers.id = documents.supplier_id
+  LEFT JOIN documents purchase_order ON purchase_order.id = documents.purchase_order_id
+  WHERE documents.id = p_document_id;
+$$;
+
+REVOKE ALL ON FUNCTION document_change_snapshot(uuid) FROM PUBLIC, anon, authenticated;
+
+-- Fields in the order of DOCUMENT_FIELD_LABELS, then lines by position, then the linked
+-- records; lines are described as describeSnapshotLine() does
+CREATE OR REPLACE FUNCTION document_changes(p_before jsonb, p_after jsonb)
+RETURNS jsonb
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  WITH described_lines AS (
+    SELECT side, position, COALESCE(line->>'product', NULLIF(line->>'description', ''), 'Unknown product')
+      || ' — ' || trim_scale((line->>'quantity')::numeric)::text || ' ' || (line->>'unit_of_measure')
+      || ' @ ' || trim_scale((line->>'unit_price')::numeric)::text
+      || ' = ' || to_char((line->>'line_total')::numeric, 'FM999999999999990.00') AS description
+    FROM (
+      SELECT 'before' AS side, line, position FROM jsonb_array_elements(p_before->'lines') WITH ORDINALITY AS l(line, position)
+      UNION ALL
+      SELECT 'after', line, position FROM jsonb_array_elements(p_after->'lines') WITH ORDINALITY AS l(line, position)
+    ) lines
+  ),
+  changes AS (
+    SELECT
+      field.position AS sort_key,
+      field.name AS field,
+      field.label,
+      NULLIF(p_before->'fields'->>field.name, '') AS before,
+      NULLIF(p_after->'fields'->>field.name, '') AS after
+    FROM (VALUES
+      (1, 'document_type', 'Document Type'),
+      (2, 'document_number', 'Document Number'),
+      (3, 'supplier_name', 'Supplier'),
+      (4, 'document_date', 'Document Date'),
+      (5, 'currency', 'Currency'),
+      (6, 'priority', 'Priority'),
+      (7, 'approver', 'Approver'),
+      (8, 'warehouse', 'Warehouse'),
+      (9, 'document_value', 'Value'),
+      (10, 'remarks', 'Remarks'),
+      (100001, 'supplier_id', 'Supplier Record'),
+      (100002, 'purchase_order_id', 'Purchase Order')
+    ) AS field(position, name, label)
+    UNION ALL
+    SELECT
+      10 + positions.position,
+      'line_' || positions.position,
+      'Line ' || positions.position,
+      (SELECT description FROM described_lines WHERE side = 'before' AND position = positions.position),
+      (SELECT description FROM described_lines WHERE side = 'after' AND position = positions.position)
+    FROM (SELECT DISTINCT position FROM described_lines) positions
+  )
+  SELECT COALESCE(
+    jsonb_agg(
+      jsonb_build_object('field', field, 'label', label, 'before', before, 'after', after)
+      ORDER BY sort_key
+    ),
+    '[]'::jsonb
+  )
+  FROM changes
+  WHERE before IS DISTINCT FROM after;
+$$;
+
+REVOKE ALL ON FUNCTION document_changes(jsonb, jsonb) FROM PUBLIC, anon, authenticated;
+
+-- =============================================
+-- 2. UPDATE
+-- =============================================
+
+DROP FUNCTION IF EXISTS update_document(uuid, jsonb, jsonb, jsonb);
+
+CREATE OR REPLACE FUNCTION update_document(p_document_id uuid, p_document jsonb, p_lines jsonb)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  doc documents%ROWTYPE;
+  v_before jsonb;
+  v_changes jsonb;
+BEGIN
+  SELECT * INTO doc FROM documents WHERE id = p_document_id FOR UPDATE;
+
+  IF NOT FOUND OR doc.status <> 'Draft' OR NOT (
+    doc.created_by = auth.uid()
+    OR EXISTS (
+      SELECT 1 FROM users_profile
+      WHERE users_profile.id = auth.uid()
+      AND users_profile.role = 'Admin'
+    )
+  ) THEN
+    RAISE EXCEPTION 'Document % not found or cannot be edited', p_document_id;
+  END IF;
+
+  v_before := document_change_snapshot(doc.id);
+  doc := jsonb_populate_record(doc, p_document);
+
+  -- document_value follows the lines through recalculate_document_value()
+  UPDATE documents
+  SET document_type = doc.document_type,
+      document_number = doc.document_number,
+      supplier_id = doc.supplier_id,
+      supplier_name = doc.supplier_name,
+      document_date = doc.document_date,
+      currency = doc.currency,
+      priority = doc.priority,
+      warehouse_id = doc.warehouse_id,
+      purchase_order_id = doc.purchase_order_id,
+      approver_id = doc.approver_id,
+      remarks = doc.remarks,
+      updated_at = now()
+  WHERE id = doc.id;
+
+  IF p_lines IS NOT NULL THEN
+    DELETE FROM document_lines WHERE document_id = doc.id;
+
+    INSERT INTO document_lines (
+      document_id, line_number, product_id, description, quantity, unit_of_measure, unit_price
+    )
+    SELECT doc.id, line.line_number, line.product_id, line.description, line.quantity, line.unit_of_measure, line.unit_price
+    FROM jsonb_to_recordset(p_lines) AS line(
+      line_number integer,
+      product_id uuid,
+      description text,
+      quantity numeric,
+      unit_of_measure text,
+      unit_price numeric
+    );
+  END IF;
+
+  v_changes := document_changes(v_before, document_change_snapshot(doc.id));
+
+  IF jsonb_array_length(v_changes) > 0 THEN
+    INSERT INTO document_history (document_id, action_type, old_status, new_status, performed_by, remarks, changes)
+    VALUES (
+      doc.id, 'Updated', doc.status, doc.status, auth.uid(),
+      'Changed ' || (SELECT string_agg(change->>'label', ', ') FROM jsonb_array_elements(v_changes) change),
+      v_changes
+    );
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION update_document(uuid, jsonb, jsonb) TO authenticated;
@@ -0,0 +1,48 @@
+/*
+  # Restrict Document History Inserts
+
+  ## Overview
+  Any signed-in user could insert a `document_history` row of any kind as long as it
+  named them as the performer. The approval KPIs, the approval cycle report, the
+  supplier scorecard and approver turnaround are all measured from the "Submitted",
+  "Approval Reversed", "Approved" and "Rejected" rows, so they could be forged with a
+  few inserts. Those rows are only written by the workflow functions, which run as
+  SECURITY DEFINER and are not subject to the policy; direct inserts are now limited to
+  the two entries the app records itself.
+
+  ## 1. Security
+  - Replaced "System can insert history records" with "Users can record document
+    creation and downloads": the caller must be the performer, and may only add
+    - a "Created" entry on a Draft document they created
+    - a "File Downloaded" entry on a document they can view
+
+  ## 2. Important Notes
+  - Rows already in the history are left as they are
+*/
+
+DROP POLICY IF EXISTS "System can insert history records" ON document_history;
+
+CREATE POLICY "Users can record document creation and downloads"
+  ON document_history FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = performed_by
+    AND (
+      (
+        action_type = 'Created'
+        AND EXISTS (
+          SELECT 1 FROM documents
+          WHERE documents.id = document_history.document_id
+          AND documents.created_by = auth.uid()
+          AND documents.status = 'Draft'
+        )
+      )
+      OR (
+        action_type = 'File Downloaded'
+        AND EXISTS (
+          SELECT 1 FROM documents
+          WHERE documents.id = document_history.document_id
+        )
+      )
+    )
+  );
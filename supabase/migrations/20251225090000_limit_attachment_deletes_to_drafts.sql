@@ -0,0 +1,68 @@
+/*
+  # Limit Attachment Deletes to Drafts
+
+  ## Overview
+  Uploaders could delete their files at any status, so a document already submitted,
+  approved or rejected could lose the attachments it was checked and decided on. Files
+  can now only be deleted while their document is Draft.
+
+  An upload that reached storage but whose `document_files` row failed to insert left
+  an object nobody could see or remove. The uploader can now remove such an object, and
+  the app does so when the insert fails.
+
+  ## 1. Security
+  - "Uploaders can delete their files" (`document_files`) and "Uploaders can delete
+    their attachments" (`storage.objects`) now also require the document to be Draft
+  - New policy "Uploaders can delete orphaned attachments" on `storage.objects`: the
+    caller's own objects in `document-files` that have no `document_files` row
+*/
+
+-- =============================================
+-- 1. DOCUMENT FILES
+-- =============================================
+
+DROP POLICY IF EXISTS "Uploaders can delete their files" ON document_files;
+
+CREATE POLICY "Uploaders can delete their files"
+  ON document_files FOR DELETE
+  TO authenticated
+  USING (
+    auth.uid() = uploaded_by
+    AND EXISTS (
+      SELECT 1 FROM documents
+      WHERE documents.id = document_files.document_id
+      AND documents.status = 'Draft'
+    )
+  );
+
+-- =============================================
+-- 2. STORAGE
+-- =============================================
+
+DROP POLICY IF EXISTS "Uploaders can delete their attachments" ON storage.objects;
+
+CREATE POLICY "Uploaders can delete their attachments"
+  ON storage.objects FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'document-files'
+    AND EXISTS (
+      SELECT 1 FROM document_files
+      JOIN documents ON documents.id = document_files.document_id
+      WHERE document_files.file_url = storage.objects.name
+      AND document_files.uploaded_by = auth.uid()
+      AND documents.status = 'Draft'
+    )
+  );
+
+CREATE POLICY "Uploaders can delete orphaned attachments"
+  ON storage.objects FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'document-files'
+    AND owner_id = auth.uid()::text
+    AND NOT EXISTS (
+      SELECT 1 FROM document_files
+      WHERE document_files.file_url = storage.objects.name
+    )
+  );
@@ -0,0 +1,57 @@
+/*
+  # Limit File Category Changes to Drafts
+
+  ## Overview
+  `set_document_file_category` worked at any status, so once a document had passed the
+  required attachment check on submission its files could be recategorised, and an
+  approved document could end up without the attachments it was approved with. A file's
+  category can now only change while its document is Draft; a Rejected document is
+  revised back to Draft before its files can be recategorised.
+
+  ## 1. Functions
+  - `set_document_file_category(p_file_id, p_category)` - Raises unless the document is
+    Draft
+*/
+
+CREATE OR REPLACE FUNCTION set_document_file_category(p_file_id uuid, p_category text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  f document_files%ROWTYPE;
+  v_status text;
+BEGIN
+  SELECT * INTO f FROM document_files WHERE id = p_file_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'File % not found', p_file_id;
+  END IF;
+
+  IF f.uploaded_by IS DISTINCT FROM auth.uid()
+    AND NOT EXISTS (
+      SELECT 1 FROM documents
+      WHERE documents.id = f.document_id
+      AND documents.created_by = auth.uid()
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM users_profile
+      WHERE users_profile.id = auth.uid()
+      AND users_profile.role = 'Admin'
+    )
+  THEN
+    RAISE EXCEPTION 'Only the uploader or the document creator can change the file category';
+  END IF;
+
+  SELECT status INTO v_status FROM documents WHERE id = f.document_id;
+
+  IF v_status IS DISTINCT FROM 'Draft' THEN
+    RAISE EXCEPTION 'File categories can only be changed while the document is Draft';
+  END IF;
+
+  UPDATE document_files
+  SET category = NULLIF(btrim(p_category), '')
+  WHERE id = f.id;
+END;
+$$;
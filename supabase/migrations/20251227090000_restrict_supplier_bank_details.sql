@@ -0,0 +1,67 @@
+/*
+  # Restrict Supplier Bank Details
+
+  ## Overview
+  Supplier bank details were columns on `suppliers`, which every signed-in user can read
+  so documents can pick a supplier. Any Requester could list every supplier's bank
+  account number and SWIFT code. They now live in their own table that only Finance and
+  Admins can read or change.
+
+  ## 1. New Tables
+
+  ### supplier_bank_details
+  - `supplier_id` (uuid, primary key) - One row per supplier
+  - `bank_name`, `bank_account_name`, `bank_account_number`, `bank_swift_code`
+    (text, optional) - Payment details
+  - `updated_at` (timestamptz)
+
+  ## 2. Modified Tables
+
+  ### suppliers
+  - Dropped `bank_name`, `bank_account_name`, `bank_account_number` and
+    `bank_swift_code`; existing values are copied to `supplier_bank_details` first
+
+  ## 3. Security
+  - RLS on `supplier_bank_details`: Finance and Admins only
+*/
+
+CREATE TABLE IF NOT EXISTS supplier_bank_details (
+  supplier_id uuid PRIMARY KEY REFERENCES suppliers(id) ON DELETE CASCADE,
+  bank_name text,
+  bank_account_name text,
+  bank_account_number text,
+  bank_swift_code text,
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE supplier_bank_details ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Finance can manage supplier bank details"
+  ON supplier_bank_details FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users_profile
+      WHERE users_profile.id = auth.uid()
+      AND users_profile.role IN ('Finance', 'Admin')
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM users_profile
+      WHERE users_profile.id = auth.uid()
+      AND users_profile.role IN ('Finance', 'Admin')
+    )
+  );
+
+INSERT INTO supplier_bank_details (supplier_id, bank_name, bank_account_name, bank_account_number, bank_swift_code, updated_at)
+SELECT id, bank_name, bank_account_name, bank_account_number, bank_swift_code, updated_at
+FROM suppliers
+WHERE COALESCE(bank_name, bank_account_name, bank_account_number, bank_swift_code) IS NOT NULL
+ON CONFLICT (supplier_id) DO NOTHING;
+
+ALTER TABLE suppliers
+  DROP COLUMN IF EXISTS bank_name,
+  DROP COLUMN IF EXISTS bank_account_name,
+  DROP COLUMN IF EXISTS bank_account_number,
+  DROP COLUMN IF EXISTS bank_swift_code;
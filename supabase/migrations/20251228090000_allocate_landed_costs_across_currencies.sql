@@ -0,0 +1,260 @@
+/*
+  # Allocate Landed Costs Across Currencies
+
+  ## Overview
+  Landed cost allocations and their lines could be read by every signed-in user, showing
+  the amounts of freight, duty and receipt documents they cannot open themselves. They
+  are now only visible to users who can view every document the allocation was made
+  from.
+
+  Allocation also refused shipments whose documents were in more than one currency, so
+  a USD freight invoice could not be allocated onto EUR goods receipts. Every document
+  it allocates is Approved and so has captured its exchange rate. When the documents
+  are in different currencies the allocation is now made in the base currency at those
+  rates and converted back to each receipt's currency for its movements.
+
+  ## 1. Functions
+  - `can_view_landed_cost_allocation(p_allocation_id)` - Whether the caller can view
+    every cost document and Goods Receipt an allocation was made from
+  - `allocate_landed_costs(...)` - Re-created to allocate mixed currencies in the base
+    currency
+
+  ## 2. Security
+  - "Authenticated users can view landed cost allocations" and "... allocation lines"
+    replaced with policies using `can_view_landed_cost_allocation`
+
+  ## 3. Important Notes
+  - When every document is in the same currency the allocation is made in it without
+    conversion, as before
+  - `landed_cost_allocations.currency` is the currency of `total_cost` and of the line
+    amounts
+  - A document approved before exchange rates were captured stops a mixed-currency
+    allocation, with the document named in the error
+*/
+
+-- =============================================
+-- 1. VISIBILITY
+-- =============================================
+
+CREATE OR REPLACE FUNCTION can_view_landed_cost_allocation(p_allocation_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT NOT EXISTS (
+    SELECT 1 FROM landed_cost_allocation_lines l
+    WHERE l.allocation_id = p_allocation_id
+    AND (
+      (l.cost_document_id IS NOT NULL AND NOT can_view_document(l.cost_document_id))
+      OR (l.receipt_document_id IS NOT NULL AND NOT can_view_document(l.receipt_document_id))
+    )
+  );
+$$;
+
+REVOKE ALL ON FUNCTION can_view_landed_cost_allocation(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION can_view_landed_cost_allocation(uuid) TO authenticated;
+
+DROP POLICY IF EXISTS "Authenticated users can view landed cost allocations" ON landed_cost_allocations;
+DROP POLICY IF EXISTS "Authenticated users can view landed cost allocation lines" ON landed_cost_allocation_lines;
+
+CREATE POLICY "Users can view landed cost allocations of documents they can access"
+  ON landed_cost_allocations FOR SELECT
+  TO authenticated
+  USING (can_view_landed_cost_allocation(id));
+
+CREATE POLICY "Users can view landed cost allocation lines of documents they can access"
+  ON landed_cost_allocation_lines FOR SELECT
+  TO authenticated
+  USING (can_view_landed_cost_allocation(allocation_id));
+
+-- =============================================
+-- 2. ALLOCATE
+-- =============================================
+
+CREATE OR REPLACE FUNCTION allocate_landed_costs(
+  p_shipment_id uuid,
+  p_method text,
+  p_basis jsonb DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  s shipments%ROWTYPE;
+  v_currency text;
+  v_currency_count integer;
+  v_missing text;
+  v_total_basis numeric;
+  v_total_cost numeric;
+  v_allocation_id uuid;
+  v_now timestamptz := now();
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM users_profile
+    WHERE users_profile.id = auth.uid()
+    AND users_profile.role IN ('Finance', 'Admin')
+  ) THEN
+    RAISE EXCEPTION 'Only Finance and Admins can allocate landed costs';
+  END IF;
+
+  IF p_method NOT IN ('Value', 'Weight', 'Volume', 'Quantity') THEN
+    RAISE EXCEPTION 'Unknown allocation method %', p_method;
+  END IF;
+
+  SELECT * INTO s FROM shipments WHERE id = p_shipment_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Shipment % not found', p_shipment_id;
+  END IF;
+
+  IF s.status = 'Closed' THEN
+    RAISE EXCEPTION 'Shipment % is closed', s.shipment_number;
+  END IF;
+
+  -- rate converts the receipt's currency into the allocation currency
+  CREATE TEMP TABLE tmp_receipt_lines ON COMMIT DROP AS
+  SELECT
+    l.id AS document_line_id,
+    d.id AS receipt_document_id,
+    d.document_number,
+    d.currency,
+    d.exchange_rate,
+    1::numeric AS rate,
+    l.product_id,
+    -- Per base unit, like the movement the line posted
+    l.base_quantity AS quantity,
+    l.unit_price / l.conversion_factor AS unit_price,
+    CASE p_method
+      WHEN 'Value' THEN l.line_total
+      WHEN 'Quantity' THEN l.base_quantity
+      WHEN 'Weight' THEN COALESCE((p_basis ->> l.id::text)::numeric, l.base_quantity * p.unit_weight)
+      WHEN 'Volume' THEN COALESCE((p_basis ->> l.id::text)::numeric, l.base_quantity * p.unit_volume)
+    END AS basis_value
+  FROM document_lines l
+  JOIN documents d ON d.id = l.document_id
+  JOIN products p ON p.id = l.product_id
+  WHERE d.shipment_id = s.id
+  AND d.document_type = 'Goods Receipt'
+  AND d.status = 'Approved';
+
+  -- amount is document_value in the allocation currency
+  CREATE TEMP TABLE tmp_cost_documents ON COMMIT DROP AS
+  SELECT id, document_number, currency, document_value, base_value, document_value AS amount
+  FROM documents
+  WHERE shipment_id = s.id
+  AND document_type IN ('Freight Invoice', 'Insurance Invoice', 'Customs Duty', 'Brokerage Invoice')
+  AND status = 'Approved'
+  AND document_value <> 0;
+
+  IF NOT EXISTS (SELECT 1 FROM tmp_receipt_lines) THEN
+    RAISE EXCEPTION 'Shipment % has no approved Goods Receipt lines', s.shipment_number;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM tmp_cost_documents) THEN
+    RAISE EXCEPTION 'Shipment % has no approved landed cost documents', s.shipment_number;
+  END IF;
+
+  SELECT COUNT(DISTINCT currency), MIN(currency) INTO v_currency_count, v_currency
+  FROM (
+    SELECT currency FROM tmp_receipt_lines
+    UNION ALL
+    SELECT currency FROM tmp_cost_documents
+  ) currencies;
+
+  IF v_currency_count > 1 THEN
+    v_currency := base_currency();
+
+    SELECT string_agg(document_number, ', ' ORDER BY document_number) INTO v_missing
+    FROM (
+      SELECT DISTINCT document_number FROM tmp_receipt_lines WHERE exchange_rate IS NULL
+      UNION
+      SELECT document_number FROM tmp_cost_documents WHERE base_value IS NULL
+    ) missing;
+
+    IF v_missing IS NOT NULL THEN
+      RAISE EXCEPTION 'No exchange rate was captured when % was approved, so it cannot be converted into %', v_missing, v_currency;
+    END IF;
+
+    UPDATE tmp_receipt_lines
+    SET rate = exchange_rate,
+        basis_value = CASE WHEN p_method = 'Value' THEN basis_value * exchange_rate ELSE basis_value END;
+
+    UPDATE tmp_cost_documents SET amount = base_value;
+  END IF;
+
+  SELECT SUM(basis_value) INTO v_total_basis FROM tmp_receipt_lines;
+  SELECT SUM(amount) INTO v_total_cost FROM tmp_cost_documents;
+
+  IF COALESCE(v_total_basis, 0) <= 0 THEN
+    RAISE EXCEPTION 'No % recorded for the received lines', lower(p_method);
+  END IF;
+
+  UPDATE landed_cost_allocations
+  SET superseded_at = v_now
+  WHERE shipment_id = s.id
+  AND superseded_at IS NULL;
+
+  INSERT INTO landed_cost_allocations (shipment_id, method, currency, total_cost, allocated_by, allocated_at)
+  VALUES (s.id, p_method, v_currency, v_total_cost, auth.uid(), v_now)
+  RETURNING id INTO v_allocation_id;
+
+  INSERT INTO landed_cost_allocation_lines (
+    allocation_id, cost_document_id, receipt_document_id, document_line_id,
+    product_id, quantity, basis_value, amount
+  )
+  SELECT
+    v_allocation_id, c.id, r.receipt_document_id, r.document_line_id,
+    r.product_id, r.quantity, r.basis_value,
+    round(c.amount * r.basis_value / v_total_basis, 4)
+  FROM tmp_cost_documents c
+  CROSS JOIN tmp_receipt_lines r;
+
+  -- Put each cost document's rounding difference on its largest line
+  UPDATE landed_cost_allocation_lines target
+  SET amount = target.amount + diff.remainder
+  FROM (
+    SELECT DISTINCT ON (a.cost_document_id)
+      a.id,
+      c.amount - SUM(a.amount) OVER (PARTITION BY a.cost_document_id) AS remainder
+    FROM landed_cost_allocation_lines a
+    JOIN tmp_cost_documents c ON c.id = a.cost_document_id
+    WHERE a.allocation_id = v_allocation_id
+    ORDER BY a.cost_document_id, a.basis_value DESC, a.id
+  ) diff
+  WHERE target.id = diff.id
+  AND diff.remainder <> 0;
+
+  -- Recompute from the line price so a new allocation replaces the previous one; the
+  -- movement cost stays in the receipt's currency
+  UPDATE stock_movements
+  SET unit_cost = r.unit_price + COALESCE(allocated.amount, 0) / r.rate / r.quantity
+  FROM tmp_receipt_lines r
+  LEFT JOIN (
+    SELECT document_line_id, SUM(amount) AS amount
+    FROM landed_cost_allocation_lines
+    WHERE allocation_id = v_allocation_id
+    GROUP BY document_line_id
+  ) allocated ON allocated.document_line_id = r.document_line_id
+  WHERE stock_movements.document_line_id = r.document_line_id
+  AND stock_movements.source_document_id = r.receipt_document_id
+  AND stock_movements.movement_type = 'IN';
+
+  INSERT INTO shipment_history (shipment_id, action_type, performed_by, remarks)
+  VALUES (
+    s.id,
+    'Landed Costs Allocated',
+    auth.uid(),
+    v_currency || ' ' || to_char(v_total_cost, 'FM999,999,999,990.00') || ' by ' || lower(p_method)
+  );
+
+  DROP TABLE tmp_receipt_lines, tmp_cost_documents;
+
+  RETURN v_allocation_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION allocate_landed_costs(uuid, text, jsonb) TO authenticated;
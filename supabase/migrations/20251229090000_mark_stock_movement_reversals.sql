@@ -0,0 +1,177 @@
+/*
+  # Mark Stock Movement Reversals
+
+  ## Overview
+  `set_stock_movement_exchange_rate` told a reversal of a document's postings apart from
+  a manual movement by its remarks starting with "Reversal: ". A manual movement linked
+  to a document with such remarks was priced in the document's currency, and any change
+  to the wording would have priced reversals in base currency. Reversals now carry an
+  explicit flag.
+
+  ## 1. Modified Tables
+
+  ### stock_movements
+  - `is_reversal` (boolean) - Set on the movements `reverse_document_approval` posts;
+    backfilled from the remarks of existing reversals
+
+  ## 2. Functions & Triggers
+  - `check_stock_movement_reversal()` - BEFORE INSERT/UPDATE trigger on
+    `stock_movements`; only the workflow functions can set `is_reversal`
+  - `set_stock_movement_exchange_rate()` - Re-created to use `is_reversal`
+  - `reverse_document_approval(...)` - Re-created to set `is_reversal`
+
+  ## 3. Important Notes
+  - As with `check_document_workflow_change`, the guard is not SECURITY DEFINER, so
+    movements inserted inside SECURITY DEFINER functions pass
+*/
+
+-- =============================================
+-- 1. MARKER
+-- =============================================
+
+ALTER TABLE stock_movements
+  ADD COLUMN IF NOT EXISTS is_reversal boolean NOT NULL DEFAULT false;
+
+UPDATE stock_movements
+SET is_reversal = true
+WHERE source_document_id IS NOT NULL
+AND document_line_id IS NULL
+AND remarks LIKE 'Reversal: %';
+
+CREATE OR REPLACE FUNCTION check_stock_movement_reversal()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF current_user NOT IN ('authenticated', 'anon') THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.is_reversal AND (TG_OP = 'INSERT' OR NOT OLD.is_reversal) THEN
+    RAISE EXCEPTION 'Reversals are only posted by reversing a document approval';
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND OLD.is_reversal AND NOT NEW.is_reversal THEN
+    RAISE EXCEPTION 'A reversal cannot be turned into another kind of movement';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_stock_movements_check_reversal ON stock_movements;
+CREATE TRIGGER trg_stock_movements_check_reversal
+  BEFORE INSERT OR UPDATE OF is_reversal ON stock_movements
+  FOR EACH ROW
+  EXECUTE FUNCTION check_stock_movement_reversal();
+
+-- =============================================
+-- 2. MOVEMENT RATES
+-- =============================================
+
+CREATE OR REPLACE FUNCTION set_stock_movement_exchange_rate()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  doc documents%ROWTYPE;
+BEGIN
+  -- Manual movements are entered in base currency even when linked to a document; only
+  -- postings from document lines and their reversals are priced in the document currency
+  IF NEW.source_document_id IS NULL
+    OR (NEW.document_line_id IS NULL AND NOT NEW.is_reversal) THEN
+    NEW.exchange_rate := 1;
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO doc FROM documents WHERE id = NEW.source_document_id;
+
+  -- Approval posts movements just before the document is marked Approved, so use the
+  -- rate it is about to capture; reversals of an Approved document use the captured one
+  NEW.exchange_rate := CASE
+    WHEN doc.status = 'Approved' AND doc.exchange_rate IS NOT NULL THEN doc.exchange_rate
+    ELSE exchange_rate_for(doc.currency, NEW.movement_date::date)
+  END;
+
+  IF NEW.exchange_rate IS NULL THEN
+    RAISE EXCEPTION 'No % exchange rate recorded on or before % to post %',
+      doc.currency, NEW.movement_date::date, doc.document_number;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- =============================================
+-- 3. REVERSALS
+-- =============================================
+
+CREATE OR REPLACE FUNCTION reverse_document_approval(p_document_id uuid, p_reason text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  doc documents%ROWTYPE;
+  net record;
+  v_now timestamptz := now();
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM users_profile
+    WHERE users_profile.id = auth.uid()
+    AND users_profile.role IN ('Approver', 'Admin')
+  ) THEN
+    RAISE EXCEPTION 'Only Approvers and Admins can reverse approvals';
+  END IF;
+
+  IF p_reason IS NULL OR btrim(p_reason) = '' THEN
+    RAISE EXCEPTION 'A reason is required to reverse an approval';
+  END IF;
+
+  SELECT * INTO doc FROM documents WHERE id = p_document_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Document % not found', p_document_id;
+  END IF;
+
+  IF doc.status <> 'Approved' THEN
+    RAISE EXCEPTION 'Only Approved documents can be reversed (current status: %)', doc.status;
+  END IF;
+
+  FOR net IN
+    SELECT
+      product_id,
+      warehouse_id,
+      SUM(stock_movement_delta(movement_type, quantity)) AS quantity,
+      MAX(unit_cost) AS unit_cost
+    FROM stock_movements
+    WHERE source_document_id = doc.id
+    GROUP BY product_id, warehouse_id
+    HAVING SUM(stock_movement_delta(movement_type, quantity)) <> 0
+  LOOP
+    INSERT INTO stock_movements (
+      product_id, warehouse_id, movement_type, quantity, unit_cost,
+      source_document_id, reference_number, remarks, is_reversal, performed_by, movement_date
+    ) VALUES (
+      net.product_id, net.warehouse_id,
+      CASE WHEN net.quantity > 0 THEN 'OUT' ELSE 'IN' END,
+      abs(net.quantity), net.unit_cost,
+      doc.id, doc.document_number, 'Reversal: ' || p_reason, true,
+      auth.uid(), v_now
+    );
+  END LOOP;
+
+  UPDATE documents
+  SET status = 'Pending', updated_at = v_now
+  WHERE id = doc.id;
+
+  PERFORM start_approval_chain(doc.id);
+
+  INSERT INTO document_history (document_id, action_type, old_status, new_status, performed_by, remarks)
+  VALUES (doc.id, 'Approval Reversed', doc.status, 'Pending', auth.uid(), p_reason);
+END;
+$$;
@@ -0,0 +1,164 @@
+/*
+  # Apply Match Tolerances in Both Directions
+
+  ## Overview
+  The three-way match only flagged an Invoice line whose unit price was above the PO
+  price, or whose quantity was above what had been received and not yet invoiced. An
+  Invoice billing well below the PO price or for less than was received matched, so a
+  mistyped price or a missed line went through unnoticed. The tolerances now apply both
+  ways: an invoiced unit price or quantity outside the tolerance above or below the PO
+  price or the invoiceable quantity is an exception.
+
+  ## 1. Functions
+  - `compute_three_way_match(p_invoice_id)` - Re-created with two-sided price and
+    quantity checks
+
+  ## 2. Important Notes
+  - A product left off the Invoice is still "Not Invoiced" rather than an exception, so
+    a PO can be invoiced product by product; invoicing part of a product's invoiceable
+    quantity is an exception Finance can override with a reason
+*/
+
+CREATE OR REPLACE FUNCTION compute_three_way_match(p_invoice_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  inv documents%ROWTYPE;
+  po documents%ROWTYPE;
+  line record;
+  v_price_tolerance numeric;
+  v_quantity_tolerance numeric;
+  v_invoiceable numeric;
+  v_quantity_ok boolean;
+  v_price_ok boolean;
+  v_status text;
+  v_issues text[] := '{}';
+  v_lines jsonb := '[]';
+BEGIN
+  SELECT * INTO inv FROM documents WHERE id = p_invoice_id;
+
+  SELECT match_price_tolerance_percent, match_quantity_tolerance_percent
+  INTO v_price_tolerance, v_quantity_tolerance
+  FROM system_settings WHERE id;
+
+  IF inv.purchase_order_id IS NOT NULL THEN
+    SELECT * INTO po FROM documents WHERE id = inv.purchase_order_id;
+  END IF;
+
+  IF po.id IS NULL THEN
+    v_issues := v_issues || 'No Purchase Order referenced'::text;
+  ELSE
+    IF po.document_type <> 'Purchase Order' THEN
+      v_issues := v_issues || format('%s is not a Purchase Order', po.document_number);
+    END IF;
+    IF po.status NOT IN ('Approved', 'Partially Received', 'Closed') THEN
+      v_issues := v_issues || format('Purchase Order %s is not Approved', po.document_number);
+    END IF;
+    IF po.currency <> inv.currency THEN
+      v_issues := v_issues || format('Invoice currency %s differs from the Purchase Order currency %s', inv.currency, po.currency);
+    END IF;
+    IF po.supplier_id IS DISTINCT FROM inv.supplier_id THEN
+      v_issues := v_issues || 'Invoice supplier differs from the Purchase Order supplier'::text;
+    END IF;
+
+    FOR line IN
+      WITH invoiced AS (
+        SELECT product_id, SUM(base_quantity) AS quantity, SUM(line_total) / SUM(base_quantity) AS unit_price
+        FROM document_lines WHERE document_id = inv.id
+        GROUP BY product_id
+      ),
+      ordered AS (
+        SELECT product_id, SUM(base_quantity) AS quantity, SUM(line_total) / SUM(base_quantity) AS unit_price
+        FROM document_lines WHERE document_id = po.id
+        GROUP BY product_id
+      ),
+      received AS (
+        SELECT l.product_id, SUM(l.base_quantity) AS quantity
+        FROM documents d
+        JOIN document_lines l ON l.document_id = d.id
+        WHERE d.purchase_order_id = po.id
+        AND d.document_type = 'Goods Receipt'
+        AND d.status = 'Approved'
+        GROUP BY l.product_id
+      ),
+      previously_invoiced AS (
+        SELECT l.product_id, SUM(l.base_quantity) AS quantity
+        FROM documents d
+        JOIN document_lines l ON l.document_id = d.id
+        WHERE d.purchase_order_id = po.id
+        AND d.document_type = 'Invoice'
+        AND d.status = 'Approved'
+        AND d.id <> inv.id
+        GROUP BY l.product_id
+      )
+      SELECT
+        p.id AS product_id,
+        p.sku,
+        p.name,
+        p.unit_of_measure,
+        COALESCE(o.quantity, 0) AS ordered_quantity,
+        round(o.unit_price, 4) AS ordered_unit_price,
+        COALESCE(r.quantity, 0) AS received_quantity,
+        COALESCE(prev.quantity, 0) AS previously_invoiced_quantity,
+        COALESCE(i.quantity, 0) AS invoiced_quantity,
+        round(i.unit_price, 4) AS invoiced_unit_price
+      FROM (SELECT product_id FROM invoiced UNION SELECT product_id FROM ordered) k
+      JOIN products p ON p.id = k.product_id
+      LEFT JOIN invoiced i ON i.product_id = k.product_id
+      LEFT JOIN ordered o ON o.product_id = k.product_id
+      LEFT JOIN received r ON r.product_id = k.product_id
+      LEFT JOIN previously_invoiced prev ON prev.product_id = k.product_id
+      ORDER BY p.sku
+    LOOP
+      v_invoiceable := GREATEST(line.received_quantity - line.previously_invoiced_quantity, 0);
+      v_quantity_ok := abs(line.invoiced_quantity - v_invoiceable) <= v_invoiceable * v_quantity_tolerance / 100;
+      v_price_ok := line.ordered_unit_price IS NULL
+        OR line.invoiced_unit_price IS NULL
+        OR abs(line.invoiced_unit_price - line.ordered_unit_price) <= line.ordered_unit_price * v_price_tolerance / 100;
+
+      v_status := CASE
+        WHEN line.invoiced_quantity = 0 THEN 'Not Invoiced'
+        WHEN line.ordered_unit_price IS NULL THEN 'Not on PO'
+        WHEN NOT v_quantity_ok AND NOT v_price_ok THEN 'Quantity and Price Variance'
+        WHEN NOT v_quantity_ok THEN 'Quantity Variance'
+        WHEN NOT v_price_ok THEN 'Price Variance'
+        ELSE 'Matched'
+      END;
+
+      IF v_status NOT IN ('Matched', 'Not Invoiced') THEN
+        v_issues := v_issues || format('%s: %s', line.sku, v_status);
+      END IF;
+
+      v_lines := v_lines || jsonb_build_object(
+        'product_id', line.product_id,
+        'sku', line.sku,
+        'name', line.name,
+        'unit_of_measure', line.unit_of_measure,
+        'ordered_quantity', line.ordered_quantity,
+        'ordered_unit_price', line.ordered_unit_price,
+        'received_quantity', line.received_quantity,
+        'previously_invoiced_quantity', line.previously_invoiced_quantity,
+        'invoiceable_quantity', v_invoiceable,
+        'invoiced_quantity', line.invoiced_quantity,
+        'invoiced_unit_price', line.invoiced_unit_price,
+        'status', v_status
+      );
+    END LOOP;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'purchase_order_id', po.id,
+    'purchase_order_number', po.document_number,
+    'price_tolerance_percent', v_price_tolerance,
+    'quantity_tolerance_percent', v_quantity_tolerance,
+    'issues', to_jsonb(v_issues),
+    'lines', v_lines
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION compute_three_way_match(uuid) FROM PUBLIC, anon, authenticated;